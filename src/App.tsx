@@ -1,28 +1,87 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Card, CardImage } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AppSettings, Card, CardImage, RekeyJournal, VaultKeyring } from './types';
 import { useAuth } from './context/AuthContext';
 import { PassphraseSetupModal } from './components/modals/PassphraseSetupModal';
 import { CardForm } from './components/cards/CardForm';
+import { CardImageView } from './components/cards/CardImageView';
 import { CardDetailModal } from './components/modals/CardDetailModal';
+import { ChangePassphraseModal } from './components/modals/ChangePassphraseModal';
+import { KeyFileInput } from './components/modals/KeyFileInput';
+import { RecoveryKitModal } from './components/modals/RecoveryKitModal';
+import { PassphraseInput } from './components/modals/PassphraseInput';
+import { RekeyRecoveryModal } from './components/modals/RekeyRecoveryModal';
+import { LockSettingsModal } from './components/modals/LockSettingsModal';
+import { QuickUnlockModal } from './components/modals/QuickUnlockModal';
+import { MergeConflictModal } from './components/modals/MergeConflictModal';
 import { LandingPage } from './components/LandingPage';
 import { Logo } from './components/common/Logo';
+import { ClipboardToast } from './components/common/ClipboardToast';
+import { SyncStatusIndicator } from './components/common/SyncStatusIndicator';
 import { createCardFromFormData, updateCardFromFormData } from './utils/cardValidation';
-import { migrateCardToNewFormat, getCardImages, filesToCardImages, cleanupCardImageUrls } from './utils/cardMigration';
+import { MergeChoice, applyMergeChoices, cardMergeFields, preferenceMergeFields } from './utils/conflictMerge';
+import { migrateCardToNewFormat, getCardImages, filesToCardImages } from './utils/cardMigration';
 import { 
   initializeDriveStorage, 
   saveCardToDrive, 
-  loadCardFromDrive, 
-  loadPreferencesFromDrive,
+  loadCardRecordFromDrive, 
   listCardsFromDrive,
+  listCardChangesFromDrive,
+  startCardChangeTracking,
   updateCardInDrive,
   deleteCardFromDrive,
-  deleteAllCardsFromDrive
+  deleteAllCardsFromDrive,
+  saveVaultConfigToDrive,
+  loadVaultConfigFromDrive,
+  loadKeyFileFromDrive,
+  verifyVaultManifestInDrive,
+  acceptVaultStateInDrive,
+  loadPreferencesFromDrive,
+  savePreferencesToDrive,
+  loadConflictsFromDrive,
+  resolveConflictInDrive,
+  VaultConflict
 } from './services/driveStorage';
+import { ManifestReport } from './services/vaultManifest';
 import { vaultSession } from './services/vaultSession';
+import {
+  PinAttemptError,
+  PIN_MAX_LENGTH,
+  getQuickUnlockStatus,
+  unlockWithPin,
+  disableQuickUnlock,
+  setQuickUnlockLifetime
+} from './services/quickUnlock';
+import { broadcastVaultMessage, subscribeVaultMessages } from './services/vaultChannel';
+import { LockReason, startLockPolicy, sessionPolicyFromSettings, describeLockReason } from './services/lockPolicy';
+import { DEFAULT_APP_SETTINGS, settingsFromPreferences } from './utils/settings';
+import { userInputsFromProfile } from './services/passphraseStrength';
+import { recordVerification, clearVerification } from './services/stepUp';
+import { clearCopiedSecret } from './services/clipboard';
+import {
+  createVault,
+  unlockVault,
+  migrateLegacyData,
+  applyBindingPolicy,
+  createRecoveryKey,
+  normalizeRecoveryKey,
+  rewrapPassphrase,
+  vaultRequiresKeyFile,
+  KeyFileError
+} from './services/vaultKeys';
+import { getPendingRekey } from './services/vaultRekey';
+import { SecretShare, decodeShare, combineShares } from './services/shamir';
+import { setActiveKdf, LEGACY_KDF_PARAMS, TamperError } from './services/crypto';
+import { CryptoBatchProgress, CryptoTaskCancelledError, runCryptoBatch, resetCryptoPool } from './services/cryptoPool';
+import { setStorageProvider } from './services/storageProvider';
+import { createDriveStorageProvider } from './services/driveStorageProvider';
+import { OfflineStorageProvider, createOfflineStorageProvider, isNetworkFailure } from './services/offlineStorageProvider';
 
 type AppView = 'landing' | 'demo' | 'setup' | 'passphrase-entry' | 'dashboard';
 type CardModalMode = 'create' | 'edit' | null;
 
+// Lock policy triggers, plus locks that come from outside this tab
+type VaultLockReason = LockReason | 'other-tab' | 'rekey' | 'signed-out' | 'vault-deleted';
+
 interface AppState {
   hasPassphrase: boolean;
   isDataLoaded: boolean;
@@ -30,12 +89,26 @@ interface AppState {
   error: string | null;
 }
 
+// How often an open vault checks Drive for cards changed on other devices
+const CARD_SYNC_INTERVAL_MS = 60_000;
+
+function describeTamperedCards(count: number): string {
+  return `${count} card file${count === 1 ? '' : 's'} in your Drive failed integrity checks ` +
+    '(modified or swapped with another card) and were not loaded.';
+}
+
 // Enhanced Header Component with Branding (Fixed Layout)
-function Header({ user, onSignOut, showDemo = false, onShowDemo, onDeleteVault }: { 
+function Header({ user, storage, onSignOut, showDemo = false, onShowDemo, onSyncFromDrive, onChangePassphrase, onLockSettings, onQuickUnlock, onNewRecoveryKit, onDeleteVault }: { 
   user: any; 
+  storage?: OfflineStorageProvider | null;
   onSignOut: () => void; 
   showDemo?: boolean;
   onShowDemo?: () => void;
+  onSyncFromDrive?: () => void;
+  onChangePassphrase?: () => void;
+  onLockSettings?: () => void;
+  onQuickUnlock?: () => void;
+  onNewRecoveryKit?: () => void;
   onDeleteVault?: () => void;
 }) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -66,6 +139,7 @@ function Header({ user, onSignOut, showDemo = false, onShowDemo, onDeleteVault }
             )}
             {user && (
               <>
+                {storage && <SyncStatusIndicator storage={storage} />}
                 <div className="flex items-center space-x-2">
                   <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
                     <span className="text-primary text-sm font-semibold">
@@ -90,6 +164,61 @@ function Header({ user, onSignOut, showDemo = false, onShowDemo, onDeleteVault }
                   
                   {showMoreOptions && (
                     <div className="absolute right-0 mt-2 w-48 bg-surface border border-slate-700 rounded-lg shadow-lg py-1">
+                      {onSyncFromDrive && (
+                        <button
+                          onClick={() => {
+                            setShowMoreOptions(false);
+                            onSyncFromDrive();
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-text-secondary hover:text-text-primary hover:bg-background transition-colors"
+                        >
+                          Sync from Drive
+                        </button>
+                      )}
+                      {onChangePassphrase && (
+                        <button
+                          onClick={() => {
+                            setShowMoreOptions(false);
+                            onChangePassphrase();
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-text-secondary hover:text-text-primary hover:bg-background transition-colors"
+                        >
+                          Change Passphrase
+                        </button>
+                      )}
+                      {onLockSettings && (
+                        <button
+                          onClick={() => {
+                            setShowMoreOptions(false);
+                            onLockSettings();
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-text-secondary hover:text-text-primary hover:bg-background transition-colors"
+                        >
+                          Lock & Reveal Settings
+                        </button>
+                      )}
+                      {onQuickUnlock && (
+                        <button
+                          onClick={() => {
+                            setShowMoreOptions(false);
+                            onQuickUnlock();
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-text-secondary hover:text-text-primary hover:bg-background transition-colors"
+                        >
+                          Quick Unlock PIN
+                        </button>
+                      )}
+                      {onNewRecoveryKit && (
+                        <button
+                          onClick={() => {
+                            setShowMoreOptions(false);
+                            onNewRecoveryKit();
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-text-secondary hover:text-text-primary hover:bg-background transition-colors"
+                        >
+                          New Recovery Kit
+                        </button>
+                      )}
                       {onDeleteVault && (
                         <button
                           onClick={() => {
@@ -122,18 +251,21 @@ function Header({ user, onSignOut, showDemo = false, onShowDemo, onDeleteVault }
 
           {/* Mobile menu button */}
           {user && (
-            <button
-              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-              className="md:hidden p-2 rounded-md text-text-secondary hover:text-text-primary hover:bg-surface"
-            >
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                {mobileMenuOpen ? (
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                ) : (
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-                )}
-              </svg>
-            </button>
+            <div className="md:hidden flex items-center space-x-2">
+              {storage && <SyncStatusIndicator storage={storage} />}
+              <button
+                onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+                className="p-2 rounded-md text-text-secondary hover:text-text-primary hover:bg-surface"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  {mobileMenuOpen ? (
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  ) : (
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                  )}
+                </svg>
+              </button>
+            </div>
           )}
         </div>
 
@@ -161,6 +293,61 @@ function Header({ user, onSignOut, showDemo = false, onShowDemo, onDeleteVault }
                 View Demo
               </button>
             )}
+            {onSyncFromDrive && (
+              <button
+                onClick={() => {
+                  setMobileMenuOpen(false);
+                  onSyncFromDrive();
+                }}
+                className="w-full text-left text-sm font-medium text-text-secondary hover:text-text-primary transition-colors py-2"
+              >
+                Sync from Drive
+              </button>
+            )}
+            {onChangePassphrase && (
+              <button
+                onClick={() => {
+                  setMobileMenuOpen(false);
+                  onChangePassphrase();
+                }}
+                className="w-full text-left text-sm font-medium text-text-secondary hover:text-text-primary transition-colors py-2"
+              >
+                Change Passphrase
+              </button>
+            )}
+            {onLockSettings && (
+              <button
+                onClick={() => {
+                  setMobileMenuOpen(false);
+                  onLockSettings();
+                }}
+                className="w-full text-left text-sm font-medium text-text-secondary hover:text-text-primary transition-colors py-2"
+              >
+                Lock & Reveal Settings
+              </button>
+            )}
+            {onQuickUnlock && (
+              <button
+                onClick={() => {
+                  setMobileMenuOpen(false);
+                  onQuickUnlock();
+                }}
+                className="w-full text-left text-sm font-medium text-text-secondary hover:text-text-primary transition-colors py-2"
+              >
+                Quick Unlock PIN
+              </button>
+            )}
+            {onNewRecoveryKit && (
+              <button
+                onClick={() => {
+                  setMobileMenuOpen(false);
+                  onNewRecoveryKit();
+                }}
+                className="w-full text-left text-sm font-medium text-text-secondary hover:text-text-primary transition-colors py-2"
+              >
+                New Recovery Kit
+              </button>
+            )}
             {onDeleteVault && (
               <button
                 onClick={() => {
@@ -372,14 +559,30 @@ function DeleteVaultModal({ isOpen, onClose, onConfirm }: {
 }
 
 // Enhanced Passphrase Entry Component
-function PassphraseEntry({ onSuccess, onCancel }: { 
-  onSuccess: (passphrase: string) => void; 
+function PassphraseEntry({ accountId, onSuccess, onCancel, notice }: { 
+  accountId: string;
+  onSuccess: (keyring: VaultKeyring) => void; 
   onCancel: () => void; 
+  notice?: string | null;
 }) {
   const [passphrase, setPassphrase] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showPassphrase, setShowPassphrase] = useState(false);
+  const [useRecoveryKey, setUseRecoveryKey] = useState(false);
+  const [usePin, setUsePin] = useState(false);
+  const [requiresKeyFile, setRequiresKeyFile] = useState(false);
+  const [keyFileHash, setKeyFileHash] = useState<Uint8Array | null>(null);
+  const [keyFileName, setKeyFileName] = useState<string | null>(null);
+
+  // Offer the PIN first when quick unlock is set up on this device
+  useEffect(() => {
+    getQuickUnlockStatus(accountId).then(status => setUsePin(status !== null));
+  }, [accountId]);
+
+  useEffect(() => {
+    vaultRequiresKeyFile().then(setRequiresKeyFile).catch(() => setRequiresKeyFile(false));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -389,17 +592,42 @@ function PassphraseEntry({ onSuccess, onCancel }: {
     setError(null);
 
     try {
-      await loadPreferencesFromDrive(passphrase);
-      // Store passphrase in session for 5 minutes
-      await vaultSession.storePassphrase(passphrase);
-      onSuccess(passphrase);
+      const keyring = await unlockVault(passphrase, 'passphrase', keyFileHash ?? undefined);
+      // Keep the vault key (never the passphrase) in the session for 5 minutes
+      await vaultSession.storeKeyring(keyring);
+      onSuccess(keyring);
     } catch (err: any) {
-      setError('Invalid passphrase. Please try again.');
+      if (err instanceof KeyFileError) {
+        setRequiresKeyFile(true);
+        setError(err.reason === 'missing'
+          ? 'This vault also requires its key file. Add it below.'
+          : 'That key file does not belong to this vault. Choose the right file.');
+      } else {
+        setError('Invalid passphrase. Please try again.');
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (useRecoveryKey) {
+    return <RecoveryKeyUnlock onSuccess={onSuccess} onBack={() => setUseRecoveryKey(false)} />;
+  }
+
+  if (usePin) {
+    return (
+      <PinUnlock
+        accountId={accountId}
+        notice={notice}
+        onSuccess={onSuccess}
+        onUsePassphrase={(reason) => {
+          setUsePin(false);
+          setError(reason ?? null);
+        }}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <div className="bg-surface max-w-md w-full p-8 rounded-lg shadow-2xl">
@@ -414,6 +642,12 @@ function PassphraseEntry({ onSuccess, onCancel }: {
           Enter your passphrase to unlock your vault
         </p>
 
+        {notice && (
+          <div className="mb-6 p-3 bg-amber-900/20 border border-amber-800 rounded-md">
+            <p className="text-amber-200 text-small">{notice}</p>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="relative">
             <input
@@ -443,6 +677,17 @@ function PassphraseEntry({ onSuccess, onCancel }: {
             </button>
           </div>
 
+          {requiresKeyFile && (
+            <KeyFileInput
+              fileName={keyFileName}
+              onChange={(hash, name) => {
+                setKeyFileHash(hash);
+                setKeyFileName(name);
+              }}
+              disabled={isLoading}
+            />
+          )}
+
           {error && (
             <div className="p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
               <p className="text-red-200 text-small flex items-center">
@@ -474,7 +719,15 @@ function PassphraseEntry({ onSuccess, onCancel }: {
             )}
           </button>
 
-          <div className="text-center">
+          <div className="text-center space-y-2">
+            <button
+              type="button"
+              onClick={() => setUseRecoveryKey(true)}
+              className="block w-full text-sm text-primary hover:text-blue-400 transition-colors"
+              disabled={isLoading}
+            >
+              {requiresKeyFile ? 'Lost your passphrase or key file?' : 'Forgot your passphrase?'} Use your recovery key
+            </button>
             <button
               type="button"
               onClick={onCancel}
@@ -490,9 +743,377 @@ function PassphraseEntry({ onSuccess, onCancel }: {
   );
 }
 
+// PIN Unlock - reopens the vault with the quick unlock PIN set after a full unlock
+function PinUnlock({ accountId, notice, onSuccess, onUsePassphrase }: {
+  accountId: string;
+  notice?: string | null;
+  onSuccess: (keyring: VaultKeyring) => void;
+  onUsePassphrase: (reason?: string) => void;
+}) {
+  const [pin, setPin] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const keyring = await unlockWithPin(pin, accountId);
+      setPin('');
+      
+      // A passphrase change elsewhere replaced the key this PIN protects
+      const keyFile = await loadKeyFileFromDrive();
+      if (keyFile?.keyId !== keyring.keyId) {
+        await disableQuickUnlock();
+        onUsePassphrase('Your passphrase was changed since the PIN was set. Enter your passphrase.');
+        return;
+      }
+      
+      await vaultSession.storeKeyring(keyring);
+      onSuccess(keyring);
+    } catch (err) {
+      setPin('');
+      if (err instanceof PinAttemptError && err.attemptsLeft === 0) {
+        onUsePassphrase(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to unlock with PIN');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="bg-surface max-w-md w-full p-8 rounded-lg shadow-2xl">
+        <div className="flex items-center justify-center mb-6">
+          <Logo size={48} className="text-primary" />
+        </div>
+        
+        <h2 className="text-h2 font-semibold text-text-primary mb-2 text-center">
+          Welcome back
+        </h2>
+        <p className="text-text-secondary mb-6 text-center">
+          Enter your PIN to unlock your vault
+        </p>
+
+        {notice && (
+          <div className="mb-6 p-3 bg-amber-900/20 border border-amber-800 rounded-md">
+            <p className="text-amber-200 text-small">{notice}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={PIN_MAX_LENGTH}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            placeholder="PIN"
+            className="w-full px-4 py-3 bg-background border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text-primary placeholder-text-secondary text-center text-xl tracking-widest"
+            autoFocus
+            disabled={isLoading}
+          />
+
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+              <p className="text-red-200 text-small">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            className="w-full px-6 py-3 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 font-medium flex items-center justify-center space-x-2"
+            disabled={!pin || isLoading}
+          >
+            {isLoading ? (
+              <>
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                <span>Unlocking...</span>
+              </>
+            ) : (
+              <span>Unlock Vault</span>
+            )}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => onUsePassphrase()}
+            className="block w-full text-sm text-primary hover:text-blue-400 transition-colors"
+            disabled={isLoading}
+          >
+            Use your passphrase instead
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// Recovery Key Unlock - opens the vault with a recovery key (or enough of its
+// Shamir shares), then requires a new passphrase
+function RecoveryKeyUnlock({ onSuccess, onBack }: {
+  onSuccess: (keyring: VaultKeyring) => void;
+  onBack: () => void;
+}) {
+  const [method, setMethod] = useState<'key' | 'shares'>('key');
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [shareInput, setShareInput] = useState('');
+  const [shares, setShares] = useState<SecretShare[]>([]);
+  const [keyring, setKeyring] = useState<VaultKeyring | null>(null);
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isNewValid, setIsNewValid] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unlockWithRecoveryKey = async (input: string) => {
+    const normalizedKey = normalizeRecoveryKey(input);
+    if (!normalizedKey) {
+      setError('That does not look like a recovery key. Check for typos and try again.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setKeyring(await unlockVault(normalizedKey, 'recovery'));
+      setRecoveryKey('');
+      setShares([]);
+    } catch (err) {
+      setError('Invalid recovery key. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await unlockWithRecoveryKey(recoveryKey);
+  };
+
+  const handleAddShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const share = await decodeShare(shareInput);
+      if (shares.length > 0 && share.setId !== shares[0].setId) {
+        throw new Error('This share belongs to a different recovery set');
+      }
+      if (shares.some(s => s.index === share.index)) {
+        throw new Error(`Share ${share.index} was already added`);
+      }
+
+      const collected = [...shares, share];
+      setShares(collected);
+      setShareInput('');
+
+      if (collected.length >= share.threshold) {
+        await unlockWithRecoveryKey(new TextDecoder().decode(combineShares(collected)));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid share');
+    }
+  };
+
+  const handleSetPassphrase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!keyring || !isNewValid || newPassphrase !== confirmPassphrase) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await rewrapPassphrase(keyring, newPassphrase);
+      await vaultSession.storeKeyring(keyring);
+      onSuccess(keyring);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set new passphrase');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="bg-surface max-w-md w-full p-8 rounded-lg shadow-2xl">
+        <div className="flex items-center justify-center mb-6">
+          <Logo size={48} className="text-primary" />
+        </div>
+
+        {!keyring ? (
+          <>
+            <h2 className="text-h2 font-semibold text-text-primary mb-2 text-center">
+              Recover your vault
+            </h2>
+            <p className="text-text-secondary mb-6 text-center">
+              {method === 'key'
+                ? 'Enter the recovery key from your recovery kit'
+                : 'Enter the recovery shares from your trusted people, one at a time'}
+            </p>
+
+            {method === 'shares' ? (
+              <form onSubmit={handleAddShare} className="space-y-6">
+                {shares.length > 0 && (
+                  <p className="text-sm text-text-secondary text-center">
+                    {shares.length} of {shares[0].threshold} shares added
+                    (share{shares.length > 1 ? 's' : ''} {shares.map(s => s.index).join(', ')})
+                  </p>
+                )}
+                <textarea
+                  value={shareInput}
+                  onChange={(e) => setShareInput(e.target.value)}
+                  placeholder="SCS1-..."
+                  rows={3}
+                  className="w-full px-4 py-3 bg-background border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text-primary placeholder-text-secondary font-mono text-sm"
+                  autoFocus
+                  autoComplete="off"
+                  spellCheck={false}
+                  disabled={isLoading}
+                />
+
+                {error && (
+                  <div className="p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+                    <p className="text-red-200 text-small">{error}</p>
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  className="w-full px-6 py-3 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 font-medium"
+                  disabled={!shareInput.trim() || isLoading}
+                >
+                  {isLoading ? 'Unlocking...' : 'Add Share'}
+                </button>
+              </form>
+            ) : (
+              <form onSubmit={handleUnlock} className="space-y-6">
+                <textarea
+                  value={recoveryKey}
+                  onChange={(e) => setRecoveryKey(e.target.value)}
+                  placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                  rows={2}
+                  className="w-full px-4 py-3 bg-background border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text-primary placeholder-text-secondary font-mono"
+                  autoFocus
+                  autoComplete="off"
+                  spellCheck={false}
+                  disabled={isLoading}
+                />
+
+                {error && (
+                  <div className="p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+                    <p className="text-red-200 text-small">{error}</p>
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  className="w-full px-6 py-3 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 font-medium"
+                  disabled={!recoveryKey.trim() || isLoading}
+                >
+                  {isLoading ? 'Unlocking...' : 'Unlock with Recovery Key'}
+                </button>
+              </form>
+            )}
+
+            <div className="text-center mt-4">
+              <button
+                type="button"
+                onClick={() => {
+                  setMethod(method === 'key' ? 'shares' : 'key');
+                  setShares([]);
+                  setError(null);
+                }}
+                className="text-sm text-primary hover:text-blue-400 transition-colors"
+                disabled={isLoading}
+              >
+                {method === 'key' ? 'Use shares from trusted people instead' : 'Use the full recovery key instead'}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <h2 className="text-h2 font-semibold text-text-primary mb-2 text-center">
+              Set a new passphrase
+            </h2>
+            <p className="text-text-secondary mb-6 text-center">
+              Your vault is unlocked. Choose a new passphrase to finish recovery.
+              A key file, if you used one, will no longer be required.
+            </p>
+
+            <form onSubmit={handleSetPassphrase} className="space-y-4">
+              <PassphraseInput
+                value={newPassphrase}
+                onChange={setNewPassphrase}
+                onValidationChange={setIsNewValid}
+                placeholder="Enter a new passphrase"
+                autoFocus
+                showStrengthMeter
+                showGenerateButton
+              />
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder="Confirm new passphrase"
+                className="w-full px-4 py-3 bg-background border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text-primary placeholder-text-secondary"
+                disabled={isLoading}
+              />
+              {confirmPassphrase && newPassphrase !== confirmPassphrase && (
+                <p className="text-xs text-red-400">Passphrases do not match</p>
+              )}
+
+              {error && (
+                <div className="p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+                  <p className="text-red-200 text-small">{error}</p>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                className="w-full px-6 py-3 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 font-medium"
+                disabled={!isNewValid || newPassphrase !== confirmPassphrase || isLoading}
+              >
+                {isLoading ? 'Saving...' : 'Save Passphrase & Open Vault'}
+              </button>
+            </form>
+          </>
+        )}
+
+        {!keyring && (
+          <div className="text-center mt-6">
+            <button
+              type="button"
+              onClick={onBack}
+              className="text-sm text-text-secondary hover:text-text-primary transition-colors"
+              disabled={isLoading}
+            >
+              Back to passphrase
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Enhanced Dashboard Component with Mobile-Friendly Design
 // Loading Overlay Component
-function LoadingOverlay({ message = "Loading your secure vault..." }: { message?: string }) {
+function LoadingOverlay({ message = "Loading your secure vault...", progress = null }: {
+  message?: string;
+  progress?: CryptoBatchProgress | null;
+}) {
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : null;
+
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 backdrop-blur-sm">
       <div className="bg-surface rounded-lg p-8 max-w-sm w-full mx-4 shadow-2xl">
@@ -505,10 +1126,16 @@ function LoadingOverlay({ message = "Loading your secure vault..." }: { message?
           </div>
           <p className="text-text-primary font-medium mb-2">{message}</p>
           <p className="text-text-secondary text-sm text-center">
-            Decrypting your cards with your passphrase...
+            {progress && progress.total > 0
+              ? `Decrypting card ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...`
+              : 'Decrypting your cards with your passphrase...'}
           </p>
           <div className="mt-4 w-full bg-gray-700 rounded-full h-2">
-            <div className="bg-primary h-2 rounded-full animate-pulse" style={{ width: '60%' }}></div>
+            {percent === null ? (
+              <div className="bg-primary h-2 rounded-full animate-pulse" style={{ width: '60%' }}></div>
+            ) : (
+              <div className="bg-primary h-2 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
+            )}
           </div>
         </div>
       </div>
@@ -598,12 +1225,12 @@ function Dashboard({
 
     return (
       <div className="relative h-32 overflow-hidden">
-        <img
-          src={images[currentIndex].url}
+        <CardImageView
+          image={images[currentIndex]}
           alt={`${cardNickname} - Image ${currentIndex + 1}`}
           className="w-full h-full object-cover"
           onError={(e) => {
-            console.error('Image failed to load:', images[currentIndex].url);
+            console.error('Image failed to load:', images[currentIndex].name);
             // Hide broken image
             e.currentTarget.style.display = 'none';
           }}
@@ -664,12 +1291,12 @@ function Dashboard({
 
     return (
       <div className="w-12 h-12 rounded-lg overflow-hidden flex-shrink-0 relative">
-        <img
-          src={images[0].url}
+        <CardImageView
+          image={images[0]}
           alt={`${cardNickname} thumbnail`}
           className="w-full h-full object-cover"
           onError={(e) => {
-            console.error('Thumbnail failed to load:', images[0].url);
+            console.error('Thumbnail failed to load:', images[0].name);
             // Hide broken image
             e.currentTarget.style.display = 'none';
           }}
@@ -992,17 +1619,74 @@ function Dashboard({
 }
 
 // Main App Component
+// Summarize a vault manifest check for the warning banner, or null if nothing is wrong
+function describeManifestReport(report: ManifestReport): string | null {
+  const cards = (count: number) => `${count} card${count === 1 ? '' : 's'}`;
+  const problems: string[] = [];
+  
+  if (report.status === 'missing') {
+    problems.push('the vault manifest was deleted');
+  } else if (report.status === 'rolled-back') {
+    problems.push('the vault manifest was restored to an older version');
+  } else if (report.status === 'unreadable') {
+    problems.push('the vault manifest failed its integrity check');
+  }
+  if (report.missing.length > 0) {
+    problems.push(`${cards(report.missing.length)} listed in the manifest are missing from Drive`);
+  }
+  if (report.extra.length > 0) {
+    problems.push(`${cards(report.extra.length)} on Drive are not in the manifest`);
+  }
+  if (report.rolledBack.length > 0) {
+    problems.push(`${cards(report.rolledBack.length)} were rolled back or changed outside SecureCardr`);
+  }
+  
+  return problems.length > 0 ? `Vault check: ${problems.join('; ')}.` : null;
+}
+
+// Explain why the passphrase is being asked for again
+function describeVaultLock(reason: VaultLockReason): string | null {
+  switch (reason) {
+    case 'other-tab':
+      return 'Your vault was locked in another tab.';
+    case 'rekey':
+      return 'Your passphrase is being changed in another tab. Unlock once it has finished.';
+    case 'signed-out':
+    case 'vault-deleted':
+      return null;
+    default:
+      return describeLockReason(reason);
+  }
+}
+
 function App() {
   const { user, loading, signIn, signOut } = useAuth();
   const [currentView, setCurrentView] = useState<AppView>('landing');
   const [showDemoModal, setShowDemoModal] = useState(false);
   const [showDeleteVaultModal, setShowDeleteVaultModal] = useState(false);
-  const [passphrase, setPassphrase] = useState<string | null>(null);
+  const [showChangePassphraseModal, setShowChangePassphraseModal] = useState(false);
+  const [showLockSettingsModal, setShowLockSettingsModal] = useState(false);
+  const [showQuickUnlockModal, setShowQuickUnlockModal] = useState(false);
+  const [keyring, setKeyring] = useState<VaultKeyring | null>(null);
+  const [preferences, setPreferences] = useState<Record<string, unknown>>({});
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
+  const [lockReason, setLockReason] = useState<VaultLockReason | null>(null);
+  const unlockedAtRef = useRef(Date.now());
+  const [pendingRekey, setPendingRekey] = useState<RekeyJournal | null>(null);
+  const [isMigratingLegacyData, setIsMigratingLegacyData] = useState(false);
+  const [offlineStorage, setOfflineStorage] = useState<OfflineStorageProvider | null>(null);
+  const [conflictCount, setConflictCount] = useState(0);
+  const [conflicts, setConflicts] = useState<VaultConflict[]>([]);
+  const [manifestReport, setManifestReport] = useState<ManifestReport | null>(null);
+  const [manifestRecords, setManifestRecords] = useState<Array<{ id: string; hash: string; imageHash?: string }>>([]);
+  const [recoveryKit, setRecoveryKit] = useState<{ recoveryKey: string; createdAt: Date } | null>(null);
   const [cards, setCards] = useState<Card[]>([]);
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
   const [cardModalMode, setCardModalMode] = useState<CardModalMode>(null);
   const [cardToEdit, setCardToEdit] = useState<Card | null>(null);
   const [showCardDetail, setShowCardDetail] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<CryptoBatchProgress | null>(null);
+  const loadAbortRef = useRef<AbortController | null>(null);
   const [appState, setAppState] = useState<AppState>({
     hasPassphrase: false,
     isDataLoaded: false,
@@ -1011,76 +1695,227 @@ function App() {
   });
 
   // Helper function to load user cards with optimized loading
-  const loadUserCards = useCallback(async (userPassphrase: string) => {
+  const loadUserCards = useCallback(async (userKeyring: VaultKeyring) => {
     setAppState(prev => ({ ...prev, isLoading: true }));
     
+    // Locking the vault aborts the load; a newer load replaces this one
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    
     try {
+      // Taken before listing, so later syncs only fetch what changes from here on
+      await startCardChangeTracking().catch(error => console.warn('Incremental card sync unavailable:', error));
       const cardsList = await listCardsFromDrive();
       
-      // Load cards with progress indication
-      let loadedCount = 0;
+      let tamperedCount = 0;
+      const records: Array<{ id: string; hash: string; imageHash?: string }> = [];
+      
+      // Downloads overlap while the worker pool decrypts; progress is reported per card
+      const results = await runCryptoBatch(
+        cardsList,
+        async (cardInfo) => {
+          const record = await loadCardRecordFromDrive(cardInfo.fileId, userKeyring, cardInfo.id);
+          return { cardInfo, ...record };
+        },
+        { signal: controller.signal, onProgress: setLoadProgress }
+      );
       
-      // Use Promise.all for parallel loading with error handling
-      const cardPromises = cardsList.map(async (cardInfo) => {
-        try {
-          const cardData = await loadCardFromDrive(cardInfo.fileId, userPassphrase);
-          loadedCount++;
-          
-          // Update loading progress
-          if (loadedCount % 5 === 0) {
-            // Update UI every 5 cards to avoid too many re-renders
-            setAppState(prev => ({ ...prev, isLoading: true }));
+      const validCards: Card[] = [];
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          if (result.reason instanceof TamperError) {
+            tamperedCount++;
           }
-          
-          // Migrate card to new format if needed
-          const migratedCard = migrateCardToNewFormat(cardData);
-          
-          return {
-            ...migratedCard,
-            driveFileId: cardInfo.fileId
-          } as Card;
-        } catch (error) {
-          console.error(`Failed to load card ${cardInfo.id}:`, error);
-          return null;
+          console.error(`Failed to load card ${cardsList[index].id}:`, result.reason);
+          return;
         }
+        
+        const { cardInfo, card: cardData, hash, imageHash } = result.value;
+        records.push({ id: cardInfo.id, hash, imageHash });
+        
+        // Migrate card to new format if needed
+        validCards.push({
+          ...migrateCardToNewFormat(cardData),
+          driveFileId: cardInfo.fileId
+        } as Card);
       });
       
-      const results = await Promise.all(cardPromises);
-      const validCards = results.filter((card): card is Card => card !== null);
-      
       setCards(validCards);
-      setAppState(prev => ({ ...prev, isDataLoaded: true }));
+      setAppState(prev => ({
+        ...prev,
+        isDataLoaded: true,
+        error: tamperedCount > 0 ? describeTamperedCards(tamperedCount) : null
+      }));
+      
+      // Check for deleted, unexpected or rolled-back cards in the background
+      setManifestRecords(records);
+      verifyVaultManifestInDrive(userKeyring, cardsList.map(cardInfo => cardInfo.id), records)
+        .then(report => setManifestReport(describeManifestReport(report) ? report : null))
+        .catch(error => console.error('Failed to verify vault manifest:', error));
     } catch (error) {
+      if (error instanceof CryptoTaskCancelledError) {
+        return;
+      }
       console.error('Failed to load cards:', error);
       setAppState(prev => ({ ...prev, error: 'Failed to load cards' }));
     } finally {
-      setAppState(prev => ({ ...prev, isLoading: false }));
+      if (loadAbortRef.current === controller) {
+        loadAbortRef.current = null;
+        setLoadProgress(null);
+        setAppState(prev => ({ ...prev, isLoading: false }));
+      }
     }
   }, []);
 
+  // Apply cards added, changed or removed elsewhere since the last load or sync
+  const syncUserCards = useCallback(async (userKeyring: VaultKeyring) => {
+    // A load or sync in progress picks everything up
+    if (loadAbortRef.current) return;
+    
+    // Locking the vault aborts the sync like a load; a full load replaces it
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    
+    try {
+      const changes = await listCardChangesFromDrive();
+      if (controller.signal.aborted) return;
+      
+      if (!changes) {
+        // Nothing to continue from (tracking could not start when the cards loaded)
+        await startCardChangeTracking();
+        await loadUserCards(userKeyring);
+        return;
+      }
+      if (changes.changed.length === 0 && changes.removed.length === 0) return;
+      
+      const results = await runCryptoBatch(
+        changes.changed,
+        async (cardInfo) => {
+          const record = await loadCardRecordFromDrive(cardInfo.fileId, userKeyring, cardInfo.id);
+          return { cardInfo, ...record };
+        },
+        { signal: controller.signal }
+      );
+      
+      let tamperedCount = 0;
+      const loadedCards = new Map<string, Card>();
+      const records: Array<{ id: string; hash: string; imageHash?: string }> = [];
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          if (result.reason instanceof TamperError) {
+            tamperedCount++;
+          }
+          console.error(`Failed to load card ${changes.changed[index].id}:`, result.reason);
+          return;
+        }
+        
+        const { cardInfo, card: cardData, hash, imageHash } = result.value;
+        records.push({ id: cardInfo.id, hash, imageHash });
+        loadedCards.set(cardInfo.id, {
+          ...migrateCardToNewFormat(cardData),
+          driveFileId: cardInfo.fileId
+        } as Card);
+      });
+      
+      const removed = new Set(changes.removed);
+      setCards(prev => [
+        ...prev.filter(card => !removed.has(card.id)).map(card => loadedCards.get(card.id) ?? card),
+        ...[...loadedCards.values()].filter(card => !prev.some(existing => existing.id === card.id))
+      ]);
+      setSelectedCard(prev => prev && (loadedCards.get(prev.id) ?? prev));
+      setManifestRecords(prev => [
+        ...prev.filter(record => !removed.has(record.id) && !loadedCards.has(record.id)),
+        ...records
+      ]);
+      if (tamperedCount > 0) {
+        setAppState(prev => ({ ...prev, error: describeTamperedCards(tamperedCount) }));
+      }
+    } catch (error) {
+      if (!(error instanceof CryptoTaskCancelledError)) {
+        throw error;
+      }
+    } finally {
+      if (loadAbortRef.current === controller) {
+        loadAbortRef.current = null;
+      }
+    }
+  }, [loadUserCards]);
+
+  // Open an unlocked vault, unless an interrupted passphrase change must be finished first
+  const openVault = useCallback(async (userKeyring: VaultKeyring) => {
+    setKeyring(userKeyring);
+    setLockReason(null);
+    unlockedAtRef.current = vaultSession.getUnlockedAt() ?? Date.now();
+    // Unlocking proves the passphrase or PIN, so protected fields can be shown for a while
+    recordVerification(unlockedAtRef.current);
+    
+    // Before anything is read: a fully bound vault refuses unbound (put back) objects
+    const needsMigration = await applyBindingPolicy(userKeyring);
+    
+    // Settings live in the encrypted preferences; defaults apply until they load
+    loadPreferencesFromDrive(userKeyring)
+      .then(stored => {
+        setPreferences(stored ?? {});
+        setSettings(settingsFromPreferences(stored));
+      })
+      .catch(error => console.error('Failed to load preferences:', error));
+    
+    const journal = await getPendingRekey(userKeyring);
+    if (journal) {
+      setPendingRekey(journal);
+      return;
+    }
+    
+    await loadUserCards(userKeyring);
+    
+    // Move legacy and unbound objects to the data key, bound to their identity, in the
+    // background so later unlocks derive only once and swapped-in old files are refused
+    if (needsMigration) {
+      setIsMigratingLegacyData(true);
+      migrateLegacyData(userKeyring)
+        .then(migratedKeyring => {
+          setKeyring(migratedKeyring);
+          // Legacy keyrings hold the passphrase and are not cached; the migrated one can be
+          return vaultSession.storeKeyring(migratedKeyring, unlockedAtRef.current);
+        })
+        .catch(error => console.error('Failed to migrate legacy vault data:', error))
+        .finally(() => setIsMigratingLegacyData(false));
+    }
+  }, [loadUserCards]);
+
   // Initialize app when user signs in
   useEffect(() => {
     if (!user) return;
 
+    // Cache this account's vault on the device so it opens and can be edited offline
+    const storage = createOfflineStorageProvider(createDriveStorageProvider(), user.uid);
+    setStorageProvider(storage);
+    setOfflineStorage(storage);
+
     const initializeApp = async () => {
       setAppState(prev => ({ ...prev, isLoading: true }));
       
       try {
         await initializeDriveStorage();
         
+        // Apply the vault's KDF for new writes (legacy vaults have no config)
+        const vaultConfig = await loadVaultConfigFromDrive();
+        setActiveKdf(vaultConfig?.kdf ?? LEGACY_KDF_PARAMS);
+        
         // Check for existing session first
-        const sessionPassphrase = await vaultSession.retrievePassphrase();
-        if (sessionPassphrase) {
+        const sessionKeyring = await vaultSession.restoreKeyring();
+        if (sessionKeyring) {
           // Valid session exists, load cards directly
-          setPassphrase(sessionPassphrase);
-          await loadUserCards(sessionPassphrase);
+          await openVault(sessionKeyring);
           setCurrentView('dashboard');
           return;
         }
         
-        // No session, check for existing data
+        // No session, check for existing data or vault keys
         const cardsList = await listCardsFromDrive();
-        if (cardsList.length > 0) {
+        const keyFile = await loadKeyFileFromDrive();
+        if (cardsList.length > 0 || keyFile) {
           setAppState(prev => ({ ...prev, hasPassphrase: true }));
           setCurrentView('passphrase-entry');
         } else {
@@ -1088,26 +1923,240 @@ function App() {
         }
       } catch (error) {
         console.error('Failed to initialize app:', error);
-        setCurrentView('setup');
+        if (isNetworkFailure(error)) {
+          // Not a missing vault: this device has never opened it, so there is no cached copy
+          setAppState(prev => ({
+            ...prev,
+            error: 'You are offline and this vault has not been opened on this device before. Connect to the internet to open it.'
+          }));
+        } else {
+          setCurrentView('setup');
+        }
       } finally {
         setAppState(prev => ({ ...prev, isLoading: false }));
       }
     };
 
     initializeApp();
+    
+    return () => {
+      storage.close();
+      setOfflineStorage(null);
+    };
+  }, [user]);
+
+  // Keep the cached session's timing in line with the lock settings
+  useEffect(() => {
+    vaultSession.configure(sessionPolicyFromSettings(settings));
+  }, [settings]);
+
+  // Enforce the lock policy while the vault is open
+  const isUnlocked = keyring !== null;
+  useEffect(() => {
+    if (!isUnlocked || currentView !== 'dashboard') return;
+    
+    return startLockPolicy({
+      settings,
+      unlockedAt: unlockedAtRef.current,
+      onLock: setLockReason,
+      onActivity: () => vaultSession.extendSession()
+    });
+  }, [isUnlocked, currentView, settings]);
+
+  // Lock: drop the key and everything decrypted with it
+  useEffect(() => {
+    if (!lockReason || !keyring) return;
+    
+    // Stop any card load and drop the workers along with the keys they were sent
+    loadAbortRef.current?.abort();
+    loadAbortRef.current = null;
+    setLoadProgress(null);
+    resetCryptoPool();
+    clearVerification();
+    clearCopiedSecret();
+    setCards([]);
+    setSelectedCard(null);
+    setShowCardDetail(false);
+    setCardModalMode(null);
+    setCardToEdit(null);
+    setManifestRecords([]);
+    setManifestReport(null);
+    setPendingRekey(null);
+    setRecoveryKit(null);
+    setShowChangePassphraseModal(false);
+    setShowLockSettingsModal(false);
+    setShowQuickUnlockModal(false);
+    setShowDeleteVaultModal(false);
+    setKeyring(null);
+    setAppState(prev => ({ ...prev, hasPassphrase: lockReason !== 'vault-deleted', isDataLoaded: false, isLoading: false, error: null }));
+    vaultSession.clearSession();
+    setCurrentView(lockReason === 'vault-deleted' ? 'setup' : 'passphrase-entry');
+    
+    // Locks raised here take every other tab with them
+    if (lockReason !== 'other-tab' && lockReason !== 'rekey' && lockReason !== 'signed-out' && lockReason !== 'vault-deleted') {
+      broadcastVaultMessage({ type: 'lock', reason: lockReason });
+    }
+  }, [lockReason]);
+
+  // Signing out (here or in another tab) locks the vault
+  useEffect(() => {
+    if (!user && keyring) {
+      setLockReason('signed-out');
+    }
   }, [user]);
 
+  // Follow lock, unlock and card changes made in other tabs
+  useEffect(() => subscribeVaultMessages(message => {
+    switch (message.type) {
+      case 'lock':
+        if (keyring) {
+          setLockReason('other-tab');
+        }
+        break;
+        
+      case 'rekey':
+        // Writes under the old key would be lost; the new key arrives with the next unlock
+        if (keyring) {
+          setLockReason('rekey');
+        }
+        break;
+        
+      case 'vault-deleted':
+        if (keyring) {
+          setLockReason('vault-deleted');
+        } else if (user) {
+          setAppState(prev => ({ ...prev, hasPassphrase: false }));
+          setCurrentView('setup');
+        }
+        break;
+        
+      case 'unlock':
+        // Unlocked elsewhere, or the key changed: pick up the shared session
+        if (user && (keyring ? keyring.keyId !== message.keyId : currentView !== 'landing' && currentView !== 'demo')) {
+          vaultSession.restoreKeyring()
+            .then(async sessionKeyring => {
+              if (!sessionKeyring) return;
+              await openVault(sessionKeyring);
+              setCurrentView('dashboard');
+            })
+            .catch(error => console.error('Failed to open vault unlocked in another tab:', error));
+        }
+        break;
+        
+      case 'cards-changed':
+        if (keyring) {
+          loadUserCards(keyring);
+        }
+        break;
+    }
+  }), [user, keyring, currentView, openVault, loadUserCards]);
+
+  // Pick up cards changed on other devices while the vault is open
+  useEffect(() => {
+    if (!keyring || pendingRekey || currentView !== 'dashboard') return;
+    
+    const syncChanges = () => {
+      if (document.visibilityState !== 'visible') return;
+      syncUserCards(keyring).catch(error => {
+        // Offline: try again on the next tick
+        if (!isNetworkFailure(error)) {
+          console.error('Failed to sync cards:', error);
+        }
+      });
+    };
+    
+    const interval = setInterval(syncChanges, CARD_SYNC_INTERVAL_MS);
+    document.addEventListener('visibilitychange', syncChanges);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', syncChanges);
+    };
+  }, [keyring, pendingRekey, currentView, syncUserCards]);
+
+  const handleSyncFromDrive = async () => {
+    if (!keyring) return;
+    
+    try {
+      await syncUserCards(keyring);
+    } catch (error) {
+      console.error('Failed to sync cards:', error);
+      setAppState(prev => ({
+        ...prev,
+        error: isNetworkFailure(error)
+          ? 'You are offline. Cards changed on other devices will appear once you reconnect.'
+          : `Sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }));
+    }
+  };
+
+  // Changes another device overwrote first wait in the sync queue until merged
+  useEffect(() => offlineStorage?.subscribeSyncStatus(status => setConflictCount(status.conflicts)), [offlineStorage]);
+  
+  useEffect(() => {
+    if (!keyring || conflictCount === 0) {
+      setConflicts([]);
+      return;
+    }
+    
+    loadConflictsFromDrive(keyring)
+      .then(setConflicts)
+      .catch(error => console.error('Failed to load sync conflicts:', error));
+  }, [keyring, conflictCount]);
+  
+  const activeConflict = conflicts[0] ?? null;
+  const conflictFields = !activeConflict
+    ? []
+    : activeConflict.type === 'card'
+      ? cardMergeFields(activeConflict.mine, activeConflict.theirs)
+      : preferenceMergeFields(activeConflict.mine, activeConflict.theirs);
+  
+  const handleResolveConflict = async (choices: Record<string, MergeChoice>) => {
+    if (!keyring || !activeConflict) return;
+    
+    const keepTheirs = conflictFields.every(field => choices[field.key] === 'theirs');
+    const merged = keepTheirs
+      ? null
+      : activeConflict.type === 'card'
+        ? { ...applyMergeChoices(activeConflict.mine, activeConflict.theirs, conflictFields, choices), updatedAt: new Date() }
+        : applyMergeChoices(activeConflict.mine, activeConflict.theirs, conflictFields, choices);
+    
+    await resolveConflictInDrive(activeConflict, merged, keyring);
+    setConflicts(prev => prev.slice(1));
+    
+    if (activeConflict.type === 'card') {
+      await loadUserCards(keyring);
+      broadcastVaultMessage({ type: 'cards-changed' });
+    } else {
+      const resolved = (merged ?? activeConflict.theirs) as Record<string, unknown>;
+      setPreferences(resolved);
+      setSettings(settingsFromPreferences(resolved));
+    }
+  };
+
+  // Save lock settings into the encrypted preferences
+  const handleSaveSettings = async (nextSettings: AppSettings) => {
+    if (!keyring) return;
+    
+    const nextPreferences = { ...preferences, ...nextSettings };
+    await savePreferencesToDrive(nextPreferences, keyring);
+    setPreferences(nextPreferences);
+    setSettings(nextSettings);
+    await setQuickUnlockLifetime(nextSettings.quickUnlockTime);
+  };
+
   // Handle delete vault
   const handleDeleteVault = async () => {
-    if (!passphrase) return;
+    if (!keyring) return;
     
     setAppState(prev => ({ ...prev, isLoading: true }));
     try {
       await deleteAllCardsFromDrive();
       setCards([]);
-      setPassphrase(null);
+      setKeyring(null);
       // Clear vault session
-      vaultSession.clearSession();
+      await vaultSession.clearSession();
+      await disableQuickUnlock();
+      broadcastVaultMessage({ type: 'vault-deleted' });
       setCurrentView('setup');
       setShowDeleteVaultModal(false);
     } catch (error) {
@@ -1117,6 +2166,27 @@ function App() {
     }
   };
 
+  // Replace the recovery key (and any shares of it) with a new one
+  const handleNewRecoveryKit = async () => {
+    if (!keyring) return;
+    
+    const confirmed = window.confirm(
+      'Create a new recovery kit? Your current recovery key and any shares of it will stop working.'
+    );
+    if (!confirmed) return;
+    
+    try {
+      setRecoveryKit({ recoveryKey: await createRecoveryKey(keyring), createdAt: new Date() });
+    } catch (error) {
+      // A key restored from the session or a PIN cannot be wrapped into a new slot
+      console.error('Failed to create recovery kit:', error);
+      setAppState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to create recovery kit'
+      }));
+    }
+  };
+
   // Loading screen
   if (loading) {
     return (
@@ -1155,9 +2225,15 @@ function App() {
     <div className="min-h-screen bg-background flex flex-col">
       <Header 
         user={user} 
+        storage={offlineStorage}
         onSignOut={signOut} 
         showDemo={currentView === 'dashboard'} 
         onShowDemo={() => setShowDemoModal(true)}
+        onSyncFromDrive={currentView === 'dashboard' && !pendingRekey ? handleSyncFromDrive : undefined}
+        onChangePassphrase={currentView === 'dashboard' && !isMigratingLegacyData ? () => setShowChangePassphraseModal(true) : undefined}
+        onLockSettings={currentView === 'dashboard' ? () => setShowLockSettingsModal(true) : undefined}
+        onQuickUnlock={currentView === 'dashboard' && keyring && !keyring.passphrase ? () => setShowQuickUnlockModal(true) : undefined}
+        onNewRecoveryKit={currentView === 'dashboard' ? handleNewRecoveryKit : undefined}
         onDeleteVault={currentView === 'dashboard' ? () => setShowDeleteVaultModal(true) : undefined}
       />
       
@@ -1166,16 +2242,28 @@ function App() {
           <div className="min-h-screen bg-background">
             <PassphraseSetupModal
               isOpen={true}
-              onComplete={async (newPassphrase) => {
-                setPassphrase(newPassphrase);
-                // Store passphrase in session for 5 minutes
-                await vaultSession.storePassphrase(newPassphrase);
+              onComplete={async (newPassphrase, kdf, keyFileHash) => {
+                await saveVaultConfigToDrive({
+                  version: 1,
+                  kdf,
+                  createdAt: new Date().toISOString()
+                });
+                setActiveKdf(kdf);
+                const newKeyring = await createVault(newPassphrase, kdf, keyFileHash);
+                setKeyring(newKeyring);
+                setLockReason(null);
+                unlockedAtRef.current = Date.now();
+                // Keep the vault key in the session for 5 minutes
+                await vaultSession.storeKeyring(newKeyring);
+                // Show the recovery kit once; only its slot is stored
+                setRecoveryKit({ recoveryKey: await createRecoveryKey(newKeyring), createdAt: new Date() });
                 setCurrentView('dashboard');
               }}
               onCancel={() => {
                 signOut();
                 setCurrentView('landing');
               }}
+              userInputs={userInputsFromProfile(user)}
             />
           </div>
         )}
@@ -1183,10 +2271,11 @@ function App() {
         {currentView === 'passphrase-entry' && (
           <>
             <PassphraseEntry
-              onSuccess={async (userPassphrase) => {
-                setPassphrase(userPassphrase);
+              accountId={user.uid}
+              notice={lockReason ? describeVaultLock(lockReason) : null}
+              onSuccess={async (userKeyring) => {
                 // Use optimized loading function
-                await loadUserCards(userPassphrase);
+                await openVault(userKeyring);
                 setCurrentView('dashboard');
               }}
               onCancel={() => {
@@ -1194,10 +2283,59 @@ function App() {
                 setCurrentView('landing');
               }}
             />
-            {appState.isLoading && <LoadingOverlay />}
+            {appState.isLoading && <LoadingOverlay progress={loadProgress} />}
           </>
         )}
 
+        {(currentView === 'dashboard' || currentView === 'landing') && appState.error && (
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4">
+            <div className="p-3 bg-red-900/20 border border-red-800 rounded-md flex items-start justify-between animate-fade-in">
+              <p className="text-red-200 text-small">{appState.error}</p>
+              <button
+                onClick={() => setAppState(prev => ({ ...prev, error: null }))}
+                className="ml-4 text-red-200 hover:text-white transition-colors"
+                aria-label="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+          </div>
+        )}
+
+        {currentView === 'dashboard' && manifestReport && (
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4">
+            <div className="p-3 bg-amber-900/20 border border-amber-800 rounded-md animate-fade-in">
+              <p className="text-amber-200 text-small mb-2">{describeManifestReport(manifestReport)}</p>
+              <p className="text-amber-300 text-xs mb-3">
+                If you did not make these changes on another device, someone with access to your
+                Google Drive may have altered your vault.
+              </p>
+              <div className="flex space-x-4">
+                <button
+                  onClick={async () => {
+                    if (!keyring) return;
+                    try {
+                      await acceptVaultStateInDrive(keyring, manifestRecords);
+                      setManifestReport(null);
+                    } catch (error) {
+                      console.error('Failed to update vault manifest:', error);
+                    }
+                  }}
+                  className="text-sm text-amber-200 underline hover:text-white transition-colors"
+                >
+                  Accept current files
+                </button>
+                <button
+                  onClick={() => setManifestReport(null)}
+                  className="text-sm text-amber-200 hover:text-white transition-colors"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {currentView === 'dashboard' && (
           <Dashboard
             cards={cards}
@@ -1214,13 +2352,14 @@ function App() {
               setCardModalMode('edit');
             }}
             onCardDelete={async (card) => {
-              if (!passphrase) return;
+              if (!keyring) return;
               
               const confirmDelete = window.confirm(`Are you sure you want to delete "${card.nickname}"?`);
               if (!confirmDelete) return;
               
               try {
-                await deleteCardFromDrive(card.id);
+                await deleteCardFromDrive(card.id, keyring);
+                broadcastVaultMessage({ type: 'cards-changed' });
                 setCards(prev => prev.filter(c => c.id !== card.id));
                 setShowCardDetail(false);
               } catch (error) {
@@ -1245,6 +2384,80 @@ function App() {
         onConfirm={handleDeleteVault}
       />
 
+      {/* Change Passphrase Modal */}
+      <ChangePassphraseModal
+        isOpen={showChangePassphraseModal}
+        onClose={() => setShowChangePassphraseModal(false)}
+        userInputs={userInputsFromProfile(user)}
+        onComplete={async (newKeyring) => {
+          setKeyring(newKeyring);
+          await vaultSession.storeKeyring(newKeyring, unlockedAtRef.current);
+          // The PIN wrapped the replaced data key
+          await disableQuickUnlock();
+          setShowChangePassphraseModal(false);
+          // The old recovery key wrapped the replaced data key
+          setRecoveryKit({ recoveryKey: await createRecoveryKey(newKeyring), createdAt: new Date() });
+        }}
+      />
+
+      {/* Auto-Lock Settings Modal */}
+      <LockSettingsModal
+        isOpen={showLockSettingsModal}
+        settings={settings}
+        onClose={() => setShowLockSettingsModal(false)}
+        onSave={handleSaveSettings}
+      />
+
+      {/* Merge dialog for changes made on two devices */}
+      <MergeConflictModal
+        isOpen={currentView === 'dashboard' && activeConflict !== null}
+        title={activeConflict?.type === 'card' ? `"${activeConflict.mine.nickname}" changed on two devices` : 'Settings changed on two devices'}
+        fields={conflictFields}
+        onResolve={handleResolveConflict}
+      />
+
+      {/* Quick Unlock PIN Modal */}
+      {keyring && (
+        <QuickUnlockModal
+          isOpen={showQuickUnlockModal}
+          keyring={keyring}
+          accountId={user.uid}
+          lifetimeHours={settings.quickUnlockTime}
+          onClose={() => setShowQuickUnlockModal(false)}
+        />
+      )}
+
+      {/* Recovery Kit (shown once after setup or a passphrase change) */}
+      {recoveryKit && (
+        <RecoveryKitModal
+          recoveryKey={recoveryKit.recoveryKey}
+          email={user.email || ''}
+          createdAt={recoveryKit.createdAt}
+          onDone={() => setRecoveryKit(null)}
+        />
+      )}
+
+      {/* Interrupted Passphrase Change */}
+      {pendingRekey && keyring && (
+        <RekeyRecoveryModal
+          journal={pendingRekey}
+          keyring={keyring}
+          onComplete={async (resultKeyring, resumed) => {
+            setPendingRekey(null);
+            setKeyring(resultKeyring);
+            // The session holds the old data key, which no longer decrypts a re-keyed vault
+            if (resumed) {
+              await vaultSession.storeKeyring(resultKeyring, unlockedAtRef.current);
+              await disableQuickUnlock();
+            }
+            await loadUserCards(resultKeyring);
+            if (resumed) {
+              setRecoveryKit({ recoveryKey: await createRecoveryKey(resultKeyring), createdAt: new Date() });
+            }
+          }}
+        />
+      )}
+
       {/* Card Form Modal */}
       {cardModalMode && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -1270,55 +2483,14 @@ function App() {
               <CardForm
                 initialData={cardToEdit || undefined}
                 onSubmit={async (formData) => {
-                  if (!passphrase) return;
+                  if (!keyring) return;
                   
                   try {
-                    // Handle multiple images
-                    const cardImages: CardImage[] = [];
-                    
-                    // Convert new image files to CardImage objects with data URLs
-                    if (formData.images && formData.images.length > 0) {
-                      for (const imageFile of formData.images) {
-                        const reader = new FileReader();
-                        const dataUrl = await new Promise<string>((resolve, reject) => {
-                          reader.onload = (e) => resolve(e.target?.result as string);
-                          reader.onerror = reject;
-                          reader.readAsDataURL(imageFile);
-                        });
-                        
-                        cardImages.push({
-                          id: `temp-${Date.now()}-${Math.random()}`,
-                          url: dataUrl,
-                          name: imageFile.name,
-                          size: imageFile.size,
-                          type: imageFile.type,
-                          addedAt: new Date()
-                        });
-                      }
-                    }
-                    
-                    // Handle legacy single image for backward compatibility
-                    let legacyImageUrl: string | undefined;
-                    if (formData.image) {
-                      const reader = new FileReader();
-                      legacyImageUrl = await new Promise<string>((resolve, reject) => {
-                        reader.onload = (e) => resolve(e.target?.result as string);
-                        reader.onerror = reject;
-                        reader.readAsDataURL(formData.image!);
-                      });
-                      
-                      // Add to images array if not already there
-                      if (cardImages.length === 0) {
-                        cardImages.push({
-                          id: `legacy-${Date.now()}`,
-                          url: legacyImageUrl,
-                          name: formData.image.name,
-                          size: formData.image.size,
-                          type: formData.image.type,
-                          addedAt: new Date()
-                        });
-                      }
-                    }
+                    // New images are kept as the Files picked; saving stores the first
+                    // in the card's image object and the rest in the card file
+                    const cardImages = filesToCardImages(
+                      formData.images?.length ? formData.images : formData.image ? [formData.image] : []
+                    );
                     
                     if (cardModalMode === 'edit' && cardToEdit) {
                       // Preserve existing images and add new ones
@@ -1328,12 +2500,13 @@ function App() {
                       const updatedCard = {
                         ...updateCardFromFormData(cardToEdit, formData),
                         images: allImages,
-                        imageUrl: legacyImageUrl || cardToEdit.imageUrl
+                        imageUrl: cardToEdit.imageUrl
                       };
                       
                       const driveFileId = (cardToEdit as any).driveFileId;
                       if (driveFileId) {
-                        await updateCardInDrive(driveFileId, updatedCard, passphrase);
+                        await updateCardInDrive(driveFileId, updatedCard, keyring);
+                        broadcastVaultMessage({ type: 'cards-changed' });
                       }
                       
                       setCards(prev => prev.map(card => 
@@ -1342,11 +2515,11 @@ function App() {
                     } else {
                       const newCard = {
                         ...createCardFromFormData(formData),
-                        images: cardImages,
-                        imageUrl: legacyImageUrl
+                        images: cardImages
                       };
                       
-                      const driveFileId = await saveCardToDrive(newCard, passphrase);
+                      const driveFileId = await saveCardToDrive(newCard, keyring);
+                      broadcastVaultMessage({ type: 'cards-changed' });
                       setCards(prev => [...prev, { ...newCard, driveFileId }]);
                     }
                     
@@ -1368,34 +2541,43 @@ function App() {
       )}
 
       {/* Card Detail Modal */}
-      <CardDetailModal
-        card={selectedCard}
-        isOpen={showCardDetail}
-        onClose={() => {
-          setShowCardDetail(false);
-          setSelectedCard(null);
-        }}
-        onEdit={(card) => {
-          setCardToEdit(card);
-          setCardModalMode('edit');
-          setShowCardDetail(false);
-        }}
-        onDelete={async (card) => {
-          if (!passphrase) return;
-          
-          const confirmDelete = window.confirm(`Are you sure you want to delete "${card.nickname}"?`);
-          if (!confirmDelete) return;
-          
-          try {
-            await deleteCardFromDrive(card.id);
-            setCards(prev => prev.filter(c => c.id !== card.id));
+      {keyring && (
+        <CardDetailModal
+          card={selectedCard}
+          isOpen={showCardDetail}
+          keyring={keyring}
+          accountId={user.uid}
+          revealPolicy={settings.revealPolicies[selectedCard?.category ?? 'other']}
+          clipboardClearTime={settings.clipboardClearTime}
+          allowCvvCopy={settings.allowCvvCopy}
+          onClose={() => {
             setShowCardDetail(false);
-          } catch (error) {
-            console.error('Failed to delete card:', error);
-          }
-        }}
-      />
+            setSelectedCard(null);
+          }}
+          onEdit={(card) => {
+            setCardToEdit(card);
+            setCardModalMode('edit');
+            setShowCardDetail(false);
+          }}
+          onDelete={async (card) => {
+            if (!keyring) return;
+            
+            const confirmDelete = window.confirm(`Are you sure you want to delete "${card.nickname}"?`);
+            if (!confirmDelete) return;
+            
+            try {
+              await deleteCardFromDrive(card.id, keyring);
+              broadcastVaultMessage({ type: 'cards-changed' });
+              setCards(prev => prev.filter(c => c.id !== card.id));
+              setShowCardDetail(false);
+            } catch (error) {
+              console.error('Failed to delete card:', error);
+            }
+          }}
+        />
+      )}
 
+      {currentView === 'dashboard' && <ClipboardToast />}
       {currentView === 'dashboard' && <Footer />}
     </div>
   );
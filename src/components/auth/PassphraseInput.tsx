@@ -4,7 +4,8 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import { validatePassphraseStrength, generateSecurePassphrase } from '../../services/crypto';
+import { generateSecurePassphrase } from '../../services/crypto';
+import { estimatePassphraseStrength } from '../../services/passphraseStrength';
 
 interface PassphraseInputProps {
   value: string;
@@ -15,6 +16,7 @@ interface PassphraseInputProps {
   showStrengthMeter?: boolean;
   showGenerateButton?: boolean;
   disabled?: boolean;
+  userInputs?: string[]; // The user's name, email etc., scored as easy to guess
   className?: string;
 }
 
@@ -27,6 +29,7 @@ export function PassphraseInput({
   showStrengthMeter = true,
   showGenerateButton = true,
   disabled = false,
+  userInputs,
   className = "",
 }: PassphraseInputProps) {
   const [isVisible, setIsVisible] = useState(false);
@@ -38,16 +41,42 @@ export function PassphraseInput({
   const [isGenerating, setIsGenerating] = useState(false);
 
   // Validate passphrase whenever it changes
+  const userInputsKey = (userInputs ?? []).join('\n');
   useEffect(() => {
-    if (value) {
-      const result = validatePassphraseStrength(value);
-      setValidation(result);
-      onValidationChange(result.isValid);
-    } else {
+    let cancelled = false;
+
+    if (!value) {
       setValidation(null);
       onValidationChange(false);
+      return;
     }
-  }, [value, onValidationChange]);
+
+    estimatePassphraseStrength(value, userInputsKey ? userInputsKey.split('\n') : [])
+      .then(result => {
+        if (cancelled) return;
+        setValidation({
+          isValid: result.isAcceptable,
+          score: result.score * 25,
+          feedback: [
+            `Time to crack offline: ${result.crackTimeDisplay}`,
+            ...(result.warning ? [result.warning] : []),
+            ...result.suggestions,
+          ],
+        });
+        onValidationChange(result.isAcceptable);
+      })
+      .catch(error => {
+        console.error('Failed to estimate passphrase strength:', error);
+        if (!cancelled) {
+          setValidation(null);
+          onValidationChange(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [value, userInputsKey, onValidationChange]);
 
   const handleGeneratePassphrase = useCallback(async () => {
     try {
@@ -32,6 +32,7 @@ export function CardForm({ initialData, onSubmit, onCancel, mode }: CardFormProp
     notes: initialData?.notes || '',
     cardholderName: initialData?.cardholderName || '',
     cvv: initialData?.cvv || '',
+    pin: initialData?.pin || '',
     images: [], // Initialize as empty array
   });
 
@@ -42,6 +43,7 @@ export function CardForm({ initialData, onSubmit, onCancel, mode }: CardFormProp
 
   const [showFullNumber, setShowFullNumber] = useState(false);
   const [showCVV, setShowCVV] = useState(false);
+  const [showPin, setShowPin] = useState(false);
   const [cardImages, setCardImages] = useState<CardImage[]>([]);
   const [imageFiles, setImageFiles] = useState<File[]>([]);
   const [submitting, setSubmitting] = useState(false);
@@ -127,6 +129,11 @@ export function CardForm({ initialData, onSubmit, onCancel, mode }: CardFormProp
       errors.cvv = 'CVV must be 3-4 digits';
     }
 
+    // PIN validation
+    if (data.pin && !/^\d{4,12}$/.test(data.pin)) {
+      errors.pin = 'PIN must be 4-12 digits';
+    }
+
     return {
       isValid: Object.keys(errors).length === 0,
       errors,
@@ -149,7 +156,7 @@ export function CardForm({ initialData, onSubmit, onCancel, mode }: CardFormProp
   const handleImagesAdd = useCallback((files: File[]) => {
     const newImages: CardImage[] = files.map(file => ({
       id: `temp-${Date.now()}-${Math.random()}`,
-      url: URL.createObjectURL(file),
+      blob: file,
       name: file.name,
       size: file.size,
       type: file.type,
@@ -161,13 +168,7 @@ export function CardForm({ initialData, onSubmit, onCancel, mode }: CardFormProp
   }, []);
 
   const handleImageRemove = useCallback((imageId: string) => {
-    setCardImages(prev => {
-      const imageToRemove = prev.find(img => img.id === imageId);
-      if (imageToRemove?.url.startsWith('blob:')) {
-        URL.revokeObjectURL(imageToRemove.url);
-      }
-      return prev.filter(img => img.id !== imageId);
-    });
+    setCardImages(prev => prev.filter(img => img.id !== imageId));
 
     // Also remove from files if it's a new image
     setImageFiles(prev => {
@@ -203,17 +204,6 @@ export function CardForm({ initialData, onSubmit, onCancel, mode }: CardFormProp
     }
   };
 
-  // Cleanup blob URLs on unmount
-  useEffect(() => {
-    return () => {
-      cardImages.forEach(image => {
-        if (image.url.startsWith('blob:')) {
-          URL.revokeObjectURL(image.url);
-        }
-      });
-    };
-  }, [cardImages]);
-
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Category Selection */}
@@ -379,6 +369,50 @@ export function CardForm({ initialData, onSubmit, onCancel, mode }: CardFormProp
         </div>
       </div>
 
+      {/* PIN (debit cards, or any card that already has one) */}
+      {(formData.category === 'debit' || formData.pin) && (
+        <div>
+          <label htmlFor="pin" className="block text-sm font-medium text-text-secondary mb-2">
+            PIN (Optional)
+          </label>
+          <div className="relative">
+            <input
+              type={showPin ? 'text' : 'password'}
+              id="pin"
+              name="pin"
+              inputMode="numeric"
+              autoComplete="off"
+              value={formData.pin || ''}
+              onChange={handleChange}
+              placeholder="1234"
+              maxLength={12}
+              className={`w-full px-4 py-3 pr-12 bg-background border ${
+                validation.errors.pin ? 'border-red-500' : 'border-slate-600'
+              } rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text-primary placeholder-text-secondary`}
+            />
+            <button
+              type="button"
+              onClick={() => setShowPin(!showPin)}
+              className="absolute right-3 top-1/2 transform -translate-y-1/2 text-text-secondary hover:text-text-primary transition-colors"
+            >
+              {showPin ? (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.542 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                </svg>
+              ) : (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                </svg>
+              )}
+            </button>
+          </div>
+          {validation.errors.pin && (
+            <p className="mt-1 text-sm text-red-400">{validation.errors.pin}</p>
+          )}
+        </div>
+      )}
+
       {/* Issue Date (optional) */}
       <div>
         <label htmlFor="issueDate" className="block text-sm font-medium text-text-secondary mb-2">
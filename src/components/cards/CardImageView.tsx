@@ -0,0 +1,21 @@
+/**
+ * Card Image View
+ * Shows a decrypted card image through an object URL that is revoked on unmount
+ */
+
+import React from 'react';
+import { CardImage } from '../../types';
+import { useObjectUrl } from '../../hooks/useObjectUrl';
+
+interface CardImageViewProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  image: CardImage;
+}
+
+export function CardImageView({ image, alt, ...props }: CardImageViewProps) {
+  const src = useObjectUrl(image.blob);
+
+  // Not loaded (or failed to decrypt): nothing to show
+  if (!src) return null;
+
+  return <img src={src} alt={alt} {...props} />;
+}
@@ -19,6 +19,8 @@ export function DriveIntegrationPanel({
   const { 
     initializeStorage,
     listCards,
+    startChangeTracking,
+    listCardChanges,
     loadCard,
     saveCard,
     deleteCard,
@@ -63,6 +65,30 @@ export function DriveIntegrationPanel({
     setSyncStatus('syncing');
     
     try {
+      // Only fetch what changed since the last sync, when there is one to continue from
+      const changes = await listCardChanges();
+      if (changes) {
+        const changedCards = new Map<string, CardData>();
+        for (const changedCard of changes.changed) {
+          try {
+            changedCards.set(changedCard.id, await loadCard(changedCard.fileId, passphrase));
+          } catch (err) {
+            console.error(`Failed to load card ${changedCard.id}:`, err);
+          }
+        }
+        
+        const removed = new Set(changes.removed);
+        onCardsLoaded([
+          ...cards.filter(card => !removed.has(card.id)).map(card => changedCards.get(card.id) ?? card),
+          ...[...changedCards.values()].filter(card => !cards.some(existing => existing.id === card.id))
+        ]);
+        setSyncStatus('idle');
+        return;
+      }
+      
+      // Follow changes from before the listing, so the next sync is incremental
+      await startChangeTracking();
+      
       // List all cards in Drive
       const driveCards = await listCards();
       
@@ -208,7 +234,7 @@ export function DriveIntegrationPanel({
           className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <Download className="w-4 h-4 mr-2" />
-          Load from Drive
+          Sync from Drive
         </button>
         
         <button
@@ -6,6 +6,7 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { CardImage, ImageGalleryProps } from '../../types';
 import { ImageWorkflow } from './ImageWorkflow';
+import { CardImageView } from './CardImageView';
 
 export function ImageGallery({ 
   images, 
@@ -131,8 +132,8 @@ export function ImageGallery({
               className="relative group aspect-square rounded-lg overflow-hidden border-2 border-slate-600 hover:border-primary/50 transition-all cursor-pointer"
               onClick={() => handleImageClick(image)}
             >
-              <img
-                src={image.url}
+              <CardImageView
+                image={image}
                 alt={image.name}
                 className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
               />
@@ -252,8 +253,8 @@ export function ImageGallery({
       {showImageModal && selectedImage && (
         <div className="fixed inset-0 bg-black/90 flex items-center justify-center z-50 p-4">
           <div className="relative max-w-4xl max-h-full">
-            <img
-              src={selectedImage.url}
+            <CardImageView
+              image={selectedImage}
               alt={selectedImage.name}
               className="max-w-full max-h-full object-contain rounded-lg"
             />
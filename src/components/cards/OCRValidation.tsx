@@ -95,6 +95,7 @@ export function OCRValidation({
       notes,
       issueDate: '',
       cvv: '',
+      pin: '',
       cardholderName,
     };
     
@@ -0,0 +1,54 @@
+/**
+ * ClipboardToast Component
+ * Counts down until copied card data is cleared from the clipboard
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  ClipboardStatus,
+  subscribeClipboard,
+  clearCopiedSecret,
+  dismissClipboardStatus,
+} from '../../services/clipboard';
+
+export function ClipboardToast() {
+  const [status, setStatus] = useState<ClipboardStatus | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => subscribeClipboard(setStatus), []);
+
+  useEffect(() => {
+    if (status?.state !== 'copied') return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  if (!status) return null;
+
+  const secondsLeft = status.state === 'copied' ? Math.max(0, Math.ceil((status.expiresAt - now) / 1000)) : 0;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[70] animate-fade-in">
+      <div className={`flex items-center space-x-4 px-4 py-3 rounded-lg shadow-2xl border ${
+        status.state === 'copied' ? 'bg-surface border-slate-700' : 'bg-amber-900/90 border-amber-800'
+      }`}>
+        {status.state === 'copied' ? (
+          <p className="text-sm text-text-primary">
+            {status.label} copied. Clipboard clears in <span className="font-mono">{secondsLeft}s</span>
+          </p>
+        ) : (
+          <p className="text-sm text-amber-200">
+            Could not check the clipboard. Copy something else to replace the {status.label.toLowerCase()}.
+          </p>
+        )}
+        <button
+          onClick={() => (status.state === 'copied' ? clearCopiedSecret() : dismissClipboardStatus())}
+          className="text-sm text-primary hover:text-blue-400 transition-colors whitespace-nowrap"
+        >
+          {status.state === 'copied' ? 'Clear now' : 'Dismiss'}
+        </button>
+      </div>
+    </div>
+  );
+}
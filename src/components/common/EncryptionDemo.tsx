@@ -4,7 +4,8 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import { encrypt, decryptString } from '../../services/crypto';
+import { encrypt, decryptString, arrayBufferToBase64 } from '../../services/crypto';
+import { EncryptedDataV2 } from '../../types';
 
 interface EncryptionDemoProps {
   onComplete?: () => void;
@@ -26,7 +27,7 @@ type DemoStep = 'intro' | 'passphrase' | 'encrypting' | 'encrypted' | 'decryptin
 export function EncryptionDemo({ onComplete, className = "" }: EncryptionDemoProps) {
   const [currentStep, setCurrentStep] = useState<DemoStep>('intro');
   const [demoPassphrase, setDemoPassphrase] = useState('');
-  const [encryptedResult, setEncryptedResult] = useState<any>(null);
+  const [encryptedResult, setEncryptedResult] = useState<EncryptedDataV2 | null>(null);
   const [decryptedResult, setDecryptedResult] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -261,10 +262,10 @@ export function EncryptionDemo({ onComplete, className = "" }: EncryptionDemoPro
                 <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
                   <h4 className="font-medium text-gray-900 dark:text-white mb-3">Encrypted Data Structure:</h4>
                   <div className="font-mono text-xs text-gray-600 dark:text-gray-400 space-y-2">
-                    <div><span className="text-blue-600 dark:text-blue-400">IV:</span> {encryptedResult.iv.substring(0, 32)}...</div>
-                    <div><span className="text-green-600 dark:text-green-400">Salt:</span> {encryptedResult.salt.substring(0, 32)}...</div>
-                    <div><span className="text-purple-600 dark:text-purple-400">Ciphertext:</span> {encryptedResult.ciphertext.substring(0, 32)}...</div>
-                    <div><span className="text-red-600 dark:text-red-400">Auth Tag:</span> {encryptedResult.authTag}</div>
+                    <div><span className="text-gray-900 dark:text-white">Format:</span> v{encryptedResult.version} {encryptedResult.cipher}, {encryptedResult.kdf?.algorithm}</div>
+                    <div><span className="text-blue-600 dark:text-blue-400">IV:</span> {arrayBufferToBase64(encryptedResult.iv.buffer)}</div>
+                    <div><span className="text-green-600 dark:text-green-400">Salt:</span> {arrayBufferToBase64(encryptedResult.salt.buffer).substring(0, 32)}...</div>
+                    <div><span className="text-purple-600 dark:text-purple-400">Ciphertext + Auth Tag:</span> {arrayBufferToBase64(encryptedResult.ciphertext.buffer).substring(0, 32)}...</div>
                   </div>
                 </div>
 
@@ -0,0 +1,56 @@
+/**
+ * SyncStatusIndicator Component
+ * Shows whether vault changes made on this device have reached Drive
+ */
+
+import { useEffect, useState } from 'react';
+import { OfflineStorageProvider, SyncStatus } from '../../services/offlineStorageProvider';
+
+function describeStatus(status: SyncStatus): string {
+  const changes = `${status.pendingChanges} change${status.pendingChanges === 1 ? '' : 's'}`;
+
+  switch (status.state) {
+    case 'syncing':
+      return `Syncing ${changes}…`;
+    case 'error':
+      return 'Sync failed';
+    case 'conflict':
+      return `${status.conflicts} conflict${status.conflicts === 1 ? '' : 's'} to resolve`;
+    case 'pending':
+      return status.offline ? `Offline · ${changes} waiting` : `${changes} waiting`;
+    default:
+      return status.offline ? 'Offline' : 'Synced';
+  }
+}
+
+export function SyncStatusIndicator({ storage }: { storage: OfflineStorageProvider }) {
+  const [status, setStatus] = useState<SyncStatus>(storage.getSyncStatus());
+
+  useEffect(() => storage.subscribeSyncStatus(setStatus), [storage]);
+
+  const dotColor = {
+    synced: 'bg-green-500',
+    pending: 'bg-amber-400',
+    syncing: 'bg-primary animate-pulse',
+    conflict: 'bg-amber-400',
+    error: 'bg-red-500',
+  }[status.state];
+
+  return (
+    <div
+      className="flex items-center space-x-2 text-xs text-text-secondary"
+      title={status.error ? `Sync failed: ${status.error}` : undefined}
+    >
+      <span className={`w-2 h-2 rounded-full flex-shrink-0 ${status.offline && status.state === 'synced' ? 'bg-slate-500' : dotColor}`} />
+      <span className={status.state === 'error' ? 'text-red-400' : undefined}>{describeStatus(status)}</span>
+      {status.state === 'error' && (
+        <button
+          onClick={() => storage.sync()}
+          className="text-primary hover:text-blue-400 transition-colors"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,65 +1,128 @@
 /**
  * Card Detail View Modal
  * Displays full card information with options to edit, delete, or export
+ *
+ * The card number, CVV and PIN follow the reveal policy of the card's category:
+ * protected fields ask for the passphrase or PIN again unless it was entered
+ * recently, and revealed values are masked again after a timeout.
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import { Card } from '../../types';
+import { Card, CardImage, RevealPolicy, SensitiveField, VaultKeyring } from '../../types';
 import { maskCardNumber, formatCardNumber } from '../../utils/cardValidation';
+import { requiresStepUp } from '../../services/stepUp';
+import { copySecret } from '../../services/clipboard';
+import { StepUpModal } from './StepUpModal';
+import { CardImageView } from '../cards/CardImageView';
+import { getCardPrimaryImage } from '../../utils/cardMigration';
+
+const SENSITIVE_FIELD_LABELS: Record<SensitiveField, string> = {
+  number: 'card number',
+  cvv: 'CVV',
+  pin: 'PIN',
+};
+
+const COPY_LABELS: Record<string, string> = {
+  number: 'Card number',
+  cvv: 'CVV',
+  pin: 'PIN',
+  expiry: 'Expiry date',
+  name: 'Cardholder name',
+};
 
 interface CardDetailModalProps {
   card: Card | null;
   isOpen: boolean;
+  keyring: VaultKeyring;
+  accountId: string;
+  revealPolicy: RevealPolicy;
+  clipboardClearTime: number; // seconds before copied values are cleared
+  allowCvvCopy: boolean;
   onClose: () => void;
   onEdit: (card: Card) => void;
   onDelete: (card: Card) => void;
-  onImageView?: (imageUrl: string) => void;
+  onImageView?: (image: CardImage) => void;
   className?: string;
 }
 
 export function CardDetailModal({
   card,
   isOpen,
+  keyring,
+  accountId,
+  revealPolicy,
+  clipboardClearTime,
+  allowCvvCopy,
   onClose,
   onEdit,
   onDelete,
   onImageView,
   className = "",
 }: CardDetailModalProps) {
-  const [showFullNumber, setShowFullNumber] = useState(false);
+  const [revealedFields, setRevealedFields] = useState<SensitiveField[]>([]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [stepUp, setStepUp] = useState<{ field: SensitiveField; action: () => void } | null>(null);
 
-  // Reset state when modal opens/closes
+  // Reset state when modal opens/closes or shows another card
   useEffect(() => {
     if (isOpen) {
-      setShowFullNumber(false);
+      setRevealedFields([]);
       setShowDeleteConfirm(false);
       setCopiedField(null);
+      setStepUp(null);
     }
-  }, [isOpen]);
+  }, [isOpen, card?.id]);
+
+  // Mask revealed values again; every new reveal restarts the timer
+  useEffect(() => {
+    if (revealedFields.length === 0) return;
+    const timer = setTimeout(() => setRevealedFields([]), revealPolicy.autoMaskTime * 1000);
+    return () => clearTimeout(timer);
+  }, [revealedFields, revealPolicy.autoMaskTime]);
 
-  // Handle escape key
+  // Handle escape key (the verification prompt handles its own)
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isOpen) {
+      if (e.key === 'Escape' && isOpen && !stepUp) {
         onClose();
       }
     };
 
     document.addEventListener('keydown', handleEscape);
     return () => document.removeEventListener('keydown', handleEscape);
-  }, [isOpen, onClose]);
+  }, [isOpen, onClose, stepUp]);
 
   const handleCopyToClipboard = useCallback(async (text: string, fieldName: string) => {
     try {
-      await navigator.clipboard.writeText(text);
+      await copySecret(text, COPY_LABELS[fieldName], clipboardClearTime);
       setCopiedField(fieldName);
       setTimeout(() => setCopiedField(null), 2000);
     } catch (error) {
       console.error('Failed to copy to clipboard:', error);
     }
-  }, []);
+  }, [clipboardClearTime]);
+
+  // Run an action on a sensitive field, asking for the passphrase or PIN first if the policy requires it
+  const withStepUp = useCallback((field: SensitiveField, action: () => void) => {
+    if (requiresStepUp(revealPolicy, field)) {
+      setStepUp({ field, action });
+    } else {
+      action();
+    }
+  }, [revealPolicy]);
+
+  const toggleReveal = useCallback((field: SensitiveField) => {
+    if (revealedFields.includes(field)) {
+      setRevealedFields(prev => prev.filter(f => f !== field));
+    } else {
+      withStepUp(field, () => setRevealedFields(prev => [...prev.filter(f => f !== field), field]));
+    }
+  }, [revealedFields, withStepUp]);
+
+  const copySensitive = useCallback((field: SensitiveField, value: string) => {
+    withStepUp(field, () => handleCopyToClipboard(value, field));
+  }, [withStepUp, handleCopyToClipboard]);
 
   const handleDelete = useCallback(() => {
     if (card && showDeleteConfirm) {
@@ -81,6 +144,8 @@ export function CardDetailModal({
     return null;
   }
 
+  const primaryImage = getCardPrimaryImage(card);
+
   const categoryEmoji = {
     credit: '💳',
     debit: '💰',
@@ -134,13 +199,13 @@ export function CardDetailModal({
                   <label className="text-sm font-medium text-text-secondary">Card Number</label>
                   <div className="flex items-center space-x-2">
                     <button
-                      onClick={() => setShowFullNumber(!showFullNumber)}
+                      onClick={() => toggleReveal('number')}
                       className="text-xs text-primary hover:text-blue-600 transition-colors"
                     >
-                      {showFullNumber ? 'Hide' : 'Show'}
+                      {revealedFields.includes('number') ? 'Hide' : 'Show'}
                     </button>
                     <button
-                      onClick={() => handleCopyToClipboard(card.number!, 'number')}
+                      onClick={() => copySensitive('number', card.number!)}
                       className="p-1 text-text-secondary hover:text-primary transition-colors"
                       aria-label="Copy card number"
                     >
@@ -157,7 +222,7 @@ export function CardDetailModal({
                   </div>
                 </div>
                 <p className="font-mono text-lg text-text-primary">
-                  {showFullNumber ? formatCardNumber(card.number) : maskCardNumber(card.number)}
+                  {revealedFields.includes('number') ? formatCardNumber(card.number) : maskCardNumber(card.number)}
                 </p>
               </div>
             )}
@@ -192,12 +257,57 @@ export function CardDetailModal({
                 <div className="bg-background rounded-lg p-4">
                   <div className="flex items-center justify-between mb-2">
                     <label className="text-sm font-medium text-text-secondary">CVV</label>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => toggleReveal('cvv')}
+                        className="text-xs text-primary hover:text-blue-600 transition-colors"
+                      >
+                        {revealedFields.includes('cvv') ? 'Hide' : 'Show'}
+                      </button>
+                      {allowCvvCopy && (
+                        <button
+                          onClick={() => copySensitive('cvv', card.cvv!)}
+                          className="p-1 text-text-secondary hover:text-primary transition-colors"
+                          aria-label="Copy CVV"
+                        >
+                          {copiedField === 'cvv' ? (
+                            <svg className="w-4 h-4 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                            </svg>
+                          ) : (
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                            </svg>
+                          )}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-lg text-text-primary font-mono">
+                    {revealedFields.includes('cvv') ? card.cvv : '•••'}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* PIN */}
+            {card.pin && (
+              <div className="bg-background rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-text-secondary">PIN</label>
+                  <div className="flex items-center space-x-2">
                     <button
-                      onClick={() => handleCopyToClipboard(card.cvv!, 'cvv')}
+                      onClick={() => toggleReveal('pin')}
+                      className="text-xs text-primary hover:text-blue-600 transition-colors"
+                    >
+                      {revealedFields.includes('pin') ? 'Hide' : 'Show'}
+                    </button>
+                    <button
+                      onClick={() => copySensitive('pin', card.pin!)}
                       className="p-1 text-text-secondary hover:text-primary transition-colors"
-                      aria-label="Copy CVV"
+                      aria-label="Copy PIN"
                     >
-                      {copiedField === 'cvv' ? (
+                      {copiedField === 'pin' ? (
                         <svg className="w-4 h-4 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                         </svg>
@@ -208,10 +318,12 @@ export function CardDetailModal({
                       )}
                     </button>
                   </div>
-                  <p className="text-lg text-text-primary">•••</p>
                 </div>
-              )}
-            </div>
+                <p className="text-lg text-text-primary font-mono">
+                  {revealedFields.includes('pin') ? card.pin : '••••'}
+                </p>
+              </div>
+            )}
 
             {/* Cardholder Name */}
             {card.cardholderName && (
@@ -247,15 +359,15 @@ export function CardDetailModal({
             )}
 
             {/* Card Image */}
-            {card.imageUrl && (
+            {primaryImage?.blob && (
               <div className="bg-background rounded-lg p-4">
                 <label className="text-sm font-medium text-text-secondary mb-2 block">Card Image</label>
                 <div className="relative group">
-                  <img
-                    src={card.imageUrl}
+                  <CardImageView
+                    image={primaryImage}
                     alt={`${card.nickname} card`}
                     className="w-full h-48 object-cover rounded-lg cursor-pointer transition-transform hover:scale-105"
-                    onClick={() => onImageView?.(card.imageUrl!)}
+                    onClick={() => onImageView?.(primaryImage)}
                   />
                   <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-30 transition-opacity rounded-lg flex items-center justify-center">
                     <svg className="w-8 h-8 text-white opacity-0 group-hover:opacity-100 transition-opacity" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -311,6 +423,18 @@ export function CardDetailModal({
           </div>
         </div>
       </div>
+
+      <StepUpModal
+        isOpen={stepUp !== null}
+        keyring={keyring}
+        accountId={accountId}
+        fieldLabel={stepUp ? SENSITIVE_FIELD_LABELS[stepUp.field] : ''}
+        onVerified={() => {
+          stepUp?.action();
+          setStepUp(null);
+        }}
+        onCancel={() => setStepUp(null)}
+      />
     </div>
   );
 }
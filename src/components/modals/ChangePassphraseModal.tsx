@@ -0,0 +1,189 @@
+/**
+ * ChangePassphraseModal Component
+ * Changes the vault passphrase and re-encrypts every object under a new key
+ */
+
+import React, { useEffect, useState } from 'react';
+import { VaultKeyring } from '../../types';
+import { PassphraseInput } from './PassphraseInput';
+import { KeyFileInput } from './KeyFileInput';
+import { changePassphrase, RekeyProgress } from '../../services/vaultRekey';
+import { vaultRequiresKeyFile } from '../../services/vaultKeys';
+
+interface ChangePassphraseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onComplete: (keyring: VaultKeyring) => void;
+  userInputs?: string[]; // Name and email, which must not make up the passphrase
+}
+
+export function ChangePassphraseModal({ isOpen, onClose, onComplete, userInputs }: ChangePassphraseModalProps) {
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isNewValid, setIsNewValid] = useState(false);
+  const [progress, setProgress] = useState<RekeyProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [requiresKeyFile, setRequiresKeyFile] = useState(false);
+  const [keyFileHash, setKeyFileHash] = useState<Uint8Array | null>(null);
+  const [keyFileName, setKeyFileName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      vaultRequiresKeyFile().then(setRequiresKeyFile).catch(() => setRequiresKeyFile(false));
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const isRunning = progress !== null;
+  const passphrasesMatch = newPassphrase === confirmPassphrase;
+  const canSubmit = currentPassphrase.length > 0 && isNewValid && passphrasesMatch
+    && newPassphrase !== currentPassphrase && (!requiresKeyFile || keyFileHash !== null) && !isRunning;
+
+  const handleClose = () => {
+    if (isRunning) return;
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setKeyFileHash(null);
+    setKeyFileName(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setError(null);
+    setProgress({ phase: 'reencrypting', completed: 0, total: 0 });
+
+    try {
+      const keyring = await changePassphrase(
+        currentPassphrase,
+        newPassphrase,
+        setProgress,
+        requiresKeyFile && keyFileHash ? keyFileHash : undefined
+      );
+      setCurrentPassphrase('');
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      setKeyFileHash(null);
+      setKeyFileName(null);
+      onComplete(keyring);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change passphrase');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const percent = progress && progress.total > 0
+    ? Math.round((progress.completed / progress.total) * 100)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 animate-fade-in">
+      <div className="bg-surface rounded-lg max-w-md w-full p-6 animate-scale-in shadow-modal">
+        <h2 className="text-xl font-semibold text-text-primary mb-2">Change Passphrase</h2>
+        <p className="text-sm text-text-secondary mb-6">
+          Every card, image and settings file is re-encrypted under a new key. If the process
+          is interrupted you can resume or roll it back the next time you unlock. Afterwards you
+          will get a new recovery kit; the old one stops working.
+        </p>
+
+        {isRunning ? (
+          <div className="space-y-3">
+            <div className="flex justify-between text-sm text-text-secondary">
+              <span>
+                {progress.phase === 'committing' ? 'Saving new key...' : 'Re-encrypting vault...'}
+              </span>
+              <span>{progress.completed} / {progress.total}</span>
+            </div>
+            <div className="w-full h-2 bg-background rounded-full overflow-hidden">
+              <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-xs text-text-secondary">Keep this tab open until re-encryption finishes.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-2">Current passphrase</label>
+              <input
+                type="password"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                className="w-full px-3 py-2 bg-background border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text-primary"
+                autoFocus
+              />
+            </div>
+
+            {requiresKeyFile && (
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-2">Key file</label>
+                <KeyFileInput
+                  fileName={keyFileName}
+                  onChange={(hash, name) => {
+                    setKeyFileHash(hash);
+                    setKeyFileName(name);
+                  }}
+                />
+                <p className="mt-1 text-xs text-text-secondary">The new passphrase will keep requiring this key file.</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-2">New passphrase</label>
+              <PassphraseInput
+                value={newPassphrase}
+                onChange={setNewPassphrase}
+                onValidationChange={setIsNewValid}
+                placeholder="Enter a new passphrase"
+                showStrengthMeter
+                showGenerateButton
+                userInputs={userInputs}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-2">Confirm new passphrase</label>
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                className="w-full px-3 py-2 bg-background border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text-primary"
+              />
+              {confirmPassphrase && !passphrasesMatch && (
+                <p className="mt-1 text-xs text-red-400">Passphrases do not match</p>
+              )}
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+                <p className="text-red-200 text-small">{error}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="px-4 py-2 text-text-secondary hover:text-text-primary transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!canSubmit}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Change Passphrase
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
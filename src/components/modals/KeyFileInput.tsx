@@ -0,0 +1,91 @@
+/**
+ * KeyFileInput Component
+ * Picks the vault key file by file picker or drag-and-drop and reports its hash
+ */
+
+import React, { useRef, useState } from 'react';
+import { hashKeyFile } from '../../services/keyFileFactor';
+
+interface KeyFileInputProps {
+  fileName: string | null;
+  onChange: (keyFileHash: Uint8Array | null, fileName: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function KeyFileInput({ fileName, onChange, disabled = false, className = '' }: KeyFileInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+
+    try {
+      onChange(await hashKeyFile(file), file.name);
+    } catch (err) {
+      onChange(null, null);
+      setError(err instanceof Error ? err.message : 'Failed to read key file');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) {
+      selectFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleClear = () => {
+    setError(null);
+    onChange(null, null);
+    if (inputRef.current) {
+      inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !disabled && !fileName && inputRef.current?.click()}
+        className={`px-3 py-3 border border-dashed rounded-md text-sm transition-colors ${
+          isDragging ? 'border-primary bg-primary/10' : 'border-slate-600 bg-background'
+        } ${disabled ? 'opacity-50' : fileName ? '' : 'cursor-pointer hover:border-slate-500'}`}
+      >
+        {fileName ? (
+          <div className="flex items-center justify-between">
+            <span className="text-text-primary truncate">{fileName}</span>
+            <button
+              type="button"
+              onClick={handleClear}
+              disabled={disabled}
+              className="text-text-secondary hover:text-text-primary transition-colors ml-3"
+            >
+              Remove
+            </button>
+          </div>
+        ) : (
+          <p className="text-text-secondary text-center">
+            Drop your key file here or <span className="text-primary">browse</span>
+          </p>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => selectFile(e.target.files?.[0])}
+          disabled={disabled}
+        />
+      </div>
+      {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+/**
+ * LockSettingsModal Component
+ * Edits the auto-lock and reveal policies stored in the encrypted preferences
+ */
+
+import { useEffect, useState } from 'react';
+import { AppSettings, RevealPolicy, SensitiveField } from '../../types';
+import { CARD_CATEGORIES, CardCategory } from '../../utils/cardCategories';
+import { SENSITIVE_FIELDS } from '../../utils/settings';
+
+interface LockSettingsModalProps {
+  isOpen: boolean;
+  settings: AppSettings;
+  onClose: () => void;
+  onSave: (settings: AppSettings) => Promise<void>;
+}
+
+const IDLE_MINUTES = [1, 2, 5, 10, 15, 30, 60];
+const HIDDEN_SECONDS = [0, 10, 30, 60, 120, 300];
+const SESSION_MINUTES = [30, 60, 2 * 60, 4 * 60, 8 * 60, 12 * 60, 24 * 60];
+const QUICK_UNLOCK_HOURS = [1, 4, 8, 12, 24, 72, 168];
+const STEP_UP_SECONDS = [0, 30, 60, 120, 300, 900];
+const AUTO_MASK_SECONDS = [10, 30, 60, 120, 300];
+const CLIPBOARD_SECONDS = [10, 20, 30, 60, 120];
+
+const SENSITIVE_FIELD_LABELS: Record<SensitiveField, string> = {
+  number: 'Number',
+  cvv: 'CVV',
+  pin: 'PIN',
+};
+
+function formatMinutes(minutes: number): string {
+  return minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+}
+
+function formatSeconds(seconds: number): string {
+  if (seconds === 0) return 'Immediately';
+  return seconds < 60 ? `${seconds} s` : `${seconds / 60} min`;
+}
+
+export function LockSettingsModal({ isOpen, settings, onClose, onSave }: LockSettingsModalProps) {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+      setError(null);
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updatePolicy = (category: CardCategory, changes: Partial<RevealPolicy>) => {
+    setDraft(prev => ({
+      ...prev,
+      revealPolicies: {
+        ...prev.revealPolicies,
+        [category]: { ...prev.revealPolicies[category], ...changes },
+      },
+    }));
+  };
+
+  const toggleProtectedField = (category: CardCategory, field: SensitiveField, enabled: boolean) => {
+    const fields = draft.revealPolicies[category].protectedFields.filter(f => f !== field);
+    updatePolicy(category, { protectedFields: enabled ? [...fields, field] : fields });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectClassName = 'px-3 py-1.5 bg-background border border-slate-600 rounded-md text-sm text-text-primary disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 animate-fade-in">
+      <div className="bg-surface rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 animate-scale-in shadow-modal">
+        <h2 className="text-xl font-semibold text-text-primary mb-2">Lock & Reveal</h2>
+        <p className="text-sm text-text-secondary mb-6">
+          Choose when the vault locks itself. Locking clears decrypted cards from this page;
+          you will need your passphrase again.
+        </p>
+
+        <div className="space-y-5">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm text-text-primary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.autoLock}
+                onChange={(e) => update('autoLock', e.target.checked)}
+              />
+              <span>Lock when idle for</span>
+            </label>
+            <select
+              value={draft.autoLockTime}
+              onChange={(e) => update('autoLockTime', Number(e.target.value))}
+              disabled={!draft.autoLock}
+              className={selectClassName}
+            >
+              {IDLE_MINUTES.map(minutes => (
+                <option key={minutes} value={minutes}>{formatMinutes(minutes)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm text-text-primary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.lockWhenHidden}
+                onChange={(e) => update('lockWhenHidden', e.target.checked)}
+              />
+              <span>Lock when tab is hidden for</span>
+            </label>
+            <select
+              value={draft.lockWhenHiddenTime}
+              onChange={(e) => update('lockWhenHiddenTime', Number(e.target.value))}
+              disabled={!draft.lockWhenHidden}
+              className={selectClassName}
+            >
+              {HIDDEN_SECONDS.map(seconds => (
+                <option key={seconds} value={seconds}>{formatSeconds(seconds)}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-text-primary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.lockOnSleep}
+              onChange={(e) => update('lockOnSleep', e.target.checked)}
+            />
+            <span>Lock when the device sleeps</span>
+          </label>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm text-text-primary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.maxSessionLength}
+                onChange={(e) => update('maxSessionLength', e.target.checked)}
+              />
+              <span>Always lock after</span>
+            </label>
+            <select
+              value={draft.maxSessionTime}
+              onChange={(e) => update('maxSessionTime', Number(e.target.value))}
+              disabled={!draft.maxSessionLength}
+              className={selectClassName}
+            >
+              {SESSION_MINUTES.map(minutes => (
+                <option key={minutes} value={minutes}>{formatMinutes(minutes)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-text-primary">Quick unlock PIN expires after</span>
+            <select
+              value={draft.quickUnlockTime}
+              onChange={(e) => update('quickUnlockTime', Number(e.target.value))}
+              className={selectClassName}
+            >
+              {QUICK_UNLOCK_HOURS.map(hours => (
+                <option key={hours} value={hours}>{formatMinutes(hours * 60)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {!draft.autoLock && !draft.lockWhenHidden && !draft.maxSessionLength && (
+          <div className="mt-5 p-3 bg-amber-900/20 border border-amber-800 rounded-md">
+            <p className="text-amber-200 text-small">
+              Your vault will stay unlocked for as long as this page is open.
+            </p>
+          </div>
+        )}
+
+        <h3 className="text-lg font-semibold text-text-primary mt-8 mb-2">Sensitive Fields</h3>
+        <p className="text-sm text-text-secondary mb-4">
+          Ticked fields ask for your passphrase or PIN again before they are shown or copied,
+          unless you entered it recently. Shown values are hidden again after a while.
+        </p>
+
+        <div className="space-y-4">
+          {(Object.keys(CARD_CATEGORIES) as CardCategory[]).map(category => {
+            const policy = draft.revealPolicies[category];
+            return (
+              <div key={category} className="p-3 bg-background border border-slate-700 rounded-md">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-text-primary">
+                    {CARD_CATEGORIES[category].icon} {CARD_CATEGORIES[category].label}
+                  </span>
+                  <div className="flex items-center space-x-3">
+                    {SENSITIVE_FIELDS.map(field => (
+                      <label key={field} className="flex items-center space-x-1 text-xs text-text-secondary cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={policy.protectedFields.includes(field)}
+                          onChange={(e) => toggleProtectedField(category, field, e.target.checked)}
+                        />
+                        <span>{SENSITIVE_FIELD_LABELS[field]}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between text-xs text-text-secondary">
+                  <label className="flex items-center space-x-2">
+                    <span>Ask again after</span>
+                    <select
+                      value={policy.verificationWindow}
+                      onChange={(e) => updatePolicy(category, { verificationWindow: Number(e.target.value) })}
+                      disabled={policy.protectedFields.length === 0}
+                      className={selectClassName}
+                    >
+                      {STEP_UP_SECONDS.map(seconds => (
+                        <option key={seconds} value={seconds}>{seconds === 0 ? 'Every time' : formatSeconds(seconds)}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span>Hide after</span>
+                    <select
+                      value={policy.autoMaskTime}
+                      onChange={(e) => updatePolicy(category, { autoMaskTime: Number(e.target.value) })}
+                      className={selectClassName}
+                    >
+                      {AUTO_MASK_SECONDS.map(seconds => (
+                        <option key={seconds} value={seconds}>{formatSeconds(seconds)}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <h3 className="text-lg font-semibold text-text-primary mt-8 mb-4">Clipboard</h3>
+
+        <div className="space-y-5">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-text-primary">Clear copied card data after</span>
+            <select
+              value={draft.clipboardClearTime}
+              onChange={(e) => update('clipboardClearTime', Number(e.target.value))}
+              className={selectClassName}
+            >
+              {CLIPBOARD_SECONDS.map(seconds => (
+                <option key={seconds} value={seconds}>{formatSeconds(seconds)}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-text-primary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.allowCvvCopy}
+              onChange={(e) => update('allowCvvCopy', e.target.checked)}
+            />
+            <span>Allow copying the CVV</span>
+          </label>
+        </div>
+
+        {error && (
+          <div className="mt-5 p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+            <p className="text-red-200 text-small">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-text-secondary hover:text-text-primary transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
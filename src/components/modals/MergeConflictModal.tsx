@@ -0,0 +1,135 @@
+/**
+ * MergeConflictModal Component
+ * Resolves a card or the preferences changed on two devices: keep this device's
+ * version, keep the other one, or pick field by field
+ */
+
+import { useEffect, useState } from 'react';
+import { MergeChoice, MergeField } from '../../utils/conflictMerge';
+
+interface MergeConflictModalProps {
+  isOpen: boolean;
+  title: string;
+  fields: MergeField[];
+  onResolve: (choices: Record<string, MergeChoice>) => Promise<void>;
+}
+
+export function MergeConflictModal({ isOpen, title, fields, onResolve }: MergeConflictModalProps) {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setChoices({});
+    setError(null);
+  }, [isOpen, title]);
+
+  if (!isOpen) return null;
+
+  const choiceFor = (key: string): MergeChoice => choices[key] ?? 'mine';
+
+  const resolve = async (resolution: Record<string, MergeChoice>) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onResolve(resolution);
+    } catch (err) {
+      setError(`Saving the merge failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const everyField = (choice: MergeChoice) =>
+    Object.fromEntries(fields.map(field => [field.key, choice])) as Record<string, MergeChoice>;
+
+  const optionClassName = (selected: boolean) =>
+    `flex-1 text-left px-3 py-2 rounded-md border text-sm break-words transition-colors ${
+      selected
+        ? 'border-primary bg-primary/10 text-text-primary'
+        : 'border-slate-600 text-text-secondary hover:border-slate-500'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60] animate-fade-in">
+      <div className="bg-surface rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 animate-scale-in shadow-modal">
+        <h2 className="text-xl font-semibold text-text-primary mb-2">{title}</h2>
+        <p className="text-sm text-text-secondary mb-6">
+          This was changed on another device before your changes reached Drive. Choose which version
+          of each field to keep.
+        </p>
+
+        {fields.length === 0 ? (
+          <p className="text-sm text-text-secondary mb-6">Both versions hold the same values.</p>
+        ) : (
+          <div className="space-y-4 mb-6">
+            <div className="flex text-xs font-medium text-text-secondary uppercase tracking-wide space-x-2">
+              <span className="flex-1">This device</span>
+              <span className="flex-1">Other device</span>
+            </div>
+            {fields.map(field => (
+              <div key={field.key}>
+                <p className="text-sm font-medium text-text-primary mb-1">{field.label}</p>
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setChoices(prev => ({ ...prev, [field.key]: 'mine' }))}
+                    disabled={isSaving}
+                    className={optionClassName(choiceFor(field.key) === 'mine')}
+                  >
+                    {field.mine || <span className="italic">Empty</span>}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setChoices(prev => ({ ...prev, [field.key]: 'theirs' }))}
+                    disabled={isSaving}
+                    className={optionClassName(choiceFor(field.key) === 'theirs')}
+                  >
+                    {field.theirs || <span className="italic">Empty</span>}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 mb-4 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+            <p className="text-red-200 text-small">{error}</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => resolve(everyField('theirs'))}
+            disabled={isSaving}
+            className="px-4 py-2 text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50"
+          >
+            Keep theirs
+          </button>
+          <button
+            type="button"
+            onClick={() => resolve(everyField('mine'))}
+            disabled={isSaving}
+            className="px-4 py-2 border border-slate-600 text-text-primary rounded-md hover:bg-background transition-colors disabled:opacity-50"
+          >
+            Keep mine
+          </button>
+          {fields.length > 0 && (
+            <button
+              type="button"
+              onClick={() => resolve(Object.fromEntries(fields.map(field => [field.key, choiceFor(field.key)])))}
+              disabled={isSaving}
+              className="px-4 py-2 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save selection'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
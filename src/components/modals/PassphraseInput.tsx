@@ -4,6 +4,21 @@
  */
 
 import React, { useState, useCallback, useEffect } from 'react';
+import { KdfParams } from '../../types';
+import {
+  PassphraseStrength,
+  MIN_PASSPHRASE_ENTROPY_BITS,
+  estimatePassphraseStrength,
+} from '../../services/passphraseStrength';
+import {
+  DicewareOptions,
+  DEFAULT_DICEWARE_OPTIONS,
+  DICEWARE_MIN_WORDS,
+  DICEWARE_MAX_WORDS,
+  DICEWARE_SEPARATORS,
+  dicewareEntropyBits,
+  generateDicewarePassphrase,
+} from '../../services/diceware';
 
 interface PassphraseInputProps {
   value: string;
@@ -13,15 +28,14 @@ interface PassphraseInputProps {
   autoFocus?: boolean;
   showStrengthMeter?: boolean;
   showGenerateButton?: boolean;
+  userInputs?: string[]; // The user's name, email etc., scored as easy to guess
+  kdf?: KdfParams; // KDF used for the crack time estimate (default: the vault's)
   className?: string;
 }
 
-interface PassphraseStrength {
-  score: number; // 0-4 (0 = very weak, 4 = very strong)
-  label: string;
-  color: string;
-  feedback: string[];
-}
+const STRENGTH_LABELS = ['Very Weak', 'Weak', 'Fair', 'Good', 'Strong'];
+const STRENGTH_COLORS = ['bg-red-500', 'bg-red-400', 'bg-yellow-500', 'bg-green-500', 'bg-green-600'];
+const SEPARATOR_LABELS: Record<string, string> = { '-': 'Dash', ' ': 'Space', '.': 'Dot', '_': 'Underscore' };
 
 export function PassphraseInput({
   value,
@@ -31,129 +45,29 @@ export function PassphraseInput({
   autoFocus = false,
   showStrengthMeter = false,
   showGenerateButton = false,
+  userInputs,
+  kdf,
   className = '',
 }: PassphraseInputProps) {
   const [showPassphrase, setShowPassphrase] = useState(false);
-  const [strength, setStrength] = useState<PassphraseStrength>({
-    score: 0,
-    label: 'Very Weak',
-    color: 'bg-red-500',
-    feedback: [],
-  });
+  const [strength, setStrength] = useState<PassphraseStrength | null>(null);
+  const [generatorOptions, setGeneratorOptions] = useState<DicewareOptions>(DEFAULT_DICEWARE_OPTIONS);
+  const [showGeneratorOptions, setShowGeneratorOptions] = useState(false);
 
   /**
-   * Validate passphrase strength and requirements
+   * Generate a diceware passphrase with the chosen options
    */
-  const validatePassphrase = useCallback((passphrase: string): PassphraseStrength => {
-    const feedback: string[] = [];
-    let score = 0;
-    
-    // Length requirements
-    if (passphrase.length < 8) {
-      feedback.push('Use at least 8 characters');
-    } else if (passphrase.length < 12) {
-      feedback.push('Consider using 12+ characters for better security');
-      score += 1;
-    } else {
-      score += 2;
-    }
-
-    // Character type requirements
-    const hasLower = /[a-z]/.test(passphrase);
-    const hasUpper = /[A-Z]/.test(passphrase);
-    const hasNumber = /\d/.test(passphrase);
-    const hasSymbol = /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(passphrase);
-    
-    const charTypes = [hasLower, hasUpper, hasNumber, hasSymbol].filter(Boolean).length;
-    
-    if (charTypes < 2) {
-      feedback.push('Use a mix of letters, numbers, and symbols');
-    } else if (charTypes < 3) {
-      feedback.push('Add more character types for better security');
-      score += 1;
-    } else {
-      score += 2;
-    }
-
-    // Pattern checks
-    if (passphrase.length >= 8) {
-      // Check for common patterns
-      if (/(.)\1{2,}/.test(passphrase)) {
-        feedback.push('Avoid repeated characters');
-        score = Math.max(0, score - 1);
-      }
-      
-      if (/123|abc|qwe|password|admin/i.test(passphrase)) {
-        feedback.push('Avoid common patterns and words');
-        score = Math.max(0, score - 1);
-      }
-      
-      // Bonus for length
-      if (passphrase.length >= 16) {
-        score += 1;
-      }
+  const generatePassphrase = useCallback(async () => {
+    try {
+      onChange(await generateDicewarePassphrase(generatorOptions));
+    } catch (error) {
+      console.error('Failed to generate passphrase:', error);
     }
+  }, [generatorOptions, onChange]);
 
-    // Determine label and color
-    let label: string;
-    let color: string;
-    
-    if (score === 0) {
-      label = 'Very Weak';
-      color = 'bg-red-500';
-    } else if (score === 1) {
-      label = 'Weak';
-      color = 'bg-red-400';
-    } else if (score === 2) {
-      label = 'Fair';
-      color = 'bg-yellow-500';
-    } else if (score === 3) {
-      label = 'Good';
-      color = 'bg-green-500';
-    } else {
-      label = 'Strong';
-      color = 'bg-green-600';
-    }
-
-    return { score, label, color, feedback };
-  }, []);
-
-  /**
-   * Generate a secure passphrase
-   */
-  const generatePassphrase = useCallback(() => {
-    const words = [
-      'anchor', 'balloon', 'castle', 'dolphin', 'elephant', 'forest', 'garden', 'hammer',
-      'island', 'jungle', 'kitten', 'ladder', 'mountain', 'notebook', 'ocean', 'pencil',
-      'quartz', 'rainbow', 'sunset', 'treasure', 'umbrella', 'village', 'window', 'xylophone',
-      'yellow', 'zigzag', 'apple', 'bridge', 'candle', 'dragon', 'engine', 'flower',
-      'guitar', 'house', 'ice', 'jazz', 'kite', 'lemon', 'moon', 'nest',
-      'orange', 'piano', 'quiet', 'rocket', 'star', 'tiger', 'universe', 'volcano',
-      'water', 'x-ray', 'yoga', 'zebra', 'art', 'book', 'cloud', 'dream',
-      'earth', 'fire', 'glass', 'heart', 'idea', 'journey', 'key', 'light'
-    ];
-    
-    const symbols = '!@#$%^&*';
-    
-    // Generate 4 random words
-    const selectedWords = [];
-    for (let i = 0; i < 4; i++) {
-      const randomIndex = Math.floor(Math.random() * words.length);
-      selectedWords.push(words[randomIndex]);
-    }
-    
-    // Capitalize first letter of each word
-    const capitalizedWords = selectedWords.map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    );
-    
-    // Add random numbers and symbols
-    const randomNumber = Math.floor(Math.random() * 100).toString().padStart(2, '0');
-    const randomSymbol = symbols[Math.floor(Math.random() * symbols.length)];
-    
-    const passphrase = capitalizedWords.join('') + randomNumber + randomSymbol;
-    onChange(passphrase);
-  }, [onChange]);
+  const updateGeneratorOption = <K extends keyof DicewareOptions>(key: K, optionValue: DicewareOptions[K]) => {
+    setGeneratorOptions(prev => ({ ...prev, [key]: optionValue }));
+  };
 
   /**
    * Handle input changes
@@ -165,15 +79,36 @@ export function PassphraseInput({
 
   /**
    * Update strength and validation when value changes
+   * Only passphrases the estimator accepts are valid; results for stale values are dropped
    */
+  const userInputsKey = (userInputs ?? []).join('\n');
   useEffect(() => {
-    const newStrength = validatePassphrase(value);
-    setStrength(newStrength);
-    
-    // Consider valid if score >= 2 and length >= 12
-    const isValid = newStrength.score >= 2 && value.length >= 12;
-    onValidationChange(isValid);
-  }, [value, validatePassphrase, onValidationChange]);
+    let cancelled = false;
+
+    if (!value) {
+      setStrength(null);
+      onValidationChange(false);
+      return;
+    }
+
+    estimatePassphraseStrength(value, userInputsKey ? userInputsKey.split('\n') : [], kdf)
+      .then(result => {
+        if (cancelled) return;
+        setStrength(result);
+        onValidationChange(result.isAcceptable);
+      })
+      .catch(error => {
+        console.error('Failed to estimate passphrase strength:', error);
+        if (!cancelled) {
+          setStrength(null);
+          onValidationChange(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [value, userInputsKey, kdf, onValidationChange]);
 
   /**
    * Toggle passphrase visibility
@@ -189,6 +124,10 @@ export function PassphraseInput({
     onChange('');
   }, [onChange]);
 
+  const feedback = strength
+    ? [strength.warning, ...strength.suggestions].filter((item): item is string => !!item)
+    : [];
+
   return (
     <div className={`space-y-3 ${className}`}>
       {/* Main Input */}
@@ -241,47 +180,112 @@ export function PassphraseInput({
 
       {/* Generate Button */}
       {showGenerateButton && (
-        <button
-          type="button"
-          onClick={generatePassphrase}
-          className="w-full flex items-center justify-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors"
-        >
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4" />
-          </svg>
-          Generate Secure Passphrase
-        </button>
+        <div className="space-y-2">
+          <button
+            type="button"
+            onClick={generatePassphrase}
+            className="w-full flex items-center justify-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4" />
+            </svg>
+            Generate Secure Passphrase
+          </button>
+
+          <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+            <button
+              type="button"
+              onClick={() => setShowGeneratorOptions(prev => !prev)}
+              className="hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+            >
+              {showGeneratorOptions ? 'Hide options' : 'Options'}
+            </button>
+            <span>
+              {generatorOptions.wordCount} words from the EFF list: {Math.floor(dicewareEntropyBits(generatorOptions))} bits
+            </span>
+          </div>
+
+          {showGeneratorOptions && (
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-700 dark:text-gray-300">
+              <label className="flex items-center justify-between space-x-2">
+                <span>Words</span>
+                <select
+                  value={generatorOptions.wordCount}
+                  onChange={(e) => updateGeneratorOption('wordCount', Number(e.target.value))}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+                >
+                  {Array.from({ length: DICEWARE_MAX_WORDS - DICEWARE_MIN_WORDS + 1 }, (_, i) => DICEWARE_MIN_WORDS + i).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between space-x-2">
+                <span>Separator</span>
+                <select
+                  value={generatorOptions.separator}
+                  onChange={(e) => updateGeneratorOption('separator', e.target.value)}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+                >
+                  {DICEWARE_SEPARATORS.map(separator => (
+                    <option key={separator} value={separator}>{SEPARATOR_LABELS[separator]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={generatorOptions.capitalize}
+                  onChange={(e) => updateGeneratorOption('capitalize', e.target.checked)}
+                />
+                <span>Capitalise words</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={generatorOptions.includeDigit}
+                  onChange={(e) => updateGeneratorOption('includeDigit', e.target.checked)}
+                />
+                <span>Add a digit</span>
+              </label>
+            </div>
+          )}
+        </div>
       )}
 
       {/* Strength Meter */}
-      {showStrengthMeter && value && (
+      {showStrengthMeter && value && strength && (
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-              Strength: {strength.label}
+              Strength: {STRENGTH_LABELS[strength.score]}
             </span>
             <span className="text-xs text-gray-500 dark:text-gray-400">
-              {value.length} characters
+              ~{Math.round(strength.entropyBits)} bits
             </span>
           </div>
           
           {/* Strength Bar */}
           <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
             <div
-              className={`h-2 rounded-full transition-all duration-300 ${strength.color}`}
+              className={`h-2 rounded-full transition-all duration-300 ${STRENGTH_COLORS[strength.score]}`}
               style={{ width: `${Math.max(10, (strength.score + 1) * 20)}%` }}
             />
           </div>
+
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Time to crack offline: {strength.crackTimeDisplay}
+            {!strength.isAcceptable && ` (at least ${MIN_PASSPHRASE_ENTROPY_BITS} bits required)`}
+          </p>
           
           {/* Feedback */}
-          {strength.feedback.length > 0 && (
+          {feedback.length > 0 && (
             <div className="space-y-1">
-              {strength.feedback.map((feedback, index) => (
+              {feedback.map((item, index) => (
                 <div key={index} className="flex items-start text-xs text-gray-600 dark:text-gray-400">
                   <svg className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
                   </svg>
-                  {feedback}
+                  {item}
                 </div>
               ))}
             </div>
@@ -294,9 +298,9 @@ export function PassphraseInput({
         <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
           <p>Tips for a strong passphrase:</p>
           <ul className="list-disc list-inside space-y-0.5 ml-2">
-            <li>Use at least 12 characters</li>
-            <li>Mix uppercase, lowercase, numbers, and symbols</li>
-            <li>Avoid common words and patterns</li>
+            <li>Several random words beat one clever word</li>
+            <li>Avoid keyboard walks, dates, repeats and your own name or email</li>
+            <li>Swapping letters for symbols (p@ssw0rd) adds little</li>
             <li>Consider using a memorable phrase</li>
           </ul>
         </div>
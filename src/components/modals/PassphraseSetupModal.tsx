@@ -5,23 +5,30 @@
 
 import React, { useState, useCallback } from 'react';
 import { PassphraseInput } from './PassphraseInput';
-import { testCryptoAvailability } from '../../services/crypto';
+import { testCryptoAvailability, DEFAULT_ARGON2ID_PARAMS, LEGACY_KDF_PARAMS } from '../../services/crypto';
+import { generateKeyFile, hashKeyFile } from '../../services/keyFileFactor';
 import { Logo } from '../common/Logo';
+import { KdfParams } from '../../types';
 
 interface PassphraseSetupModalProps {
   isOpen: boolean;
-  onComplete: (passphrase: string) => void;
+  onComplete: (passphrase: string, kdf: KdfParams, keyFileHash?: Uint8Array) => void;
   onCancel: () => void;
+  userInputs?: string[]; // Name and email, which must not make up the passphrase
 }
 
-export function PassphraseSetupModal({ isOpen, onComplete, onCancel }: PassphraseSetupModalProps) {
+export function PassphraseSetupModal({ isOpen, onComplete, onCancel, userInputs }: PassphraseSetupModalProps) {
   const [step, setStep] = useState<'intro' | 'create' | 'confirm' | 'final'>('intro');
   const [passphrase, setPassphrase] = useState('');
   const [confirmPassphrase, setConfirmPassphrase] = useState('');
   const [isPassphraseValid, setIsPassphraseValid] = useState(false);
   const [isConfirmValid, setIsConfirmValid] = useState(false);
   const [acceptedWarning, setAcceptedWarning] = useState(false);
+  const [kdfAlgorithm, setKdfAlgorithm] = useState<KdfParams['algorithm']>('argon2id');
   const [cryptoError, setCryptoError] = useState<string | null>(null);
+  const [useKeyFile, setUseKeyFile] = useState(false);
+  const [keyFileHash, setKeyFileHash] = useState<Uint8Array | null>(null);
+  const [keyFileSaved, setKeyFileSaved] = useState(false);
 
   // Check crypto availability on component mount
   React.useEffect(() => {
@@ -44,14 +51,38 @@ export function PassphraseSetupModal({ isOpen, onComplete, onCancel }: Passphras
     }
   }, [step, isPassphraseValid, isConfirmValid, passphrase, confirmPassphrase]);
 
+  /**
+   * Generate a fresh key file and download it
+   * Each download is a new file, so only the last one downloaded will work
+   */
+  const handleDownloadKeyFile = useCallback(async () => {
+    const keyFile = generateKeyFile();
+    setKeyFileHash(await hashKeyFile(keyFile));
+
+    const url = URL.createObjectURL(keyFile);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'securecardr.key';
+    link.click();
+    URL.revokeObjectURL(url);
+
+    setKeyFileSaved(true);
+  }, []);
+
   const handleComplete = useCallback(() => {
-    if (acceptedWarning && passphrase === confirmPassphrase) {
-      onComplete(passphrase);
+    if (acceptedWarning && passphrase === confirmPassphrase && (!useKeyFile || keyFileHash)) {
+      onComplete(
+        passphrase,
+        kdfAlgorithm === 'argon2id' ? DEFAULT_ARGON2ID_PARAMS : LEGACY_KDF_PARAMS,
+        useKeyFile && keyFileHash ? keyFileHash : undefined
+      );
       // Clear sensitive data
       setPassphrase('');
       setConfirmPassphrase('');
+      setKeyFileHash(null);
+      setKeyFileSaved(false);
     }
-  }, [acceptedWarning, passphrase, confirmPassphrase, onComplete]);
+  }, [acceptedWarning, passphrase, confirmPassphrase, kdfAlgorithm, useKeyFile, keyFileHash, onComplete]);
 
   const handleCancel = useCallback(() => {
     // Clear sensitive data
@@ -59,6 +90,9 @@ export function PassphraseSetupModal({ isOpen, onComplete, onCancel }: Passphras
     setConfirmPassphrase('');
     setStep('intro');
     setAcceptedWarning(false);
+    setUseKeyFile(false);
+    setKeyFileHash(null);
+    setKeyFileSaved(false);
     onCancel();
   }, [onCancel]);
 
@@ -208,6 +242,8 @@ export function PassphraseSetupModal({ isOpen, onComplete, onCancel }: Passphras
                 autoFocus
                 showStrengthMeter
                 showGenerateButton
+                userInputs={userInputs}
+                kdf={kdfAlgorithm === 'argon2id' ? DEFAULT_ARGON2ID_PARAMS : LEGACY_KDF_PARAMS}
               />
 
               <div className="bg-amber-900/20 border border-amber-800 rounded-lg p-4">
@@ -307,6 +343,71 @@ export function PassphraseSetupModal({ isOpen, onComplete, onCancel }: Passphras
                   </label>
                 </div>
               </div>
+
+              {/* Key Derivation Choice */}
+              <div className="bg-background rounded-lg p-4 space-y-3">
+                <p className="text-sm font-medium text-text-primary">Key derivation</p>
+                <label className="flex items-start cursor-pointer">
+                  <input
+                    type="radio"
+                    name="kdf"
+                    checked={kdfAlgorithm === 'argon2id'}
+                    onChange={() => setKdfAlgorithm('argon2id')}
+                    className="mt-1 mr-3"
+                  />
+                  <div>
+                    <p className="text-sm text-text-primary">Argon2id (recommended)</p>
+                    <p className="text-xs text-text-secondary">Memory-hard, resists GPU cracking if your Drive folder leaks</p>
+                  </div>
+                </label>
+                <label className="flex items-start cursor-pointer">
+                  <input
+                    type="radio"
+                    name="kdf"
+                    checked={kdfAlgorithm === 'pbkdf2-sha256'}
+                    onChange={() => setKdfAlgorithm('pbkdf2-sha256')}
+                    className="mt-1 mr-3"
+                  />
+                  <div>
+                    <p className="text-sm text-text-primary">PBKDF2-SHA256</p>
+                    <p className="text-xs text-text-secondary">Faster on older devices, weaker against dedicated hardware</p>
+                  </div>
+                </label>
+              </div>
+
+              {/* Optional Key File */}
+              <div className="bg-background rounded-lg p-4 space-y-3">
+                <label className="flex items-start cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={useKeyFile}
+                    onChange={(e) => setUseKeyFile(e.target.checked)}
+                    className="mt-1 mr-3"
+                  />
+                  <div>
+                    <p className="text-sm text-text-primary">Also require a key file</p>
+                    <p className="text-xs text-text-secondary">
+                      Unlocking will need your passphrase and a file you keep offline, such as on a USB stick
+                    </p>
+                  </div>
+                </label>
+                {useKeyFile && (
+                  <div className="pl-7 space-y-2">
+                    <button
+                      type="button"
+                      onClick={handleDownloadKeyFile}
+                      className="px-3 py-1.5 text-sm bg-slate-700 text-text-primary rounded-md hover:bg-slate-600 transition-colors"
+                    >
+                      {keyFileSaved ? 'Download a new key file' : 'Generate & download key file'}
+                    </button>
+                    <p className="text-xs text-text-secondary">
+                      {keyFileSaved
+                        ? 'Only the most recently downloaded key file will work. Store a copy somewhere safe.'
+                        : 'Without the key file you will need your recovery key to get back in.'}
+                    </p>
+                  </div>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -337,7 +438,7 @@ export function PassphraseSetupModal({ isOpen, onComplete, onCancel }: Passphras
             ) : (
               <button
                 onClick={handleComplete}
-                disabled={!acceptedWarning || cryptoError !== null}
+                disabled={!acceptedWarning || cryptoError !== null || (useKeyFile && !keyFileSaved)}
                 className="px-6 py-2 bg-primary text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center space-x-2"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,154 @@
+/**
+ * QuickUnlockModal Component
+ * Sets up or removes the quick unlock PIN for this device
+ */
+
+import React, { useEffect, useState } from 'react';
+import { VaultKeyring } from '../../types';
+import {
+  QuickUnlockStatus,
+  QUICK_UNLOCK_MAX_ATTEMPTS,
+  PIN_MIN_LENGTH,
+  PIN_MAX_LENGTH,
+  isValidPin,
+  enableQuickUnlock,
+  disableQuickUnlock,
+  getQuickUnlockStatus,
+} from '../../services/quickUnlock';
+
+interface QuickUnlockModalProps {
+  isOpen: boolean;
+  keyring: VaultKeyring;
+  accountId: string;
+  lifetimeHours: number;
+  onClose: () => void;
+}
+
+export function QuickUnlockModal({ isOpen, keyring, accountId, lifetimeHours, onClose }: QuickUnlockModalProps) {
+  const [status, setStatus] = useState<QuickUnlockStatus | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPin('');
+    setConfirmPin('');
+    setError(null);
+    getQuickUnlockStatus(accountId).then(setStatus);
+  }, [isOpen, accountId]);
+
+  if (!isOpen) return null;
+
+  const canSubmit = isValidPin(pin) && pin === confirmPin && !isSaving;
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await enableQuickUnlock(keyring, pin, accountId, lifetimeHours);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set up quick unlock');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    await disableQuickUnlock();
+    onClose();
+  };
+
+  const pinInputClassName = 'w-full px-3 py-2 bg-background border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text-primary tracking-widest';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 animate-fade-in">
+      <div className="bg-surface rounded-lg max-w-md w-full p-6 animate-scale-in shadow-modal">
+        <h2 className="text-xl font-semibold text-text-primary mb-2">Quick Unlock PIN</h2>
+        <p className="text-sm text-text-secondary mb-6">
+          Unlock on this device with a short PIN instead of your passphrase for the next {lifetimeHours} hour
+          {lifetimeHours === 1 ? '' : 's'}. After {QUICK_UNLOCK_MAX_ATTEMPTS} wrong PINs, quick unlock is turned off
+          and your passphrase is required. The PIN never leaves this device.
+        </p>
+
+        {status && (
+          <div className="mb-6 p-3 bg-background border border-slate-700 rounded-md flex items-center justify-between">
+            <p className="text-sm text-text-secondary">
+              A PIN is set until {new Date(status.expiresAt).toLocaleString()}.
+            </p>
+            <button
+              onClick={handleDisable}
+              className="text-sm text-red-400 hover:text-red-300 transition-colors ml-3"
+            >
+              Remove
+            </button>
+          </div>
+        )}
+
+        <form onSubmit={handleEnable} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              {status ? 'New PIN' : 'PIN'} ({PIN_MIN_LENGTH}-{PIN_MAX_LENGTH} digits)
+            </label>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={PIN_MAX_LENGTH}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              className={pinInputClassName}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">Confirm PIN</label>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={PIN_MAX_LENGTH}
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+              className={pinInputClassName}
+            />
+            {confirmPin && pin !== confirmPin && (
+              <p className="mt-1 text-xs text-red-400">PINs do not match</p>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+              <p className="text-red-200 text-small">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="px-4 py-2 text-text-secondary hover:text-text-primary transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="px-4 py-2 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : status ? 'Replace PIN' : 'Set PIN'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
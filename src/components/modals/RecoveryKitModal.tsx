@@ -0,0 +1,151 @@
+/**
+ * RecoveryKitModal Component
+ * Shows a newly generated recovery key as a printable / downloadable recovery kit
+ */
+
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { RecoverySharesModal } from './RecoverySharesModal';
+
+interface RecoveryKitModalProps {
+  recoveryKey: string;
+  email: string;
+  createdAt: Date;
+  onDone: () => void;
+}
+
+const KIT_WIDTH = 800;
+const KIT_HEIGHT = 1000;
+
+export function RecoveryKitModal({ recoveryKey, email, createdAt, onDone }: RecoveryKitModalProps) {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [hasSaved, setHasSaved] = useState(false);
+  const [showShares, setShowShares] = useState(false);
+
+  useEffect(() => {
+    QRCode.toDataURL(recoveryKey, { errorCorrectionLevel: 'M', margin: 1, width: 240 })
+      .then(setQrDataUrl)
+      .catch(error => console.error('Failed to render recovery QR code:', error));
+  }, [recoveryKey]);
+
+  /**
+   * Render the kit to a PNG image and download it
+   */
+  const handleDownload = async () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = KIT_WIDTH;
+    canvas.height = KIT_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, KIT_WIDTH, KIT_HEIGHT);
+    ctx.fillStyle = '#000000';
+
+    ctx.font = 'bold 36px sans-serif';
+    ctx.fillText('SecureCardr Recovery Kit', 60, 100);
+    ctx.font = '22px sans-serif';
+    ctx.fillText(`Account: ${email}`, 60, 170);
+    ctx.fillText(`Created: ${createdAt.toLocaleString()}`, 60, 210);
+    ctx.fillText('Recovery key:', 60, 280);
+    ctx.font = 'bold 30px monospace';
+    ctx.fillText(recoveryKey, 60, 330);
+
+    const qrCanvas = document.createElement('canvas');
+    await QRCode.toCanvas(qrCanvas, recoveryKey, { errorCorrectionLevel: 'M', margin: 1, width: 360 });
+    ctx.drawImage(qrCanvas, (KIT_WIDTH - 360) / 2, 400);
+
+    ctx.font = '18px sans-serif';
+    ctx.fillText('This key unlocks your vault if you forget your passphrase.', 60, 820);
+    ctx.fillText('Store it offline, somewhere safe. Anyone with it can read your cards.', 60, 850);
+
+    const link = document.createElement('a');
+    link.href = canvas.toDataURL('image/png');
+    link.download = `securecardr-recovery-kit-${createdAt.toISOString().slice(0, 10)}.png`;
+    link.click();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 animate-fade-in">
+      <div className="recovery-kit-print bg-surface rounded-lg max-w-lg w-full p-6 animate-scale-in shadow-modal max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold text-text-primary mb-2">Your Recovery Kit</h2>
+        <p className="text-sm text-text-secondary mb-6 no-print">
+          If you forget your passphrase, this recovery key is the only way back into your vault.
+          Print or download it now and keep it somewhere safe and offline. It will not be shown again.
+        </p>
+
+        <div className="border border-slate-700 rounded-lg p-4 space-y-3 mb-6">
+          <div className="text-sm">
+            <span className="text-text-secondary">Account: </span>
+            <span className="text-text-primary">{email}</span>
+          </div>
+          <div className="text-sm">
+            <span className="text-text-secondary">Created: </span>
+            <span className="text-text-primary">{createdAt.toLocaleString()}</span>
+          </div>
+          <div>
+            <p className="text-sm text-text-secondary mb-1">Recovery key</p>
+            <p className="font-mono text-lg text-text-primary break-all select-all">{recoveryKey}</p>
+          </div>
+          {qrDataUrl && (
+            <div className="flex justify-center pt-2">
+              <img src={qrDataUrl} alt="Recovery key QR code" className="w-48 h-48 bg-white p-2 rounded" />
+            </div>
+          )}
+        </div>
+
+        <div className="no-print">
+          <div className="flex space-x-3 mb-6">
+            <button
+              onClick={() => window.print()}
+              className="flex-1 px-4 py-2 border border-slate-600 text-text-primary rounded-md hover:bg-background transition-colors"
+            >
+              Print
+            </button>
+            <button
+              onClick={handleDownload}
+              className="flex-1 px-4 py-2 border border-slate-600 text-text-primary rounded-md hover:bg-background transition-colors"
+            >
+              Download
+            </button>
+          </div>
+
+          <button
+            onClick={() => setShowShares(true)}
+            className="w-full mb-6 text-sm text-primary hover:text-blue-400 transition-colors"
+          >
+            Split among trusted people
+          </button>
+
+          <label className="flex items-start space-x-2 mb-6 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hasSaved}
+              onChange={(e) => setHasSaved(e.target.checked)}
+              className="mt-1"
+            />
+            <span className="text-sm text-text-secondary">
+              I have stored my recovery kit (or its shares) safely
+            </span>
+          </label>
+
+          <button
+            onClick={onDone}
+            disabled={!hasSaved}
+            className="w-full px-4 py-2 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+
+      {showShares && (
+        <RecoverySharesModal
+          recoveryKey={recoveryKey}
+          email={email}
+          onClose={() => setShowShares(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * RecoverySharesModal Component
+ * Splits the recovery key into Shamir shares for trusted people
+ */
+
+import { useState } from 'react';
+import QRCode from 'qrcode';
+import { splitSecret, encodeShare, testShamirSharing } from '../../services/shamir';
+
+interface RecoverySharesModalProps {
+  recoveryKey: string;
+  email: string;
+  onClose: () => void;
+}
+
+interface RenderedShare {
+  index: number;
+  text: string;
+  qrDataUrl: string;
+}
+
+const MAX_SHARES = 10;
+
+export function RecoverySharesModal({ recoveryKey, email, onClose }: RecoverySharesModalProps) {
+  const [shareCount, setShareCount] = useState(5);
+  const [threshold, setThreshold] = useState(3);
+  const [shares, setShares] = useState<RenderedShare[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setError(null);
+
+    try {
+      const selfTest = await testShamirSharing();
+      if (!selfTest.passed) {
+        throw new Error(selfTest.error);
+      }
+
+      const secret = new TextEncoder().encode(recoveryKey);
+      const split = splitSecret(secret, shareCount, threshold);
+      secret.fill(0);
+
+      setShares(await Promise.all(split.map(async share => {
+        const text = await encodeShare(share);
+        return {
+          index: share.index,
+          text,
+          qrDataUrl: await QRCode.toDataURL(text, { errorCorrectionLevel: 'M', margin: 1, width: 200 }),
+        };
+      })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create shares');
+    }
+  };
+
+  /**
+   * Render one share as a PNG card and download it
+   */
+  const handleDownload = async (share: RenderedShare) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 800;
+    canvas.height = 760;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#000000';
+
+    ctx.font = 'bold 32px sans-serif';
+    ctx.fillText(`SecureCardr Recovery Share ${share.index} of ${shareCount}`, 40, 80);
+    ctx.font = '20px sans-serif';
+    ctx.fillText(`Vault: ${email}`, 40, 130);
+    ctx.fillText(`Any ${threshold} shares together unlock the vault. One share alone reveals nothing.`, 40, 165);
+
+    const qrCanvas = document.createElement('canvas');
+    await QRCode.toCanvas(qrCanvas, share.text, { errorCorrectionLevel: 'M', margin: 1, width: 320 });
+    ctx.drawImage(qrCanvas, (canvas.width - 320) / 2, 200);
+
+    ctx.font = '16px monospace';
+    const lineLength = 60;
+    for (let i = 0; i * lineLength < share.text.length; i++) {
+      ctx.fillText(share.text.slice(i * lineLength, (i + 1) * lineLength), 40, 580 + i * 26);
+    }
+
+    const link = document.createElement('a');
+    link.href = canvas.toDataURL('image/png');
+    link.download = `securecardr-recovery-share-${share.index}-of-${shareCount}.png`;
+    link.click();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 animate-fade-in">
+      <div className="bg-surface rounded-lg max-w-2xl w-full p-6 animate-scale-in shadow-modal max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold text-text-primary mb-2">Split Among Trusted People</h2>
+        <p className="text-sm text-text-secondary mb-6">
+          Split your recovery key into shares and give one to each person. Any {threshold} of them
+          together can unlock the vault; fewer reveal nothing about the key.
+        </p>
+
+        {!shares ? (
+          <>
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <label className="block">
+                <span className="block text-sm font-medium text-text-primary mb-2">Number of shares</span>
+                <select
+                  value={shareCount}
+                  onChange={(e) => {
+                    const count = Number(e.target.value);
+                    setShareCount(count);
+                    setThreshold(Math.min(threshold, count));
+                  }}
+                  className="w-full px-3 py-2 bg-background border border-slate-600 rounded-md text-text-primary"
+                >
+                  {Array.from({ length: MAX_SHARES - 1 }, (_, i) => i + 2).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-text-primary mb-2">Shares needed to unlock</span>
+                <select
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="w-full px-3 py-2 bg-background border border-slate-600 rounded-md text-text-primary"
+                >
+                  {Array.from({ length: shareCount - 1 }, (_, i) => i + 2).map(k => (
+                    <option key={k} value={k}>{k}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+                <p className="text-red-200 text-small">{error}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-text-secondary hover:text-text-primary transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Create {shareCount} Shares
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-4 mb-6">
+              {shares.map(share => (
+                <div key={share.index} className="border border-slate-700 rounded-lg p-4 flex items-start space-x-4">
+                  <img src={share.qrDataUrl} alt={`Recovery share ${share.index} QR code`} className="w-28 h-28 bg-white p-1 rounded flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-text-primary mb-1">
+                      Share {share.index} of {shares.length}
+                    </p>
+                    <p className="font-mono text-xs text-text-secondary break-all select-all mb-3">{share.text}</p>
+                    <div className="flex space-x-3">
+                      <button
+                        onClick={() => handleDownload(share)}
+                        className="text-sm text-primary hover:text-blue-400 transition-colors"
+                      >
+                        Download
+                      </button>
+                      <button
+                        onClick={() => navigator.clipboard.writeText(share.text)}
+                        className="text-sm text-primary hover:text-blue-400 transition-colors"
+                      >
+                        Copy text
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * RekeyRecoveryModal Component
+ * Offers to resume or roll back a passphrase change that was interrupted
+ */
+
+import { useState } from 'react';
+import { RekeyJournal, VaultKeyring } from '../../types';
+import { resumeRekey, rollbackRekey, RekeyProgress } from '../../services/vaultRekey';
+
+interface RekeyRecoveryModalProps {
+  journal: RekeyJournal;
+  keyring: VaultKeyring;
+  onComplete: (keyring: VaultKeyring, resumed: boolean) => void;
+}
+
+export function RekeyRecoveryModal({ journal, keyring, onComplete }: RekeyRecoveryModalProps) {
+  const [progress, setProgress] = useState<RekeyProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isRollingBack = journal.state === 'rolling-back';
+  const done = journal.objects.filter(object => object.done).length;
+
+  const run = async (resume: boolean) => {
+    setError(null);
+    setProgress({ phase: resume ? 'reencrypting' : 'rolling-back', completed: 0, total: 0 });
+
+    try {
+      const result = resume
+        ? await resumeRekey(keyring, setProgress)
+        : await rollbackRekey(keyring, setProgress);
+      onComplete(result, resume);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to finish passphrase change');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const percent = progress && progress.total > 0
+    ? Math.round((progress.completed / progress.total) * 100)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 animate-fade-in">
+      <div className="bg-surface rounded-lg max-w-md w-full p-6 animate-scale-in shadow-modal">
+        <h2 className="text-xl font-semibold text-text-primary mb-2">Unfinished Passphrase Change</h2>
+        <p className="text-sm text-text-secondary mb-6">
+          {isRollingBack
+            ? 'A passphrase change was being rolled back when it was interrupted. Finish the rollback to keep using your current passphrase.'
+            : `A passphrase change started on ${new Date(journal.startedAt).toLocaleString()} was interrupted after ${done} of ${journal.objects.length} files. Resume it to switch to the new passphrase, or roll it back to keep the current one.`}
+        </p>
+
+        {progress ? (
+          <div className="space-y-3">
+            <div className="flex justify-between text-sm text-text-secondary">
+              <span>
+                {progress.phase === 'rolling-back' ? 'Rolling back...' : 'Re-encrypting vault...'}
+              </span>
+              <span>{progress.completed} / {progress.total}</span>
+            </div>
+            <div className="w-full h-2 bg-background rounded-full overflow-hidden">
+              <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-xs text-text-secondary">Keep this tab open until this finishes.</p>
+          </div>
+        ) : (
+          <>
+            {error && (
+              <div className="mb-4 p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+                <p className="text-red-200 text-small">{error}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => run(false)}
+                className="px-4 py-2 text-text-secondary hover:text-text-primary transition-colors"
+              >
+                Roll Back
+              </button>
+              {!isRollingBack && (
+                <button
+                  onClick={() => run(true)}
+                  className="px-4 py-2 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Resume
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * StepUpModal Component
+ * Asks for the passphrase or quick unlock PIN again before a sensitive field is shown or copied
+ */
+
+import React, { useEffect, useState } from 'react';
+import { VaultKeyring } from '../../types';
+import { KeyFileInput } from './KeyFileInput';
+import { PinAttemptError, PIN_MAX_LENGTH, getQuickUnlockStatus } from '../../services/quickUnlock';
+import { vaultRequiresKeyFile } from '../../services/vaultKeys';
+import { verifyWithPassphrase, verifyWithPin } from '../../services/stepUp';
+
+interface StepUpModalProps {
+  isOpen: boolean;
+  keyring: VaultKeyring;
+  accountId: string;
+  fieldLabel: string;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+export function StepUpModal({ isOpen, keyring, accountId, fieldLabel, onVerified, onCancel }: StepUpModalProps) {
+  const [method, setMethod] = useState<'pin' | 'passphrase'>('passphrase');
+  const [hasPin, setHasPin] = useState(false);
+  const [secret, setSecret] = useState('');
+  const [requiresKeyFile, setRequiresKeyFile] = useState(false);
+  const [keyFileHash, setKeyFileHash] = useState<Uint8Array | null>(null);
+  const [keyFileName, setKeyFileName] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSecret('');
+    setKeyFileHash(null);
+    setKeyFileName(null);
+    setError(null);
+
+    // The PIN is quicker to type, so it is offered first when set up on this device
+    getQuickUnlockStatus(accountId).then(status => {
+      setHasPin(!!status);
+      setMethod(status ? 'pin' : 'passphrase');
+    });
+    vaultRequiresKeyFile()
+      .then(setRequiresKeyFile)
+      .catch(() => setRequiresKeyFile(false));
+  }, [isOpen, accountId]);
+
+  if (!isOpen) return null;
+
+  const switchMethod = (next: 'pin' | 'passphrase') => {
+    setMethod(next);
+    setSecret('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secret || (method === 'passphrase' && requiresKeyFile && !keyFileHash)) return;
+
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      if (method === 'pin') {
+        await verifyWithPin(keyring, secret, accountId);
+      } else {
+        await verifyWithPassphrase(keyring, secret, keyFileHash ?? undefined);
+      }
+      setSecret('');
+      onVerified();
+    } catch (err) {
+      setSecret('');
+      if (err instanceof PinAttemptError && err.attemptsLeft === 0) {
+        setHasPin(false);
+        setMethod('passphrase');
+        setError(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : 'Verification failed');
+      }
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-background border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text-primary';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60] animate-fade-in">
+      <div className="bg-surface rounded-lg max-w-md w-full p-6 animate-scale-in shadow-modal">
+        <h2 className="text-xl font-semibold text-text-primary mb-2">Confirm it's you</h2>
+        <p className="text-sm text-text-secondary mb-6">
+          Enter your {method === 'pin' ? 'PIN' : 'passphrase'} to show or copy the {fieldLabel}.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {method === 'pin' ? (
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={PIN_MAX_LENGTH}
+              value={secret}
+              onChange={(e) => setSecret(e.target.value.replace(/\D/g, ''))}
+              placeholder="PIN"
+              className={`${inputClassName} tracking-widest`}
+              autoFocus
+              disabled={isVerifying}
+            />
+          ) : (
+            <>
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                placeholder="Passphrase"
+                className={inputClassName}
+                autoFocus
+                disabled={isVerifying}
+              />
+              {requiresKeyFile && (
+                <KeyFileInput
+                  fileName={keyFileName}
+                  onChange={(hash, name) => {
+                    setKeyFileHash(hash);
+                    setKeyFileName(name);
+                  }}
+                  disabled={isVerifying}
+                />
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-800 rounded-md animate-fade-in">
+              <p className="text-red-200 text-small">{error}</p>
+            </div>
+          )}
+
+          {hasPin && (
+            <button
+              type="button"
+              onClick={() => switchMethod(method === 'pin' ? 'passphrase' : 'pin')}
+              className="block text-sm text-primary hover:text-blue-400 transition-colors"
+              disabled={isVerifying}
+            >
+              {method === 'pin' ? 'Use your passphrase instead' : 'Use your PIN instead'}
+            </button>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isVerifying}
+              className="px-4 py-2 text-text-secondary hover:text-text-primary transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!secret || isVerifying || (method === 'passphrase' && requiresKeyFile && !keyFileHash)}
+              className="px-4 py-2 bg-primary text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isVerifying ? 'Checking...' : 'Confirm'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { AuthUser, onAuthChange, signInWithGoogle, signOutUser, checkRedirectResult, reauthorizeForDriveAccess } from '../services/auth';
 import { vaultSession } from '../services/vaultSession';
+import { disableQuickUnlock } from '../services/quickUnlock';
+import { broadcastVaultMessage, subscribeVaultMessages } from '../services/vaultChannel';
 
 interface AuthContextType {
   user: AuthUser | null;
@@ -125,6 +127,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return unsubscribe;
   }, []);
 
+  // Signing out in another tab signs this tab out too
+  useEffect(() => subscribeVaultMessages(message => {
+    if (message.type !== 'signed-out') return;
+    
+    setUser(null);
+    signOutUser().catch(error => console.error('AuthProvider: Error following sign out from another tab:', error));
+  }), []);
+
   const signIn = async () => {
     try {
       console.log('AuthProvider: Starting sign in');
@@ -163,8 +173,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const signOut = async () => {
     try {
       await signOutUser();
-      // Clear vault session on sign out
-      vaultSession.clearSession();
+      // Clear vault session and quick unlock on sign out, in every tab
+      await vaultSession.clearSession();
+      await disableQuickUnlock();
+      broadcastVaultMessage({ type: 'signed-out' });
       setError(null);
       setShowDrivePermissionModal(false);
     } catch (error: any) {
@@ -120,6 +120,30 @@ export function useDriveStorage() {
     }
   }, []);
 
+  const startChangeTracking = useCallback(async () => {
+    try {
+      await driveStorage.startCardChangeTracking();
+    } catch (err: any) {
+      console.error('Error starting change tracking:', err);
+      // Don't throw - the next sync loads everything instead
+    }
+  }, []);
+
+  const listCardChanges = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const changes = await driveStorage.listCardChangesFromDrive();
+      return changes;
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   const updateCard = useCallback(async (
     fileId: string,
     card: CardData,
@@ -228,6 +252,8 @@ export function useDriveStorage() {
     loadCard,
     loadCardImage,
     listCards,
+    startChangeTracking,
+    listCardChanges,
     updateCard,
     deleteCard,
     savePreferences,
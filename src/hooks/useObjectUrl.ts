@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Object URL for showing a Blob, such as a decrypted card image
+ * The URL only lives while the component using it is mounted: it is revoked when the
+ * Blob changes or the component unmounts (locking the vault unmounts every card).
+ * @param blob - Blob to show, if any
+ * @returns URL for an img src, or undefined while there is none
+ */
+export function useObjectUrl(blob?: Blob): string | undefined {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(undefined);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
@@ -28,9 +28,12 @@ export const auth = getAuth(app);
 const googleProvider = new GoogleAuthProvider();
 
 // CRITICAL: These scopes are MANDATORY for SecureCardr to function
-googleProvider.addScope('https://www.googleapis.com/auth/drive.file');
-googleProvider.addScope('https://www.googleapis.com/auth/userinfo.profile');
-googleProvider.addScope('https://www.googleapis.com/auth/userinfo.email');
+const GOOGLE_SCOPES = [
+  'https://www.googleapis.com/auth/drive.file',
+  'https://www.googleapis.com/auth/userinfo.profile',
+  'https://www.googleapis.com/auth/userinfo.email',
+];
+GOOGLE_SCOPES.forEach(scope => googleProvider.addScope(scope));
 
 // Force consent screen to ensure Drive permissions are granted
 // This prevents users from skipping the Drive permission
@@ -336,14 +339,25 @@ export function onAuthChange(callback: (user: AuthUser | null) => void): () => v
         }
       }
       
-      if (!token) {
+      // Offline: Drive cannot be checked, and the vault opens from this device's cache
+      const offline = !navigator.onLine;
+      
+      if (!token && !offline) {
         console.warn('No access token found after waiting - user may need to sign in again');
         callback(null);
         return;
       }
       
-      // Verify Drive API access is still working
-      const driveAccessWorks = await testDriveAccess(token);
+      // Verify Drive API access is still working; a token from an earlier visit may have expired
+      let driveAccessWorks = offline || await testDriveAccess(token!);
+      if (!driveAccessWorks) {
+        driveAccessWorks = await refreshAccessToken()
+          .then(testDriveAccess)
+          .catch(error => {
+            console.warn('Could not renew the access token:', error);
+            return false;
+          });
+      }
       
       if (!driveAccessWorks) {
         console.error('Drive API access lost, signing out user');
@@ -380,6 +394,104 @@ export function getAccessToken(): string | null {
   return sessionStorage.getItem('googleAccessToken');
 }
 
+// Google Identity Services, which renews access tokens (Firebase only hands out the first one)
+const GOOGLE_IDENTITY_SCRIPT = 'https://accounts.google.com/gsi/client';
+
+// Give up on a renewal Google does not answer, so waiting Drive requests fail instead of hanging
+const TOKEN_RENEWAL_TIMEOUT_MS = 30_000;
+
+interface GoogleTokenResponse {
+  access_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface GoogleIdentityServices {
+  accounts: {
+    oauth2: {
+      initTokenClient(config: {
+        client_id: string;
+        scope: string;
+        prompt?: string;
+        login_hint?: string;
+        callback: (response: GoogleTokenResponse) => void;
+        error_callback?: (error: { type: string; message?: string }) => void;
+      }): { requestAccessToken(): void };
+    };
+  };
+}
+
+let identityServicesLoad: Promise<GoogleIdentityServices> | null = null;
+
+/**
+ * Load the Google Identity Services script once
+ */
+function loadIdentityServices(): Promise<GoogleIdentityServices> {
+  if (!identityServicesLoad) {
+    identityServicesLoad = new Promise<GoogleIdentityServices>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = GOOGLE_IDENTITY_SCRIPT;
+      script.async = true;
+      script.onload = () => {
+        const google = (window as unknown as { google?: GoogleIdentityServices }).google;
+        if (google?.accounts?.oauth2) {
+          resolve(google);
+        } else {
+          reject(new Error('Google Identity Services did not load'));
+        }
+      };
+      script.onerror = () => reject(new Error('Failed to load Google Identity Services'));
+      document.head.appendChild(script);
+    }).catch(error => {
+      // Let a later renewal try loading it again
+      identityServicesLoad = null;
+      throw error;
+    });
+  }
+  return identityServicesLoad;
+}
+
+/**
+ * Get a new Drive access token without asking the user, when the current one expires
+ * Google renews access the user already granted to the signed-in account; it fails
+ * if the user has to act (signed out of Google, access revoked).
+ * @returns Promise<string> - The new access token (also stored for Drive calls)
+ */
+export async function refreshAccessToken(): Promise<string> {
+  const clientId = import.meta.env.VITE_GOOGLE_DRIVE_CLIENT_ID;
+  if (!clientId) {
+    throw new Error('Token renewal is not configured (VITE_GOOGLE_DRIVE_CLIENT_ID)');
+  }
+  
+  const google = await loadIdentityServices();
+  const token = await new Promise<string>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('Token renewal timed out')), TOKEN_RENEWAL_TIMEOUT_MS);
+    const settle = (error: Error | null, accessToken?: string) => {
+      clearTimeout(timeout);
+      if (error || !accessToken) {
+        reject(error ?? new Error('No access token returned'));
+      } else {
+        resolve(accessToken);
+      }
+    };
+    
+    google.accounts.oauth2.initTokenClient({
+      client_id: clientId,
+      scope: GOOGLE_SCOPES.join(' '),
+      prompt: 'none',
+      login_hint: auth.currentUser?.email ?? undefined,
+      callback: response => settle(
+        response.error ? new Error(response.error_description || response.error) : null,
+        response.access_token
+      ),
+      error_callback: error => settle(new Error(error.message || error.type)),
+    }).requestAccessToken();
+  });
+  
+  sessionStorage.setItem('googleAccessToken', token);
+  return token;
+}
+
 /**
  * Check if user has required Drive permissions
  */
@@ -3,30 +3,37 @@
  * Handles encryption/decryption of card data with proper serialization
  */
 
-import { Card, EncryptedData } from '../types';
-import { encrypt, decryptString } from './crypto';
+import { Card, EncryptedData, VaultSecret } from '../types';
+import { encrypt, decryptString, TamperError } from './crypto';
+
+/**
+ * Serialize a card the way it is stored
+ * @param card - Card object
+ * @returns string - JSON with dates as ISO strings, without decrypted image Blobs
+ */
+export function serializeCard(card: Card): string {
+  return JSON.stringify({
+    ...card,
+    images: card.images?.map(({ blob: _blob, ...image }) => image),
+    // Ensure dates are properly serialized
+    addedAt: card.addedAt.toISOString(),
+    updatedAt: card.updatedAt.toISOString(),
+  });
+}
 
 /**
  * Encrypt card data for storage
  * @param card - Card object to encrypt
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @returns Promise<EncryptedData> - Encrypted card data
  */
-export async function encryptCard(card: Card, passphrase: string): Promise<EncryptedData> {
+export async function encryptCard(card: Card, secret: VaultSecret): Promise<EncryptedData> {
   try {
-    // Create a clean copy of the card data
-    const cardData = {
-      ...card,
-      // Ensure dates are properly serialized
-      addedAt: card.addedAt.toISOString(),
-      updatedAt: card.updatedAt.toISOString(),
-    };
-
     // Convert to JSON string
-    const jsonString = JSON.stringify(cardData);
+    const jsonString = serializeCard(card);
 
-    // Encrypt the JSON string
-    const encrypted = await encrypt(jsonString, passphrase);
+    // Encrypt the JSON string, bound to this card's ID
+    const encrypted = await encrypt(jsonString, secret, { binding: { type: 'card', id: card.id } });
 
     return encrypted;
   } catch (error) {
@@ -37,17 +44,28 @@ export async function encryptCard(card: Card, passphrase: string): Promise<Encry
 /**
  * Decrypt card data from storage
  * @param encryptedData - Encrypted card data
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
+ * @param cardId - ID of the card the file is stored as
  * @returns Promise<Card> - Decrypted card object
+ * @throws TamperError if the file holds another card's data or was modified
  */
-export async function decryptCard(encryptedData: EncryptedData, passphrase: string): Promise<Card> {
+export async function decryptCard(
+  encryptedData: EncryptedData,
+  secret: VaultSecret,
+  cardId: string
+): Promise<Card> {
   try {
     // Decrypt to JSON string
-    const jsonString = await decryptString(encryptedData, passphrase);
+    const jsonString = await decryptString(encryptedData, secret, { type: 'card', id: cardId });
 
     // Parse JSON
     const cardData = JSON.parse(jsonString);
 
+    // Unbound (older) files carry no identity proof; at least check the ID they claim
+    if (cardData.id !== cardId) {
+      throw new TamperError({ type: 'card', id: cardId });
+    }
+
     // Convert date strings back to Date objects
     return {
       ...cardData,
@@ -55,6 +73,9 @@ export async function decryptCard(encryptedData: EncryptedData, passphrase: stri
       updatedAt: new Date(cardData.updatedAt),
     };
   } catch (error) {
+    if (error instanceof TamperError) {
+      throw error;
+    }
     throw new Error(`Failed to decrypt card data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -62,14 +83,14 @@ export async function decryptCard(encryptedData: EncryptedData, passphrase: stri
 /**
  * Encrypt multiple cards in batch
  * @param cards - Array of cards to encrypt
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @returns Promise<EncryptedData[]> - Array of encrypted card data
  */
-export async function encryptCards(cards: Card[], passphrase: string): Promise<EncryptedData[]> {
+export async function encryptCards(cards: Card[], secret: VaultSecret): Promise<EncryptedData[]> {
   const results: EncryptedData[] = [];
   
   for (const card of cards) {
-    const encrypted = await encryptCard(card, passphrase);
+    const encrypted = await encryptCard(card, secret);
     results.push(encrypted);
   }
   
@@ -78,15 +99,18 @@ export async function encryptCards(cards: Card[], passphrase: string): Promise<E
 
 /**
  * Decrypt multiple cards in batch
- * @param encryptedCards - Array of encrypted card data
- * @param passphrase - User's passphrase
+ * @param encryptedCards - Encrypted card data with the ID each card is stored as
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @returns Promise<Card[]> - Array of decrypted cards
  */
-export async function decryptCards(encryptedCards: EncryptedData[], passphrase: string): Promise<Card[]> {
+export async function decryptCards(
+  encryptedCards: Array<{ id: string; data: EncryptedData }>,
+  secret: VaultSecret
+): Promise<Card[]> {
   const results: Card[] = [];
   
   for (const encryptedCard of encryptedCards) {
-    const card = await decryptCard(encryptedCard, passphrase);
+    const card = await decryptCard(encryptedCard.data, secret, encryptedCard.id);
     results.push(card);
   }
   
@@ -96,10 +120,10 @@ export async function decryptCards(encryptedCards: EncryptedData[], passphrase:
 /**
  * Encrypt a card index for faster searches
  * @param cards - Array of cards
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @returns Promise<EncryptedData> - Encrypted index data
  */
-export async function encryptCardIndex(cards: Card[], passphrase: string): Promise<EncryptedData> {
+export async function encryptCardIndex(cards: Card[], secret: VaultSecret): Promise<EncryptedData> {
   try {
     // Create searchable index with minimal data
     const index = cards.map(card => ({
@@ -117,7 +141,8 @@ export async function encryptCardIndex(cards: Card[], passphrase: string): Promi
       cards: index,
     });
 
-    return await encrypt(jsonString, passphrase);
+    // The index grows with the vault, so it is worth compressing
+    return await encrypt(jsonString, secret, { compress: true, binding: { type: 'index' } });
   } catch (error) {
     throw new Error(`Failed to encrypt card index: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
@@ -126,10 +151,11 @@ export async function encryptCardIndex(cards: Card[], passphrase: string): Promi
 /**
  * Decrypt card index
  * @param encryptedIndex - Encrypted index data
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @returns Promise<CardIndex> - Decrypted index
+ * @throws TamperError if the file is not the card index or was modified
  */
-export async function decryptCardIndex(encryptedIndex: EncryptedData, passphrase: string): Promise<{
+export async function decryptCardIndex(encryptedIndex: EncryptedData, secret: VaultSecret): Promise<{
   version: string;
   lastUpdated: Date;
   cards: Array<{
@@ -142,7 +168,7 @@ export async function decryptCardIndex(encryptedIndex: EncryptedData, passphrase
   }>;
 }> {
   try {
-    const jsonString = await decryptString(encryptedIndex, passphrase);
+    const jsonString = await decryptString(encryptedIndex, secret, { type: 'index' });
     const indexData = JSON.parse(jsonString);
 
     return {
@@ -155,6 +181,9 @@ export async function decryptCardIndex(encryptedIndex: EncryptedData, passphrase
       })),
     };
   } catch (error) {
+    if (error instanceof TamperError) {
+      throw error;
+    }
     throw new Error(`Failed to decrypt card index: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -162,13 +191,13 @@ export async function decryptCardIndex(encryptedIndex: EncryptedData, passphrase
 /**
  * Encrypt generic JSON data
  * @param data - Any serializable object
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @returns Promise<EncryptedData> - Encrypted data
  */
-export async function encryptJSON<T>(data: T, passphrase: string): Promise<EncryptedData> {
+export async function encryptJSON<T>(data: T, secret: VaultSecret): Promise<EncryptedData> {
   try {
     const jsonString = JSON.stringify(data);
-    return await encrypt(jsonString, passphrase);
+    return await encrypt(jsonString, secret);
   } catch (error) {
     throw new Error(`Failed to encrypt JSON data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
@@ -177,12 +206,12 @@ export async function encryptJSON<T>(data: T, passphrase: string): Promise<Encry
 /**
  * Decrypt generic JSON data
  * @param encryptedData - Encrypted data
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @returns Promise<T> - Decrypted and parsed data
  */
-export async function decryptJSON<T>(encryptedData: EncryptedData, passphrase: string): Promise<T> {
+export async function decryptJSON<T>(encryptedData: EncryptedData, secret: VaultSecret): Promise<T> {
   try {
-    const jsonString = await decryptString(encryptedData, passphrase);
+    const jsonString = await decryptString(encryptedData, secret);
     return JSON.parse(jsonString);
   } catch (error) {
     throw new Error(`Failed to decrypt JSON data: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -195,14 +224,30 @@ export async function decryptJSON<T>(encryptedData: EncryptedData, passphrase: s
  * @returns boolean - True if valid encrypted data structure
  */
 export function isValidEncryptedData(data: any): data is EncryptedData {
-  return (
-    typeof data === 'object' &&
-    data !== null &&
-    typeof data.iv === 'string' &&
-    typeof data.salt === 'string' &&
-    typeof data.ciphertext === 'string' &&
-    typeof data.authTag === 'string'
-  );
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  switch (data.version) {
+    case 2:
+      return (
+        data.cipher === 'aes-256-gcm' &&
+        data.salt instanceof Uint8Array &&
+        data.iv instanceof Uint8Array &&
+        data.ciphertext instanceof Uint8Array &&
+        (data.kdf !== null || typeof data.keyId === 'string')
+      );
+    case 1:
+    case undefined:
+      return (
+        typeof data.iv === 'string' &&
+        typeof data.salt === 'string' &&
+        typeof data.ciphertext === 'string' &&
+        typeof data.authTag === 'string'
+      );
+    default:
+      return false;
+  }
 }
 
 /**
@@ -0,0 +1,106 @@
+/**
+ * Clipboard
+ * Copies card data and clears it from the clipboard again after a delay
+ *
+ * SECURITY NOTES:
+ * - The clipboard is only cleared if it still holds the value copied here, so
+ *   anything the user copied since is left alone
+ * - Browsers that do not let the page read the clipboard cannot be checked; the
+ *   value is left in place and the user is asked to replace it
+ * - Locking the vault clears the clipboard immediately
+ */
+
+export type ClipboardStatus =
+  | { state: 'copied'; label: string; expiresAt: number }
+  | { state: 'unverified'; label: string }; // Could not check whether the value is still there
+
+export type ClipboardClearResult = 'cleared' | 'replaced' | 'unverified';
+
+type ClipboardListener = (status: ClipboardStatus | null) => void;
+
+interface CopiedValue {
+  value: string;
+  label: string;
+  expiresAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let copied: CopiedValue | null = null;
+let status: ClipboardStatus | null = null;
+const listeners = new Set<ClipboardListener>();
+
+function setStatus(next: ClipboardStatus | null): void {
+  status = next;
+  listeners.forEach(listener => listener(status));
+}
+
+/**
+ * Copy a value and clear it again after a delay
+ * @param value - Text to copy
+ * @param label - What was copied, for the countdown (e.g. "Card number")
+ * @param clearAfterSeconds - Seconds until the clipboard is cleared
+ */
+export async function copySecret(value: string, label: string, clearAfterSeconds: number): Promise<void> {
+  await navigator.clipboard.writeText(value);
+
+  if (copied) {
+    clearTimeout(copied.timer);
+  }
+  const expiresAt = Date.now() + clearAfterSeconds * 1000;
+  copied = {
+    value,
+    label,
+    expiresAt,
+    timer: setTimeout(() => clearCopiedSecret(), clearAfterSeconds * 1000),
+  };
+  setStatus({ state: 'copied', label, expiresAt });
+}
+
+/**
+ * Clear the clipboard now if it still holds the last copied value
+ * @returns Promise<ClipboardClearResult | null> - Outcome, or null if nothing was pending
+ */
+export async function clearCopiedSecret(): Promise<ClipboardClearResult | null> {
+  if (!copied) return null;
+
+  const { value, label, timer } = copied;
+  clearTimeout(timer);
+  copied = null;
+
+  try {
+    if ((await navigator.clipboard.readText()) !== value) {
+      setStatus(null);
+      return 'replaced';
+    }
+    await navigator.clipboard.writeText('');
+    setStatus(null);
+    return 'cleared';
+  } catch (error) {
+    // Reading needs permission and a focused page; some browsers never allow it
+    console.warn('Could not check the clipboard:', error);
+    setStatus({ state: 'unverified', label });
+    return 'unverified';
+  }
+}
+
+/**
+ * Hide an "unverified" notice without touching the clipboard
+ */
+export function dismissClipboardStatus(): void {
+  if (status?.state === 'unverified') {
+    setStatus(null);
+  }
+}
+
+/**
+ * Listen for copy and clear events
+ * The listener is called with the current status right away.
+ * @returns () => void - Unsubscribes the listener
+ */
+export function subscribeClipboard(listener: ClipboardListener): () => void {
+  listeners.add(listener);
+  listener(status);
+  return () => {
+    listeners.delete(listener);
+  };
+}
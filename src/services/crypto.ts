@@ -1,6 +1,6 @@
 /**
  * Client-side encryption utilities using Web Crypto API
- * Implements AES-GCM encryption with PBKDF2 key derivation
+ * Implements AES-GCM encryption with PBKDF2 or Argon2id key derivation
  * 
  * SECURITY PRINCIPLES:
  * - All encryption happens client-side
@@ -9,7 +9,19 @@
  * - Uses cryptographically secure random number generation
  */
 
-import { EncryptedData } from '../types';
+import { argon2id } from 'hash-wasm';
+import {
+  EncryptedData,
+  EncryptedDataV1,
+  EncryptedDataV2,
+  KdfParams,
+  ObjectBinding,
+  Pbkdf2Params,
+  Argon2idParams,
+  VaultSecret,
+} from '../types';
+import { DEFAULT_DICEWARE_OPTIONS, generateDicewarePassphrase } from './diceware';
+import { CryptoWorkerError, isCryptoPoolAvailable, runCryptoTask, toWorkerSecret } from './cryptoPool';
 
 // Constants for encryption parameters
 export const ENCRYPTION_CONSTANTS = {
@@ -20,6 +32,164 @@ export const ENCRYPTION_CONSTANTS = {
   PBKDF2_ITERATIONS: 100000, // Configurable, minimum 100k
 } as const;
 
+/**
+ * KDF used by data written before KDF parameters were recorded.
+ * Encrypted data without a `kdf` field is always read with these parameters.
+ */
+export const LEGACY_KDF_PARAMS: Pbkdf2Params = {
+  algorithm: 'pbkdf2-sha256',
+  iterations: ENCRYPTION_CONSTANTS.PBKDF2_ITERATIONS,
+};
+
+/**
+ * Default Argon2id parameters for new vaults (RFC 9106, 64 MiB / 3 passes)
+ */
+export const DEFAULT_ARGON2ID_PARAMS: Argon2idParams = {
+  algorithm: 'argon2id',
+  memoryKiB: 64 * 1024,
+  iterations: 3,
+  parallelism: 1,
+};
+
+// Bounds applied to KDF parameters read from Drive, so a tampered file
+// can neither downgrade derivation nor exhaust the browser's memory
+const KDF_LIMITS = {
+  PBKDF2_MIN_ITERATIONS: 100000,
+  PBKDF2_MAX_ITERATIONS: 10000000,
+  ARGON2_MIN_MEMORY_KIB: 19 * 1024,
+  ARGON2_MAX_MEMORY_KIB: 1024 * 1024,
+  ARGON2_MAX_ITERATIONS: 20,
+  ARGON2_MAX_PARALLELISM: 16,
+} as const;
+
+/**
+ * Thrown when an encrypted object fails authentication against the identity it
+ * was loaded as, e.g. a card file swapped with another card's or modified in place
+ */
+export class TamperError extends Error {
+  readonly binding: ObjectBinding;
+
+  constructor(binding: ObjectBinding) {
+    const labels: Record<ObjectBinding['type'], string> = {
+      card: `card ${binding.id}`,
+      image: `image of card ${binding.id}`,
+      thumbnail: `thumbnail of card ${binding.id}`,
+      index: 'card index',
+      prefs: 'preferences file',
+      manifest: 'vault manifest',
+    };
+    super(`Tamper detected: the encrypted ${labels[binding.type]} was modified or swapped with another object`);
+    this.name = 'TamperError';
+    this.binding = binding;
+  }
+}
+
+/**
+ * Restore error types that do not survive the trip back from a crypto worker
+ */
+function restoreWorkerError(error: unknown): never {
+  if (error instanceof CryptoWorkerError && error.name === 'TamperError' && error.binding) {
+    throw new TamperError(error.binding);
+  }
+  throw error;
+}
+
+/**
+ * Associated data binding an encrypted object to its identity and format version
+ * @param binding - Object type and card ID
+ * @param formatVersion - Version of the format the object is written in
+ * @returns Uint8Array - AES-GCM additional authenticated data
+ */
+export function bindingToAssociatedData(binding: ObjectBinding, formatVersion: number): Uint8Array {
+  return new TextEncoder().encode(`securecardr:${formatVersion}:${binding.type}:${binding.id ?? ''}`);
+}
+
+// KDF used when encrypting new data; set from the vault config on unlock
+let activeKdf: KdfParams = LEGACY_KDF_PARAMS;
+
+// Vault keys whose objects are all bound to their identity (recorded in keys.json);
+// an unbound object read with one of them can only be an older file put back
+const boundVaultKeys = new Set<string>();
+
+/**
+ * Set the KDF used for newly encrypted data
+ */
+export function setActiveKdf(kdf: KdfParams): void {
+  assertValidKdfParams(kdf);
+  activeKdf = kdf;
+}
+
+/**
+ * Get the KDF used for newly encrypted data
+ */
+export function getActiveKdf(): KdfParams {
+  return activeKdf;
+}
+
+/**
+ * Reject unbound objects read with a vault key from now on
+ * Called on unlock once the vault is known to have every object bound.
+ */
+export function requireBoundObjects(keyId: string): void {
+  boundVaultKeys.add(keyId);
+}
+
+/**
+ * Whether unbound objects are refused for a vault key
+ */
+export function isBoundVaultKey(keyId: string): boolean {
+  return boundVaultKeys.has(keyId);
+}
+
+/**
+ * Refuse an unbound object where the vault only holds bound ones
+ * @param bound - Whether the object is authenticated with its identity
+ * @param secret - Secret the object is being read with
+ * @param binding - Identity the object is expected to have
+ * @throws TamperError if the object should have been bound
+ */
+export function assertBindingAllowed(bound: boolean, secret: VaultSecret, binding?: ObjectBinding): void {
+  if (binding && !bound && typeof secret !== 'string' && boundVaultKeys.has(secret.keyId)) {
+    throw new TamperError(binding);
+  }
+}
+
+/**
+ * Validate KDF parameters against sane bounds
+ * @throws Error if the parameters are unknown or out of range
+ */
+export function assertValidKdfParams(kdf: KdfParams): void {
+  if (kdf.algorithm === 'pbkdf2-sha256') {
+    if (
+      !Number.isInteger(kdf.iterations) ||
+      kdf.iterations < KDF_LIMITS.PBKDF2_MIN_ITERATIONS ||
+      kdf.iterations > KDF_LIMITS.PBKDF2_MAX_ITERATIONS
+    ) {
+      throw new Error(`Invalid PBKDF2 iteration count: ${kdf.iterations}`);
+    }
+    return;
+  }
+
+  if (kdf.algorithm === 'argon2id') {
+    if (
+      !Number.isInteger(kdf.memoryKiB) ||
+      kdf.memoryKiB < KDF_LIMITS.ARGON2_MIN_MEMORY_KIB ||
+      kdf.memoryKiB > KDF_LIMITS.ARGON2_MAX_MEMORY_KIB
+    ) {
+      throw new Error(`Invalid Argon2id memory cost: ${kdf.memoryKiB} KiB`);
+    }
+    if (!Number.isInteger(kdf.iterations) || kdf.iterations < 1 || kdf.iterations > KDF_LIMITS.ARGON2_MAX_ITERATIONS) {
+      throw new Error(`Invalid Argon2id iteration count: ${kdf.iterations}`);
+    }
+    if (!Number.isInteger(kdf.parallelism) || kdf.parallelism < 1 || kdf.parallelism > KDF_LIMITS.ARGON2_MAX_PARALLELISM) {
+      throw new Error(`Invalid Argon2id parallelism: ${kdf.parallelism}`);
+    }
+    return;
+  }
+
+  throw new Error(`Unsupported key derivation function: ${(kdf as { algorithm?: string }).algorithm}`);
+}
+
 /**
  * Generate cryptographically secure random bytes
  */
@@ -44,43 +214,36 @@ export function generateIV(): Uint8Array {
 }
 
 /**
- * Derive an encryption key from a passphrase using PBKDF2
+ * Derive an encryption key from a passphrase
+ * Runs in the crypto worker pool when called from the page.
  * @param passphrase - User's passphrase
  * @param salt - Random salt (should be stored with encrypted data)
- * @param iterations - PBKDF2 iterations (default: 100,000)
+ * @param kdf - KDF algorithm and parameters (default: legacy PBKDF2, 100,000 iterations)
+ * @param keyFileHash - SHA-256 of a key file required in addition to the passphrase
  * @returns Promise<CryptoKey> - Derived AES-GCM key
  */
 export async function deriveKey(
   passphrase: string,
   salt: Uint8Array,
-  iterations: number = ENCRYPTION_CONSTANTS.PBKDF2_ITERATIONS
+  kdf: KdfParams = LEGACY_KDF_PARAMS,
+  keyFileHash?: Uint8Array
 ): Promise<CryptoKey> {
-  // Convert passphrase to bytes
-  const passphraseBytes = new TextEncoder().encode(passphrase);
+  if (isCryptoPoolAvailable()) {
+    return runCryptoTask({ type: 'derive-key', passphrase, salt, kdf, keyFileHash });
+  }
+
+  // Convert passphrase to bytes; with a key file the KDF input is the
+  // composite SHA-256(passphrase) || SHA-256(key file), as in KeePass
+  const passphraseBytes = keyFileHash
+    ? await compositeKeyInput(passphrase, keyFileHash)
+    : new TextEncoder().encode(passphrase);
   
   try {
-    // Step 1: Import passphrase as raw key material
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      passphraseBytes,
-      { name: 'PBKDF2' },
-      false,
-      ['deriveKey']
-    );
+    assertValidKdfParams(kdf);
 
-    // Step 2: Derive final AES key directly using PBKDF2
-    const finalKey = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt,
-        iterations,
-        hash: 'SHA-256',
-      },
-      keyMaterial,
-      { name: 'AES-GCM', length: ENCRYPTION_CONSTANTS.KEY_LENGTH },
-      false,
-      ['encrypt', 'decrypt']
-    );
+    const finalKey = kdf.algorithm === 'argon2id'
+      ? await deriveArgon2idKey(passphraseBytes, salt, kdf)
+      : await derivePbkdf2Key(passphraseBytes, salt, kdf);
 
     // Clear sensitive data from memory
     passphraseBytes.fill(0);
@@ -93,17 +256,101 @@ export async function deriveKey(
   }
 }
 
+/**
+ * Combine the passphrase with a key file hash into one KDF input
+ */
+async function compositeKeyInput(passphrase: string, keyFileHash: Uint8Array): Promise<Uint8Array> {
+  if (keyFileHash.length !== 32) {
+    throw new Error('Key file hash must be 32 bytes');
+  }
+
+  const encoded = new TextEncoder().encode(passphrase);
+  const passphraseHash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoded));
+  encoded.fill(0);
+
+  const composite = new Uint8Array(64);
+  composite.set(passphraseHash);
+  composite.set(keyFileHash, 32);
+  passphraseHash.fill(0);
+  return composite;
+}
+
+/**
+ * Derive an AES-GCM key with PBKDF2-SHA256
+ */
+async function derivePbkdf2Key(
+  passphraseBytes: Uint8Array,
+  salt: Uint8Array,
+  kdf: Pbkdf2Params
+): Promise<CryptoKey> {
+  // Step 1: Import passphrase as raw key material
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    passphraseBytes,
+    { name: 'PBKDF2' },
+    false,
+    ['deriveKey']
+  );
+
+  // Step 2: Derive final AES key directly using PBKDF2
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt,
+      iterations: kdf.iterations,
+      hash: 'SHA-256',
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: ENCRYPTION_CONSTANTS.KEY_LENGTH },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Derive an AES-GCM key with Argon2id (WASM)
+ */
+async function deriveArgon2idKey(
+  passphraseBytes: Uint8Array,
+  salt: Uint8Array,
+  kdf: Argon2idParams
+): Promise<CryptoKey> {
+  const keyBytes = await argon2id({
+    password: passphraseBytes,
+    salt,
+    iterations: kdf.iterations,
+    parallelism: kdf.parallelism,
+    memorySize: kdf.memoryKiB,
+    hashLength: ENCRYPTION_CONSTANTS.KEY_LENGTH / 8,
+    outputType: 'binary',
+  });
+
+  try {
+    return await crypto.subtle.importKey(
+      'raw',
+      keyBytes,
+      { name: 'AES-GCM', length: ENCRYPTION_CONSTANTS.KEY_LENGTH },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  } finally {
+    keyBytes.fill(0);
+  }
+}
+
 /**
  * Encrypt data using AES-GCM
  * @param data - Data to encrypt (string or ArrayBuffer)
  * @param key - Encryption key (from deriveKey)
  * @param iv - Initialization vector (should be random for each encryption)
+ * @param additionalData - Optional associated data authenticated alongside the ciphertext
  * @returns Promise<ArrayBuffer> - Encrypted data with authentication tag
  */
 export async function encryptData(
   data: string | ArrayBuffer,
   key: CryptoKey,
-  iv: Uint8Array
+  iv: Uint8Array,
+  additionalData?: Uint8Array
 ): Promise<ArrayBuffer> {
   try {
     // Convert string data to bytes if needed
@@ -114,6 +361,7 @@ export async function encryptData(
       {
         name: 'AES-GCM',
         iv,
+        ...(additionalData && { additionalData }),
         tagLength: ENCRYPTION_CONSTANTS.TAG_LENGTH * 8, // Convert to bits
       },
       key,
@@ -131,12 +379,14 @@ export async function encryptData(
  * @param encryptedData - Encrypted data with authentication tag
  * @param key - Decryption key (from deriveKey)
  * @param iv - Initialization vector used for encryption
+ * @param additionalData - Associated data the ciphertext was encrypted with, if any
  * @returns Promise<ArrayBuffer> - Decrypted data
  */
 export async function decryptData(
   encryptedData: ArrayBuffer,
   key: CryptoKey,
-  iv: Uint8Array
+  iv: Uint8Array,
+  additionalData?: Uint8Array
 ): Promise<ArrayBuffer> {
   try {
     // Decrypt using AES-GCM
@@ -144,6 +394,7 @@ export async function decryptData(
       {
         name: 'AES-GCM',
         iv,
+        ...(additionalData && { additionalData }),
         tagLength: ENCRYPTION_CONSTANTS.TAG_LENGTH * 8, // Convert to bits
       },
       key,
@@ -156,35 +407,84 @@ export async function decryptData(
   }
 }
 
+/**
+ * Options for high-level encryption
+ */
+export interface EncryptOptions {
+  salt?: Uint8Array; // Passphrase only; a new salt is generated if omitted
+  kdf?: KdfParams; // Passphrase only; defaults to the vault's active KDF
+  compress?: boolean; // Gzip the plaintext first (skipped where CompressionStream is unavailable)
+  binding?: ObjectBinding; // Bind the ciphertext to this identity as associated data
+}
+
 /**
  * High-level encryption function that handles the complete workflow
+ * Always writes the current (version 2) envelope format. With the vault data key
+ * the work runs in the crypto worker pool; with a passphrase only the KDF does.
  * @param data - Data to encrypt (string or ArrayBuffer)
- * @param passphrase - User's passphrase
- * @param salt - Optional salt (generates new one if not provided)
- * @returns Promise<EncryptedData> - Complete encrypted package
+ * @param secret - Vault keyring, or a passphrase for per-object key derivation
+ * @param options - Optional salt, KDF, compression and identity binding
+ * @returns Promise<EncryptedDataV2> - Complete encrypted package
  */
 export async function encrypt(
   data: string | ArrayBuffer,
-  passphrase: string,
-  salt?: Uint8Array
-): Promise<EncryptedData> {
-  // Generate salt and IV if not provided
-  const finalSalt = salt || generateSalt();
+  secret: VaultSecret,
+  options: EncryptOptions = {}
+): Promise<EncryptedDataV2> {
+  if (typeof secret !== 'string' && isCryptoPoolAvailable()) {
+    return runCryptoTask({ type: 'encrypt', data, secret: toWorkerSecret(secret), options });
+  }
+
   const iv = generateIV();
 
   try {
+    // Compress before encrypting; ciphertext does not compress
+    let plaintext: string | ArrayBuffer = data;
+    let compression: EncryptedDataV2['compression'];
+    if (options.compress && typeof CompressionStream !== 'undefined') {
+      const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+      plaintext = await transformBytes(bytes, new CompressionStream('gzip'));
+      compression = 'gzip';
+    }
+
+    const additionalData = options.binding && bindingToAssociatedData(options.binding, 2);
+    const bound = options.binding ? true : undefined;
+
+    if (typeof secret !== 'string') {
+      // Envelope encryption: use the unlocked vault data key directly
+      const encrypted = await encryptData(plaintext, secret.dataKey, iv, additionalData);
+      return {
+        version: 2,
+        cipher: 'aes-256-gcm',
+        kdf: null,
+        keyId: secret.keyId,
+        compression,
+        bound,
+        salt: new Uint8Array(0),
+        iv,
+        ciphertext: new Uint8Array(encrypted),
+      };
+    }
+
+    // Generate salt if not provided
+    const salt = options.salt || generateSalt();
+    const kdf = options.kdf ?? activeKdf;
+
     // Derive encryption key
-    const key = await deriveKey(passphrase, finalSalt);
+    const key = await deriveKey(secret, salt, kdf);
 
     // Encrypt the data
-    const encrypted = await encryptData(data, key, iv);
+    const encrypted = await encryptData(plaintext, key, iv, additionalData);
 
-    // Return base64-encoded result
     return {
-      iv: arrayBufferToBase64(iv),
-      salt: arrayBufferToBase64(finalSalt),
-      ciphertext: arrayBufferToBase64(encrypted.slice(0, -ENCRYPTION_CONSTANTS.TAG_LENGTH)),
-      authTag: arrayBufferToBase64(encrypted.slice(-ENCRYPTION_CONSTANTS.TAG_LENGTH)),
+      version: 2,
+      cipher: 'aes-256-gcm',
+      kdf,
+      compression,
+      bound,
+      salt,
+      iv,
+      ciphertext: new Uint8Array(encrypted),
     };
   } catch (error) {
     throw new Error(`Encryption process failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -193,52 +493,223 @@ export async function encrypt(
 
 /**
  * High-level decryption function that handles the complete workflow
- * @param encryptedData - Complete encrypted package
- * @param passphrase - User's passphrase
+ * Dispatches on the envelope format version. Objects under the vault data key are
+ * decrypted in the crypto worker pool; legacy passphrase objects decrypt here so the
+ * keyring's derived-key cache is reused, with only the KDF in a worker.
+ * @param encryptedData - Complete encrypted package (any format version)
+ * @param secret - Vault keyring, or a passphrase for legacy data
+ * @param binding - Identity the object is expected to have (required for bound objects)
  * @returns Promise<ArrayBuffer> - Decrypted data
+ * @throws TamperError if a bound object does not authenticate as the expected identity,
+ * or an unbound one is read from a vault whose objects are all bound
  */
 export async function decrypt(
   encryptedData: EncryptedData,
-  passphrase: string
+  secret: VaultSecret,
+  binding?: ObjectBinding
 ): Promise<ArrayBuffer> {
+  // Checked here, before a worker takes over: workers do not know the vault's policy
+  assertBindingAllowed(encryptedData.version === 2 && !!encryptedData.bound, secret, binding);
+
+  if (typeof secret !== 'string' && encryptedData.keyId && isCryptoPoolAvailable()) {
+    return runCryptoTask({ type: 'decrypt', encryptedData, secret: toWorkerSecret(secret), binding })
+      .catch(restoreWorkerError);
+  }
+
   try {
-    // Decode base64 components
-    const iv = base64ToArrayBuffer(encryptedData.iv);
-    const salt = base64ToArrayBuffer(encryptedData.salt);
-    const ciphertext = base64ToArrayBuffer(encryptedData.ciphertext);
-    const authTag = base64ToArrayBuffer(encryptedData.authTag);
+    switch (encryptedData.version) {
+      case 2:
+        return await decryptV2(encryptedData, secret, binding);
+      case 1:
+      case undefined:
+        return await decryptV1(encryptedData, secret);
+      default:
+        throw new Error(`Unsupported envelope version: ${(encryptedData as { version?: unknown }).version}`);
+    }
+  } catch (error) {
+    if (error instanceof TamperError) {
+      throw error;
+    }
+    throw new Error(`Decryption process failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    // Combine ciphertext and auth tag
-    const combined = new Uint8Array(ciphertext.byteLength + authTag.byteLength);
-    combined.set(new Uint8Array(ciphertext), 0);
-    combined.set(new Uint8Array(authTag), ciphertext.byteLength);
+/**
+ * Decrypt a legacy JSON envelope (base64 fields, separate auth tag)
+ */
+async function decryptV1(encryptedData: EncryptedDataV1, secret: VaultSecret): Promise<ArrayBuffer> {
+  // Decode base64 components
+  const iv = base64ToArrayBuffer(encryptedData.iv);
+  const ciphertext = base64ToArrayBuffer(encryptedData.ciphertext);
+  const authTag = base64ToArrayBuffer(encryptedData.authTag);
+
+  // Combine ciphertext and auth tag
+  const combined = new Uint8Array(ciphertext.byteLength + authTag.byteLength);
+  combined.set(new Uint8Array(ciphertext), 0);
+  combined.set(new Uint8Array(authTag), ciphertext.byteLength);
+
+  // Resolve the decryption key
+  const key = await resolveDecryptionKey(
+    encryptedData.keyId,
+    encryptedData.kdf ?? LEGACY_KDF_PARAMS,
+    new Uint8Array(base64ToArrayBuffer(encryptedData.salt)),
+    secret
+  );
+
+  // Decrypt the data
+  return decryptData(combined.buffer, key, new Uint8Array(iv));
+}
 
-    // Derive decryption key
-    const key = await deriveKey(passphrase, new Uint8Array(salt));
+/**
+ * Decrypt a version 2 envelope
+ * Envelopes written before identity binding are not bound and decrypt without one,
+ * unless the vault requires binding (checked in decrypt).
+ */
+async function decryptV2(
+  encryptedData: EncryptedDataV2,
+  secret: VaultSecret,
+  binding?: ObjectBinding
+): Promise<ArrayBuffer> {
+  if (encryptedData.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported cipher: ${encryptedData.cipher}`);
+  }
 
-    // Decrypt the data
-    const decrypted = await decryptData(combined.buffer, key, new Uint8Array(iv));
+  if (encryptedData.bound && !binding) {
+    throw new Error('Encrypted object is bound to an identity that was not supplied');
+  }
 
-    return decrypted;
+  const key = await resolveDecryptionKey(encryptedData.keyId, encryptedData.kdf, encryptedData.salt, secret);
+  const additionalData = encryptedData.bound ? bindingToAssociatedData(binding!, 2) : undefined;
+
+  let decrypted: ArrayBuffer;
+  try {
+    decrypted = await decryptData(encryptedData.ciphertext.slice().buffer, key, encryptedData.iv, additionalData);
   } catch (error) {
-    throw new Error(`Decryption process failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    // With the vault key confirmed by key ID, a failure can only mean the object was
+    // altered or swapped; with a passphrase it may just be the wrong passphrase
+    if (additionalData && encryptedData.kdf === null) {
+      throw new TamperError(binding!);
+    }
+    throw error;
+  }
+
+  if (encryptedData.compression === 'gzip') {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot decompress vault data');
+    }
+    return transformBytes(new Uint8Array(decrypted), new DecompressionStream('gzip'));
+  }
+
+  return decrypted;
+}
+
+/**
+ * Pick the vault data key or derive a passphrase key for an encrypted package
+ * @param keyId - Vault data key ID recorded in the package, if any
+ * @param kdf - KDF recorded in the package (null for vault data key packages)
+ * @param salt - Salt recorded in the package
+ * @param secret - Secret supplied by the caller
+ */
+async function resolveDecryptionKey(
+  keyId: string | undefined,
+  kdf: KdfParams | null,
+  salt: Uint8Array,
+  secret: VaultSecret
+): Promise<CryptoKey> {
+  if (keyId) {
+    if (typeof secret === 'string' || secret.keyId !== keyId) {
+      throw new Error('Data was encrypted with a different vault key');
+    }
+    return secret.dataKey;
+  }
+
+  if (!kdf) {
+    throw new Error('Encrypted data names neither a vault key nor a KDF');
+  }
+
+  if (typeof secret === 'string') {
+    // Derive decryption key with the KDF recorded at encryption time
+    return deriveKey(secret, salt, kdf);
+  }
+
+  if (!secret.passphrase) {
+    throw new Error('Legacy data requires the vault passphrase');
+  }
+
+  // Reuse keys already derived this session for the same salt and KDF
+  if (!secret.derivedKeys) {
+    secret.derivedKeys = new Map();
   }
+  const cacheKey = `${arrayBufferToBase64(salt.slice().buffer)}:${JSON.stringify(kdf)}`;
+  let derived = secret.derivedKeys.get(cacheKey);
+  if (!derived) {
+    derived = deriveKey(secret.passphrase, salt, kdf);
+    secret.derivedKeys.set(cacheKey, derived);
+    derived.catch(() => secret.derivedKeys?.delete(cacheKey));
+  }
+  return derived;
+}
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+async function transformBytes(bytes: Uint8Array, transform: GenericTransformStream): Promise<ArrayBuffer> {
+  return new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer();
 }
 
 /**
  * Decrypt data and return as UTF-8 string
  * @param encryptedData - Complete encrypted package
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring, or a passphrase for legacy data
+ * @param binding - Identity the object is expected to have (required for bound objects)
  * @returns Promise<string> - Decrypted string
  */
 export async function decryptString(
   encryptedData: EncryptedData,
-  passphrase: string
+  secret: VaultSecret,
+  binding?: ObjectBinding
 ): Promise<string> {
-  const decrypted = await decrypt(encryptedData, passphrase);
+  const decrypted = await decrypt(encryptedData, secret, binding);
   return new TextDecoder().decode(decrypted);
 }
 
+/**
+ * Generate a random vault data key
+ * @param extractable - Only for a key that will be wrapped into key slots
+ */
+export async function generateVaultKey(extractable = false): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: ENCRYPTION_CONSTANTS.KEY_LENGTH },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Export a vault data key as raw bytes (for wrapping only)
+ * @throws Error if the key was restored from a session or PIN, which cannot be exported
+ */
+export async function exportVaultKey(key: CryptoKey): Promise<Uint8Array> {
+  if (!key.extractable) {
+    throw new Error('Unlock with your passphrase or recovery key to make this change');
+  }
+  return new Uint8Array(await crypto.subtle.exportKey('raw', key));
+}
+
+/**
+ * Import raw bytes as a vault data key
+ * @param extractable - Only for a key that will be wrapped into key slots
+ */
+export async function importVaultKey(rawKey: Uint8Array, extractable = false): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    rawKey,
+    { name: 'AES-GCM', length: ENCRYPTION_CONSTANTS.KEY_LENGTH },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+}
+
 /**
  * Utility function to convert ArrayBuffer to base64
  */
@@ -263,73 +734,6 @@ export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
-/**
- * Validate passphrase strength
- * @param passphrase - Passphrase to validate
- * @returns ValidationResult with strength assessment
- */
-export function validatePassphraseStrength(passphrase: string): {
-  isValid: boolean;
-  score: number; // 0-100
-  feedback: string[];
-} {
-  const feedback: string[] = [];
-  let score = 0;
-
-  // Length check
-  if (passphrase.length >= 12) {
-    score += 25;
-  } else if (passphrase.length >= 8) {
-    score += 15;
-    feedback.push('Consider using a longer passphrase (12+ characters)');
-  } else {
-    feedback.push('Passphrase should be at least 8 characters long');
-  }
-
-  // Character variety
-  if (/[a-z]/.test(passphrase)) score += 15;
-  if (/[A-Z]/.test(passphrase)) score += 15;
-  if (/[0-9]/.test(passphrase)) score += 15;
-  if (/[^a-zA-Z0-9]/.test(passphrase)) score += 20;
-
-  // Bonus for very long passphrases
-  if (passphrase.length >= 20) score += 10;
-
-  // Penalty for common patterns
-  if (/^[a-zA-Z]+$/.test(passphrase)) {
-    score -= 10;
-    feedback.push('Add numbers or special characters for better security');
-  }
-  if (/^[0-9]+$/.test(passphrase)) {
-    score -= 20;
-    feedback.push('Use a mix of letters, numbers, and special characters');
-  }
-  if (/(.)\1{2,}/.test(passphrase)) {
-    score -= 10;
-    feedback.push('Avoid repeating characters');
-  }
-
-  // Ensure score is within bounds
-  score = Math.max(0, Math.min(100, score));
-
-  // Provide overall feedback
-  if (score >= 80) {
-    feedback.unshift('Strong passphrase');
-  } else if (score >= 60) {
-    feedback.unshift('Good passphrase, but could be stronger');
-  } else if (score >= 40) {
-    feedback.unshift('Moderate passphrase strength');
-  } else {
-    feedback.unshift('Weak passphrase - consider improving');
-  }
-
-  return {
-    isValid: score >= 40, // Minimum acceptable score
-    score,
-    feedback,
-  };
-}
-
 /**
  * Securely clear sensitive data from memory
  * Note: This is a best-effort approach as JavaScript doesn't guarantee memory clearing
@@ -383,28 +787,10 @@ export async function testCryptoAvailability(): Promise<{ available: boolean; er
 }
 
 /**
- * Generate a secure random passphrase using cryptographic random number generator
+ * Generate a secure random passphrase from the EFF long wordlist
  * @param wordCount - Number of words in passphrase (default: 6)
  * @returns Promise<string> - Generated passphrase
  */
-export async function generateSecurePassphrase(wordCount: number = 6): Promise<string> {
-  // Simple word list for passphrase generation (in production, use a larger list)
-  const words = [
-    'apple', 'brave', 'chair', 'dance', 'eagle', 'flame', 'grape', 'house',
-    'light', 'magic', 'night', 'ocean', 'peace', 'queen', 'river', 'stone',
-    'trust', 'unity', 'voice', 'water', 'youth', 'zebra', 'cloud', 'dream',
-    'field', 'giant', 'happy', 'image', 'joker', 'king', 'lemon', 'mouse',
-    'noise', 'olive', 'piano', 'quick', 'radio', 'smile', 'tiger', 'under',
-    'violet', 'world', 'extra', 'young', 'zero', 'beach', 'candy', 'drive'
-  ];
-
-  const selectedWords: string[] = [];
-  const randomBytes = generateSecureRandom(wordCount);
-
-  for (let i = 0; i < wordCount; i++) {
-    const index = randomBytes[i] % words.length;
-    selectedWords.push(words[index]);
-  }
-
-  return selectedWords.join('-');
+export async function generateSecurePassphrase(wordCount: number = DEFAULT_DICEWARE_OPTIONS.wordCount): Promise<string> {
+  return generateDicewarePassphrase({ ...DEFAULT_DICEWARE_OPTIONS, wordCount });
 }
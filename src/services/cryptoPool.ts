@@ -0,0 +1,319 @@
+/**
+ * Crypto Worker Pool
+ * Runs key derivation, encryption and decryption in Web Workers so the page stays
+ * responsive while a vault unlocks or dozens of cards and images are decrypted
+ *
+ * crypto.ts dispatches here from the main thread and runs the same code locally
+ * inside the workers, so callers keep using encrypt, decrypt and deriveKey as before.
+ *
+ * SECURITY NOTES:
+ * - Keys cross into workers as CryptoKey objects (structured clone); non-extractable
+ *   keys stay non-extractable
+ * - resetCryptoPool terminates every worker, which is done when the vault locks
+ */
+
+import type { EncryptedData, EncryptedDataV2, KdfParams, ObjectBinding, VaultSecret } from '../types';
+import type { EncryptOptions } from './crypto';
+
+// Workers get the data key only: derived-key caches cannot be cloned and the
+// passphrase of a legacy keyring is never needed for vault-key objects
+export type WorkerSecret = string | { keyId: string; dataKey: CryptoKey };
+
+export type CryptoTask =
+  | { type: 'derive-key'; passphrase: string; salt: Uint8Array; kdf: KdfParams; keyFileHash?: Uint8Array }
+  | { type: 'encrypt'; data: string | ArrayBuffer; secret: WorkerSecret; options: EncryptOptions }
+  | { type: 'decrypt'; encryptedData: EncryptedData; secret: WorkerSecret; binding?: ObjectBinding };
+
+export interface CryptoTaskResults {
+  'derive-key': CryptoKey;
+  encrypt: EncryptedDataV2;
+  decrypt: ArrayBuffer;
+}
+
+export type CryptoWorkerRequest = { id: number; task: CryptoTask };
+export type CryptoWorkerResponse =
+  | { id: number; result: CryptoTaskResults[CryptoTask['type']] }
+  | { id: number; error: SerializedError };
+
+// Errors cross the worker boundary as plain data; crypto.ts restores TamperError from it
+export interface SerializedError {
+  name: string;
+  message: string;
+  binding?: ObjectBinding;
+}
+
+export interface CryptoTaskOptions {
+  signal?: AbortSignal;
+}
+
+export interface CryptoBatchProgress {
+  completed: number;
+  total: number;
+}
+
+export interface CryptoBatchOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: CryptoBatchProgress) => void;
+  concurrency?: number; // Items started at once (default: twice the pool size)
+}
+
+/**
+ * Thrown for tasks cancelled by an AbortSignal or a pool reset
+ */
+export class CryptoTaskCancelledError extends Error {
+  constructor() {
+    super('Crypto task was cancelled');
+    this.name = 'CryptoTaskCancelledError';
+  }
+}
+
+/**
+ * Error raised inside a worker, carrying its original name and fields
+ */
+export class CryptoWorkerError extends Error {
+  readonly binding?: ObjectBinding;
+
+  constructor(serialized: SerializedError) {
+    super(serialized.message);
+    this.name = serialized.name;
+    this.binding = serialized.binding;
+  }
+}
+
+interface PendingTask {
+  id: number;
+  task: CryptoTask;
+  transfer: Transferable[];
+  resolve: (result: unknown) => void; // Receives the worker's result for this task's type
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  slot?: WorkerSlot;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  current: PendingTask | null;
+}
+
+const MAX_POOL_SIZE = 4;
+
+let nextTaskId = 1;
+const slots: WorkerSlot[] = [];
+const queue: PendingTask[] = [];
+
+/**
+ * Check whether work can be moved off this thread
+ * False inside the workers themselves and where Web Workers are unavailable.
+ */
+export function isCryptoPoolAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof Worker !== 'undefined';
+}
+
+/**
+ * Number of workers the pool runs at most
+ */
+export function getCryptoPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
+
+/**
+ * Strip a vault secret down to what a worker can receive
+ */
+export function toWorkerSecret(secret: VaultSecret): WorkerSecret {
+  if (typeof secret === 'string') {
+    return secret;
+  }
+  return { keyId: secret.keyId, dataKey: secret.dataKey };
+}
+
+function createSlot(): WorkerSlot {
+  const slot: WorkerSlot = {
+    worker: new Worker(new URL('../workers/cryptoWorker.ts', import.meta.url), { type: 'module' }),
+    current: null,
+  };
+
+  slot.worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => {
+    const pending = slot.current;
+    if (!pending || pending.id !== event.data.id) return;
+
+    finish(pending);
+    if ('error' in event.data) {
+      pending.reject(new CryptoWorkerError(event.data.error));
+    } else {
+      pending.resolve(event.data.result);
+    }
+    dispatch();
+  };
+
+  // A worker that fails to load or crashes is replaced on the next dispatch
+  slot.worker.onerror = (event) => {
+    event.preventDefault();
+    const pending = slot.current;
+    removeSlot(slot);
+    if (pending) {
+      finish(pending);
+      pending.reject(new Error(`Crypto worker failed: ${event.message || 'Unknown error'}`));
+    }
+    dispatch();
+  };
+
+  slots.push(slot);
+  return slot;
+}
+
+function removeSlot(slot: WorkerSlot): void {
+  slot.worker.terminate();
+  const index = slots.indexOf(slot);
+  if (index !== -1) {
+    slots.splice(index, 1);
+  }
+}
+
+/**
+ * Detach a task from its slot and signal
+ */
+function finish(pending: PendingTask): void {
+  if (pending.slot) {
+    pending.slot.current = null;
+    pending.slot = undefined;
+  }
+  if (pending.signal && pending.onAbort) {
+    pending.signal.removeEventListener('abort', pending.onAbort);
+  }
+}
+
+/**
+ * Start queued tasks on idle workers, spawning workers up to the pool size
+ */
+function dispatch(): void {
+  while (queue.length > 0) {
+    const slot = slots.find(s => s.current === null)
+      ?? (slots.length < getCryptoPoolSize() ? createSlot() : null);
+    if (!slot) return;
+
+    const pending = queue.shift()!;
+    pending.slot = slot;
+    slot.current = pending;
+
+    const request: CryptoWorkerRequest = { id: pending.id, task: pending.task };
+    slot.worker.postMessage(request, pending.transfer);
+  }
+}
+
+/**
+ * Run one task in the pool
+ * @param task - Task description
+ * @param options - Optional AbortSignal; aborting a running task terminates its worker
+ * @param transfer - Buffers to move into the worker instead of copying
+ * @returns Promise - The task's result
+ * @throws CryptoTaskCancelledError if cancelled
+ */
+export function runCryptoTask<T extends CryptoTask>(
+  task: T,
+  options: CryptoTaskOptions = {},
+  transfer: Transferable[] = []
+): Promise<CryptoTaskResults[T['type']]> {
+  const { signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CryptoTaskCancelledError());
+      return;
+    }
+
+    // Workers answer each task with the result for its type (see cryptoWorker)
+    const pending: PendingTask = {
+      id: nextTaskId++,
+      task,
+      transfer,
+      resolve: result => resolve(result as CryptoTaskResults[T['type']]),
+      reject,
+      signal,
+    };
+
+    if (signal) {
+      pending.onAbort = () => {
+        const slot = pending.slot;
+        finish(pending);
+        if (slot) {
+          // Argon2 cannot be interrupted, so the worker is replaced
+          removeSlot(slot);
+        } else {
+          const index = queue.indexOf(pending);
+          if (index !== -1) queue.splice(index, 1);
+        }
+        reject(new CryptoTaskCancelledError());
+        dispatch();
+      };
+      signal.addEventListener('abort', pending.onAbort, { once: true });
+    }
+
+    queue.push(pending);
+    dispatch();
+  });
+}
+
+/**
+ * Process many items with bounded concurrency, reporting progress
+ * Each item settles independently, so one failed card does not fail the batch.
+ * @param items - Items to process
+ * @param run - Work for one item (typically ends in pool tasks)
+ * @param options - AbortSignal, progress callback and concurrency
+ * @returns Promise<PromiseSettledResult<R>[]> - One result per item, in order
+ * @throws CryptoTaskCancelledError if the signal aborts before all items settle
+ */
+export async function runCryptoBatch<T, R>(
+  items: T[],
+  run: (item: T, index: number) => Promise<R>,
+  options: CryptoBatchOptions = {}
+): Promise<PromiseSettledResult<R>[]> {
+  const { signal, onProgress } = options;
+  const concurrency = Math.max(1, options.concurrency ?? getCryptoPoolSize() * 2);
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  onProgress?.({ completed, total: items.length });
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      if (signal?.aborted) return;
+
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await run(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+
+      completed++;
+      if (!signal?.aborted) {
+        onProgress?.({ completed, total: items.length });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runNext));
+
+  if (signal?.aborted) {
+    throw new CryptoTaskCancelledError();
+  }
+  return results;
+}
+
+/**
+ * Terminate every worker and cancel all queued and running tasks
+ * Workers are started again on demand.
+ */
+export function resetCryptoPool(): void {
+  const cancelled = [...queue, ...slots.map(slot => slot.current).filter((p): p is PendingTask => p !== null)];
+  queue.length = 0;
+  [...slots].forEach(removeSlot);
+
+  for (const pending of cancelled) {
+    finish(pending);
+    pending.reject(new CryptoTaskCancelledError());
+  }
+}
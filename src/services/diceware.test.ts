@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { dictionary } from '@zxcvbn-ts/language-common';
+import {
+  DEFAULT_DICEWARE_OPTIONS,
+  dicewareEntropyBits,
+  generateDicewarePassphrase,
+  secureRandomInt,
+} from './diceware';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/**
+ * Make crypto.getRandomValues return these 32-bit values, one per call
+ */
+function randomValues(...values: number[]) {
+  const spy = vi.spyOn(crypto, 'getRandomValues');
+  values.forEach(value => spy.mockImplementationOnce(<T extends ArrayBufferView | null>(buffer: T) => {
+    (buffer as unknown as Uint32Array)[0] = value;
+    return buffer;
+  }));
+  return spy;
+}
+
+describe('wordlist', () => {
+  it('is the EFF long list of 7776 distinct words', () => {
+    const words = dictionary.diceware;
+
+    expect(words).toHaveLength(7776);
+    expect(new Set(words).size).toBe(7776);
+    expect(words[0]).toBe('abacus');
+    expect(words[7775]).toBe('zoom');
+  });
+});
+
+describe('secureRandomInt', () => {
+  it('rejects draws from the incomplete last range instead of wrapping them', () => {
+    // 2^32 % 7776 values at the top would make the lowest results more likely
+    const limit = 2 ** 32 - (2 ** 32 % 7776);
+    const spy = randomValues(limit, 2 ** 32 - 1, limit - 1);
+
+    expect(secureRandomInt(7776)).toBe((limit - 1) % 7776);
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  it('accepts every draw when the bound divides 2^32', () => {
+    const spy = randomValues(2 ** 32 - 1);
+
+    expect(secureRandomInt(256)).toBe(255);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it('stays in range', () => {
+    for (let i = 0; i < 1000; i++) {
+      const value = secureRandomInt(10);
+      expect(value >= 0 && value < 10 && Number.isInteger(value)).toBe(true);
+    }
+  });
+
+  it('refuses bounds it cannot sample uniformly', () => {
+    for (const max of [0, -1, 1.5, 2 ** 32 + 1]) {
+      expect(() => secureRandomInt(max), String(max)).toThrow('Random bound must be an integer between 1 and 2^32');
+    }
+  });
+});
+
+describe('dicewareEntropyBits', () => {
+  it('counts log2(7776) bits per word', () => {
+    expect(dicewareEntropyBits(DEFAULT_DICEWARE_OPTIONS)).toBeCloseTo(77.55, 2);
+    expect(dicewareEntropyBits({ ...DEFAULT_DICEWARE_OPTIONS, wordCount: 4 })).toBeCloseTo(51.70, 2);
+  });
+
+  it('adds the digit and its position, but nothing for formatting', () => {
+    const words = dicewareEntropyBits(DEFAULT_DICEWARE_OPTIONS);
+
+    expect(dicewareEntropyBits({ ...DEFAULT_DICEWARE_OPTIONS, includeDigit: true })).toBeCloseTo(words + Math.log2(60), 10);
+    expect(dicewareEntropyBits({ ...DEFAULT_DICEWARE_OPTIONS, capitalize: true, separator: ' ' })).toBe(words);
+  });
+});
+
+describe('generateDicewarePassphrase', () => {
+  const wordlist = new Set(dictionary.diceware);
+
+  it('joins the requested number of wordlist words', async () => {
+    const words = (await generateDicewarePassphrase()).split('-');
+
+    expect(words).toHaveLength(6);
+    expect(words.every(word => wordlist.has(word))).toBe(true);
+  });
+
+  it('applies the separator and capitalisation', async () => {
+    const passphrase = await generateDicewarePassphrase({ ...DEFAULT_DICEWARE_OPTIONS, wordCount: 5, separator: ' ', capitalize: true });
+    const words = passphrase.split(' ');
+
+    expect(words).toHaveLength(5);
+    expect(words.every(word => /^[A-Z]/.test(word) && wordlist.has(word.charAt(0).toLowerCase() + word.slice(1)))).toBe(true);
+  });
+
+  it('appends one digit to one word', async () => {
+    const words = (await generateDicewarePassphrase({ ...DEFAULT_DICEWARE_OPTIONS, includeDigit: true })).split('-');
+    const withDigit = words.filter(word => /\d$/.test(word));
+
+    expect(withDigit).toHaveLength(1);
+    expect(wordlist.has(withDigit[0].slice(0, -1))).toBe(true);
+  });
+
+  it('refuses word counts outside the supported range', async () => {
+    for (const wordCount of [3, 11, 6.5]) {
+      await expect(generateDicewarePassphrase({ ...DEFAULT_DICEWARE_OPTIONS, wordCount }))
+        .rejects.toThrow('Word count must be between 4 and 10');
+    }
+  });
+});
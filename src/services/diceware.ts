@@ -0,0 +1,110 @@
+/**
+ * Diceware Passphrase Generator
+ * Builds passphrases from uniformly chosen words of the EFF long wordlist
+ *
+ * SECURITY NOTES:
+ * - Words are picked with crypto.getRandomValues and rejection sampling, so every
+ *   word is equally likely (no modulo bias)
+ * - Each word adds log2(7776) ≈ 12.9 bits; capitalisation and the separator are
+ *   user choices and add nothing
+ * - The EFF long list ships with the strength estimator's dictionaries, which are
+ *   loaded on first use
+ */
+
+export interface DicewareOptions {
+  wordCount: number;
+  separator: string;
+  capitalize: boolean; // Capitalise the first letter of every word
+  includeDigit: boolean; // Append one random digit to one random word
+}
+
+export const DICEWARE_MIN_WORDS = 4;
+export const DICEWARE_MAX_WORDS = 10;
+export const DICEWARE_SEPARATORS = ['-', ' ', '.', '_'];
+
+export const DEFAULT_DICEWARE_OPTIONS: DicewareOptions = {
+  wordCount: 6,
+  separator: '-',
+  capitalize: false,
+  includeDigit: false,
+};
+
+const EFF_LONG_LIST_SIZE = 7776;
+
+let wordlistPromise: Promise<string[]> | null = null;
+
+/**
+ * Load the EFF long wordlist (once)
+ */
+function loadWordlist(): Promise<string[]> {
+  if (!wordlistPromise) {
+    wordlistPromise = import('@zxcvbn-ts/language-common').then(({ dictionary }) => {
+      const words = dictionary.diceware;
+      if (words.length !== EFF_LONG_LIST_SIZE) {
+        throw new Error(`Expected ${EFF_LONG_LIST_SIZE} words, found ${words.length}`);
+      }
+      return words;
+    }).catch(error => {
+      wordlistPromise = null;
+      throw new Error(`Loading wordlist failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+  return wordlistPromise;
+}
+
+/**
+ * Uniform random integer in [0, max) using rejection sampling
+ * @param max - Exclusive upper bound (at most 2^32)
+ */
+export function secureRandomInt(max: number): number {
+  if (!Number.isInteger(max) || max <= 0 || max > 2 ** 32) {
+    throw new Error('Random bound must be an integer between 1 and 2^32');
+  }
+
+  // Largest multiple of max that fits in 32 bits; values at or above it would bias the result
+  const limit = 2 ** 32 - (2 ** 32 % max);
+  const buffer = new Uint32Array(1);
+
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+
+  return buffer[0] % max;
+}
+
+/**
+ * Entropy of a passphrase generated with these options
+ * @returns number - Bits of entropy
+ */
+export function dicewareEntropyBits(options: DicewareOptions): number {
+  const wordBits = options.wordCount * Math.log2(EFF_LONG_LIST_SIZE);
+  // Which word gets the digit, and which digit
+  const digitBits = options.includeDigit ? Math.log2(options.wordCount * 10) : 0;
+  return wordBits + digitBits;
+}
+
+/**
+ * Generate a diceware passphrase
+ * @param options - Word count, separator, capitalisation and digit (default: 6 words, dashes)
+ * @returns Promise<string> - Generated passphrase
+ */
+export async function generateDicewarePassphrase(
+  options: DicewareOptions = DEFAULT_DICEWARE_OPTIONS
+): Promise<string> {
+  const { wordCount, separator, capitalize, includeDigit } = options;
+  if (!Number.isInteger(wordCount) || wordCount < DICEWARE_MIN_WORDS || wordCount > DICEWARE_MAX_WORDS) {
+    throw new Error(`Word count must be between ${DICEWARE_MIN_WORDS} and ${DICEWARE_MAX_WORDS}`);
+  }
+
+  const wordlist = await loadWordlist();
+  const words = Array.from({ length: wordCount }, () => {
+    const word = wordlist[secureRandomInt(wordlist.length)];
+    return capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+  });
+
+  if (includeDigit) {
+    words[secureRandomInt(wordCount)] += String(secureRandomInt(10));
+  }
+
+  return words.join(separator);
+}
@@ -1,4 +1,4 @@
-import { getAccessToken } from './auth';
+import { DriveError, DriveNotFoundError, driveRequest, driveUpload, isTransientDriveError, waitBeforeRetry } from './driveRequest';
 
 const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
 const UPLOAD_API_BASE = 'https://www.googleapis.com/upload/drive/v3';
@@ -11,55 +11,66 @@ export interface DriveFile {
   modifiedTime: string;
   size?: string;
   parents?: string[];
+  trashed?: boolean;
+}
+
+export interface DriveRevision {
+  id: string;
+  modifiedTime: string;
+  size?: string;
+}
+
+export interface DriveChange {
+  fileId: string;
+  removed: boolean; // Deleted for good, or no longer visible to the app
+  file?: DriveFile; // Current metadata, unless removed
 }
 
 export interface DriveFileMetadata {
+  id?: string; // Reserved ID to create the file under
   name: string;
   mimeType: string;
   parents?: string[];
   description?: string;
 }
 
+// IDs reserved with files.generateIds; a create that carries one can be retried
+// without risking a second copy (Drive refuses the repeat with 409)
+const reservedIds: string[] = [];
+
 /**
- * Get authorization headers for Drive API requests
+ * Take a reserved file ID, fetching a batch when none are left
  */
-function getAuthHeaders(): HeadersInit {
-  const token = getAccessToken();
-  if (!token) {
-    throw new Error('No access token available. Please sign in again.');
+async function reserveFileId(): Promise<string> {
+  if (reservedIds.length === 0) {
+    const response = await driveRequest(`${DRIVE_API_BASE}/files/generateIds?count=10&space=drive&type=files`);
+    const data = await response.json();
+    reservedIds.push(...(data.ids || []));
   }
   
-  return {
-    'Authorization': `Bearer ${token}`,
-  };
+  const id = reservedIds.pop();
+  if (!id) {
+    throw new Error('Drive did not reserve a file ID');
+  }
+  return id;
 }
 
 /**
- * Handle Drive API errors
+ * Create a file under a reserved ID, so the create can be retried safely
+ * @param create - Sends the create request with the ID in its metadata (retrying as needed)
  */
-async function handleDriveError(response: Response): Promise<never> {
-  let errorMessage = 'Drive API error';
+async function createWithReservedId(create: (id: string) => Promise<DriveFile>): Promise<DriveFile> {
+  const id = await reserveFileId();
   
   try {
-    const errorData = await response.json();
-    errorMessage = errorData.error?.message || errorMessage;
-  } catch {
-    errorMessage = `Drive API error: ${response.status} ${response.statusText}`;
-  }
-  
-  // Check for common errors
-  if (response.status === 401) {
-    sessionStorage.removeItem('googleAccessToken');
-    throw new Error('Authentication expired. Please sign in again.');
-  } else if (response.status === 403) {
-    throw new Error('Permission denied. Please grant Drive access.');
-  } else if (response.status === 404) {
-    throw new Error('File or folder not found.');
-  } else if (response.status === 507) {
-    throw new Error('Drive storage quota exceeded.');
+    return await create(id);
+  } catch (error) {
+    // An attempt whose response was lost created it already
+    if (error instanceof DriveError && error.status === 409) {
+      return getFile(id);
+    }
+    throw error;
   }
-  
-  throw new Error(errorMessage);
 }
 
 /**
@@ -73,7 +84,11 @@ export async function getOrCreateAppFolder(): Promise<string> {
     try {
       await getFile(cachedFolderId);
       return cachedFolderId;
-    } catch {
+    } catch (error) {
+      // Only a folder that is gone is replaced; other failures would create a duplicate
+      if (!(error instanceof DriveNotFoundError)) {
+        throw error;
+      }
       // Folder doesn't exist anymore, create a new one
       sessionStorage.removeItem('driveFolderId');
     }
@@ -81,16 +96,7 @@ export async function getOrCreateAppFolder(): Promise<string> {
   
   // Search for existing folder
   const query = `name='${FOLDER_NAME}' and mimeType='application/vnd.google-apps.folder' and trashed=false`;
-  const searchResponse = await fetch(
-    `${DRIVE_API_BASE}/files?q=${encodeURIComponent(query)}&fields=files(id,name)`,
-    {
-      headers: getAuthHeaders()
-    }
-  );
-  
-  if (!searchResponse.ok) {
-    await handleDriveError(searchResponse);
-  }
+  const searchResponse = await driveRequest(`${DRIVE_API_BASE}/files?q=${encodeURIComponent(query)}&fields=files(id,name)`);
   
   const searchData = await searchResponse.json();
   
@@ -107,23 +113,21 @@ export async function getOrCreateAppFolder(): Promise<string> {
     mimeType: 'application/vnd.google-apps.folder'
   };
   
-  const createResponse = await fetch(
-    `${DRIVE_API_BASE}/files`,
-    {
-      method: 'POST',
-      headers: {
-        ...getAuthHeaders(),
-        'Content-Type': 'application/json'
+  const folderData = await createWithReservedId(async id => {
+    const createResponse = await driveRequest(
+      `${DRIVE_API_BASE}/files?fields=id,name,mimeType,modifiedTime`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...metadata, id })
       },
-      body: JSON.stringify(metadata)
-    }
-  );
-  
-  if (!createResponse.ok) {
-    await handleDriveError(createResponse);
-  }
+      { idempotent: true }
+    );
+    return await createResponse.json();
+  });
   
-  const folderData = await createResponse.json();
   sessionStorage.setItem('driveFolderId', folderData.id);
   return folderData.id;
 }
@@ -138,23 +142,21 @@ export async function createSubfolder(name: string, parentId: string): Promise<s
     parents: [parentId]
   };
   
-  const response = await fetch(
-    `${DRIVE_API_BASE}/files`,
-    {
-      method: 'POST',
-      headers: {
-        ...getAuthHeaders(),
-        'Content-Type': 'application/json'
+  const data = await createWithReservedId(async id => {
+    const response = await driveRequest(
+      `${DRIVE_API_BASE}/files?fields=id,name,mimeType,modifiedTime`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...metadata, id })
       },
-      body: JSON.stringify(metadata)
-    }
-  );
-  
-  if (!response.ok) {
-    await handleDriveError(response);
-  }
+      { idempotent: true }
+    );
+    return await response.json();
+  });
   
-  const data = await response.json();
   return data.id;
 }
 
@@ -177,56 +179,17 @@ export async function uploadFile(
     ? new Blob([content], { type: metadata.mimeType })
     : content;
   
-  // Use multipart upload for metadata + content
-  const boundary = '-------314159265358979323846';
-  const delimiter = "\r\n--" + boundary + "\r\n";
-  const closeDelimiter = "\r\n--" + boundary + "--";
-  
-  const metadataString = JSON.stringify(metadata);
-  
-  // Build multipart request body
-  const multipartBody = new Blob([
-    delimiter,
-    'Content-Type: application/json; charset=UTF-8\r\n\r\n',
-    metadataString,
-    delimiter,
-    `Content-Type: ${metadata.mimeType}\r\n\r\n`,
-    blob,
-    closeDelimiter
-  ]);
-  
-  const xhr = new XMLHttpRequest();
-  
-  return new Promise((resolve, reject) => {
-    // Track upload progress
-    if (onProgress) {
-      xhr.upload.onprogress = (event) => {
-        if (event.lengthComputable) {
-          const progress = Math.round((event.loaded / event.total) * 100);
-          onProgress(progress);
-        }
-      };
-    }
-    
-    xhr.onload = () => {
-      if (xhr.status >= 200 && xhr.status < 300) {
-        try {
-          const response = JSON.parse(xhr.responseText);
-          resolve(response);
-        } catch (error) {
-          reject(new Error('Failed to parse upload response'));
-        }
-      } else {
-        reject(new Error(`Upload failed: ${xhr.status} ${xhr.statusText}`));
-      }
-    };
-    
-    xhr.onerror = () => reject(new Error('Network error during upload'));
-    
-    xhr.open('POST', `${UPLOAD_API_BASE}/files?uploadType=multipart&fields=id,name,mimeType,modifiedTime,size`);
-    xhr.setRequestHeader('Authorization', `Bearer ${getAccessToken()}`);
-    xhr.setRequestHeader('Content-Type', `multipart/related; boundary="${boundary}"`);
-    xhr.send(multipartBody);
+  // A reserved ID makes the upload safe to repeat if its response is lost
+  return createWithReservedId(async id => {
+    const response = await driveUpload(
+      'POST',
+      `${UPLOAD_API_BASE}/files?uploadType=multipart&fields=id,name,mimeType,modifiedTime,size`,
+      multipartBody({ ...metadata, id }, blob),
+      { 'Content-Type': `multipart/related; boundary="${MULTIPART_BOUNDARY}"` },
+      onProgress,
+      { idempotent: true }
+    );
+    return await response.json();
   });
 }
 
@@ -245,109 +208,296 @@ export async function updateFile(
   
   // If metadata is provided, use multipart update
   if (metadata && Object.keys(metadata).length > 0) {
-    const boundary = '-------314159265358979323846';
-    const delimiter = "\r\n--" + boundary + "\r\n";
-    const closeDelimiter = "\r\n--" + boundary + "--";
-    
-    const metadataString = JSON.stringify(metadata);
-    
-    const multipartBody = new Blob([
-      delimiter,
-      'Content-Type: application/json; charset=UTF-8\r\n\r\n',
-      metadataString,
-      delimiter,
-      `Content-Type: ${metadata.mimeType || 'application/octet-stream'}\r\n\r\n`,
-      blob,
-      closeDelimiter
-    ]);
-    
-    const xhr = new XMLHttpRequest();
-    
-    return new Promise((resolve, reject) => {
-      if (onProgress) {
-        xhr.upload.onprogress = (event) => {
-          if (event.lengthComputable) {
-            const progress = Math.round((event.loaded / event.total) * 100);
-            onProgress(progress);
-          }
-        };
-      }
-      
-      xhr.onload = () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          try {
-            const response = JSON.parse(xhr.responseText);
-            resolve(response);
-          } catch (error) {
-            reject(new Error('Failed to parse update response'));
-          }
-        } else {
-          reject(new Error(`Update failed: ${xhr.status} ${xhr.statusText}`));
-        }
-      };
-      
-      xhr.onerror = () => reject(new Error('Network error during update'));
-      
-      xhr.open('PATCH', `${UPLOAD_API_BASE}/files/${fileId}?uploadType=multipart&fields=id,name,mimeType,modifiedTime,size`);
-      xhr.setRequestHeader('Authorization', `Bearer ${getAccessToken()}`);
-      xhr.setRequestHeader('Content-Type', `multipart/related; boundary="${boundary}"`);
-      xhr.send(multipartBody);
-    });
+    const response = await driveUpload(
+      'PATCH',
+      `${UPLOAD_API_BASE}/files/${fileId}?uploadType=multipart&fields=id,name,mimeType,modifiedTime,size`,
+      multipartBody(metadata, blob),
+      { 'Content-Type': `multipart/related; boundary="${MULTIPART_BOUNDARY}"` },
+      onProgress
+    );
+    return await response.json();
   } else {
     // Simple media upload without metadata
-    const response = await fetch(
+    const response = await driveRequest(
       `${UPLOAD_API_BASE}/files/${fileId}?uploadType=media&fields=id,name,mimeType,modifiedTime,size`,
       {
         method: 'PATCH',
         headers: {
-          ...getAuthHeaders(),
           'Content-Type': blob.type
         },
         body: blob
       }
     );
     
-    if (!response.ok) {
-      await handleDriveError(response);
-    }
-    
     return await response.json();
   }
 }
 
+const MULTIPART_BOUNDARY = '-------314159265358979323846';
+
 /**
- * Download a file from Drive
+ * Build a multipart request body of metadata + content
  */
-export async function downloadFile(fileId: string): Promise<Blob> {
-  const response = await fetch(
-    `${DRIVE_API_BASE}/files/${fileId}?alt=media`,
+function multipartBody(metadata: Partial<DriveFileMetadata>, content: Blob): Blob {
+  const delimiter = "\r\n--" + MULTIPART_BOUNDARY + "\r\n";
+  const closeDelimiter = "\r\n--" + MULTIPART_BOUNDARY + "--";
+  
+  return new Blob([
+    delimiter,
+    'Content-Type: application/json; charset=UTF-8\r\n\r\n',
+    JSON.stringify(metadata),
+    delimiter,
+    `Content-Type: ${metadata.mimeType || 'application/octet-stream'}\r\n\r\n`,
+    content,
+    closeDelimiter
+  ]);
+}
+
+// Resumable upload chunk size; Drive requires a multiple of 256 KiB
+const RESUMABLE_CHUNK_SIZE = 4 * 256 * 1024;
+
+/**
+ * Upload a stream to Drive as a new file using a resumable upload session
+ * The stream is sent in fixed-size chunks, so it is never held in memory in full.
+ * @param content - File contents
+ * @param metadata - File metadata
+ * @param size - Total size in bytes if known (enables progress reporting)
+ * @param onProgress - Optional progress callback (0-100)
+ * @returns Promise<DriveFile> - Created file
+ */
+export async function uploadFileStream(
+  content: ReadableStream<Uint8Array>,
+  metadata: DriveFileMetadata,
+  size?: number,
+  onProgress?: (progress: number) => void
+): Promise<DriveFile> {
+  // Ensure parent folder exists
+  if (!metadata.parents || metadata.parents.length === 0) {
+    const folderId = await getOrCreateAppFolder();
+    metadata.parents = [folderId];
+  }
+  
+  // The file is created when the last chunk arrives, under the reserved ID
+  return createWithReservedId(async id => {
+    const sessionUrl = await startResumableUpload(
+      'POST',
+      `${UPLOAD_API_BASE}/files`,
+      { ...metadata, id }
+    );
+    
+    return sendResumableStream(sessionUrl, content, size, onProgress);
+  });
+}
+
+/**
+ * Replace the contents of an existing file with a stream using a resumable upload session
+ * @param fileId - File to update
+ * @param content - New file contents
+ * @param metadata - Optional metadata changes
+ * @param size - Total size in bytes if known (enables progress reporting)
+ * @param onProgress - Optional progress callback (0-100)
+ * @returns Promise<DriveFile> - Updated file
+ */
+export async function updateFileStream(
+  fileId: string,
+  content: ReadableStream<Uint8Array>,
+  metadata: Partial<DriveFileMetadata> = {},
+  size?: number,
+  onProgress?: (progress: number) => void
+): Promise<DriveFile> {
+  const sessionUrl = await startResumableUpload(
+    'PATCH',
+    `${UPLOAD_API_BASE}/files/${fileId}`,
+    metadata
+  );
+  
+  return sendResumableStream(sessionUrl, content, size, onProgress);
+}
+
+/**
+ * Open a resumable upload session and return its session URL
+ */
+async function startResumableUpload(
+  method: 'POST' | 'PATCH',
+  url: string,
+  metadata: Partial<DriveFileMetadata>
+): Promise<string> {
+  // Opening a session changes nothing until its upload completes, so it can be repeated
+  const response = await driveRequest(
+    `${url}?uploadType=resumable&fields=id,name,mimeType,modifiedTime,size`,
     {
-      headers: getAuthHeaders()
-    }
+      method,
+      headers: {
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Type': metadata.mimeType || 'application/octet-stream'
+      },
+      body: JSON.stringify(metadata)
+    },
+    { idempotent: true }
   );
   
-  if (!response.ok) {
-    await handleDriveError(response);
+  const sessionUrl = response.headers.get('Location');
+  if (!sessionUrl) {
+    throw new Error('Drive did not return an upload session');
   }
   
-  return await response.blob();
+  return sessionUrl;
 }
 
 /**
- * Get file metadata
+ * Send a stream to a resumable upload session chunk by chunk
  */
-export async function getFile(fileId: string): Promise<DriveFile> {
-  const response = await fetch(
-    `${DRIVE_API_BASE}/files/${fileId}?fields=id,name,mimeType,modifiedTime,size,parents`,
-    {
-      headers: getAuthHeaders()
+async function sendResumableStream(
+  sessionUrl: string,
+  content: ReadableStream<Uint8Array>,
+  size?: number,
+  onProgress?: (progress: number) => void
+): Promise<DriveFile> {
+  const reader = content.getReader();
+  let buffered: Uint8Array[] = [];
+  let bufferedLength = 0;
+  let offset = 0;
+  let done = false;
+  
+  try {
+    while (true) {
+      // Fill one chunk (or whatever remains of the stream)
+      while (!done && bufferedLength < RESUMABLE_CHUNK_SIZE) {
+        const result = await reader.read();
+        if (result.done) {
+          done = true;
+        } else {
+          buffered.push(result.value);
+          bufferedLength += result.value.length;
+        }
+      }
+      
+      const joined = new Blob(buffered);
+      const isLast = done && bufferedLength <= RESUMABLE_CHUNK_SIZE;
+      const chunk = isLast ? joined : joined.slice(0, RESUMABLE_CHUNK_SIZE);
+      const total = isLast ? `${offset + chunk.size}` : '*';
+      
+      const response = await sendResumableChunk(sessionUrl, chunk, offset, total);
+      
+      offset += chunk.size;
+      
+      if (isLast) {
+        onProgress?.(100);
+        return await response.json();
+      }
+      
+      // 308 Resume Incomplete: Drive accepted the chunk and wants the next one
+      if (response.status !== 308) {
+        throw new Error('Drive completed the upload before the last chunk');
+      }
+      
+      const rest = joined.slice(RESUMABLE_CHUNK_SIZE);
+      buffered = rest.size > 0 ? [new Uint8Array(await rest.arrayBuffer())] : [];
+      bufferedLength = rest.size;
+      
+      if (onProgress && size) {
+        onProgress(Math.min(99, Math.round((offset / size) * 100)));
+      }
     }
-  );
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Send one chunk of a resumable upload
+ * If a request fails part way, Drive is asked how much of the chunk arrived and
+ * only the rest is sent again.
+ * @param total - Total upload size, or '*' while it is unknown
+ * @returns Promise<Response> - 308 for the next chunk, or 200/201 with the file once complete
+ */
+async function sendResumableChunk(
+  sessionUrl: string,
+  chunk: Blob,
+  offset: number,
+  total: string
+): Promise<Response> {
+  let received = 0; // Bytes of this chunk Drive has
+  
+  for (let attempt = 0; ; attempt++) {
+    const rest = chunk.slice(received);
+    const range = rest.size > 0
+      ? `bytes ${offset + received}-${offset + chunk.size - 1}/${total}`
+      : `bytes */${total}`;
+    
+    try {
+      // Retried here rather than in the request layer, which would resend the whole chunk
+      return await driveRequest(
+        sessionUrl,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Range': range
+          },
+          body: rest
+        },
+        { idempotent: false, acceptStatuses: [308] }
+      );
+    } catch (error) {
+      if (!isTransientDriveError(error) || !await waitBeforeRetry(attempt, error)) {
+        throw error;
+      }
+    }
+    
+    // Ask how far the upload got before the failure
+    const status = await driveRequest(
+      sessionUrl,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Range': `bytes */${total}`
+        }
+      },
+      { acceptStatuses: [308] }
+    );
+    if (status.status !== 308) {
+      return status;
+    }
+    
+    // Range: bytes=0-N covers everything received so far (absent if nothing was)
+    const match = status.headers.get('Range')?.match(/bytes=0-(\d+)/);
+    received = Math.max(0, (match ? parseInt(match[1]) + 1 : 0) - offset);
+    if (received >= chunk.size && total === '*') {
+      return status;
+    }
+  }
+}
+
+/**
+ * Download a file from Drive as a stream
+ * @param fileId - File to download
+ * @returns Promise<ReadableStream<Uint8Array>> - File contents
+ */
+export async function downloadFileStream(fileId: string): Promise<ReadableStream<Uint8Array>> {
+  const response = await driveRequest(`${DRIVE_API_BASE}/files/${fileId}?alt=media`);
   
-  if (!response.ok) {
-    await handleDriveError(response);
+  if (!response.body) {
+    throw new Error('Download returned no content');
   }
   
+  return response.body;
+}
+
+/**
+ * Download a file from Drive
+ */
+export async function downloadFile(fileId: string): Promise<Blob> {
+  const response = await driveRequest(`${DRIVE_API_BASE}/files/${fileId}?alt=media`);
+  
+  return await response.blob();
+}
+
+/**
+ * Get file metadata
+ */
+export async function getFile(fileId: string): Promise<DriveFile> {
+  const response = await driveRequest(`${DRIVE_API_BASE}/files/${fileId}?fields=id,name,mimeType,modifiedTime,size,parents`);
+  
   return await response.json();
 }
 
@@ -380,37 +530,61 @@ export async function listFiles(
     params.append('pageToken', pageToken);
   }
   
-  const response = await fetch(
-    `${DRIVE_API_BASE}/files?${params.toString()}`,
-    {
-      headers: getAuthHeaders()
-    }
-  );
-  
-  if (!response.ok) {
-    await handleDriveError(response);
-  }
+  const response = await driveRequest(`${DRIVE_API_BASE}/files?${params.toString()}`);
   
   return await response.json();
 }
 
 /**
- * Delete a file (move to trash)
+ * Get the page token that lists changes made from now on
  */
-export async function deleteFile(fileId: string): Promise<void> {
-  const response = await fetch(
-    `${DRIVE_API_BASE}/files/${fileId}`,
-    {
-      method: 'DELETE',
-      headers: getAuthHeaders()
-    }
-  );
+export async function getChangesStartPageToken(): Promise<string> {
+  const response = await driveRequest(`${DRIVE_API_BASE}/changes/startPageToken`);
   
-  if (!response.ok) {
-    await handleDriveError(response);
+  const data = await response.json();
+  return data.startPageToken;
+}
+
+/**
+ * List changes to the user's files since a page token, following every page
+ * Each file appears once, with its metadata as it is now (trashed files included).
+ * @returns The changes and the token to list later changes from
+ */
+export async function listChanges(pageToken: string): Promise<{
+  changes: DriveChange[];
+  newStartPageToken: string;
+}> {
+  const changes: DriveChange[] = [];
+  let nextPageToken = pageToken;
+  
+  while (true) {
+    const params = new URLSearchParams({
+      pageToken: nextPageToken,
+      pageSize: '1000',
+      spaces: 'drive',
+      fields: 'nextPageToken,newStartPageToken,changes(fileId,removed,file(id,name,mimeType,modifiedTime,size,parents,trashed))'
+    });
+    
+    const response = await driveRequest(`${DRIVE_API_BASE}/changes?${params.toString()}`);
+    
+    const data = await response.json();
+    changes.push(...(data.changes || []));
+    
+    // The last page carries the token for the next call instead of a next page
+    if (data.newStartPageToken) {
+      return { changes, newStartPageToken: data.newStartPageToken };
+    }
+    nextPageToken = data.nextPageToken;
   }
 }
 
+/**
+ * Delete a file (move to trash)
+ */
+export async function deleteFile(fileId: string): Promise<void> {
+  await driveRequest(`${DRIVE_API_BASE}/files/${fileId}`, { method: 'DELETE' });
+}
+
 /**
  * Batch delete multiple files
  */
@@ -461,6 +635,42 @@ export async function searchFiles(
   return result.files;
 }
 
+/**
+ * List a file's revisions, oldest first
+ * Drive keeps earlier revisions of binary files for 30 days (or 100 revisions).
+ */
+export async function listRevisions(fileId: string): Promise<DriveRevision[]> {
+  const revisions: DriveRevision[] = [];
+  let pageToken: string | undefined;
+  
+  do {
+    const params = new URLSearchParams({
+      fields: 'nextPageToken,revisions(id,modifiedTime,size)',
+      pageSize: '200'
+    });
+    if (pageToken) {
+      params.append('pageToken', pageToken);
+    }
+    
+    const response = await driveRequest(`${DRIVE_API_BASE}/files/${fileId}/revisions?${params.toString()}`);
+    
+    const data = await response.json();
+    revisions.push(...(data.revisions || []));
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+  
+  return revisions;
+}
+
+/**
+ * Download the contents of one revision of a file
+ */
+export async function downloadRevision(fileId: string, revisionId: string): Promise<Blob> {
+  const response = await driveRequest(`${DRIVE_API_BASE}/files/${fileId}/revisions/${revisionId}?alt=media`);
+  
+  return await response.blob();
+}
+
 /**
  * Get storage quota information
  */
@@ -470,16 +680,7 @@ export async function getStorageQuota(): Promise<{
   usageInDrive: number;
   usageInDriveTrash: number;
 }> {
-  const response = await fetch(
-    `${DRIVE_API_BASE}/about?fields=storageQuota`,
-    {
-      headers: getAuthHeaders()
-    }
-  );
-  
-  if (!response.ok) {
-    await handleDriveError(response);
-  }
+  const response = await driveRequest(`${DRIVE_API_BASE}/about?fields=storageQuota`);
   
   const data = await response.json();
   return {
@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DriveAuthError,
+  DriveError,
+  DriveNetworkError,
+  DriveNotFoundError,
+  DrivePermissionError,
+  DriveQuotaError,
+  DriveRateLimitError,
+  driveRequest,
+} from './driveRequest';
+import { getAccessToken, refreshAccessToken } from './auth';
+
+vi.mock('./auth', () => ({ getAccessToken: vi.fn(), refreshAccessToken: vi.fn() }));
+
+const FILE_URL = 'https://www.googleapis.com/drive/v3/files/file-1';
+
+const ok = () => new Response('{}', { status: 200 });
+
+function failure(status: number, reason?: string, headers: Record<string, string> = {}): Response {
+  const body = { error: { message: `Failed with ${status}`, errors: reason ? [{ reason }] : [] } };
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+let fetchMock: ReturnType<typeof vi.fn>;
+let token: string;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  // No jitter: backoff waits are 0, so only Retry-After delays a retry
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+
+  token = 'token-1';
+  vi.mocked(getAccessToken).mockImplementation(() => token);
+  vi.mocked(refreshAccessToken).mockReset().mockImplementation(async () => {
+    token = 'token-2';
+    return token;
+  });
+
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/**
+ * Run a request to completion, letting every retry delay pass
+ */
+async function settle<T>(request: Promise<T>): Promise<T> {
+  request.catch(() => undefined); // Rejections are checked by the caller after the timers run
+  await vi.runAllTimersAsync();
+  return request;
+}
+
+const authorizationOf = (call: number): string => fetchMock.mock.calls[call][1].headers.Authorization;
+
+describe('driveRequest: retries', () => {
+  it('retries temporary server errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(failure(503))
+      .mockResolvedValueOnce(failure(500))
+      .mockResolvedValueOnce(ok());
+
+    expect((await settle(driveRequest(FILE_URL))).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after five retries', async () => {
+    fetchMock.mockImplementation(async () => failure(502));
+
+    const error = await settle(driveRequest(FILE_URL)).catch(error => error);
+    expect(error).toBeInstanceOf(DriveError);
+    expect(error.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  it('doubles the backoff range after each attempt', async () => {
+    vi.mocked(Math.random).mockReturnValue(0.5);
+    fetchMock.mockImplementation(async () => failure(503));
+    const request = driveRequest(FILE_URL).catch(error => error);
+
+    // Half of 500 ms, 1 s, 2 s... between attempts
+    for (const [wait, calls] of [[0, 1], [250, 2], [500, 3], [1000, 4]]) {
+      await vi.advanceTimersByTimeAsync(wait);
+      expect(fetchMock).toHaveBeenCalledTimes(calls);
+    }
+    await vi.runAllTimersAsync();
+    expect(await request).toBeInstanceOf(DriveError);
+  });
+
+  it('retries network failures as DriveNetworkError', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValueOnce(ok());
+    expect((await settle(driveRequest(FILE_URL))).status).toBe(200);
+
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(settle(driveRequest(FILE_URL))).rejects.toBeInstanceOf(DriveNetworkError);
+  });
+
+  it('does not repeat a create unless it is marked idempotent', async () => {
+    fetchMock.mockResolvedValueOnce(failure(503));
+    await expect(settle(driveRequest(FILE_URL, { method: 'POST' }))).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockResolvedValueOnce(failure(503)).mockResolvedValueOnce(ok());
+    await settle(driveRequest(FILE_URL, { method: 'POST' }, { idempotent: true }));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries a rate-limited create, which was not processed', async () => {
+    fetchMock.mockResolvedValueOnce(failure(429)).mockResolvedValueOnce(ok());
+
+    await settle(driveRequest(FILE_URL, { method: 'POST' }));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry while offline', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    fetchMock.mockResolvedValue(failure(503));
+
+    await expect(settle(driveRequest(FILE_URL))).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts the statuses the caller expects', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 308 }));
+    expect((await settle(driveRequest(FILE_URL, {}, { acceptStatuses: [308] }))).status).toBe(308);
+  });
+
+  it('passes an abort through without retrying', async () => {
+    fetchMock.mockRejectedValue(new DOMException('The operation was aborted', 'AbortError'));
+
+    await expect(settle(driveRequest(FILE_URL))).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('driveRequest: Retry-After', () => {
+  it('waits at least the seconds Drive asks for', async () => {
+    fetchMock.mockResolvedValueOnce(failure(429, undefined, { 'Retry-After': '2' })).mockResolvedValueOnce(ok());
+    const request = driveRequest(FILE_URL);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect((await request).status).toBe(200);
+  });
+
+  it('waits until an HTTP date', async () => {
+    const retryAt = new Date(Date.now() + 3000).toUTCString();
+    fetchMock.mockResolvedValueOnce(failure(503, undefined, { 'Retry-After': retryAt }));
+    fetchMock.mockResolvedValueOnce(failure(403, 'userRateLimitExceeded', { 'Retry-After': retryAt }));
+    fetchMock.mockResolvedValueOnce(ok());
+    const request = driveRequest(FILE_URL);
+
+    // Only rate limits carry the delay; the server error is retried at once
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await request).status).toBe(200);
+  });
+
+  it('passes a long wait on to the caller instead of blocking', async () => {
+    fetchMock.mockResolvedValue(failure(429, undefined, { 'Retry-After': '120' }));
+
+    const error = await settle(driveRequest(FILE_URL)).catch(error => error);
+    expect(error).toBeInstanceOf(DriveRateLimitError);
+    expect(error.retryAfterMs).toBe(120_000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores a value that is neither seconds nor a date', async () => {
+    fetchMock.mockResolvedValue(failure(429, undefined, { 'Retry-After': 'soon' }));
+
+    const error = await settle(driveRequest(FILE_URL)).catch(error => error);
+    expect(error.retryAfterMs).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+});
+
+describe('driveRequest: token renewal', () => {
+  it('renews an expired token once and replays the request', async () => {
+    fetchMock.mockResolvedValueOnce(failure(401)).mockResolvedValueOnce(ok());
+
+    expect((await settle(driveRequest(FILE_URL))).status).toBe(200);
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(authorizationOf(0)).toBe('Bearer token-1');
+    expect(authorizationOf(1)).toBe('Bearer token-2');
+  });
+
+  it('renews once for every request rejected with the same token', async () => {
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) =>
+      ((init.headers as Record<string, string>).Authorization === 'Bearer token-1' ? failure(401) : ok()));
+
+    const responses = await settle(Promise.all([driveRequest(FILE_URL), driveRequest(FILE_URL), driveRequest(FILE_URL)]));
+    expect(responses).toHaveLength(3);
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('signs out when the renewed token is rejected too', async () => {
+    fetchMock.mockResolvedValue(failure(401));
+
+    await expect(settle(driveRequest(FILE_URL))).rejects.toBeInstanceOf(DriveAuthError);
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('signs out when renewal fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.mocked(refreshAccessToken).mockRejectedValue(new Error('popup closed'));
+    fetchMock.mockResolvedValue(failure(401));
+
+    await expect(settle(driveRequest(FILE_URL))).rejects.toBeInstanceOf(DriveAuthError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not send a request without a token', async () => {
+    vi.mocked(getAccessToken).mockReturnValue(null);
+
+    await expect(settle(driveRequest(FILE_URL))).rejects.toThrow('No access token available');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('driveRequest: errors', () => {
+  const cases: Array<[string, Response, new (...args: never[]) => DriveError]> = [
+    ['403 with a rate limit reason', failure(403, 'rateLimitExceeded', { 'Retry-After': '300' }), DriveRateLimitError],
+    ['403 with a quota reason', failure(403, 'storageQuotaExceeded'), DriveQuotaError],
+    ['507', failure(507), DriveQuotaError],
+    ['403 for anything else', failure(403, 'insufficientPermissions'), DrivePermissionError],
+    ['404', failure(404), DriveNotFoundError],
+  ];
+
+  for (const [name, response, type] of cases) {
+    it(`maps ${name} to ${type.name}`, async () => {
+      fetchMock.mockResolvedValueOnce(response);
+
+      const error = await settle(driveRequest(FILE_URL)).catch(error => error);
+      expect(error).toBeInstanceOf(type);
+      expect(error.status).toBe(response.status);
+    });
+  }
+
+  it('keeps the reason Drive gave', async () => {
+    fetchMock.mockResolvedValueOnce(failure(403, 'insufficientPermissions'));
+    await expect(settle(driveRequest(FILE_URL))).rejects.toMatchObject({ reason: 'insufficientPermissions' });
+  });
+
+  it('uses Drive\'s message for other failures, or the status line', async () => {
+    fetchMock.mockResolvedValueOnce(failure(400));
+    await expect(settle(driveRequest(FILE_URL))).rejects.toThrow('Failed with 400');
+
+    fetchMock.mockResolvedValueOnce(new Response('Bad Request', { status: 400, statusText: 'Bad Request' }));
+    await expect(settle(driveRequest(FILE_URL))).rejects.toThrow('Drive API error: 400 Bad Request');
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * Drive Request Layer
+ * Sends every Google Drive API request: retries what is safe to retry, renews an
+ * expired access token without signing the user out, and turns failures into
+ * typed errors
+ *
+ * - Rate limits (429, or 403 with a rate limit reason) and temporary server errors
+ *   (500, 502, 503, 504) are retried with exponential backoff and full jitter,
+ *   never sooner than the Retry-After header asks
+ * - Requests are only repeated when repeating them cannot apply a change twice:
+ *   reads, deletes and content updates always, creates only when the caller says
+ *   so (drive.ts creates files with a reserved ID for this). A rate-limited
+ *   request was not processed, so it is retried either way
+ * - A 401 renews the token once for every request waiting on it; requests that
+ *   fail or start meanwhile wait for the renewal and are then replayed
+ *
+ * SECURITY NOTES:
+ * - The access token is only sent in the Authorization header, to the URL the
+ *   caller gave (Drive API hosts and Drive upload session URLs)
+ * - Nothing is retried while the browser reports being offline; the offline
+ *   cache queues those changes instead
+ */
+
+import { getAccessToken, refreshAccessToken } from './auth';
+
+export class DriveError extends Error {
+  readonly status: number; // HTTP status; 0 if no response arrived
+  readonly reason?: string; // Drive's error reason, such as rateLimitExceeded
+
+  constructor(message: string, status: number, reason?: string) {
+    super(message);
+    this.name = 'DriveError';
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+/**
+ * The access token expired or was revoked and could not be renewed
+ */
+export class DriveAuthError extends DriveError {
+  constructor(message = 'Authentication expired. Please sign in again.') {
+    super(message, 401);
+    this.name = 'DriveAuthError';
+  }
+}
+
+export class DrivePermissionError extends DriveError {
+  constructor(reason?: string) {
+    super('Permission denied. Please grant Drive access.', 403, reason);
+    this.name = 'DrivePermissionError';
+  }
+}
+
+export class DriveNotFoundError extends DriveError {
+  constructor() {
+    super('File or folder not found.', 404);
+    this.name = 'DriveNotFoundError';
+  }
+}
+
+export class DriveQuotaError extends DriveError {
+  constructor(status: number, reason?: string) {
+    super('Drive storage quota exceeded.', status, reason);
+    this.name = 'DriveQuotaError';
+  }
+}
+
+/**
+ * Drive kept refusing the request for sending too many; thrown once retries run out
+ */
+export class DriveRateLimitError extends DriveError {
+  readonly retryAfterMs?: number; // How long Drive asked to wait, if it said
+
+  constructor(status: number, reason?: string, retryAfterMs?: number) {
+    super('Google Drive is receiving too many requests. Please try again in a moment.', status, reason);
+    this.name = 'DriveRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * No response arrived (offline, DNS, dropped connection)
+ */
+export class DriveNetworkError extends DriveError {
+  constructor(message = 'Network error: Google Drive could not be reached.') {
+    super(message, 0);
+    this.name = 'DriveNetworkError';
+  }
+}
+
+export interface DriveRequestOptions {
+  // Whether sending the request twice has the same effect as once; by default
+  // everything but POST is
+  idempotent?: boolean;
+  // Statuses besides 2xx that are a successful answer (308 from resumable uploads)
+  acceptStatuses?: number[];
+  // Cancels an upload (driveRequest takes the signal in its RequestInit, as fetch does)
+  signal?: AbortSignal;
+}
+
+const MAX_RETRIES = 5;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 32_000;
+
+// A longer Retry-After is passed on to the caller instead of blocking it
+const MAX_RETRY_AFTER_MS = 60_000;
+
+const RETRYABLE_SERVER_STATUSES = [500, 502, 503, 504];
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+const QUOTA_REASONS = ['storageQuotaExceeded', 'quotaExceeded'];
+
+let renewal: Promise<string> | null = null;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+/**
+ * Retry-After in milliseconds (it may be seconds or an HTTP date)
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Turn a failed response into a typed error
+ */
+async function toDriveError(response: Response): Promise<DriveError> {
+  let message = `Drive API error: ${response.status} ${response.statusText}`;
+  let reason: string | undefined;
+
+  try {
+    const errorData = await response.json();
+    message = errorData.error?.message || message;
+    reason = errorData.error?.errors?.[0]?.reason;
+  } catch {
+    // Not JSON; keep the status line
+  }
+
+  const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+
+  if (response.status === 401) {
+    return new DriveAuthError();
+  }
+  if (response.status === 429 || (response.status === 403 && reason && RATE_LIMIT_REASONS.includes(reason))) {
+    return new DriveRateLimitError(response.status, reason, retryAfterMs);
+  }
+  if (response.status === 507 || (response.status === 403 && reason && QUOTA_REASONS.includes(reason))) {
+    return new DriveQuotaError(response.status, reason);
+  }
+  if (response.status === 403) {
+    return new DrivePermissionError(reason);
+  }
+  if (response.status === 404) {
+    return new DriveNotFoundError();
+  }
+  return new DriveError(message, response.status, reason);
+}
+
+/**
+ * Whether a failed request may succeed if sent again after a pause
+ * @param idempotent - Whether the request may have been applied already and is safe to repeat
+ */
+export function isTransientDriveError(error: unknown, idempotent = true): boolean {
+  if (error instanceof DriveRateLimitError) {
+    return true;
+  }
+  if (!idempotent) {
+    return false;
+  }
+  return error instanceof DriveNetworkError ||
+    (error instanceof DriveError && RETRYABLE_SERVER_STATUSES.includes(error.status));
+}
+
+/**
+ * Wait before attempt number `attempt + 1` of a failed request
+ * @returns Promise<boolean> - False if no further attempt should be made
+ */
+export async function waitBeforeRetry(attempt: number, error: unknown): Promise<boolean> {
+  if (attempt >= MAX_RETRIES || isOffline()) {
+    return false;
+  }
+
+  const retryAfterMs = error instanceof DriveRateLimitError ? error.retryAfterMs : undefined;
+  if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) {
+    return false;
+  }
+
+  await sleep(Math.max(backoffDelay(attempt), retryAfterMs ?? 0));
+  return true;
+}
+
+/**
+ * The Authorization header, once any token renewal in progress has finished
+ */
+async function authorization(): Promise<string> {
+  if (renewal) {
+    await renewal.catch(() => undefined);
+  }
+
+  const token = getAccessToken();
+  if (!token) {
+    throw new DriveAuthError('No access token available. Please sign in again.');
+  }
+  return `Bearer ${token}`;
+}
+
+/**
+ * Renew the access token after a 401, once for every request that got one with it
+ */
+async function renewToken(rejected: string): Promise<void> {
+  // Another request renewed it already
+  if (`Bearer ${getAccessToken()}` !== rejected) {
+    return;
+  }
+
+  if (!renewal) {
+    renewal = refreshAccessToken().finally(() => {
+      renewal = null;
+    });
+  }
+
+  try {
+    await renewal;
+  } catch (error) {
+    console.warn('Silent token renewal failed:', error);
+    throw new DriveAuthError();
+  }
+}
+
+/**
+ * Send a request until it succeeds, fails for good or runs out of retries
+ */
+async function send(
+  method: string,
+  attempt: (authorization: string) => Promise<Response>,
+  options: DriveRequestOptions
+): Promise<Response> {
+  const idempotent = options.idempotent ?? method.toUpperCase() !== 'POST';
+  let renewed = false;
+
+  for (let retry = 0; ; retry++) {
+    const header = await authorization();
+    let error: DriveError;
+
+    try {
+      const response = await attempt(header);
+      if (response.ok || options.acceptStatuses?.includes(response.status)) {
+        return response;
+      }
+      error = await toDriveError(response);
+    } catch (requestError) {
+      // Aborted by the caller: not a failure to retry
+      if (requestError instanceof DOMException && requestError.name === 'AbortError') {
+        throw requestError;
+      }
+      error = requestError instanceof DriveError ? requestError : new DriveNetworkError();
+    }
+
+    if (error instanceof DriveAuthError && !renewed) {
+      renewed = true;
+      await renewToken(header);
+      retry--; // Replaying with the new token is not a retry
+      continue;
+    }
+
+    if (!isTransientDriveError(error, idempotent) || !await waitBeforeRetry(retry, error)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Send a Drive API request with fetch
+ * @returns Promise<Response> - A successful response (2xx or an accepted status)
+ * @throws DriveError (or a subclass) once the request has failed for good
+ */
+export function driveRequest(
+  url: string,
+  init: RequestInit = {},
+  options: DriveRequestOptions = {}
+): Promise<Response> {
+  const method = init.method ?? 'GET';
+
+  return send(method, header => fetch(url, {
+    ...init,
+    headers: { ...init.headers as Record<string, string>, Authorization: header },
+  }), options);
+}
+
+/**
+ * Parse XMLHttpRequest's raw header block
+ */
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  });
+  return headers;
+}
+
+function abortError(): DOMException {
+  return new DOMException('The upload was aborted', 'AbortError');
+}
+
+/**
+ * Send an upload with XMLHttpRequest, which reports upload progress (fetch does not)
+ * @param onProgress - Called with 0-100 as the body is sent (again on a retry)
+ * @param options - Retry options, and an AbortSignal to cancel the upload
+ * @returns Promise<Response> - A successful response
+ * @throws DriveError (or a subclass) once the upload has failed for good
+ * @throws DOMException (AbortError) if the signal aborts it
+ */
+export function driveUpload(
+  method: string,
+  url: string,
+  body: Blob,
+  headers: Record<string, string>,
+  onProgress?: (progress: number) => void,
+  options: DriveRequestOptions = {}
+): Promise<Response> {
+  const { signal } = options;
+
+  return send(method, header => new Promise<Response>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener('abort', onAbort);
+
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      };
+    }
+
+    xhr.onload = () => {
+      settle();
+      // Status 0 means no response arrived (blocked or dropped)
+      if (xhr.status === 0) {
+        reject(new TypeError('Network error during upload'));
+        return;
+      }
+      try {
+        resolve(new Response(xhr.status === 204 ? null : xhr.responseText, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseHeaders(xhr.getAllResponseHeaders()),
+        }));
+      } catch {
+        // Response rejects statuses outside 200-599
+        reject(new DriveError(`Unexpected upload response status: ${xhr.status}`, xhr.status));
+      }
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new TypeError('Network error during upload'));
+    };
+    xhr.ontimeout = () => {
+      settle();
+      reject(new TypeError('Upload timed out'));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    xhr.open(method, url);
+    Object.entries({ ...headers, Authorization: header }).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+    xhr.send(body);
+  }), options);
+}
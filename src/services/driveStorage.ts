@@ -1,15 +1,53 @@
-import { uploadFile, downloadFile, updateFile, deleteFile, searchFiles, initializeDriveStructure } from './drive';
-import { encrypt, decryptString } from './crypto';
-import { Card, EncryptedData } from '../types';
+import { StorageConflictError, StorageFolder, StoredObject, findObject, getStorageProvider } from './storageProvider';
+import { isOfflineStorageProvider } from './offlineStorageProvider';
+import { encrypt, decrypt, decryptString, isBoundVaultKey } from './crypto';
+import { DriveError } from './driveRequest';
+import { serializeEncryptedData, parseEncryptedData } from './envelope';
+import {
+  encryptStream,
+  decryptStream,
+  isEncryptedStream,
+  parseStreamHeader,
+  getEncryptedStreamSize,
+  STREAM_FORMAT_VERSION,
+  STREAM_HEADER_MAX_LENGTH
+} from './streamCrypto';
+import {
+  Card,
+  EncryptedData,
+  ObjectBinding,
+  VaultConfig,
+  VaultKeyFile,
+  VaultKeyring,
+  VaultManifest,
+  VaultSecret,
+  RekeyJournal
+} from '../types';
 import { encryptCard, decryptCard } from './cardCrypto';
-import { encryptImage, decryptImage } from './imageCrypto';
+import { encryptImage, decryptImage, encryptImageStream, decryptImageStream } from './imageCrypto';
+import {
+  ManifestReport,
+  createManifest,
+  recordManifestEntry,
+  removeManifestEntry,
+  mergeManifests,
+  compareManifest,
+  hashCardContent,
+  hashBlob,
+  getSeenManifestSequence,
+  rememberManifestSequence,
+  forgetManifestSequence,
+  isVaultRememberedBound,
+  rememberVaultBound
+} from './vaultManifest';
 
 /**
  * Convert data URL to Blob without using fetch (CSP safe)
+ * Card files hold all but the first image inline as data URLs
  */
 function dataURLToBlob(dataURL: string): Blob {
   // Extract the base64 data and mime type
-  const matches = dataURL.match(/^data:([^;]+);base64,(.+)$/);
+  const matches = dataURL.match(/^data:([^;]+);base64,(.*)$/);
   if (!matches || matches.length !== 3) {
     throw new Error('Invalid data URL');
   }
@@ -29,7 +67,7 @@ function dataURLToBlob(dataURL: string): Blob {
 }
 
 /**
- * Convert Blob to data URL
+ * Convert Blob to data URL, for an image written inline in its card file
  */
 function blobToDataURL(blob: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -53,20 +91,284 @@ function safeJSONParse(text: string): any {
   }
 }
 
-// Cache for folder IDs
-let folderCache: {
-  rootFolderId?: string;
-  cardsFolderId?: string;
-  metadataFolderId?: string;
-  configFolderId?: string;
-} = {};
+// Encrypted objects are binary envelopes (older files may still hold JSON)
+const ENCRYPTED_MIME_TYPE = 'application/octet-stream';
+
+export interface CardFileInfo {
+  id: string;
+  fileId: string;
+  name: string;
+  modifiedTime: string;
+}
+
+export interface CardIndexEntry {
+  id: string;
+  fileId: string;
+  category: string;
+  nickname: string;
+  last4?: string;
+  addedAt: Date;
+  updatedAt: Date;
+}
+
+// A change another device overwrote first, with both versions decrypted
+export type VaultConflict =
+  | {
+    type: 'card';
+    fileId: string;
+    mine: Card;
+    theirs: Card;
+    theirsHash: string; // Manifest hash of their version
+    theirsModifiedTime: string;
+  }
+  | {
+    type: 'prefs';
+    fileId: string;
+    mine: Record<string, unknown>;
+    theirs: Record<string, unknown>;
+    theirsModifiedTime: string;
+  };
+
+/**
+ * Convert an encrypted package to an uploadable Blob
+ */
+function encryptedDataToBlob(data: EncryptedData): Blob {
+  return new Blob([serializeEncryptedData(data)], { type: ENCRYPTED_MIME_TYPE });
+}
+
+/**
+ * Read an encrypted package of any format version from a downloaded Blob
+ */
+async function blobToEncryptedData(blob: Blob): Promise<EncryptedData> {
+  if (blob.size === 0) {
+    throw new Error('Empty or invalid encrypted data received');
+  }
+  return parseEncryptedData(new Uint8Array(await blob.arrayBuffer()));
+}
+
+/**
+ * Identity an encrypted vault object is bound to, derived from its file name
+ */
+function bindingForFileName(name: string): ObjectBinding | undefined {
+  let match = name.match(/^card_(.+)_image\.enc$/);
+  if (match) {
+    return { type: 'image', id: match[1] };
+  }
+  
+  match = name.match(/^card_(.+)_thumb_[^_]+\.enc$/);
+  if (match) {
+    return { type: 'thumbnail', id: match[1] };
+  }
+  
+  match = name.match(/^card_(.+)\.json$/);
+  if (match) {
+    return { type: 'card', id: match[1] };
+  }
+  
+  if (name === 'index.json') {
+    return { type: 'index' };
+  }
+  
+  if (name === 'preferences.json') {
+    return { type: 'prefs' };
+  }
+  
+  if (name === 'manifest.json') {
+    return { type: 'manifest' };
+  }
+  
+  return undefined;
+}
+
+/**
+ * Look up the card ID a card or image file is stored under
+ */
+async function cardIdForFile(fileId: string): Promise<string> {
+  const file = await getStorageProvider().stat(fileId);
+  const binding = bindingForFileName(file.name);
+  if (!binding?.id) {
+    throw new Error(`File ${file.name} is not a card object`);
+  }
+  return binding.id;
+}
+
+/**
+ * Encrypt an image for upload
+ * Vault keys use the chunked stream format; a bare passphrase falls back to a single envelope
+ */
+async function encryptImageForUpload(
+  imageFile: File,
+  secret: VaultSecret,
+  binding: ObjectBinding
+): Promise<{ stream: ReadableStream<Uint8Array>; size: number }> {
+  if (typeof secret === 'string') {
+    const blob = encryptedDataToBlob(await encryptImage(imageFile, secret, binding));
+    return { stream: blob.stream(), size: blob.size };
+  }
+  
+  return {
+    stream: encryptImageStream(imageFile, secret, binding),
+    size: getEncryptedStreamSize(imageFile.size, secret.keyId)
+  };
+}
+
+/**
+ * Read the first bytes of a stream without losing them
+ * Returns the leading bytes (fewer if the stream is shorter) and a stream that still yields everything
+ */
+async function peekStream(
+  stream: ReadableStream<Uint8Array>,
+  length: number
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  let done = false;
+  
+  while (!done && total < length) {
+    const result = await reader.read();
+    if (result.done) {
+      done = true;
+    } else {
+      chunks.push(result.value);
+      total += result.value.length;
+    }
+  }
+  
+  const head = new Uint8Array(Math.min(total, length));
+  let offset = 0;
+  for (const chunk of chunks) {
+    if (offset >= head.length) break;
+    const part = chunk.subarray(0, head.length - offset);
+    head.set(part, offset);
+    offset += part.length;
+  }
+  
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      if (done) {
+        controller.close();
+      }
+    },
+    async pull(controller) {
+      const result = await reader.read();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+  
+  return { head, stream: replay };
+}
+
+// A downloaded encrypted object: a chunked stream, or a single envelope read in full
+type DownloadedObject =
+  | { format: 'stream'; keyId: string; bound: boolean; stream: ReadableStream<Uint8Array> }
+  | { format: 'envelope'; data: EncryptedData };
+
+/**
+ * Download an encrypted object of any format
+ * Chunked streams are left unread so they can be decrypted as they arrive.
+ */
+async function downloadEncryptedObject(fileId: string): Promise<DownloadedObject> {
+  const { head, stream } = await peekStream(await getStorageProvider().getStream(fileId), STREAM_HEADER_MAX_LENGTH);
+  
+  if (isEncryptedStream(head)) {
+    const header = parseStreamHeader(head);
+    if (!header) {
+      throw new Error('Encrypted stream is truncated');
+    }
+    return { format: 'stream', keyId: header.keyId, bound: header.version === STREAM_FORMAT_VERSION, stream };
+  }
+  
+  return { format: 'envelope', data: await blobToEncryptedData(await new Response(stream).blob()) };
+}
+
+/**
+ * Folder a vault object is kept in, derived from its file name
+ */
+function folderForFileName(name: string): StorageFolder {
+  if (name === 'index.json' || name === 'manifest.json') {
+    return 'metadata';
+  }
+  if (name.startsWith('card_')) {
+    return 'cards';
+  }
+  return 'config';
+}
+
+// Modified time of each object when this tab last read or wrote it; writes that
+// must not overwrite another device's changes expect it to be unchanged
+const knownVersions = new Map<string, string>();
+
+// Where incremental card syncs continue from in the provider's change feed
+let cardChangesCursor: { vaultId: string; cursor: string } | null = null;
+
+// Card held by each card record file this tab has seen, so removals can be matched
+const cardIdsByFile = new Map<string, string>();
+
+/**
+ * Create a vault object, or replace the contents of the one with this name
+ * @param ifUnchanged - Fail with StorageConflictError (or queue a conflict) if the
+ * object changed since this tab read it
+ */
+async function saveNamedObject(
+  folder: StorageFolder,
+  name: string,
+  content: Blob | string,
+  mimeType: string,
+  ifUnchanged = false
+): Promise<void> {
+  // Plain files (config, key file, journal) are what a passphrase change writes itself
+  if (mimeType === ENCRYPTED_MIME_TYPE) {
+    await assertNoRekeyInProgress();
+  }
+  
+  const provider = getStorageProvider();
+  const existing = await findObject(provider, folder, name);
+  const stored = await provider.put(folder, name, content, {
+    id: existing?.id,
+    ifModifiedTime: ifUnchanged && existing ? knownVersions.get(existing.id) : undefined,
+    mimeType
+  });
+  knownVersions.set(stored.id, stored.modifiedTime);
+}
+
+/**
+ * Refuse to write encrypted objects while a passphrase change is re-encrypting the vault
+ * An object written under the old key after the run listed it would be unreadable
+ * once keys.json switches to the new key.
+ */
+async function assertNoRekeyInProgress(): Promise<void> {
+  if (await findObject(getStorageProvider(), 'config', 'rekey-journal.json')) {
+    throw new Error('A passphrase change is in progress. Try again once it has finished.');
+  }
+}
+
+/**
+ * Load a vault object by name (null if missing)
+ */
+async function loadNamedObject(folder: StorageFolder, name: string): Promise<Blob | null> {
+  const provider = getStorageProvider();
+  const existing = await findObject(provider, folder, name);
+  if (!existing) {
+    return null;
+  }
+  knownVersions.set(existing.id, existing.modifiedTime);
+  return provider.get(existing.id);
+}
 
 /**
- * Initialize Drive storage and ensure folder structure exists
+ * Initialize storage and ensure the folder structure exists
  */
 export async function initializeDriveStorage(): Promise<void> {
-  const folders = await initializeDriveStructure();
-  folderCache = folders;
+  await getStorageProvider().initialize();
 }
 
 /**
@@ -74,59 +376,110 @@ export async function initializeDriveStorage(): Promise<void> {
  */
 export async function saveCardToDrive(
   card: Card,
-  passphrase: string,
+  secret: VaultSecret,
   onProgress?: (progress: number) => void
 ): Promise<string> {
-  if (!folderCache.cardsFolderId) {
-    await initializeDriveStorage();
-  }
+  await assertNoRekeyInProgress();
   
-  // If card has an image (data URL), save it separately
-  let imageFileId: string | undefined;
-  if (card.imageUrl && card.imageUrl.startsWith('data:')) {
-    // Convert data URL to Blob without using fetch (CSP safe)
-    const imageBlob = dataURLToBlob(card.imageUrl);
-    
-    // Convert Blob to File for encryptImage function
-    const imageFile = new File([imageBlob], `card_${card.id}_image.jpg`, {
-      type: imageBlob.type,
-      lastModified: Date.now()
-    });
-    
-    // Save image to Drive
-    imageFileId = await saveCardImageToDrive(
-      card.id,
-      imageFile,
-      passphrase,
+  // Save the images first, so the card file refers to them
+  const stored = await storeCardImages(card, secret, onProgress);
+  card = stored.card;
+  const imageHash = stored.imageHash ?? null;
+  
+  // Encrypt the card data
+  const encryptedCard = await encryptCard(card, secret);
+  
+  // Upload to storage
+  const cardFile = await getStorageProvider().put(
+    'cards',
+    `card_${card.id}.json`,
+    encryptedDataToBlob(encryptedCard),
+    {
+      mimeType: ENCRYPTED_MIME_TYPE,
+      description: `Encrypted card: ${card.category} - ${card.nickname}`,
       onProgress
-    );
-    
-    // Update card to reference the image file ID instead of data URL
-    card = {
-      ...card,
-      imageUrl: `drive://${imageFileId}` // Special URL format to indicate Drive storage
-    };
+    }
+  );
+  
+  knownVersions.set(cardFile.id, cardFile.modifiedTime);
+  cardIdsByFile.set(cardFile.id, card.id);
+  
+  const hash = await hashCardContent(card);
+  await updateManifestInDrive(secret, manifest => recordManifestEntry(manifest, card.id, hash, imageHash));
+  
+  return cardFile.id;
+}
+
+/**
+ * Write a card's images where its file refers to them
+ * The first image goes in the card's own encrypted image object; any others are
+ * kept inline in the card file, as they always have been.
+ * @returns The card as it is stored, and the hash of the image object's new content
+ * (undefined if the image object is unchanged, null if the card has no image)
+ */
+async function storeCardImages(
+  card: Card,
+  secret: VaultSecret,
+  onProgress?: (progress: number) => void
+): Promise<{ card: Card; imageHash: string | null | undefined }> {
+  const [first, ...others] = card.images ?? [];
+  
+  // No images array (older cards): the image object, if any, is unchanged
+  if (!first) {
+    return { card, imageHash: card.imageUrl?.startsWith('drive://') ? undefined : null };
   }
   
-  // Encrypt the card data
-  const encryptedCard = await encryptCard(card, passphrase);
-  
-  // Prepare metadata for Drive
-  const metadata = {
-    name: `card_${card.id}.json`,
-    mimeType: 'application/json',
-    parents: [folderCache.cardsFolderId!],
-    description: `Encrypted card: ${card.category} - ${card.nickname}`
+  let primary = first;
+  let imageHash: string | null | undefined = null;
+  if (first.url?.startsWith('drive://')) {
+    imageHash = undefined;
+  } else if (first.blob) {
+    imageHash = await hashBlob(first.blob);
+    primary = { ...first, url: `drive://${await putCardImage(card.id, first.blob, secret, onProgress)}` };
+  }
+  
+  const images = [primary];
+  for (const image of others) {
+    images.push(image.blob && !image.url?.startsWith('drive://')
+      ? { ...image, url: await blobToDataURL(image.blob) }
+      : image);
+  }
+  
+  return {
+    card: { ...card, images, imageUrl: primary.url?.startsWith('drive://') ? primary.url : undefined },
+    imageHash
   };
+}
+
+/**
+ * Write a card's encrypted image object, replacing the one it has
+ * @returns Promise<string> - File ID of the image object
+ */
+async function putCardImage(
+  cardId: string,
+  image: Blob,
+  secret: VaultSecret,
+  onProgress?: (progress: number) => void
+): Promise<string> {
+  const imageFile = new File([image], `card_${cardId}_image.jpg`, {
+    type: image.type,
+    lastModified: Date.now()
+  });
   
-  // Upload to Drive
-  const driveFile = await uploadFile(
-    JSON.stringify(encryptedCard),
-    metadata,
-    onProgress
-  );
+  const provider = getStorageProvider();
+  const existingImage = await findObject(provider, 'cards', `card_${cardId}_image.enc`);
+  if (!existingImage) {
+    return saveCardImageToDrive(cardId, imageFile, secret, onProgress);
+  }
   
-  return driveFile.id;
+  const encryptedImage = await encryptImageForUpload(imageFile, secret, { type: 'image', id: cardId });
+  await provider.put('cards', `card_${cardId}_image.enc`, encryptedImage.stream, {
+    id: existingImage.id,
+    mimeType: ENCRYPTED_MIME_TYPE,
+    size: encryptedImage.size,
+    onProgress
+  });
+  return existingImage.id;
 }
 
 /**
@@ -135,32 +488,28 @@ export async function saveCardToDrive(
 export async function saveCardImageToDrive(
   cardId: string,
   imageFile: File,
-  passphrase: string,
+  secret: VaultSecret,
   onProgress?: (progress: number) => void
 ): Promise<string> {
-  if (!folderCache.cardsFolderId) {
-    await initializeDriveStorage();
-  }
+  await assertNoRekeyInProgress();
   
-  // Encrypt the image
-  const encryptedImage = await encryptImage(imageFile, passphrase);
+  // Encrypt the image as it is uploaded
+  const encryptedImage = await encryptImageForUpload(imageFile, secret, { type: 'image', id: cardId });
   
-  // Prepare metadata
-  const metadata = {
-    name: `card_${cardId}_image.enc`,
-    mimeType: 'application/octet-stream',
-    parents: [folderCache.cardsFolderId!],
-    description: `Encrypted image for card ${cardId}`
-  };
-  
-  // Upload to Drive
-  const driveFile = await uploadFile(
-    JSON.stringify(encryptedImage),
-    metadata,
-    onProgress
+  // Upload to storage
+  const stored = await getStorageProvider().put(
+    'cards',
+    `card_${cardId}_image.enc`,
+    encryptedImage.stream,
+    {
+      mimeType: ENCRYPTED_MIME_TYPE,
+      description: `Encrypted image for card ${cardId}`,
+      size: encryptedImage.size,
+      onProgress
+    }
   );
   
-  return driveFile.id;
+  return stored.id;
 }
 
 /**
@@ -169,12 +518,10 @@ export async function saveCardImageToDrive(
 export async function saveCardThumbnailsToDrive(
   cardId: string,
   thumbnails: { [size: string]: Blob },
-  passphrase: string,
+  secret: VaultSecret,
   onProgress?: (progress: number) => void
 ): Promise<{ [size: string]: string }> {
-  if (!folderCache.cardsFolderId) {
-    await initializeDriveStorage();
-  }
+  await assertNoRekeyInProgress();
   
   const thumbnailIds: { [size: string]: string } = {};
   const sizes = Object.keys(thumbnails);
@@ -188,32 +535,30 @@ export async function saveCardThumbnailsToDrive(
     });
     
     // Encrypt each thumbnail
-    const encryptedThumbnail = await encryptImage(thumbnailFile, passphrase);
-    
-    // Prepare metadata
-    const metadata = {
-      name: `card_${cardId}_thumb_${size}.enc`,
-      mimeType: 'application/octet-stream',
-      parents: [folderCache.cardsFolderId!],
-      description: `Encrypted ${size}px thumbnail for card ${cardId}`
-    };
+    const encryptedThumbnail = await encryptImageForUpload(thumbnailFile, secret, { type: 'thumbnail', id: cardId });
     
-    // Upload to Drive
-    const driveFile = await uploadFile(
-      JSON.stringify(encryptedThumbnail),
-      metadata,
-      (progress) => {
-        if (onProgress) {
-          // Calculate overall progress across all thumbnails
-          const overallProgress = Math.round(
-            ((completedCount * 100) + progress) / sizes.length
-          );
-          onProgress(overallProgress);
+    // Upload to storage
+    const stored = await getStorageProvider().put(
+      'cards',
+      `card_${cardId}_thumb_${size}.enc`,
+      encryptedThumbnail.stream,
+      {
+        mimeType: ENCRYPTED_MIME_TYPE,
+        description: `Encrypted ${size}px thumbnail for card ${cardId}`,
+        size: encryptedThumbnail.size,
+        onProgress: (progress) => {
+          if (onProgress) {
+            // Calculate overall progress across all thumbnails
+            const overallProgress = Math.round(
+              ((completedCount * 100) + progress) / sizes.length
+            );
+            onProgress(overallProgress);
+          }
         }
       }
     );
     
-    thumbnailIds[size] = driveFile.id;
+    thumbnailIds[size] = stored.id;
     completedCount++;
   }
   
@@ -222,58 +567,132 @@ export async function saveCardThumbnailsToDrive(
 
 /**
  * Load a card from Drive (including image if present)
+ * @param fileId - Drive file ID of the card
+ * @param secret - Vault keyring (or passphrase for legacy data)
+ * @param cardId - ID the card is stored as (looked up from the file name if omitted)
+ * @throws TamperError if the file holds another card's data or was modified
  */
 export async function loadCardFromDrive(
   fileId: string,
-  passphrase: string
+  secret: VaultSecret,
+  cardId?: string
 ): Promise<Card> {
+  return (await loadCardRecordFromDrive(fileId, secret, cardId)).card;
+}
+
+/**
+ * Load a card from Drive together with the content hashes the vault manifest records
+ * @param fileId - Drive file ID of the card
+ * @param secret - Vault keyring (or passphrase for legacy data)
+ * @param cardId - ID the card is stored as (looked up from the file name if omitted)
+ * @returns Promise - The card, its content hash and its image hash (if the image loaded)
+ * @throws TamperError if the file holds another card's data or was modified
+ */
+export async function loadCardRecordFromDrive(
+  fileId: string,
+  secret: VaultSecret,
+  cardId?: string
+): Promise<{ card: Card; hash: string; imageHash?: string }> {
+  const expectedId = cardId ?? await cardIdForFile(fileId);
+  
   // Download the encrypted file
-  const blob = await downloadFile(fileId);
-  const encryptedJson = await blob.text();
-  const encryptedCard = safeJSONParse(encryptedJson) as EncryptedData;
+  const blob = await getStorageProvider().get(fileId);
+  return decodeCardRecord(blob, secret, expectedId);
+}
+
+/**
+ * Decrypt a downloaded card file and load its image
+ */
+async function decodeCardRecord(
+  blob: Blob,
+  secret: VaultSecret,
+  expectedId: string
+): Promise<{ card: Card; hash: string; imageHash?: string }> {
+  const encryptedCard = await blobToEncryptedData(blob);
   
-  // Decrypt the card
-  const card = await decryptCard(encryptedCard, passphrase);
+  // Decrypt the card, checking it is the card it is stored as
+  const card = await decryptCard(encryptedCard, secret, expectedId);
+  const hash = await hashCardContent(card);
+  let imageHash: string | undefined;
   
   // If card has a Drive image reference, load it
+  let imageBlob: Blob | undefined;
   if (card.imageUrl && card.imageUrl.startsWith('drive://')) {
     const imageFileId = card.imageUrl.replace('drive://', '');
     try {
-      const imageBlob = await loadCardImageFromDrive(imageFileId, passphrase);
-      // Convert blob to data URL
-      const dataUrl = await blobToDataURL(imageBlob);
-      card.imageUrl = dataUrl;
+      imageBlob = await loadCardImageFromDrive(imageFileId, secret, card.id);
+      imageHash = await hashBlob(imageBlob);
     } catch (error) {
       console.error('Failed to load card image:', error);
       // Remove the drive:// reference if image fails to load
+      card.images = card.images?.filter(image => image.url !== card.imageUrl);
       card.imageUrl = undefined;
     }
   }
   
-  return card;
+  return { card: withImageBlobs(card, imageBlob), hash, imageHash };
+}
+
+/**
+ * Attach decrypted images to a card as Blobs, so no image is held as a data URL
+ * @param card - Card as stored
+ * @param imageBlob - Content of the image object the card refers to
+ */
+function withImageBlobs(card: Card, imageBlob?: Blob): Card {
+  // Older cards only refer to the image object
+  if (!card.images?.length) {
+    return imageBlob
+      ? {
+        ...card,
+        images: [{
+          id: `legacy-${card.id}`,
+          url: card.imageUrl,
+          blob: imageBlob,
+          name: 'Card Image',
+          size: imageBlob.size,
+          type: imageBlob.type,
+          addedAt: card.addedAt
+        }]
+      }
+      : card;
+  }
+  
+  return {
+    ...card,
+    images: card.images.map(image => {
+      if (image.url?.startsWith('data:')) {
+        return { ...image, url: undefined, blob: dataURLToBlob(image.url) };
+      }
+      return image.url === card.imageUrl && imageBlob ? { ...image, blob: imageBlob } : image;
+    })
+  };
 }
 
 /**
  * Load card image from Drive
+ * @param fileId - Drive file ID of the image
+ * @param secret - Vault keyring (or passphrase for legacy data)
+ * @param cardId - ID of the card the image belongs to (looked up from the file name if omitted)
+ * @throws TamperError if the image belongs to another card or was modified
  */
 export async function loadCardImageFromDrive(
   fileId: string,
-  passphrase: string
+  secret: VaultSecret,
+  cardId?: string
 ): Promise<Blob> {
   try {
-    // Download the encrypted image
-    const encryptedBlob = await downloadFile(fileId);
+    const binding: ObjectBinding = { type: 'image', id: cardId ?? await cardIdForFile(fileId) };
     
-    // Convert blob to text properly
-    const encryptedText = await encryptedBlob.text();
+    // Download the encrypted image
+    const encryptedImage = await downloadEncryptedObject(fileId);
     
-    // Validate that we have actual text data
-    if (!encryptedText || encryptedText.trim() === '') {
-      throw new Error('Empty or invalid encrypted data received');
+    // Chunked images are decrypted while they download
+    if (encryptedImage.format === 'stream') {
+      return await decryptImageStream(encryptedImage.stream, secret, undefined, binding);
     }
     
-    // Parse the encrypted data with safe parsing
-    const encryptedData = safeJSONParse(encryptedText) as EncryptedData;
+    // Images saved before streaming are a single envelope (binary or legacy JSON)
+    const encryptedData = encryptedImage.data;
     
     // Validate encrypted data structure
     if (!encryptedData || typeof encryptedData !== 'object') {
@@ -281,7 +700,7 @@ export async function loadCardImageFromDrive(
     }
     
     // Decrypt and return the image blob
-    return await decryptImage(encryptedData, passphrase);
+    return await decryptImage(encryptedData, secret, undefined, binding);
     
   } catch (error) {
     console.error('Failed to load card image from Drive:', error);
@@ -290,29 +709,91 @@ export async function loadCardImageFromDrive(
 }
 
 /**
- * List all cards from Drive
+ * The card a card record file holds (null for images, thumbnails and other objects)
  */
-export async function listCardsFromDrive(): Promise<Array<{
-  id: string;
-  fileId: string;
-  name: string;
-  modifiedTime: string;
-}>> {
-  if (!folderCache.cardsFolderId) {
-    await initializeDriveStorage();
+function cardFileInfo(file: StoredObject): CardFileInfo | null {
+  // Older cards are stored as application/json
+  if (file.folder !== 'cards' || !file.name.startsWith('card_') || !file.name.endsWith('.json') || file.name.includes('thumb')) {
+    return null;
   }
   
+  return {
+    id: file.name.replace('card_', '').replace('.json', ''),
+    fileId: file.id,
+    name: file.name,
+    modifiedTime: file.modifiedTime
+  };
+}
+
+/**
+ * List all cards from Drive
+ */
+export async function listCardsFromDrive(): Promise<CardFileInfo[]> {
   // Search for all card files
-  const files = await searchFiles('card_', folderCache.cardsFolderId, 'application/json');
+  const files = await getStorageProvider().list('cards', 'card_');
+  files.forEach(file => knownVersions.set(file.id, file.modifiedTime));
+  
+  const cards = files
+    .map(cardFileInfo)
+    .filter((card): card is CardFileInfo => card !== null);
+  cards.forEach(card => cardIdsByFile.set(card.fileId, card.id));
+  return cards;
+}
+
+/**
+ * Follow the vault's changes from now on
+ * Call before loading every card, so listCardChangesFromDrive picks up anything
+ * changed while (and after) they load.
+ */
+export async function startCardChangeTracking(): Promise<void> {
+  cardChangesCursor = null;
   
-  return files
-    .filter(file => file.name.endsWith('.json') && !file.name.includes('thumb'))
-    .map(file => ({
-      id: file.name.replace('card_', '').replace('.json', ''),
-      fileId: file.id,
-      name: file.name,
-      modifiedTime: file.modifiedTime
-    }));
+  const provider = getStorageProvider();
+  const vaultId = await provider.getVaultId();
+  const { cursor } = await provider.listChanges();
+  cardChangesCursor = { vaultId, cursor };
+}
+
+/**
+ * Cards added, modified or removed since tracking started or the last call
+ * Versions this tab wrote or already loaded are left out.
+ * @returns Promise - Card files to (re)load and IDs of removed cards, or null if
+ * there is nothing to continue from (load every card instead)
+ */
+export async function listCardChangesFromDrive(): Promise<{
+  changed: CardFileInfo[];
+  removed: string[];
+} | null> {
+  const provider = getStorageProvider();
+  const vaultId = await provider.getVaultId();
+  if (!cardChangesCursor || cardChangesCursor.vaultId !== vaultId) {
+    return null;
+  }
+  
+  const { changes, cursor } = await provider.listChanges(cardChangesCursor.cursor);
+  const changed: CardFileInfo[] = [];
+  const removed: string[] = [];
+  
+  for (const change of changes) {
+    const card = change.object ? cardFileInfo(change.object) : null;
+    if (card) {
+      if (knownVersions.get(card.fileId) !== card.modifiedTime) {
+        knownVersions.set(card.fileId, card.modifiedTime);
+        changed.push(card);
+      }
+      cardIdsByFile.set(card.fileId, card.id);
+    } else if (change.removed) {
+      const cardId = cardIdsByFile.get(change.id);
+      if (cardId) {
+        removed.push(cardId);
+        cardIdsByFile.delete(change.id);
+        knownVersions.delete(change.id);
+      }
+    }
+  }
+  
+  cardChangesCursor = { vaultId, cursor };
+  return { changed, removed };
 }
 
 /**
@@ -321,277 +802,646 @@ export async function listCardsFromDrive(): Promise<Array<{
 export async function updateCardInDrive(
   fileId: string,
   card: Card,
-  passphrase: string,
+  secret: VaultSecret,
   onProgress?: (progress: number) => void
 ): Promise<void> {
-  // Handle image update if present
-  if (card.imageUrl && card.imageUrl.startsWith('data:')) {
-    // Convert data URL to Blob without using fetch (CSP safe)
-    const imageBlob = dataURLToBlob(card.imageUrl);
-    
-    // Check if image already exists
-    const existingImageFiles = await searchFiles(`card_${card.id}_image.enc`, folderCache.cardsFolderId);
-    
-    let imageFileId: string;
-    if (existingImageFiles.length > 0) {
-      // Update existing image
-      const imageFile = new File([imageBlob], `card_${card.id}_image.jpg`, {
-        type: imageBlob.type,
-        lastModified: Date.now()
-      });
-      const encryptedImage = await encryptImage(imageFile, passphrase);
-      await updateFile(
-        existingImageFiles[0].id,
-        JSON.stringify(encryptedImage),
-        {
-          name: `card_${card.id}_image.enc`,
-          mimeType: 'application/octet-stream'
-        }
-      );
-      imageFileId = existingImageFiles[0].id;
-    } else {
-      // Save new image
-      const imageFile = new File([imageBlob], `card_${card.id}_image.jpg`, {
-        type: imageBlob.type,
-        lastModified: Date.now()
-      });
-      imageFileId = await saveCardImageToDrive(card.id, imageFile, passphrase);
-    }
-    
-    // Update card to reference the image file ID
-    card = {
-      ...card,
-      imageUrl: `drive://${imageFileId}`
-    };
-  }
+  await assertNoRekeyInProgress();
+  
+  // Images already stored and unchanged keep their recorded hash
+  const storedImages = await storeCardImages(card, secret);
+  card = storedImages.card;
+  const { imageHash } = storedImages;
   
   // Encrypt the updated card
-  const encryptedCard = await encryptCard(card, passphrase);
+  const encryptedCard = await encryptCard(card, secret);
   
-  // Update the file
-  await updateFile(
-    fileId,
-    JSON.stringify(encryptedCard),
-    {
-      name: `card_${card.id}.json`,
-      mimeType: 'application/json'
-    },
+  // Update the file, unless another device changed it since it was loaded
+  const stored = await getStorageProvider().put('cards', `card_${card.id}.json`, encryptedDataToBlob(encryptedCard), {
+    id: fileId,
+    ifModifiedTime: knownVersions.get(fileId),
+    mimeType: ENCRYPTED_MIME_TYPE,
     onProgress
-  );
+  });
+  knownVersions.set(fileId, stored.modifiedTime);
+  
+  const hash = await hashCardContent(card);
+  await updateManifestInDrive(secret, manifest => recordManifestEntry(manifest, card.id, hash, imageHash));
 }
 
 /**
  * Delete a card from Drive (including images and thumbnails)
+ * @param cardId - Card to delete
+ * @param secret - Vault keyring, to remove the card from the vault manifest
  */
-export async function deleteCardFromDrive(cardId: string): Promise<void> {
-  if (!folderCache.cardsFolderId) {
-    await initializeDriveStorage();
-  }
+export async function deleteCardFromDrive(cardId: string, secret?: VaultSecret): Promise<void> {
+  await assertNoRekeyInProgress();
   
   // Find all files related to this card
-  const files = await searchFiles(`card_${cardId}`, folderCache.cardsFolderId);
+  const provider = getStorageProvider();
+  const files = await provider.list('cards', `card_${cardId}`);
   
   // Delete all related files
-  const deletePromises = files.map(file => deleteFile(file.id));
+  const deletePromises = files.map(file => provider.delete(file.id));
   await Promise.all(deletePromises);
+  
+  if (secret) {
+    await updateManifestInDrive(secret, manifest => removeManifestEntry(manifest, cardId));
+  }
 }
 
 /**
  * Delete all cards from Drive (for vault reset)
  */
 export async function deleteAllCardsFromDrive(): Promise<void> {
-  if (!folderCache.cardsFolderId) {
-    await initializeDriveStorage();
-  }
-  
-  // Get all files in the cards folder
-  const files = await searchFiles('', folderCache.cardsFolderId);
-  
-  // Delete all files
-  const deletePromises = files.map(file => deleteFile(file.id));
-  await Promise.all(deletePromises);
-  
-  // Also clear preferences and index
-  if (folderCache.configFolderId) {
-    const configFiles = await searchFiles('', folderCache.configFolderId);
-    const configDeletePromises = configFiles.map(file => deleteFile(file.id));
-    await Promise.all(configDeletePromises);
+  // Delete every object: cards and images, then preferences, config and the index
+  const provider = getStorageProvider();
+  for (const folder of ['cards', 'config', 'metadata'] as const) {
+    const files = await provider.list(folder);
+    await Promise.all(files.map(file => provider.delete(file.id)));
   }
   
-  if (folderCache.metadataFolderId) {
-    const metadataFiles = await searchFiles('', folderCache.metadataFolderId);
-    const metadataDeletePromises = metadataFiles.map(file => deleteFile(file.id));
-    await Promise.all(metadataDeletePromises);
-  }
+  // The manifest is gone on purpose; a new vault starts a new sequence
+  forgetManifestSequence(await provider.getVaultId());
 }
 
 /**
  * Save user preferences to Drive
  */
 export async function savePreferencesToDrive(
-  preferences: any,
-  passphrase: string
+  preferences: Record<string, unknown>,
+  secret: VaultSecret
 ): Promise<void> {
-  if (!folderCache.configFolderId) {
-    await initializeDriveStorage();
+  // Encrypt preferences using high-level encrypt function
+  const encrypted = await encrypt(JSON.stringify(preferences), secret, { binding: { type: 'prefs' } });
+  
+  // Create or replace the preferences file, unless another device changed it since it was loaded
+  await saveNamedObject('config', 'preferences.json', encryptedDataToBlob(encrypted), ENCRYPTED_MIME_TYPE, true);
+}
+
+/**
+ * Load user preferences from Drive
+ */
+export async function loadPreferencesFromDrive(secret: VaultSecret): Promise<Record<string, unknown> | null> {
+  // Download the preferences file
+  const blob = await loadNamedObject('config', 'preferences.json');
+  
+  if (!blob) {
+    return null; // No preferences saved yet
   }
   
-  // Encrypt preferences using high-level encrypt function
-  const encrypted = await encrypt(JSON.stringify(preferences), passphrase);
+  return decodePreferences(blob, secret);
+}
+
+/**
+ * Decrypt a downloaded preferences file
+ */
+async function decodePreferences(blob: Blob, secret: VaultSecret): Promise<Record<string, unknown>> {
+  const encryptedData = await blobToEncryptedData(blob);
   
-  // Save to Drive
-  const metadata = {
-    name: 'preferences.json',
-    mimeType: 'application/json',
-    parents: [folderCache.configFolderId!]
-  };
+  // Decrypt preferences using high-level decrypt function
+  const decryptedJson = await decryptString(encryptedData, secret, { type: 'prefs' });
   
-  // Check if preferences file exists
-  const existingFiles = await searchFiles('preferences.json', folderCache.configFolderId);
+  // Anything but a plain object reads as no preferences (defaults apply)
+  const preferences: unknown = JSON.parse(decryptedJson);
+  return preferences && typeof preferences === 'object' && !Array.isArray(preferences)
+    ? preferences as Record<string, unknown>
+    : {};
+}
+
+/**
+ * Create or replace a small unencrypted JSON file in the config folder
+ */
+async function savePlainJSONFile(name: string, content: unknown): Promise<void> {
+  await saveNamedObject('config', name, JSON.stringify(content), 'application/json');
+}
+
+/**
+ * Load a small unencrypted JSON file from the config folder (null if missing)
+ */
+async function loadPlainJSONFile<T>(name: string): Promise<T | null> {
+  const blob = await loadNamedObject('config', name);
+  return blob ? safeJSONParse(await blob.text()) as T : null;
+}
+
+/**
+ * Save vault config to Drive
+ * Stored unencrypted: it only holds KDF parameters needed before a key exists
+ */
+export async function saveVaultConfigToDrive(config: VaultConfig): Promise<void> {
+  await savePlainJSONFile('vault.json', config);
+}
+
+/**
+ * Load vault config from Drive
+ * Returns null for vaults created before the config file existed
+ */
+export async function loadVaultConfigFromDrive(): Promise<VaultConfig | null> {
+  return loadPlainJSONFile<VaultConfig>('vault.json');
+}
+
+/**
+ * Save the vault key file (wrapped data key slots) to Drive
+ * Slots are already encrypted, so the file itself is stored as plain JSON
+ */
+export async function saveKeyFileToDrive(keyFile: VaultKeyFile): Promise<void> {
+  await savePlainJSONFile('keys.json', keyFile);
+}
+
+/**
+ * Load the vault key file from Drive
+ * Returns null for vaults that predate envelope encryption
+ */
+export async function loadKeyFileFromDrive(): Promise<VaultKeyFile | null> {
+  return loadPlainJSONFile<VaultKeyFile>('keys.json');
+}
+
+/**
+ * Save the re-encryption journal to Drive
+ */
+export async function saveRekeyJournalToDrive(journal: RekeyJournal): Promise<void> {
+  await savePlainJSONFile('rekey-journal.json', journal);
+}
+
+/**
+ * Load the re-encryption journal from Drive (null if no run is pending)
+ */
+export async function loadRekeyJournalFromDrive(): Promise<RekeyJournal | null> {
+  return loadPlainJSONFile<RekeyJournal>('rekey-journal.json');
+}
+
+/**
+ * Delete the re-encryption journal from Drive
+ */
+export async function deleteRekeyJournalFromDrive(): Promise<void> {
+  const provider = getStorageProvider();
+  const files = await provider.list('config', 'rekey-journal.json');
+  await Promise.all(files.map(file => provider.delete(file.id)));
+}
+
+/**
+ * List every encrypted object in the vault
+ * Cards, images, thumbnails, the card index, the manifest and preferences
+ */
+export async function listEncryptedObjects(): Promise<Array<{ fileId: string; name: string; modifiedTime: string }>> {
+  const provider = getStorageProvider();
+  const cardFiles = await provider.list('cards', 'card_');
+  const indexFiles = await provider.list('metadata', 'index.json');
+  const manifestFiles = await provider.list('metadata', 'manifest.json');
+  const preferenceFiles = await provider.list('config', 'preferences.json');
   
-  if (existingFiles.length > 0) {
-    // Update existing file
-    await updateFile(
-      existingFiles[0].id,
-      JSON.stringify(encrypted)
-    );
-  } else {
-    // Create new file
-    await uploadFile(
-      JSON.stringify(encrypted),
-      metadata
-    );
-  }
+  return [...cardFiles, ...indexFiles, ...manifestFiles, ...preferenceFiles].map(file => ({
+    fileId: file.id,
+    name: file.name,
+    modifiedTime: file.modifiedTime
+  }));
 }
 
 /**
- * Load user preferences from Drive
+ * Re-encrypt one vault object in place
+ * @param fileId - Drive file ID of the object
+ * @param name - File name (identifies the object it is bound to)
+ * @param from - Secret that currently decrypts the object
+ * @param to - Keyring to re-encrypt with
+ * @returns Promise<string | null> - Modified time of the re-encrypted object, or null
+ * if it was already bound under the target key
  */
-export async function loadPreferencesFromDrive(passphrase: string): Promise<any> {
-  if (!folderCache.configFolderId) {
-    await initializeDriveStorage();
+export async function reencryptObjectInDrive(
+  fileId: string,
+  name: string,
+  from: VaultSecret,
+  to: VaultSecret
+): Promise<string | null> {
+  const binding = bindingForFileName(name);
+  const object = await downloadEncryptedObject(fileId);
+  
+  if (object.format === 'stream') {
+    if (!binding) {
+      throw new Error(`Cannot tell which object ${name} is`);
+    }
+    if (typeof to === 'string') {
+      throw new Error('Chunked objects can only be re-encrypted to a vault key');
+    }
+    
+    // Already re-encrypted (and bound) by an earlier, interrupted run
+    if (object.keyId === to.keyId && object.bound) {
+      await object.stream.cancel();
+      return null;
+    }
+    
+    // Decrypt and re-encrypt chunk by chunk; the upload only commits once every
+    // chunk has been authenticated, so a failure leaves the original in place
+    const stored = await getStorageProvider().put(
+      folderForFileName(name),
+      name,
+      encryptStream(decryptStream(object.stream, from, binding), to, binding),
+      {
+        id: fileId,
+        mimeType: ENCRYPTED_MIME_TYPE
+      }
+    );
+    
+    return stored.modifiedTime;
   }
   
-  // Search for preferences file
-  const files = await searchFiles('preferences.json', folderCache.configFolderId);
+  const encryptedData = object.data;
   
-  if (files.length === 0) {
-    return null; // No preferences saved yet
+  // Already re-encrypted (and bound) by an earlier, interrupted run
+  const bound = encryptedData.version === 2 && !!encryptedData.bound;
+  if (typeof to !== 'string' && encryptedData.keyId === to.keyId && (bound || !binding)) {
+    return null;
   }
   
-  // Download and decrypt
-  const blob = await downloadFile(files[0].id);
-  const encryptedJson = await blob.text();
-  const encryptedData = safeJSONParse(encryptedJson) as EncryptedData;
+  // Objects written before identity binding are bound when re-encrypted
+  const plaintext = await decrypt(encryptedData, from, binding);
+  const reencrypted = await encrypt(plaintext, to, {
+    binding,
+    compress: encryptedData.version === 2 && encryptedData.compression === 'gzip'
+  });
   
-  // Decrypt preferences using high-level decrypt function
-  const decryptedJson = await decryptString(encryptedData, passphrase);
+  const stored = await getStorageProvider().put(folderForFileName(name), name, encryptedDataToBlob(reencrypted), {
+    id: fileId,
+    mimeType: ENCRYPTED_MIME_TYPE
+  });
   
-  return JSON.parse(decryptedJson);
+  return stored.modifiedTime;
 }
 
 /**
  * Save card index to Drive (for performance)
  */
 export async function saveCardIndexToDrive(
-  index: Array<{
-    id: string;
-    fileId: string;
-    category: string;
-    nickname: string;
-    last4?: string;
-    addedAt: Date;
-    updatedAt: Date;
-  }>,
-  passphrase: string
+  index: CardIndexEntry[],
+  secret: VaultSecret
 ): Promise<void> {
-  if (!folderCache.metadataFolderId) {
-    await initializeDriveStorage();
+  // Encrypt index using high-level encrypt function (compressed; it grows with the vault)
+  const encrypted = await encrypt(JSON.stringify(index), secret, { compress: true, binding: { type: 'index' } });
+  
+  // Create or replace the index file, unless another device changed it since it was loaded
+  await saveNamedObject('metadata', 'index.json', encryptedDataToBlob(encrypted), ENCRYPTED_MIME_TYPE, true);
+}
+
+// Serializes manifest read-modify-write cycles made from this tab
+let manifestUpdate: Promise<void> = Promise.resolve();
+
+// How many times a manifest change is applied again after another device wrote first
+const MANIFEST_WRITE_ATTEMPTS = 3;
+
+/**
+ * Load the vault manifest from Drive
+ * @param secret - Vault keyring
+ * @returns Promise<VaultManifest | null> - Manifest, or null if none exists yet
+ * @throws TamperError if the manifest was modified or replaced
+ */
+export async function loadVaultManifestFromDrive(secret: VaultSecret): Promise<VaultManifest | null> {
+  const blob = await loadNamedObject('metadata', 'manifest.json');
+  
+  if (!blob) {
+    return null;
   }
   
-  // Encrypt index using high-level encrypt function
-  const encrypted = await encrypt(JSON.stringify(index), passphrase);
+  const encryptedData = await blobToEncryptedData(blob);
   
-  // Save to Drive
-  const metadata = {
-    name: 'index.json',
-    mimeType: 'application/json',
-    parents: [folderCache.metadataFolderId!]
-  };
+  return JSON.parse(await decryptString(encryptedData, secret, { type: 'manifest' }));
+}
+
+/**
+ * Encrypt and save the vault manifest, remembering its sequence on this device
+ * @param ifUnchanged - Fail with StorageConflictError (or queue a conflict) if another
+ * device wrote the manifest since this tab read it
+ */
+async function saveVaultManifestToDrive(manifest: VaultManifest, secret: VaultKeyring, ifUnchanged = false): Promise<void> {
+  if (isBoundVaultKey(secret.keyId)) {
+    manifest.boundObjects = true;
+  }
+  const encrypted = await encrypt(JSON.stringify(manifest), secret, { compress: true, binding: { type: 'manifest' } });
+  await saveNamedObject('metadata', 'manifest.json', encryptedDataToBlob(encrypted), ENCRYPTED_MIME_TYPE, ifUnchanged);
   
-  // Check if index file exists
-  const existingFiles = await searchFiles('index.json', folderCache.metadataFolderId);
+  rememberManifestSequence(await getStorageProvider().getVaultId(), manifest.sequence);
+}
+
+/**
+ * Apply one change to the manifest on Drive
+ * The write is conditional: if another device wrote the manifest first, its version is
+ * loaded and the change applied again, so neither device's entries are lost. Vaults
+ * without a manifest yet are skipped; it is built from the current cards at unlock.
+ * @throws Error if the manifest could not be updated (the card write itself succeeded)
+ */
+async function updateManifestInDrive(
+  secret: VaultSecret,
+  change: (manifest: VaultManifest) => void
+): Promise<void> {
+  // Passphrase-only callers predate vault keys and the manifest
+  if (typeof secret === 'string') {
+    return;
+  }
   
-  if (existingFiles.length > 0) {
-    // Update existing file
-    await updateFile(
-      existingFiles[0].id,
-      JSON.stringify(encrypted)
-    );
-  } else {
-    // Create new file
-    await uploadFile(
-      JSON.stringify(encrypted),
-      metadata
-    );
+  const run = manifestUpdate.then(async () => {
+    for (let attempt = 1; ; attempt++) {
+      const manifest = await loadVaultManifestFromDrive(secret);
+      if (!manifest) {
+        return;
+      }
+      
+      change(manifest);
+      manifest.sequence++;
+      manifest.updatedAt = new Date().toISOString();
+      
+      try {
+        await saveVaultManifestToDrive(manifest, secret, true);
+        return;
+      } catch (error) {
+        if (!(error instanceof StorageConflictError) || attempt >= MANIFEST_WRITE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  });
+  
+  manifestUpdate = run.catch(() => undefined);
+  try {
+    await run;
+  } catch (error) {
+    throw new Error(`Vault manifest update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Load card index from Drive
+ * Check the cards on Drive against the vault manifest
+ * A vault without a manifest gets one built from its current cards.
+ * @param secret - Vault keyring
+ * @param listedIds - IDs of every card file found on Drive
+ * @param loaded - Cards that decrypted, with their content hashes
+ * @returns Promise<ManifestReport> - What does not match
  */
-export async function loadCardIndexFromDrive(passphrase: string): Promise<Array<{
-  id: string;
-  fileId: string;
-  category: string;
-  nickname: string;
-  last4?: string;
-  addedAt: Date;
-  updatedAt: Date;
-}> | null> {
-  if (!folderCache.metadataFolderId) {
-    await initializeDriveStorage();
+export async function verifyVaultManifestInDrive(
+  secret: VaultKeyring,
+  listedIds: string[],
+  loaded: Array<{ id: string; hash: string; imageHash?: string }>
+): Promise<ManifestReport> {
+  const vaultId = await getStorageProvider().getVaultId();
+  const seenSequence = getSeenManifestSequence(vaultId);
+  
+  let manifest: VaultManifest | null;
+  try {
+    manifest = await loadVaultManifestFromDrive(secret);
+  } catch (error) {
+    console.error('Failed to read vault manifest:', error);
+    return { status: 'unreadable', missing: [], extra: [], rolledBack: [] };
   }
   
-  // Search for index file
-  const files = await searchFiles('index.json', folderCache.metadataFolderId);
+  if (!manifest) {
+    // Trust the cards as they are now; a manifest seen before means it was deleted
+    await acceptVaultStateInDrive(secret, loaded);
+    return { status: seenSequence === null ? 'created' : 'missing', missing: [], extra: [], rolledBack: [] };
+  }
+  
+  const status = seenSequence !== null && manifest.sequence < seenSequence ? 'rolled-back' : 'verified';
+  if (status === 'verified') {
+    rememberManifestSequence(vaultId, manifest.sequence);
+  }
+  
+  return { status, ...compareManifest(manifest, listedIds, loaded) };
+}
+
+/**
+ * Whether the vault has every object bound, by state keys.json cannot vouch for
+ * The manifest is authenticated by the vault key and its sequence is remembered here,
+ * so clearing the flag in keys.json, or restoring an older keys.json, does not turn
+ * binding checks off. A manifest that was seen before but is now missing, rolled back
+ * or unreadable counts as bound.
+ * @param secret - Vault keyring
+ */
+export async function loadBindingStateFromDrive(secret: VaultKeyring): Promise<boolean> {
+  const vaultId = await getStorageProvider().getVaultId();
+  if (isVaultRememberedBound(vaultId)) {
+    return true;
+  }
+  
+  const seenSequence = getSeenManifestSequence(vaultId);
+  try {
+    const manifest = await loadVaultManifestFromDrive(secret);
+    if (!manifest) {
+      return seenSequence !== null;
+    }
+    return !!manifest.boundObjects || (seenSequence !== null && manifest.sequence < seenSequence);
+  } catch (error) {
+    // Only a failure to reach the manifest leaves the state unknown
+    if (error instanceof DriveError) {
+      throw error;
+    }
+    return true;
+  }
+}
+
+/**
+ * Record that every object in the vault is bound, on this device and in the manifest
+ * Vaults without a manifest yet get the flag when it is built from their cards.
+ * @param secret - Vault keyring, already refusing unbound objects
+ */
+export async function recordVaultBoundInDrive(secret: VaultKeyring): Promise<void> {
+  rememberVaultBound(await getStorageProvider().getVaultId());
+  
+  const manifest = await loadVaultManifestFromDrive(secret);
+  if (manifest && !manifest.boundObjects) {
+    await updateManifestInDrive(secret, current => {
+      current.boundObjects = true;
+    });
+  }
+}
+
+/**
+ * Rebuild the manifest from the cards currently on Drive
+ * Used once the user has reviewed a verification warning, and for vaults without a manifest.
+ * @param secret - Vault keyring
+ * @param loaded - Cards that decrypted, with their content hashes
+ */
+export async function acceptVaultStateInDrive(
+  secret: VaultKeyring,
+  loaded: Array<{ id: string; hash: string; imageHash?: string }>
+): Promise<void> {
+  const run = manifestUpdate.then(async () => {
+    let previous: VaultManifest | null = null;
+    try {
+      previous = await loadVaultManifestFromDrive(secret);
+    } catch {
+      // Unreadable manifest: replace it
+    }
+    
+    const manifest = createManifest();
+    if (previous?.boundObjects) {
+      manifest.boundObjects = true;
+    }
+    for (const record of loaded) {
+      recordManifestEntry(manifest, record.id, record.hash, record.imageHash ?? null);
+      manifest.entries[record.id].version = (previous?.entries[record.id]?.version ?? 0) + 1;
+    }
+    
+    // Continue past every sequence seen, so the rebuilt manifest is not taken for a rollback
+    manifest.sequence = Math.max(
+      previous?.sequence ?? 0,
+      getSeenManifestSequence(await getStorageProvider().getVaultId()) ?? 0
+    ) + 1;
+    
+    await saveVaultManifestToDrive(manifest, secret);
+  });
+  
+  manifestUpdate = run.catch(() => undefined);
+  await run;
+}
+
+/**
+ * Load card index from Drive
+ */
+export async function loadCardIndexFromDrive(secret: VaultSecret): Promise<CardIndexEntry[] | null> {
+  // Download the index file
+  const blob = await loadNamedObject('metadata', 'index.json');
   
-  if (files.length === 0) {
+  if (!blob) {
     return null; // No index saved yet
   }
   
-  // Download and decrypt
-  const blob = await downloadFile(files[0].id);
-  const encryptedJson = await blob.text();
-  const encryptedData = safeJSONParse(encryptedJson) as EncryptedData;
+  return decodeCardIndex(blob, secret);
+}
+
+/**
+ * Decrypt a downloaded card index
+ */
+async function decodeCardIndex(blob: Blob, secret: VaultSecret): Promise<CardIndexEntry[]> {
+  const encryptedData = await blobToEncryptedData(blob);
   
   // Decrypt index using high-level decrypt function
-  const decryptedJson = await decryptString(encryptedData, passphrase);
+  const decryptedJson = await decryptString(encryptedData, secret, { type: 'index' });
   
   return JSON.parse(decryptedJson);
 }
 
 /**
- * Get Drive storage usage for the app
+ * Merge two card indexes: the newer entry for each card wins
+ * Cards removed on one side come back; the index is only a cache of the card files.
+ */
+function mergeCardIndexes(mine: CardIndexEntry[], theirs: CardIndexEntry[]): CardIndexEntry[] {
+  const merged = new Map(theirs.map(entry => [entry.id, entry]));
+  
+  for (const entry of mine) {
+    const other = merged.get(entry.id);
+    if (!other || new Date(entry.updatedAt) > new Date(other.updatedAt)) {
+      merged.set(entry.id, entry);
+    }
+  }
+  
+  return [...merged.values()];
+}
+
+/**
+ * Load both versions of each change another device overwrote first
+ * Card index conflicts are merged here and not returned.
+ * @param secret - Vault keyring
+ * @returns Promise<VaultConflict[]> - Card and preferences conflicts, decrypted, to merge
+ */
+export async function loadConflictsFromDrive(secret: VaultSecret): Promise<VaultConflict[]> {
+  const provider = getStorageProvider();
+  if (!isOfflineStorageProvider(provider)) {
+    return [];
+  }
+  
+  const conflicts: VaultConflict[] = [];
+  
+  for (const conflict of provider.listConflicts()) {
+    const [mine, theirs] = await Promise.all([provider.get(conflict.id), provider.getTheirs(conflict.id)]);
+    const theirsModifiedTime = conflict.theirs.modifiedTime;
+    
+    if (conflict.name === 'index.json') {
+      const merged = mergeCardIndexes(await decodeCardIndex(mine, secret), await decodeCardIndex(theirs, secret));
+      knownVersions.set(conflict.id, theirsModifiedTime);
+      await saveCardIndexToDrive(merged, secret);
+    } else if (conflict.name === 'manifest.json' && typeof secret !== 'string') {
+      // Both devices recorded card writes; keep the entries of each
+      const decodeManifest = async (blob: Blob): Promise<VaultManifest> =>
+        JSON.parse(await decryptString(await blobToEncryptedData(blob), secret, { type: 'manifest' }));
+      const storedIds = (await provider.list('cards', 'card_'))
+        .map(file => bindingForFileName(file.name))
+        .filter(binding => binding?.type === 'card')
+        .map(binding => binding!.id!);
+      const merged = mergeManifests(await decodeManifest(mine), await decodeManifest(theirs), storedIds);
+      knownVersions.set(conflict.id, theirsModifiedTime);
+      await saveVaultManifestToDrive(merged, secret, true);
+    } else if (conflict.name === 'preferences.json') {
+      conflicts.push({
+        type: 'prefs',
+        fileId: conflict.id,
+        mine: await decodePreferences(mine, secret),
+        theirs: await decodePreferences(theirs, secret),
+        theirsModifiedTime
+      });
+    } else if (conflict.folder === 'cards' && conflict.name.endsWith('.json')) {
+      const cardId = conflict.name.replace('card_', '').replace('.json', '');
+      const theirsRecord = await decodeCardRecord(theirs, secret, cardId);
+      conflicts.push({
+        type: 'card',
+        fileId: conflict.id,
+        mine: (await decodeCardRecord(mine, secret, cardId)).card,
+        theirs: theirsRecord.card,
+        theirsHash: theirsRecord.hash,
+        theirsModifiedTime
+      });
+    } else {
+      // Nothing else is written with a version check; keep the other device's copy
+      await provider.discardChange(conflict.id);
+    }
+  }
+  
+  return conflicts;
+}
+
+/**
+ * Settle a conflict
+ * @param conflict - Conflict from loadConflictsFromDrive
+ * @param merged - Contents to write over the other device's version (mine, or a
+ * field-by-field mix), or null to keep the other device's version as it is
+ * @param secret - Vault keyring
+ */
+export async function resolveConflictInDrive(
+  conflict: VaultConflict,
+  merged: Card | Record<string, unknown> | null,
+  secret: VaultSecret
+): Promise<void> {
+  const provider = getStorageProvider();
+  knownVersions.set(conflict.fileId, conflict.theirsModifiedTime);
+  
+  if (merged === null) {
+    if (isOfflineStorageProvider(provider)) {
+      await provider.discardChange(conflict.fileId);
+    }
+    // The manifest recorded this device's version of the card
+    if (conflict.type === 'card') {
+      const { id } = conflict.theirs;
+      await updateManifestInDrive(secret, manifest => recordManifestEntry(manifest, id, conflict.theirsHash, undefined));
+    }
+    return;
+  }
+  
+  if (conflict.type === 'card') {
+    await updateCardInDrive(conflict.fileId, merged as Card, secret);
+  } else {
+    await savePreferencesToDrive(merged as Record<string, unknown>, secret);
+  }
+}
+
+/**
+ * Get storage usage for the vault
  */
 export async function getAppStorageUsage(): Promise<{
   totalSize: number;
   cardCount: number;
   imageCount: number;
 }> {
-  if (!folderCache.rootFolderId) {
-    await initializeDriveStorage();
-  }
-  
-  // Get all files in the app folder
-  const allFiles: any[] = [];
-  let pageToken: string | undefined;
-  
-  do {
-    const result = await searchFiles('', folderCache.rootFolderId);
-    allFiles.push(...result);
-    pageToken = undefined; // Simple implementation without pagination
-  } while (pageToken);
+  // Get all files in the vault folders
+  const provider = getStorageProvider();
+  const allFiles = [
+    ...await provider.list('cards'),
+    ...await provider.list('metadata'),
+    ...await provider.list('config')
+  ];
   
   // Calculate usage
   let totalSize = 0;
@@ -600,7 +1450,7 @@ export async function getAppStorageUsage(): Promise<{
   
   for (const file of allFiles) {
     if (file.size) {
-      totalSize += parseInt(file.size);
+      totalSize += file.size;
     }
     
     if (file.name.endsWith('.json') && file.name.startsWith('card_')) {
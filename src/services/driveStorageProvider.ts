@@ -0,0 +1,207 @@
+/**
+ * Google Drive Storage Provider
+ * Stores the vault in a SecureCardr folder in the user's Drive, with cards,
+ * metadata and config subfolders
+ *
+ * Object IDs are Drive file IDs, so references saved before providers existed
+ * (card file IDs, drive:// image links, rekey journals) keep working.
+ */
+
+import {
+  PutOptions,
+  StorageConflictError,
+  StorageFolder,
+  StorageProvider,
+  StoredChange,
+  StoredObject,
+} from './storageProvider';
+import {
+  DriveFile,
+  uploadFile,
+  uploadFileStream,
+  updateFile,
+  updateFileStream,
+  downloadFile,
+  downloadFileStream,
+  downloadRevision,
+  getFile,
+  listFiles,
+  listRevisions,
+  getChangesStartPageToken,
+  listChanges,
+  deleteFile,
+  getStorageQuota,
+  initializeDriveStructure,
+} from './drive';
+
+type DriveFolders = Awaited<ReturnType<typeof initializeDriveStructure>>;
+
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Escape a value for a Drive query string literal
+ */
+function escapeQueryValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+function toStoredObject(file: DriveFile, folder: StorageFolder): StoredObject {
+  return {
+    id: file.id,
+    name: file.name,
+    folder,
+    mimeType: file.mimeType,
+    size: file.size ? parseInt(file.size) : undefined,
+    modifiedTime: file.modifiedTime,
+  };
+}
+
+/**
+ * Create a provider for the signed-in user's Drive
+ */
+export function createDriveStorageProvider(): StorageProvider {
+  let folders: DriveFolders | null = null;
+
+  const getFolders = async (): Promise<DriveFolders> => {
+    if (!folders) {
+      folders = await initializeDriveStructure();
+    }
+    return folders;
+  };
+
+  const getFolderId = async (folder: StorageFolder): Promise<string> => {
+    const { cardsFolderId, metadataFolderId, configFolderId } = await getFolders();
+    return { cards: cardsFolderId, metadata: metadataFolderId, config: configFolderId }[folder];
+  };
+
+  const findFolderOf = async (file: DriveFile): Promise<StorageFolder | null> => {
+    const { cardsFolderId, metadataFolderId, configFolderId } = await getFolders();
+    const parents = file.parents ?? [];
+    if (parents.includes(cardsFolderId)) return 'cards';
+    if (parents.includes(metadataFolderId)) return 'metadata';
+    if (parents.includes(configFolderId)) return 'config';
+    return null;
+  };
+
+  const getFolderOf = async (file: DriveFile): Promise<StorageFolder> => {
+    const folder = await findFolderOf(file);
+    if (!folder) {
+      throw new Error(`File ${file.name} is not part of the vault`);
+    }
+    return folder;
+  };
+
+  return {
+    name: 'Google Drive',
+
+    async initialize() {
+      folders = await initializeDriveStructure();
+    },
+
+    // The metadata folder has identified the vault on this device since before providers
+    async getVaultId() {
+      return (await getFolders()).metadataFolderId;
+    },
+
+    async put(folder: StorageFolder, name: string, content, options: PutOptions = {}) {
+      const { id, ifModifiedTime, mimeType = DEFAULT_MIME_TYPE, description, size, onProgress } = options;
+      let file: DriveFile;
+
+      // Drive has no conditional update, so this narrows the window rather than closing it
+      if (id && ifModifiedTime) {
+        const current = await getFile(id);
+        if (current.modifiedTime !== ifModifiedTime) {
+          throw new StorageConflictError(toStoredObject(current, folder));
+        }
+      }
+
+      if (content instanceof ReadableStream) {
+        file = id
+          ? await updateFileStream(id, content, { name, mimeType }, size, onProgress)
+          : await uploadFileStream(
+            content,
+            { name, mimeType, description, parents: [await getFolderId(folder)] },
+            size,
+            onProgress
+          );
+      } else {
+        file = id
+          ? await updateFile(id, content, { name, mimeType }, onProgress)
+          : await uploadFile(
+            content,
+            { name, mimeType, description, parents: [await getFolderId(folder)] },
+            onProgress
+          );
+      }
+
+      return toStoredObject(file, folder);
+    },
+
+    get: downloadFile,
+    getStream: downloadFileStream,
+
+    async stat(id: string) {
+      const file = await getFile(id);
+      return toStoredObject(file, await getFolderOf(file));
+    },
+
+    async list(folder: StorageFolder, prefix?: string) {
+      const folderId = await getFolderId(folder);
+      // Drive matches "name contains" on name prefixes; the filter below makes it exact
+      const query = prefix ? `name contains '${escapeQueryValue(prefix)}'` : undefined;
+      const objects: StoredObject[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const page = await listFiles(folderId, query, 1000, pageToken);
+        for (const file of page.files) {
+          if (!prefix || file.name.startsWith(prefix)) {
+            objects.push(toStoredObject(file, folder));
+          }
+        }
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+
+      return objects;
+    },
+
+    delete: deleteFile,
+
+    async listRevisions(id: string) {
+      const revisions = await listRevisions(id);
+      return revisions.map(revision => ({
+        id: revision.id,
+        modifiedTime: revision.modifiedTime,
+        size: revision.size ? parseInt(revision.size) : undefined,
+      }));
+    },
+
+    getRevision: downloadRevision,
+
+    // The cursor is a Drive changes page token
+    async listChanges(cursor?: string) {
+      if (!cursor) {
+        return { changes: [], cursor: await getChangesStartPageToken() };
+      }
+
+      const page = await listChanges(cursor);
+      const changes: StoredChange[] = [];
+      for (const change of page.changes) {
+        const folder = change.file && !change.removed && !change.file.trashed
+          ? await findFolderOf(change.file)
+          : null;
+        // Trashed files and files moved out of the vault are gone as far as the vault is concerned
+        changes.push(change.file && folder
+          ? { id: change.fileId, removed: false, object: toStoredObject(change.file, folder) }
+          : { id: change.fileId, removed: true });
+      }
+
+      return { changes, cursor: page.newStartPageToken };
+    },
+
+    async getQuota() {
+      const quota = await getStorageQuota();
+      return { usage: quota.usage, limit: quota.limit };
+    },
+  };
+}
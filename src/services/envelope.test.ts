@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptedDataV1, EncryptedDataV2 } from '../types';
+import { decodeEnvelope, encodeEnvelope, isBinaryEnvelope, parseEncryptedData, serializeEncryptedData } from './envelope';
+import { TamperError, decrypt, encrypt } from './crypto';
+
+const vaultKeyPackage: EncryptedDataV2 = {
+  version: 2,
+  cipher: 'aes-256-gcm',
+  kdf: null,
+  keyId: 'key-1',
+  bound: true,
+  salt: new Uint8Array(0),
+  iv: new Uint8Array(12).fill(7),
+  ciphertext: new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17]),
+};
+
+const argon2Package: EncryptedDataV2 = {
+  version: 2,
+  cipher: 'aes-256-gcm',
+  kdf: { algorithm: 'argon2id', memoryKiB: 65536, iterations: 3, parallelism: 4 },
+  compression: 'gzip',
+  salt: new Uint8Array(16).fill(0xaa),
+  iv: new Uint8Array(12).fill(0x55),
+  ciphertext: new Uint8Array(16),
+};
+
+describe('encodeEnvelope / decodeEnvelope', () => {
+  it('round-trips a vault key package', () => {
+    expect(decodeEnvelope(encodeEnvelope(vaultKeyPackage))).toEqual(vaultKeyPackage);
+  });
+
+  it('round-trips passphrase packages with their KDF parameters', () => {
+    const pbkdf2: EncryptedDataV2 = { ...argon2Package, kdf: { algorithm: 'pbkdf2-sha256', iterations: 600000 }, compression: undefined };
+
+    expect(decodeEnvelope(encodeEnvelope(argon2Package))).toEqual(argon2Package);
+    expect(decodeEnvelope(encodeEnvelope(pbkdf2))).toEqual(pbkdf2);
+  });
+
+  it('round-trips an empty ciphertext', () => {
+    const empty = { ...vaultKeyPackage, ciphertext: new Uint8Array(0) };
+    expect(decodeEnvelope(encodeEnvelope(empty))).toEqual(empty);
+  });
+
+  it('writes the documented header layout', () => {
+    const bytes = encodeEnvelope(vaultKeyPackage);
+    // "SCEV", version 2, AES-256-GCM, vault key, bound flag, key ID "key-1"
+    expect(Array.from(bytes.slice(0, 14))).toEqual([0x53, 0x43, 0x45, 0x56, 2, 1, 0, 0x02, 5, 0x6b, 0x65, 0x79, 0x2d, 0x31]);
+  });
+
+  it('refuses fields longer than one length byte allows', () => {
+    expect(() => encodeEnvelope({ ...vaultKeyPackage, keyId: 'k'.repeat(256) })).toThrow('Envelope key ID is too long');
+  });
+});
+
+describe('decodeEnvelope: malformed input', () => {
+  it('rejects bytes without the magic', () => {
+    const bytes = encodeEnvelope(vaultKeyPackage);
+    bytes[0] = 0x58;
+
+    expect(isBinaryEnvelope(bytes)).toBe(false);
+    expect(() => decodeEnvelope(bytes)).toThrow('Not a binary ciphertext envelope');
+  });
+
+  it('rejects the magic alone', () => {
+    expect(() => decodeEnvelope(new Uint8Array([0x53, 0x43, 0x45, 0x56]))).toThrow('Not a binary ciphertext envelope');
+  });
+
+  it('rejects a header cut short at any point', () => {
+    const bytes = encodeEnvelope(argon2Package);
+    const headerLength = bytes.length - argon2Package.ciphertext.length;
+
+    for (let length = 5; length < headerLength; length++) {
+      expect(() => decodeEnvelope(bytes.slice(0, length)), `cut at ${length}`).toThrow('Truncated ciphertext envelope');
+    }
+  });
+
+  it('rejects an unknown format version', () => {
+    const bytes = encodeEnvelope(vaultKeyPackage);
+    bytes[4] = 3;
+    expect(() => decodeEnvelope(bytes)).toThrow('Unsupported envelope version: 3');
+  });
+
+  it('rejects an unknown cipher or KDF', () => {
+    const cipher = encodeEnvelope(vaultKeyPackage);
+    cipher[5] = 9;
+    const kdf = encodeEnvelope(vaultKeyPackage);
+    kdf[6] = 9;
+
+    expect(() => decodeEnvelope(cipher)).toThrow('Unsupported cipher id: 9');
+    expect(() => decodeEnvelope(kdf)).toThrow('Unsupported KDF id: 9');
+  });
+});
+
+describe('serializeEncryptedData / parseEncryptedData', () => {
+  it('stores version 2 packages as binary envelopes', () => {
+    const stored = serializeEncryptedData(vaultKeyPackage);
+
+    expect(stored).toBeInstanceOf(Uint8Array);
+    expect(parseEncryptedData(stored as Uint8Array)).toEqual(vaultKeyPackage);
+  });
+
+  it('keeps legacy packages as JSON', () => {
+    const legacy: EncryptedDataV1 = { iv: 'aXY=', salt: 'c2FsdA==', ciphertext: 'Y3Q=', authTag: 'dGFn' };
+    const stored = serializeEncryptedData(legacy);
+
+    expect(typeof stored).toBe('string');
+    expect(parseEncryptedData(new TextEncoder().encode(stored as string))).toEqual(legacy);
+  });
+
+  it('rejects bytes that are neither format', () => {
+    expect(() => parseEncryptedData(new Uint8Array([1, 2, 3]))).toThrow('Failed to parse encrypted data');
+  });
+});
+
+describe('bound envelopes', () => {
+  const keyring = async () => ({
+    keyId: 'key-1',
+    dataKey: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+  });
+
+  it('decrypt as the identity they were bound to', async () => {
+    const secret = await keyring();
+    const stored = encodeEnvelope(await encrypt('card a', secret, { binding: { type: 'card', id: 'a' } }));
+
+    const plaintext = await decrypt(decodeEnvelope(stored), secret, { type: 'card', id: 'a' });
+    expect(new TextDecoder().decode(plaintext)).toBe('card a');
+  });
+
+  it('reject another identity as tampering', async () => {
+    const secret = await keyring();
+    const stored = encodeEnvelope(await encrypt('card a', secret, { binding: { type: 'card', id: 'a' } }));
+
+    await expect(decrypt(decodeEnvelope(stored), secret, { type: 'card', id: 'b' })).rejects.toBeInstanceOf(TamperError);
+    await expect(decrypt(decodeEnvelope(stored), secret, { type: 'image', id: 'a' })).rejects.toBeInstanceOf(TamperError);
+  });
+
+  it('fail to decrypt once the bound flag is cleared', async () => {
+    const secret = await keyring();
+    const stored = encodeEnvelope(await encrypt('card a', secret, { binding: { type: 'card', id: 'a' } }));
+    stored[7] &= ~0x02;
+
+    await expect(decrypt(decodeEnvelope(stored), secret, { type: 'card', id: 'a' })).rejects.toThrow('Decryption process failed');
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Ciphertext envelope encoding
+ * Serializes encrypted packages for storage and reads back every format version
+ *
+ * Version 1 (legacy): JSON object with base64 fields {iv, salt, ciphertext, authTag}
+ * Version 2: compact binary layout, all integers big-endian
+ *
+ *   offset  size  field
+ *   0       4     magic "SCEV"
+ *   4       1     format version (2)
+ *   5       1     cipher id (1 = AES-256-GCM)
+ *   6       1     KDF id (0 = vault data key, 1 = PBKDF2-SHA256, 2 = Argon2id)
+ *   7       1     flags (bit 0 = gzip-compressed plaintext, bit 1 = bound to its identity as AAD)
+ *   8       ...   KDF parameters (PBKDF2: u32 iterations;
+ *                 Argon2id: u32 memoryKiB, u32 iterations, u8 parallelism)
+ *           1+n   key ID length, key ID (ASCII)
+ *           1+n   salt length, salt
+ *           1+n   IV length, IV
+ *           rest  ciphertext with appended GCM tag
+ */
+
+import { EncryptedData, EncryptedDataV2, KdfParams } from '../types';
+
+const MAGIC = [0x53, 0x43, 0x45, 0x56]; // "SCEV"
+
+export const ENVELOPE_VERSION = 2;
+
+const CIPHER_IDS: Record<EncryptedDataV2['cipher'], number> = {
+  'aes-256-gcm': 1,
+};
+
+const KDF_IDS = {
+  NONE: 0,
+  PBKDF2_SHA256: 1,
+  ARGON2ID: 2,
+} as const;
+
+const FLAG_GZIP = 0x01;
+const FLAG_BOUND = 0x02;
+
+/**
+ * Check whether stored bytes start with the binary envelope magic
+ */
+export function isBinaryEnvelope(bytes: Uint8Array): boolean {
+  return bytes.length > MAGIC.length && MAGIC.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Encode a version 2 envelope into its binary form
+ * @param data - Version 2 encrypted package
+ * @returns Uint8Array - Binary envelope
+ */
+export function encodeEnvelope(data: EncryptedDataV2): Uint8Array {
+  const keyId = new TextEncoder().encode(data.keyId ?? '');
+  const kdfBytes = encodeKdf(data.kdf);
+
+  for (const [name, field] of [['key ID', keyId], ['salt', data.salt], ['IV', data.iv]] as const) {
+    if (field.length > 255) {
+      throw new Error(`Envelope ${name} is too long`);
+    }
+  }
+
+  const header = [
+    ...MAGIC,
+    data.version,
+    CIPHER_IDS[data.cipher],
+    kdfBytes[0],
+    (data.compression === 'gzip' ? FLAG_GZIP : 0) | (data.bound ? FLAG_BOUND : 0),
+    ...kdfBytes.slice(1),
+    keyId.length, ...keyId,
+    data.salt.length, ...data.salt,
+    data.iv.length, ...data.iv,
+  ];
+
+  const bytes = new Uint8Array(header.length + data.ciphertext.length);
+  bytes.set(header, 0);
+  bytes.set(data.ciphertext, header.length);
+  return bytes;
+}
+
+/**
+ * Decode a binary envelope
+ * @param bytes - Binary envelope
+ * @returns EncryptedDataV2 - Decoded package
+ * @throws Error if the envelope is malformed or uses an unknown version or algorithm
+ */
+export function decodeEnvelope(bytes: Uint8Array): EncryptedDataV2 {
+  if (!isBinaryEnvelope(bytes)) {
+    throw new Error('Not a binary ciphertext envelope');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = MAGIC.length;
+
+  const need = (length: number) => {
+    if (offset + length > bytes.length) {
+      throw new Error('Truncated ciphertext envelope');
+    }
+  };
+  const readU8 = () => {
+    need(1);
+    return bytes[offset++];
+  };
+  const readU32 = () => {
+    need(4);
+    const value = view.getUint32(offset);
+    offset += 4;
+    return value;
+  };
+  const readBytes = () => {
+    const length = readU8();
+    need(length);
+    const field = bytes.slice(offset, offset + length);
+    offset += length;
+    return field;
+  };
+
+  const version = readU8();
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${version}`);
+  }
+
+  const cipherId = readU8();
+  const cipher = (Object.keys(CIPHER_IDS) as EncryptedDataV2['cipher'][])
+    .find(name => CIPHER_IDS[name] === cipherId);
+  if (!cipher) {
+    throw new Error(`Unsupported cipher id: ${cipherId}`);
+  }
+
+  const kdfId = readU8();
+  const flags = readU8();
+
+  let kdf: KdfParams | null;
+  switch (kdfId) {
+    case KDF_IDS.NONE:
+      kdf = null;
+      break;
+    case KDF_IDS.PBKDF2_SHA256:
+      kdf = { algorithm: 'pbkdf2-sha256', iterations: readU32() };
+      break;
+    case KDF_IDS.ARGON2ID:
+      kdf = { algorithm: 'argon2id', memoryKiB: readU32(), iterations: readU32(), parallelism: readU8() };
+      break;
+    default:
+      throw new Error(`Unsupported KDF id: ${kdfId}`);
+  }
+
+  const keyId = new TextDecoder().decode(readBytes());
+  const salt = readBytes();
+  const iv = readBytes();
+
+  return {
+    version: ENVELOPE_VERSION,
+    cipher,
+    kdf,
+    keyId: keyId || undefined,
+    compression: flags & FLAG_GZIP ? 'gzip' : undefined,
+    bound: flags & FLAG_BOUND ? true : undefined,
+    salt,
+    iv,
+    ciphertext: bytes.slice(offset),
+  };
+}
+
+/**
+ * Serialize any encrypted package for storage
+ * Version 2 packages become binary; legacy packages stay JSON
+ */
+export function serializeEncryptedData(data: EncryptedData): Uint8Array | string {
+  return data.version === ENVELOPE_VERSION ? encodeEnvelope(data) : JSON.stringify(data);
+}
+
+/**
+ * Parse a stored encrypted package of any format version
+ * @param bytes - Stored file contents
+ * @returns EncryptedData - Parsed package
+ */
+export function parseEncryptedData(bytes: Uint8Array): EncryptedData {
+  if (isBinaryEnvelope(bytes)) {
+    return decodeEnvelope(bytes);
+  }
+
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    throw new Error(`Failed to parse encrypted data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Encode KDF parameters as [kdf id, ...parameter bytes]
+ */
+function encodeKdf(kdf: KdfParams | null): number[] {
+  if (!kdf) {
+    return [KDF_IDS.NONE];
+  }
+
+  if (kdf.algorithm === 'pbkdf2-sha256') {
+    return [KDF_IDS.PBKDF2_SHA256, ...u32(kdf.iterations)];
+  }
+
+  return [KDF_IDS.ARGON2ID, ...u32(kdf.memoryKiB), ...u32(kdf.iterations), kdf.parallelism & 0xff];
+}
+
+function u32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
@@ -3,8 +3,9 @@
  * Handles encryption/decryption of binary image data for card photos
  */
 
-import { EncryptedData } from '../types';
-import { encrypt, decrypt } from './crypto';
+import { EncryptedData, ObjectBinding, VaultKeyring, VaultSecret } from '../types';
+import { encrypt, decrypt, TamperError } from './crypto';
+import { encryptStream, decryptStream } from './streamCrypto';
 
 /**
  * Image processing utilities
@@ -19,10 +20,15 @@ export const IMAGE_CONSTANTS = {
 /**
  * Encrypt image file data
  * @param imageFile - Image file to encrypt
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
+ * @param binding - Identity to bind the image to (its card and image or thumbnail)
  * @returns Promise<EncryptedData> - Encrypted image data
  */
-export async function encryptImage(imageFile: File, passphrase: string): Promise<EncryptedData> {
+export async function encryptImage(
+  imageFile: File,
+  secret: VaultSecret,
+  binding?: ObjectBinding
+): Promise<EncryptedData> {
   try {
     // Validate image file
     validateImageFile(imageFile);
@@ -31,7 +37,7 @@ export async function encryptImage(imageFile: File, passphrase: string): Promise
     const arrayBuffer = await imageFile.arrayBuffer();
 
     // Encrypt the binary data
-    const encrypted = await encrypt(arrayBuffer, passphrase);
+    const encrypted = await encrypt(arrayBuffer, secret, { binding });
 
     return encrypted;
   } catch (error) {
@@ -42,22 +48,75 @@ export async function encryptImage(imageFile: File, passphrase: string): Promise
 /**
  * Decrypt image data
  * @param encryptedData - Encrypted image data
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @param mimeType - Original image MIME type
+ * @param binding - Identity the image is expected to have
  * @returns Promise<Blob> - Decrypted image blob
+ * @throws TamperError if the image belongs to another card or was modified
  */
 export async function decryptImage(
   encryptedData: EncryptedData,
-  passphrase: string,
-  mimeType: string = 'image/jpeg'
+  secret: VaultSecret,
+  mimeType: string = 'image/jpeg',
+  binding?: ObjectBinding
 ): Promise<Blob> {
   try {
     // Decrypt the binary data
-    const decryptedBuffer = await decrypt(encryptedData, passphrase);
+    const decryptedBuffer = await decrypt(encryptedData, secret, binding);
 
     // Create blob from decrypted data
     return new Blob([decryptedBuffer], { type: mimeType });
   } catch (error) {
+    if (error instanceof TamperError) {
+      throw error;
+    }
+    throw new Error(`Failed to decrypt image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Encrypt image file data as a chunked stream
+ * The file is read and encrypted chunk by chunk instead of all at once.
+ * @param imageFile - Image file to encrypt
+ * @param keyring - Unlocked vault keyring
+ * @param binding - Identity to bind the image to (its card and image or thumbnail)
+ * @returns ReadableStream<Uint8Array> - Encrypted stream
+ */
+export function encryptImageStream(
+  imageFile: File,
+  keyring: VaultKeyring,
+  binding: ObjectBinding
+): ReadableStream<Uint8Array> {
+  try {
+    validateImageFile(imageFile);
+    return encryptStream(imageFile.stream(), keyring, binding);
+  } catch (error) {
+    throw new Error(`Failed to encrypt image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Decrypt a chunked image stream
+ * @param encryptedStream - Encrypted stream (e.g. a Drive download)
+ * @param secret - Vault keyring
+ * @param mimeType - Original image MIME type
+ * @param binding - Identity the image is expected to have
+ * @returns Promise<Blob> - Decrypted image blob
+ * @throws TamperError if the image belongs to another card or was modified
+ */
+export async function decryptImageStream(
+  encryptedStream: ReadableStream<Uint8Array>,
+  secret: VaultSecret,
+  mimeType: string = 'image/jpeg',
+  binding?: ObjectBinding
+): Promise<Blob> {
+  try {
+    const decrypted = await new Response(decryptStream(encryptedStream, secret, binding)).blob();
+    return decrypted.slice(0, decrypted.size, mimeType);
+  } catch (error) {
+    if (error instanceof TamperError) {
+      throw error;
+    }
     throw new Error(`Failed to decrypt image: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -65,13 +124,13 @@ export async function decryptImage(
 /**
  * Create encrypted thumbnail from image
  * @param imageFile - Original image file
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @param size - Thumbnail size in pixels (default: 400)
  * @returns Promise<EncryptedData> - Encrypted thumbnail data
  */
 export async function createEncryptedThumbnail(
   imageFile: File,
-  passphrase: string,
+  secret: VaultSecret,
   size: number = IMAGE_CONSTANTS.THUMBNAIL_SIZE
 ): Promise<EncryptedData> {
   try {
@@ -82,7 +141,7 @@ export async function createEncryptedThumbnail(
     const arrayBuffer = await thumbnailBlob.arrayBuffer();
 
     // Encrypt thumbnail
-    const encrypted = await encrypt(arrayBuffer, passphrase);
+    const encrypted = await encrypt(arrayBuffer, secret);
 
     return encrypted;
   } catch (error) {
@@ -317,17 +376,17 @@ export function getImageDimensions(imageFile: File): Promise<{ width: number; he
 /**
  * Convert encrypted image to data URL for display
  * @param encryptedImage - Encrypted image data
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @param mimeType - Image MIME type
  * @returns Promise<string> - Data URL
  */
 export async function encryptedImageToDataURL(
   encryptedImage: EncryptedData,
-  passphrase: string,
+  secret: VaultSecret,
   mimeType: string = 'image/jpeg'
 ): Promise<string> {
   try {
-    const imageBlob = await decryptImage(encryptedImage, passphrase, mimeType);
+    const imageBlob = await decryptImage(encryptedImage, secret, mimeType);
     return blobToDataURL(imageBlob);
   } catch (error) {
     throw new Error(`Failed to convert encrypted image to data URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -351,14 +410,14 @@ export function blobToDataURL(blob: Blob): Promise<string> {
 /**
  * Batch encrypt multiple images
  * @param imageFiles - Array of image files
- * @param passphrase - User's passphrase
+ * @param secret - Vault keyring (or passphrase for legacy data)
  * @returns Promise<EncryptedData[]> - Array of encrypted image data
  */
-export async function encryptImages(imageFiles: File[], passphrase: string): Promise<EncryptedData[]> {
+export async function encryptImages(imageFiles: File[], secret: VaultSecret): Promise<EncryptedData[]> {
   const results: EncryptedData[] = [];
 
   for (const imageFile of imageFiles) {
-    const encrypted = await encryptImage(imageFile, passphrase);
+    const encrypted = await encryptImage(imageFile, secret);
     results.push(encrypted);
   }
 
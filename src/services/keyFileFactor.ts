@@ -0,0 +1,73 @@
+/**
+ * Key File Factor
+ * An optional file the user keeps offline and presents together with the passphrase
+ *
+ * SECURITY NOTES:
+ * - Only the file's SHA-256 is used; it is mixed into key derivation (see deriveKey),
+ *   so the passphrase alone no longer opens the vault
+ * - Any file works, but generated files hold 256 random bits and are the only kind
+ *   that adds real strength
+ * - Each slot stores a short salted check value so a missing or wrong file can be
+ *   reported before running the KDF; it reveals nothing about the passphrase
+ * - The recovery key does not need the file, so losing it is recoverable
+ */
+
+import { generateSecureRandom, arrayBufferToBase64, base64ToArrayBuffer } from './crypto';
+
+const KEY_FILE_BYTES = 32;
+const KEY_FILE_HEADER = 'SecureCardr key file. Keep it offline and do not edit it.\n';
+// Arbitrary files are accepted, but hashing them happens in memory
+const KEY_FILE_MAX_SIZE = 16 * 1024 * 1024;
+const CHECK_LABEL = 'securecardr:key-file-check:';
+const CHECK_BYTES = 8;
+
+/**
+ * Generate a new random key file
+ * @returns Blob - File contents to download and store offline
+ */
+export function generateKeyFile(): Blob {
+  const bytes = generateSecureRandom(KEY_FILE_BYTES);
+  const contents = `${KEY_FILE_HEADER}${arrayBufferToBase64(bytes.buffer as ArrayBuffer)}\n`;
+  bytes.fill(0);
+
+  return new Blob([contents], { type: 'application/octet-stream' });
+}
+
+/**
+ * Hash a key file chosen by the user
+ * @param file - Key file (generated or any other file)
+ * @returns Promise<Uint8Array> - SHA-256 of the file contents
+ */
+export async function hashKeyFile(file: Blob): Promise<Uint8Array> {
+  if (file.size === 0) {
+    throw new Error('Key file is empty');
+  }
+  if (file.size > KEY_FILE_MAX_SIZE) {
+    throw new Error('Key file is too large (max 16 MB)');
+  }
+
+  try {
+    const contents = await file.arrayBuffer();
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', contents));
+  } catch (error) {
+    throw new Error(`Reading key file failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Check value stored in a key slot to recognise its key file
+ * @param keyFileHash - SHA-256 of the key file
+ * @param salt - Base64 salt of the key slot
+ * @returns Promise<string> - Base64 truncated hash
+ */
+export async function keyFileCheck(keyFileHash: Uint8Array, salt: string): Promise<string> {
+  const label = new TextEncoder().encode(CHECK_LABEL);
+  const saltBytes = new Uint8Array(base64ToArrayBuffer(salt));
+  const input = new Uint8Array(label.length + saltBytes.length + keyFileHash.length);
+  input.set(label);
+  input.set(saltBytes, label.length);
+  input.set(keyFileHash, label.length + saltBytes.length);
+
+  const digest = await crypto.subtle.digest('SHA-256', input);
+  return arrayBufferToBase64(digest.slice(0, CHECK_BYTES));
+}
@@ -0,0 +1,96 @@
+/**
+ * Local Store
+ * Minimal key-value access to an IndexedDB object store
+ *
+ * Values are stored by structured clone, so CryptoKey objects (including
+ * non-extractable ones) can be kept without exporting them.
+ */
+
+export interface LocalStore<T> {
+  get(key: string): Promise<T | null>;
+  put(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * Read and replace a value in one transaction, so no other tab can change it in between
+   * @param change - Gets the current value; returns the value to store, or null to delete it
+   * @returns The stored value (null if deleted)
+   */
+  update(key: string, change: (current: T | null) => T | null): Promise<T | null>;
+}
+
+/**
+ * Open a database with a single object store, creating it on first use
+ */
+function openDatabase(dbName: string, storeName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create accessors for one object store
+ * Each call opens the database, runs one request and closes it again.
+ * @param dbName - Database name
+ * @param storeName - Object store name
+ */
+export function createLocalStore<T>(dbName: string, storeName: string): LocalStore<T> {
+  const run = async <R>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    const db = await openDatabase(dbName, storeName);
+
+    try {
+      return await new Promise<R>((resolve, reject) => {
+        const pending = request(db.transaction(storeName, mode).objectStore(storeName));
+        pending.onsuccess = () => resolve(pending.result);
+        pending.onerror = () => reject(pending.error);
+      });
+    } finally {
+      db.close();
+    }
+  };
+
+  return {
+    async get(key) {
+      return (await run<T | undefined>('readonly', store => store.get(key))) ?? null;
+    },
+    async put(key, value) {
+      await run('readwrite', store => store.put(value, key));
+    },
+    async delete(key) {
+      await run('readwrite', store => store.delete(key));
+    },
+    async update(key, change) {
+      const db = await openDatabase(dbName, storeName);
+
+      try {
+        return await new Promise<T | null>((resolve, reject) => {
+          const transaction = db.transaction(storeName, 'readwrite');
+          const store = transaction.objectStore(storeName);
+          let next: T | null = null;
+
+          // Writing from the read's callback keeps the transaction open between the two
+          const read = store.get(key) as IDBRequest<T | undefined>;
+          read.onsuccess = () => {
+            next = change(read.result ?? null);
+            if (next === null) {
+              store.delete(key);
+            } else {
+              store.put(next, key);
+            }
+          };
+          transaction.oncomplete = () => resolve(next);
+          transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+        });
+      } finally {
+        db.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Lock Policy Engine
+ * Watches the page and decides when an unlocked vault must lock again
+ *
+ * Triggers (each configured in AppSettings):
+ * - idle: no keyboard, pointer, touch or scroll input for autoLockTime minutes
+ * - hidden: the tab stayed hidden for lockWhenHiddenTime seconds
+ * - sleep: the device slept, detected as a gap in a heartbeat timer or a page resume
+ * - max-session: maxSessionTime minutes since unlock, regardless of activity
+ *
+ * Input in other SecureCardr tabs counts as activity, and a tab in the background
+ * does not lock while another unlocked tab is in the foreground.
+ */
+
+import { AppSettings } from '../types';
+import { SessionPolicy } from './vaultSession';
+import { broadcastVaultMessage, subscribeVaultMessages } from './vaultChannel';
+
+export type LockReason = 'idle' | 'hidden' | 'sleep' | 'max-session';
+
+export interface LockPolicyOptions {
+  settings: AppSettings;
+  unlockedAt: number; // Epoch ms when the vault was unlocked
+  onLock: (reason: LockReason) => void;
+  onActivity?: () => void; // Called at most every ACTIVITY_REPORT_INTERVAL while the user is active
+}
+
+const TICK_INTERVAL = 1000;
+// Background tabs may only run timers once a minute, so only a much larger gap means sleep
+const SLEEP_GAP = 2 * 60 * 1000;
+const ACTIVITY_REPORT_INTERVAL = 30 * 1000;
+const VISIBLE_REPORT_INTERVAL = 15 * 1000;
+const VISIBLE_REPORT_LIFETIME = 2 * VISIBLE_REPORT_INTERVAL;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'];
+
+/**
+ * Session timing implied by the settings
+ * @param settings - Current app settings
+ * @returns SessionPolicy - Idle timeout and maximum length in milliseconds (null when disabled)
+ */
+export function sessionPolicyFromSettings(settings: AppSettings): SessionPolicy {
+  return {
+    idleTimeout: settings.autoLock ? settings.autoLockTime * 60 * 1000 : null,
+    maxSessionLength: settings.maxSessionLength ? settings.maxSessionTime * 60 * 1000 : null,
+  };
+}
+
+/**
+ * Start enforcing the lock policy
+ * onLock is called once, after which the engine stops itself.
+ * @param options - Settings, unlock time and callbacks
+ * @returns () => void - Stops the engine
+ */
+export function startLockPolicy(options: LockPolicyOptions): () => void {
+  const { settings, unlockedAt, onLock, onActivity } = options;
+  const policy = sessionPolicyFromSettings(settings);
+
+  let lastActivity = Date.now();
+  let lastReported = lastActivity;
+  let lastTick = lastActivity;
+  let hiddenAt: number | null = document.visibilityState === 'hidden' ? lastActivity : null;
+  let lastVisibleReport = 0;
+  let otherTabVisibleAt = 0;
+  let stopped = false;
+
+  const lock = (reason: LockReason) => {
+    if (stopped) return;
+    stop();
+    onLock(reason);
+  };
+
+  const check = () => {
+    const now = Date.now();
+
+    if (settings.lockOnSleep && now - lastTick > TICK_INTERVAL + SLEEP_GAP) {
+      lock('sleep');
+      return;
+    }
+    lastTick = now;
+
+    if (document.visibilityState === 'visible' && now - lastVisibleReport >= VISIBLE_REPORT_INTERVAL) {
+      lastVisibleReport = now;
+      broadcastVaultMessage({ type: 'visible' });
+    }
+    const otherTabVisible = now - otherTabVisibleAt < VISIBLE_REPORT_LIFETIME;
+
+    if (policy.maxSessionLength !== null && now - unlockedAt >= policy.maxSessionLength) {
+      lock('max-session');
+    } else if (policy.idleTimeout !== null && now - lastActivity >= policy.idleTimeout) {
+      lock('idle');
+    } else if (settings.lockWhenHidden && hiddenAt !== null && !otherTabVisible &&
+               now - hiddenAt >= settings.lockWhenHiddenTime * 1000) {
+      lock('hidden');
+    }
+  };
+
+  const handleActivity = () => {
+    lastActivity = Date.now();
+    if (lastActivity - lastReported >= ACTIVITY_REPORT_INTERVAL) {
+      lastReported = lastActivity;
+      broadcastVaultMessage({ type: 'activity' });
+      onActivity?.();
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      hiddenAt = Date.now();
+    } else {
+      // Check before clearing so a long absence locks as soon as the tab is shown
+      check();
+      hiddenAt = null;
+    }
+  };
+
+  // Page Lifecycle API: a frozen page was resumed (e.g. after the device slept)
+  const handleResume = () => {
+    if (settings.lockOnSleep) {
+      lock('sleep');
+    }
+  };
+
+  const unsubscribe = subscribeVaultMessages(message => {
+    if (message.type === 'activity') {
+      lastActivity = Date.now();
+    } else if (message.type === 'visible') {
+      otherTabVisibleAt = Date.now();
+    }
+  });
+
+  const tickId = setInterval(check, TICK_INTERVAL);
+  ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true, capture: true }));
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  document.addEventListener('resume', handleResume);
+
+  function stop() {
+    stopped = true;
+    unsubscribe();
+    clearInterval(tickId);
+    ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity, { capture: true }));
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    document.removeEventListener('resume', handleResume);
+  }
+
+  return stop;
+}
+
+/**
+ * Human-readable explanation shown after a lock
+ */
+export function describeLockReason(reason: LockReason): string {
+  switch (reason) {
+    case 'idle':
+      return 'Your vault was locked after a period of inactivity.';
+    case 'hidden':
+      return 'Your vault was locked while the tab was in the background.';
+    case 'sleep':
+      return 'Your vault was locked because your device went to sleep.';
+    case 'max-session':
+      return 'Your vault was locked because the maximum session length was reached.';
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * In-Memory Storage Provider
+ * Keeps the vault in this page's memory; nothing is persisted
+ *
+ * Used for demos and tests, and the reference for how a provider behaves:
+ * listings are newest first, replacing contents keeps earlier revisions, and a
+ * failed stream leaves the previous contents in place.
+ */
+
+import { DriveNotFoundError } from './driveRequest';
+import {
+  PutOptions,
+  StorageConflictError,
+  StorageFolder,
+  StorageProvider,
+  StoredChange,
+  StoredObject,
+  StoredRevision,
+} from './storageProvider';
+
+// Drive keeps up to 100 revisions of a file; match it
+const MAX_REVISIONS = 100;
+
+interface MemoryObject {
+  meta: StoredObject;
+  revisions: Array<StoredRevision & { data: Blob }>;
+}
+
+export interface MemoryStorageOptions {
+  quota?: number; // Bytes the vault may use; unlimited if omitted
+}
+
+/**
+ * Create an empty in-memory provider
+ */
+export function createMemoryStorageProvider(options: MemoryStorageOptions = {}): StorageProvider {
+  const objects = new Map<string, MemoryObject>();
+  const changeLog: StoredChange[] = []; // Every put and delete, in order; cursors index into it
+  const vaultId = `memory-${crypto.randomUUID()}`;
+  let lastModified = 0;
+
+  const requireObject = (id: string): MemoryObject => {
+    const object = objects.get(id);
+    if (!object) {
+      throw new DriveNotFoundError();
+    }
+    return object;
+  };
+
+  const currentData = (id: string): Blob => {
+    const { revisions } = requireObject(id);
+    return revisions[revisions.length - 1].data;
+  };
+
+  // Strictly increasing, so listings order writes made within the same millisecond
+  const nextModifiedTime = (): string => {
+    lastModified = Math.max(Date.now(), lastModified + 1);
+    return new Date(lastModified).toISOString();
+  };
+
+  const usage = (): number => {
+    let total = 0;
+    objects.forEach(object => {
+      total += object.meta.size ?? 0;
+    });
+    return total;
+  };
+
+  return {
+    name: 'In-memory',
+
+    async initialize() {
+      // Nothing to prepare
+    },
+
+    async getVaultId() {
+      return vaultId;
+    },
+
+    async put(folder: StorageFolder, name: string, content, putOptions: PutOptions = {}) {
+      const { id, ifModifiedTime, mimeType = 'application/octet-stream', onProgress } = putOptions;
+      const existing = id ? requireObject(id) : null;
+
+      if (existing && ifModifiedTime && existing.meta.modifiedTime !== ifModifiedTime) {
+        throw new StorageConflictError({ ...existing.meta });
+      }
+
+      const data = typeof content === 'string'
+        ? new Blob([content], { type: mimeType })
+        : content instanceof ReadableStream
+          ? await new Response(content).blob()
+          : content;
+
+      if (options.quota !== undefined && usage() - (existing?.meta.size ?? 0) + data.size > options.quota) {
+        throw new Error('Storage quota exceeded.');
+      }
+
+      const modifiedTime = nextModifiedTime();
+      const revision = { id: crypto.randomUUID(), modifiedTime, size: data.size, data };
+      const meta: StoredObject = {
+        id: existing?.meta.id ?? crypto.randomUUID(),
+        name,
+        folder: existing?.meta.folder ?? folder,
+        mimeType,
+        size: data.size,
+        modifiedTime,
+      };
+
+      const revisions = [...(existing?.revisions ?? []), revision].slice(-MAX_REVISIONS);
+      objects.set(meta.id, { meta, revisions });
+      changeLog.push({ id: meta.id, removed: false, object: { ...meta } });
+      onProgress?.(100);
+
+      return { ...meta };
+    },
+
+    async get(id: string) {
+      return currentData(id);
+    },
+
+    async getStream(id: string) {
+      return currentData(id).stream();
+    },
+
+    async stat(id: string) {
+      return { ...requireObject(id).meta };
+    },
+
+    async list(folder: StorageFolder, prefix?: string) {
+      return [...objects.values()]
+        .map(object => object.meta)
+        .filter(meta => meta.folder === folder && (!prefix || meta.name.startsWith(prefix)))
+        .sort((a, b) => b.modifiedTime.localeCompare(a.modifiedTime))
+        .map(meta => ({ ...meta }));
+    },
+
+    async delete(id: string) {
+      requireObject(id);
+      objects.delete(id);
+      changeLog.push({ id, removed: true });
+    },
+
+    async listRevisions(id: string) {
+      return requireObject(id).revisions.map(({ id, modifiedTime, size }) => ({ id, modifiedTime, size }));
+    },
+
+    async getRevision(id: string, revisionId: string) {
+      const revision = requireObject(id).revisions.find(r => r.id === revisionId);
+      if (!revision) {
+        throw new Error('Revision not found.');
+      }
+      return revision.data;
+    },
+
+    async listChanges(cursor?: string) {
+      const from = cursor === undefined ? changeLog.length : Number(cursor);
+      if (!Number.isInteger(from) || from < 0 || from > changeLog.length) {
+        throw new Error('Invalid change cursor.');
+      }
+
+      // The latest change to each object stands for all of them
+      const latest = new Map<string, StoredChange>();
+      changeLog.slice(from).forEach(change => latest.set(change.id, change));
+
+      return {
+        changes: [...latest.values()].map(change => ({
+          ...change,
+          object: change.object && { ...change.object },
+        })),
+        cursor: String(changeLog.length),
+      };
+    },
+
+    async getQuota() {
+      return { usage: usage(), limit: options.quota ?? 0 };
+    },
+  };
+}
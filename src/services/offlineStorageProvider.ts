@@ -0,0 +1,897 @@
+/**
+ * Offline Storage Provider
+ * Wraps another provider with an IndexedDB cache and a queue of changes, so the
+ * vault opens and can be edited without a connection
+ *
+ * Listings come from the remote provider when it can be reached and refresh the
+ * cache; contents are served from the cache while its copy matches the modified
+ * time from the last listing. Once a folder has been listed, later listings catch
+ * up from the remote change feed instead; its cursor is kept with the cache, so a
+ * new session only fetches what changed since the last one. Writes go to the cache and a queue that is replayed
+ * to the remote provider, in order, whenever it can be reached. Streams (large images)
+ * are passed straight through while online, so they are never held in memory whole.
+ *
+ * Objects created offline get a temporary ID made from their folder and name.
+ * Vault object names are unique, so the ID keeps resolving after the upload,
+ * on this device through a recorded alias and on others by name.
+ *
+ * A write made with ifModifiedTime remembers the remote version it was based on.
+ * If another device changed the object before the write reaches the remote
+ * provider, the change is held as a conflict (and the local copy kept) until it
+ * is merged, rewritten or discarded.
+ *
+ * SECURITY NOTES:
+ * - Only what the vault hands to the provider is cached: encrypted objects and
+ *   the vault config that is stored in the clear anyway. Nothing decrypted is
+ *   ever written to IndexedDB
+ * - The cache is kept per account and survives sign-out so the vault can be
+ *   opened offline later; deleting the vault empties it
+ * - Without IndexedDB the cache lives in memory for this page only
+ */
+
+import { DriveNetworkError, DriveNotFoundError } from './driveRequest';
+import { createLocalStore } from './localStore';
+import {
+  PutOptions,
+  StorageConflictError,
+  StorageFolder,
+  StorageProvider,
+  StoredChange,
+  StoredObject,
+  findObject,
+} from './storageProvider';
+
+export type SyncState = 'synced' | 'pending' | 'syncing' | 'conflict' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingChanges: number;
+  conflicts: number;
+  offline: boolean;
+  error?: string; // Why the last replay stopped (state 'error')
+}
+
+export interface StorageConflict {
+  id: string;
+  name: string;
+  folder: StorageFolder;
+  theirs: StoredObject; // The remote object as the other device left it
+}
+
+export interface OfflineStorageProvider extends StorageProvider {
+  getSyncStatus(): SyncStatus;
+
+  /**
+   * Listen for sync status changes
+   * The listener is called with the current status right away.
+   * @returns () => void - Unsubscribes the listener
+   */
+  subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void;
+
+  /**
+   * Replay queued changes now (also runs after each change and on reconnect)
+   */
+  sync(): Promise<void>;
+
+  /**
+   * Queued writes another device got to first, waiting to be resolved
+   * Writing the object again with ifModifiedTime set to theirs.modifiedTime replaces the change.
+   */
+  listConflicts(): StorageConflict[];
+
+  /**
+   * Contents of the other device's version of a conflicting object
+   */
+  getTheirs(id: string): Promise<Blob>;
+
+  /**
+   * Drop this device's change to a conflicting object and keep the other version
+   */
+  discardChange(id: string): Promise<void>;
+
+  /**
+   * Stop listening for connectivity changes
+   */
+  close(): void;
+}
+
+type QueuedChange =
+  | {
+    changeId: string;
+    type: 'put';
+    id: string;
+    folder: StorageFolder;
+    name: string;
+    mimeType: string;
+    description?: string;
+    baseModifiedTime?: string; // Remote version the change was made to; checked on replay
+    conflict?: StoredObject; // Remote version found instead
+  }
+  | { changeId: string; type: 'delete'; id: string };
+
+type QueuedPut = Extract<QueuedChange, { type: 'put' }>;
+
+interface CacheState {
+  vaultId?: string;
+  objects: Record<string, StoredObject>;
+  aliases: Record<string, string>; // Temporary ID -> remote ID once uploaded
+  queue: QueuedChange[];
+  // Local modified time callers were given for the last upload -> remote modified time it got
+  uploads: Record<string, { local: string; remote: string }>;
+  changesCursor?: string; // Remote changes up to here are in the cache
+  listed: string[]; // Listings (folder/prefix) kept current by the change feed
+}
+
+interface CachedContent {
+  modifiedTime: string; // Of the object when this copy was stored
+  data: Blob;
+}
+
+const LOCAL_ID_PREFIX = 'local:';
+
+// Retry after a failed request while the browser still reports a connection
+const RETRY_DELAY_MS = 30_000;
+
+// Larger queued objects are replayed as a stream (a resumable upload on Drive)
+const STREAM_REPLAY_THRESHOLD = 4 * 1024 * 1024;
+
+const stateStore = createLocalStore<CacheState>('securecardr-offline', 'state');
+const contentStore = createLocalStore<CachedContent>('securecardr-offline-content', 'objects');
+
+function emptyState(): CacheState {
+  return { objects: {}, aliases: {}, queue: [], uploads: {}, listed: [] };
+}
+
+function isConflicted(change: QueuedChange): change is QueuedPut & { conflict: StoredObject } {
+  return change.type === 'put' && change.conflict !== undefined;
+}
+
+function listingKey(folder: StorageFolder, prefix?: string): string {
+  return `${folder}/${prefix ?? ''}`;
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+/**
+ * Whether an error means the remote provider could not be reached
+ */
+export function isNetworkFailure(error: unknown): boolean {
+  if (!isOnline()) {
+    return true;
+  }
+  // The Drive layer reports unreachable after its retries; other providers' fetch rejects with a TypeError
+  return error instanceof DriveNetworkError || error instanceof TypeError;
+}
+
+/**
+ * Whether a provider queues writes (and so holds conflicts instead of throwing them)
+ */
+export function isOfflineStorageProvider(provider: StorageProvider): provider is OfflineStorageProvider {
+  return 'listConflicts' in provider;
+}
+
+/**
+ * Wrap a stream so it can be told whether anything has read from it yet
+ */
+function trackReads(source: ReadableStream<Uint8Array>): { stream: ReadableStream<Uint8Array>; wasRead: () => boolean } {
+  const reader = source.getReader();
+  let read = false;
+
+  // No high-water mark, so nothing is pulled before the consumer asks
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      read = true;
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  }, { highWaterMark: 0 });
+
+  return { stream, wasRead: () => read };
+}
+
+/**
+ * Run a task holding a lock shared by this account's tabs (where the browser supports it)
+ */
+async function withTabLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(name, task);
+  }
+  return task();
+}
+
+/**
+ * Create a caching provider in front of a remote one
+ * @param remote - Provider changes are replayed to (Google Drive)
+ * @param accountId - Signed-in account; each account has its own cache
+ */
+export function createOfflineStorageProvider(remote: StorageProvider, accountId: string): OfflineStorageProvider {
+  const lockName = `securecardr-offline-${accountId}`;
+  const memoryContent = new Map<string, CachedContent>(); // Used when IndexedDB is unavailable
+  const listeners = new Set<(status: SyncStatus) => void>();
+  let state = emptyState();
+  let loaded: Promise<void> | null = null;
+  let stateUpdate: Promise<unknown> = Promise.resolve();
+  let syncing: Promise<void> | null = null;
+  let lastError: string | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let storeUnavailable = false;
+
+  const warnStoreUnavailable = (error: unknown): void => {
+    if (!storeUnavailable) {
+      storeUnavailable = true;
+      console.warn('Offline cache unavailable, keeping it in memory:', error);
+    }
+  };
+
+  const loadState = async (): Promise<void> => {
+    try {
+      const stored = await stateStore.get(accountId);
+      if (stored) {
+        state = { ...emptyState(), ...stored };
+      }
+    } catch (error) {
+      warnStoreUnavailable(error);
+    }
+  };
+
+  const ready = (): Promise<void> => {
+    if (!loaded) {
+      loaded = loadState();
+    }
+    return loaded;
+  };
+
+  const getSyncStatus = (): SyncStatus => {
+    const conflicts = state.queue.filter(isConflicted).length;
+    const pendingChanges = state.queue.length - conflicts;
+    const counts = { pendingChanges, conflicts, offline: !isOnline() };
+    if (syncing) {
+      return { state: 'syncing', ...counts };
+    }
+    if (lastError) {
+      return { state: 'error', ...counts, error: lastError };
+    }
+    if (conflicts > 0) {
+      return { state: 'conflict', ...counts };
+    }
+    return { state: pendingChanges > 0 ? 'pending' : 'synced', ...counts };
+  };
+
+  const notify = (): void => {
+    const status = getSyncStatus();
+    listeners.forEach(listener => listener(status));
+  };
+
+  /**
+   * Re-read the state (other tabs share it), change it and save it, one change at a time
+   */
+  const updateState = <T>(change: (current: CacheState) => T | Promise<T>): Promise<T> => {
+    const run = stateUpdate.then(() => withTabLock(lockName, async () => {
+      await ready();
+      await loadState();
+      const result = await change(state);
+      try {
+        await stateStore.put(accountId, state);
+      } catch (error) {
+        warnStoreUnavailable(error);
+      }
+      return result;
+    }));
+
+    stateUpdate = run.catch(() => undefined);
+    return run.finally(notify);
+  };
+
+  const contentKey = (id: string): string => `${accountId}/${id}`;
+
+  const readContent = async (id: string): Promise<CachedContent | null> =>
+    memoryContent.get(id) ?? await contentStore.get(contentKey(id)).catch(() => null);
+
+  const writeContent = async (id: string, content: CachedContent): Promise<void> => {
+    try {
+      await contentStore.put(contentKey(id), content);
+    } catch {
+      memoryContent.set(id, content);
+    }
+  };
+
+  const deleteContent = async (id: string): Promise<void> => {
+    memoryContent.delete(id);
+    await contentStore.delete(contentKey(id)).catch(() => undefined);
+  };
+
+  const resolveId = (id: string): string => state.aliases[id] ?? id;
+  const isLocalId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+  const isQueued = (current: CacheState, id: string): boolean => current.queue.some(change => change.id === id);
+
+  /**
+   * Remote ID of an object; temporary IDs from other devices are looked up by name
+   */
+  const remoteIdFor = async (id: string): Promise<string> => {
+    const resolved = resolveId(id);
+    if (!isLocalId(resolved)) {
+      return resolved;
+    }
+
+    const path = resolved.slice(LOCAL_ID_PREFIX.length);
+    const separator = path.indexOf('/');
+    const found = await findObject(remote, path.slice(0, separator) as StorageFolder, path.slice(separator + 1));
+    if (!found) {
+      throw new DriveNotFoundError();
+    }
+
+    await updateState(current => {
+      current.aliases[resolved] = found.id;
+    });
+    return found.id;
+  };
+
+  /**
+   * Bring cached listings in line with the remote ones, keeping queued changes
+   */
+  const reconcile = async (
+    current: CacheState,
+    folder: StorageFolder,
+    prefix: string | undefined,
+    remoteObjects: StoredObject[]
+  ): Promise<void> => {
+    const listed = new Set(remoteObjects.map(object => object.id));
+
+    for (const object of Object.values(current.objects)) {
+      const inListing = object.folder === folder && (!prefix || object.name.startsWith(prefix));
+      if (inListing && !listed.has(object.id) && !isQueued(current, object.id)) {
+        // Deleted elsewhere
+        delete current.objects[object.id];
+        await deleteContent(object.id);
+      }
+    }
+
+    for (const object of remoteObjects) {
+      if (!isQueued(current, object.id)) {
+        current.objects[object.id] = object;
+      }
+    }
+  };
+
+  /**
+   * Apply remote changes to the cache, keeping queued changes
+   */
+  const applyChanges = async (current: CacheState, changes: StoredChange[]): Promise<void> => {
+    for (const change of changes) {
+      if (isQueued(current, change.id)) {
+        continue;
+      }
+      if (change.object) {
+        current.objects[change.id] = change.object;
+      } else if (current.objects[change.id]) {
+        delete current.objects[change.id];
+        await deleteContent(change.id);
+      }
+    }
+  };
+
+  /**
+   * Bring the cache up to date from the remote change feed
+   */
+  const catchUp = async (): Promise<void> => {
+    const page = await remote.listChanges(state.changesCursor);
+    await updateState(async current => {
+      await applyChanges(current, page.changes);
+      current.changesCursor = page.cursor;
+    });
+  };
+
+  /**
+   * List a folder remotely and keep the listing current from then on
+   */
+  const listRemote = async (folder: StorageFolder, prefix?: string): Promise<void> => {
+    // Taken before listing, so changes made meanwhile are caught up later
+    const cursor = state.changesCursor ?? (await remote.listChanges()).cursor;
+    const remoteObjects = await remote.list(folder, prefix);
+
+    await updateState(async current => {
+      await reconcile(current, folder, prefix, remoteObjects);
+      current.changesCursor = current.changesCursor ?? cursor;
+      if (!current.listed.includes(listingKey(folder, prefix))) {
+        current.listed.push(listingKey(folder, prefix));
+      }
+    });
+  };
+
+  const isListed = (folder: StorageFolder, prefix?: string): boolean =>
+    state.changesCursor !== undefined &&
+    (state.listed.includes(listingKey(folder)) || state.listed.includes(listingKey(folder, prefix)));
+
+  const get = async (id: string): Promise<Blob> => {
+    await ready();
+    const cacheId = resolveId(id);
+    const object = state.objects[cacheId];
+    const cached = await readContent(cacheId);
+
+    if (cached && object && cached.modifiedTime === object.modifiedTime) {
+      return cached.data;
+    }
+
+    try {
+      const remoteId = await remoteIdFor(cacheId);
+      const meta = state.objects[remoteId] ?? await remote.stat(remoteId);
+      const data = await remote.get(remoteId);
+      await writeContent(remoteId, { modifiedTime: meta.modifiedTime, data });
+      if (!state.objects[remoteId]) {
+        await updateState(current => {
+          current.objects[remoteId] = meta;
+        });
+      }
+      return data;
+    } catch (error) {
+      // Offline, an older copy beats none
+      if (cached && isNetworkFailure(error)) {
+        return cached.data;
+      }
+      throw error;
+    }
+  };
+
+  const removeChange = (current: CacheState, changeId: string): void => {
+    current.queue = current.queue.filter(change => change.changeId !== changeId);
+  };
+
+  const replayPut = async (change: QueuedPut): Promise<void> => {
+    const cached = await readContent(change.id);
+    if (!cached) {
+      // The contents are gone (cache cleared); nothing left to upload
+      console.warn(`Dropping queued upload of ${change.name}: cached contents missing`);
+      await updateState(current => removeChange(current, change.changeId));
+      return;
+    }
+
+    const { data } = cached;
+    const upload = (id?: string) => remote.put(
+      change.folder,
+      change.name,
+      data.size > STREAM_REPLAY_THRESHOLD ? data.stream() : data,
+      {
+        id,
+        ifModifiedTime: id ? change.baseModifiedTime : undefined,
+        mimeType: change.mimeType,
+        description: change.description,
+        size: data.size,
+      }
+    );
+
+    const targetId = isLocalId(change.id)
+      ? (await findObject(remote, change.folder, change.name))?.id
+      : change.id;
+
+    let stored: StoredObject;
+    try {
+      stored = await upload(targetId);
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        // Changed on another device first: hold the change until it is resolved
+        const theirs = error.current;
+        await updateState(current => {
+          current.queue = current.queue.map(queued => (
+            queued.changeId === change.changeId ? { ...change, conflict: theirs } : queued
+          ));
+        });
+        return;
+      }
+      // Deleted elsewhere since it was cached: upload it again as a new object
+      if (!targetId || !(error instanceof DriveNotFoundError)) {
+        throw error;
+      }
+      stored = await upload();
+    }
+
+    await updateState(async current => {
+      removeChange(current, change.changeId);
+
+      if (stored.id !== change.id) {
+        current.aliases[change.id] = stored.id;
+        for (const [from, to] of Object.entries(current.aliases)) {
+          if (to === change.id) {
+            current.aliases[from] = stored.id;
+          }
+        }
+        current.queue = current.queue.map(queued => (queued.id === change.id ? { ...queued, id: stored.id } : queued));
+
+        // Contents may have changed again while uploading; move whatever is newest
+        const latest = await readContent(change.id);
+        if (latest) {
+          await writeContent(stored.id, latest);
+        }
+        await deleteContent(change.id);
+        if (current.objects[change.id]) {
+          current.objects[stored.id] = { ...current.objects[change.id], id: stored.id };
+          delete current.objects[change.id];
+        }
+      }
+
+      // Changed again while uploading: the queued change will upload that version
+      if (!isQueued(current, stored.id)) {
+        current.objects[stored.id] = { ...stored, folder: change.folder };
+        await writeContent(stored.id, { modifiedTime: stored.modifiedTime, data });
+      }
+      current.uploads[stored.id] = { local: cached.modifiedTime, remote: stored.modifiedTime };
+    });
+  };
+
+  /**
+   * Write a stream to the remote provider directly, without keeping its contents here
+   */
+  const putRemote = async (
+    folder: StorageFolder,
+    name: string,
+    id: string,
+    stream: ReadableStream<Uint8Array>,
+    options: PutOptions
+  ): Promise<StoredObject> => {
+    // Callers may still hold the local time of an earlier upload from here
+    const upload = state.uploads[id];
+    const stored = await remote.put(folder, name, stream, {
+      ...options,
+      id: options.id ? await remoteIdFor(id) : undefined,
+      ifModifiedTime: upload && upload.local === options.ifModifiedTime ? upload.remote : options.ifModifiedTime,
+    });
+
+    await updateState(async current => {
+      if (!options.id) {
+        delete current.aliases[id];
+      }
+      delete current.uploads[stored.id];
+
+      // Changed again meanwhile: the queued change is newer
+      if (!isQueued(current, stored.id)) {
+        current.objects[stored.id] = { ...stored, folder: current.objects[stored.id]?.folder ?? folder };
+        // Any cached copy is older; the next read fetches the new contents
+        await deleteContent(stored.id);
+      }
+    });
+    return { ...stored };
+  };
+
+  const replayDelete = async (change: Extract<QueuedChange, { type: 'delete' }>): Promise<void> => {
+    try {
+      await remote.delete(await remoteIdFor(change.id));
+    } catch (error) {
+      // Already gone
+      if (!(error instanceof DriveNotFoundError)) {
+        throw error;
+      }
+    }
+
+    await updateState(current => removeChange(current, change.changeId));
+  };
+
+  const replayQueue = async (): Promise<void> => {
+    clearTimeout(retryTimer);
+    await withTabLock(`${lockName}-sync`, async () => {
+      lastError = undefined;
+      // Another tab may have replayed some changes while this one waited
+      await updateState(() => undefined);
+
+      let change: QueuedChange | undefined;
+      while ((change = state.queue.find(queued => !isConflicted(queued))) && isOnline()) {
+        try {
+          if (change.type === 'put') {
+            await replayPut(change);
+          } else {
+            await replayDelete(change);
+          }
+        } catch (error) {
+          // Offline changes stay queued until the connection returns
+          if (!isNetworkFailure(error)) {
+            console.error('Failed to sync change:', error);
+            lastError = error instanceof Error ? error.message : 'Unknown error';
+          } else if (isOnline()) {
+            retryTimer = setTimeout(scheduleSync, RETRY_DELAY_MS);
+          }
+          return;
+        }
+      }
+    });
+  };
+
+  const sync = (): Promise<void> => {
+    if (!syncing) {
+      syncing = ready()
+        .then(replayQueue)
+        .finally(() => {
+          syncing = null;
+          notify();
+        });
+      notify();
+    }
+    return syncing;
+  };
+
+  const scheduleSync = (): void => {
+    sync().catch(error => console.error('Sync failed:', error));
+  };
+
+  const handleConnectivity = (): void => {
+    notify();
+    if (isOnline()) {
+      scheduleSync();
+    }
+  };
+
+  return {
+    name: remote.name,
+
+    async initialize() {
+      await ready();
+      window.addEventListener('online', handleConnectivity);
+      window.addEventListener('offline', handleConnectivity);
+
+      try {
+        await remote.initialize();
+        const vaultId = await remote.getVaultId();
+
+        if (state.vaultId !== vaultId) {
+          // A different vault: nothing cached or queued for the old one applies
+          await updateState(async current => {
+            await Promise.all(Object.keys(current.objects).map(deleteContent));
+            Object.assign(current, emptyState(), { vaultId });
+          });
+        }
+      } catch (error) {
+        // Offline with a cached vault: open it from the cache
+        if (!isNetworkFailure(error) || !state.vaultId) {
+          throw error;
+        }
+      }
+
+      scheduleSync();
+    },
+
+    async getVaultId() {
+      await ready();
+      return state.vaultId ?? remote.getVaultId();
+    },
+
+    async put(folder, name, content, options = {}) {
+      const { mimeType = 'application/octet-stream', description, ifModifiedTime, onProgress } = options;
+      await ready();
+
+      const id = options.id ? resolveId(options.id) : `${LOCAL_ID_PREFIX}${folder}/${name}`;
+
+      // Streams go straight to the remote provider unless a queued change has to reach it
+      // first; only an upload that has to wait is stored in the cache
+      if (content instanceof ReadableStream && isOnline() && !isQueued(state, id)) {
+        const tracked = trackReads(content);
+        try {
+          return await putRemote(folder, name, id, tracked.stream, options);
+        } catch (error) {
+          // Part of the stream is gone; the caller has to write it again
+          if (tracked.wasRead() || tracked.stream.locked) {
+            throw error;
+          }
+          // Nothing was sent (offline, or changed elsewhere): queue it like any other write
+          content = tracked.stream;
+        }
+      }
+
+      const data = typeof content === 'string'
+        ? new Blob([content], { type: mimeType })
+        : content instanceof ReadableStream
+          ? await new Response(content).blob()
+          : content;
+
+      const modifiedTime = new Date().toISOString();
+      await writeContent(id, { modifiedTime, data });
+
+      const object = await updateState(current => {
+        if (!options.id) {
+          // A new object, even if one with this name was uploaded and deleted before
+          delete current.aliases[id];
+        }
+
+        const stored: StoredObject = {
+          id,
+          name,
+          folder: current.objects[id]?.folder ?? folder,
+          mimeType,
+          size: data.size,
+          modifiedTime,
+        };
+
+        // Changes made on top of a queued one share its base; callers may still hold the
+        // local time of an upload from here, which stands for the remote version it created
+        const queued = current.queue.find((change): change is QueuedPut => change.type === 'put' && change.id === id);
+        const upload = current.uploads[id];
+        const baseModifiedTime = !ifModifiedTime
+          ? undefined
+          : queued && !queued.conflict
+            ? queued.baseModifiedTime
+            : upload?.local === ifModifiedTime ? upload.remote : ifModifiedTime;
+
+        current.objects[id] = stored;
+        current.queue = current.queue.filter(change => change.id !== id);
+        current.queue.push({
+          changeId: crypto.randomUUID(),
+          type: 'put',
+          id,
+          folder: stored.folder,
+          name,
+          mimeType,
+          description,
+          baseModifiedTime,
+        });
+        return stored;
+      });
+
+      onProgress?.(100);
+      scheduleSync();
+      return { ...object };
+    },
+
+    get,
+
+    async getStream(id) {
+      return (await get(id)).stream();
+    },
+
+    async stat(id) {
+      await ready();
+      const object = state.objects[resolveId(id)];
+      return object ? { ...object } : remote.stat(await remoteIdFor(id));
+    },
+
+    async list(folder, prefix) {
+      await ready();
+
+      try {
+        if (!isListed(folder, prefix)) {
+          await listRemote(folder, prefix);
+        } else {
+          try {
+            await catchUp();
+          } catch (error) {
+            if (isNetworkFailure(error)) {
+              throw error;
+            }
+            // The cursor is no longer accepted: list again and follow the feed from there
+            console.warn('Change feed unavailable, listing instead:', error);
+            await updateState(current => {
+              current.changesCursor = undefined;
+              current.listed = [];
+            });
+            await listRemote(folder, prefix);
+          }
+        }
+      } catch (error) {
+        // Offline: list what is cached (a vault never opened here has nothing to list)
+        if (!isNetworkFailure(error) || !state.vaultId) {
+          throw error;
+        }
+      }
+
+      return Object.values(state.objects)
+        .filter(object => object.folder === folder && (!prefix || object.name.startsWith(prefix)))
+        .sort((a, b) => b.modifiedTime.localeCompare(a.modifiedTime))
+        .map(object => ({ ...object }));
+    },
+
+    async delete(id) {
+      await ready();
+
+      await updateState(async current => {
+        const cacheId = current.aliases[id] ?? id;
+        // Created offline and never uploaded: dropping the queued upload is enough
+        const neverUploaded = isLocalId(cacheId) && current.objects[cacheId] !== undefined;
+
+        delete current.objects[cacheId];
+        current.queue = current.queue.filter(change => change.id !== cacheId);
+        if (!neverUploaded) {
+          current.queue.push({ changeId: crypto.randomUUID(), type: 'delete', id: cacheId });
+        }
+        await deleteContent(cacheId);
+      });
+
+      scheduleSync();
+    },
+
+    async listRevisions(id) {
+      await ready();
+      const cacheId = resolveId(id);
+      // Not uploaded yet, so no history
+      if (isLocalId(cacheId) && state.objects[cacheId]) {
+        return [];
+      }
+      return remote.listRevisions(await remoteIdFor(cacheId));
+    },
+
+    async getRevision(id, revisionId) {
+      await ready();
+      return remote.getRevision(await remoteIdFor(id), revisionId);
+    },
+
+    // Passed through to the remote provider; the cache takes the changes in on the way
+    async listChanges(cursor) {
+      await ready();
+      const page = await remote.listChanges(cursor);
+
+      return updateState(async current => {
+        await applyChanges(current, page.changes);
+        // A queued change is this device's latest version of the object
+        return { ...page, changes: page.changes.filter(change => !isQueued(current, change.id)) };
+      });
+    },
+
+    getQuota() {
+      return remote.getQuota();
+    },
+
+    getSyncStatus,
+
+    listConflicts() {
+      return state.queue.filter(isConflicted).map(change => ({
+        id: change.id,
+        name: change.name,
+        folder: change.folder,
+        theirs: { ...change.conflict },
+      }));
+    },
+
+    async getTheirs(id) {
+      await ready();
+      const change = state.queue.find(queued => queued.id === resolveId(id));
+      if (!change || !isConflicted(change)) {
+        throw new Error(`No conflict recorded for ${id}`);
+      }
+      return remote.get(change.conflict.id);
+    },
+
+    async discardChange(id) {
+      await ready();
+
+      await updateState(async current => {
+        const cacheId = current.aliases[id] ?? id;
+        const change = current.queue.find(queued => queued.id === cacheId);
+        if (!change || !isConflicted(change)) {
+          return;
+        }
+
+        const theirs = change.conflict;
+        current.queue = current.queue.filter(queued => queued.changeId !== change.changeId);
+        if (theirs.id !== cacheId) {
+          current.aliases[cacheId] = theirs.id;
+          delete current.objects[cacheId];
+        }
+        // The cached copy is this device's version; the next read fetches theirs
+        current.objects[theirs.id] = { ...theirs };
+        await deleteContent(cacheId);
+      });
+
+      scheduleSync();
+    },
+
+    subscribeSyncStatus(listener) {
+      listeners.add(listener);
+      listener(getSyncStatus());
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    sync,
+
+    close() {
+      clearTimeout(retryTimer);
+      window.removeEventListener('online', handleConnectivity);
+      window.removeEventListener('offline', handleConnectivity);
+      listeners.clear();
+    },
+  };
+}
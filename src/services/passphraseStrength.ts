@@ -0,0 +1,175 @@
+/**
+ * Passphrase Strength Estimator
+ * Estimates how many guesses an attacker needs, offline, with zxcvbn-style pattern matching
+ *
+ * The estimator finds the cheapest way to build the passphrase from dictionary words
+ * (common passwords, English words, names), keyboard walks, dates, repeats, sequences,
+ * l33t substitutions and the user's own name and email. Crack time assumes an offline
+ * attacker who holds a copy of the vault and pays the vault's real KDF cost per guess.
+ *
+ * The dictionaries are large, so they are loaded on first use.
+ */
+
+import { KdfParams, UserProfile } from '../types';
+import { getActiveKdf } from './crypto';
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PassphraseStrength {
+  guesses: number;
+  guessesLog10: number;
+  entropyBits: number; // log2(guesses)
+  crackTimeSeconds: number; // Average time for the attacker below
+  crackTimeDisplay: string;
+  score: StrengthScore;
+  isAcceptable: boolean; // Meets MIN_PASSPHRASE_ENTROPY_BITS
+  warning: string | null;
+  suggestions: string[];
+}
+
+// Required for a new vault passphrase; roughly four random diceware words
+export const MIN_PASSPHRASE_ENTROPY_BITS = 50;
+
+// Entropy needed for scores 1-4
+const SCORE_THRESHOLDS_BITS = [28, 40, MIN_PASSPHRASE_ENTROPY_BITS, 64];
+
+// Offline attacker: a rented cluster of 100 high-end GPUs
+const ATTACKER_GPUS = 100;
+// PBKDF2-HMAC-SHA256 iterations one GPU computes per second
+const GPU_PBKDF2_ITERATIONS_PER_SECOND = 1e10;
+// Argon2 is bound by memory bandwidth: every pass reads and writes the whole block array
+const GPU_MEMORY_BANDWIDTH_BYTES_PER_SECOND = 1e12;
+
+type Zxcvbn = typeof import('@zxcvbn-ts/core').zxcvbn;
+
+// UserProfile and the auth user both carry these (the latter with nulls)
+type ProfileNames = { [K in 'email' | 'displayName']?: UserProfile[K] | null };
+
+let estimatorPromise: Promise<Zxcvbn> | null = null;
+
+/**
+ * Load zxcvbn with the English and common dictionaries (once)
+ */
+function loadEstimator(): Promise<Zxcvbn> {
+  if (!estimatorPromise) {
+    estimatorPromise = Promise.all([
+      import('@zxcvbn-ts/core'),
+      import('@zxcvbn-ts/language-common'),
+      import('@zxcvbn-ts/language-en'),
+    ]).then(([core, common, en]) => {
+      core.zxcvbnOptions.setOptions({
+        translations: en.translations,
+        graphs: common.adjacencyGraphs,
+        dictionary: { ...common.dictionary, ...en.dictionary },
+      });
+      return core.zxcvbn;
+    }).catch(error => {
+      estimatorPromise = null;
+      throw new Error(`Loading passphrase dictionaries failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+  return estimatorPromise;
+}
+
+/**
+ * Guesses per second an offline attacker can test against a KDF
+ * @param kdf - KDF parameters of the vault
+ * @returns number - Estimated guesses per second
+ */
+export function attackerGuessesPerSecond(kdf: KdfParams): number {
+  if (kdf.algorithm === 'pbkdf2-sha256') {
+    return (ATTACKER_GPUS * GPU_PBKDF2_ITERATIONS_PER_SECOND) / kdf.iterations;
+  }
+
+  const bytesPerGuess = kdf.memoryKiB * 1024 * kdf.iterations * 2;
+  return (ATTACKER_GPUS * GPU_MEMORY_BANDWIDTH_BYTES_PER_SECOND) / bytesPerGuess;
+}
+
+/**
+ * Words from the user's profile that should not appear in their passphrase
+ * @param user - Signed-in user
+ * @returns string[] - Email, name and their parts
+ */
+export function userInputsFromProfile(user: ProfileNames | null | undefined): string[] {
+  if (!user) return [];
+
+  const inputs = new Set<string>();
+  const add = (value: string | null | undefined) => {
+    const trimmed = value?.trim().toLowerCase();
+    if (trimmed && trimmed.length >= 2) inputs.add(trimmed);
+  };
+
+  if (user.email) {
+    const [local, domain] = user.email.split('@');
+    add(user.email);
+    add(local);
+    local.split(/[._+-]+/).forEach(add);
+    add(domain?.split('.')[0]);
+  }
+  if (user.displayName) {
+    add(user.displayName);
+    add(user.displayName.replace(/\s+/g, ''));
+    user.displayName.split(/\s+/).forEach(add);
+  }
+
+  return [...inputs];
+}
+
+/**
+ * Format a duration as a rough human-readable figure
+ */
+export function formatCrackTime(seconds: number): string {
+  const units: Array<[string, number]> = [
+    ['year', 365.25 * 24 * 60 * 60],
+    ['month', 30 * 24 * 60 * 60],
+    ['day', 24 * 60 * 60],
+    ['hour', 60 * 60],
+    ['minute', 60],
+    ['second', 1],
+  ];
+
+  if (seconds < 1) return 'less than a second';
+  if (seconds >= 100 * units[0][1]) return 'centuries';
+
+  const [unit, size] = units.find(([, size]) => seconds >= size)!;
+  const count = Math.round(seconds / size);
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Estimate the strength of a passphrase
+ * @param passphrase - Passphrase to check
+ * @param userInputs - Personal words to treat as guessable (see userInputsFromProfile)
+ * @param kdf - KDF the passphrase will protect (default: the vault's active KDF)
+ * @returns Promise<PassphraseStrength> - Guesses, crack time, score and feedback
+ */
+export async function estimatePassphraseStrength(
+  passphrase: string,
+  userInputs: string[] = [],
+  kdf: KdfParams = getActiveKdf()
+): Promise<PassphraseStrength> {
+  const zxcvbn = await loadEstimator();
+  const result = zxcvbn(passphrase, userInputs);
+
+  const entropyBits = result.guessesLog10 * Math.log2(10);
+  const crackTimeSeconds = result.guesses / 2 / attackerGuessesPerSecond(kdf);
+  const score = SCORE_THRESHOLDS_BITS.filter(threshold => entropyBits >= threshold).length as StrengthScore;
+  const isAcceptable = entropyBits >= MIN_PASSPHRASE_ENTROPY_BITS;
+
+  const suggestions = [...result.feedback.suggestions];
+  if (!isAcceptable && suggestions.length === 0) {
+    suggestions.push('Add another word or two. Uncommon words are better.');
+  }
+
+  return {
+    guesses: result.guesses,
+    guessesLog10: result.guessesLog10,
+    entropyBits,
+    crackTimeSeconds,
+    crackTimeDisplay: formatCrackTime(crackTimeSeconds),
+    score,
+    isAcceptable,
+    warning: result.feedback.warning || null,
+    suggestions,
+  };
+}
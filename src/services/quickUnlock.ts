@@ -0,0 +1,251 @@
+/**
+ * Quick Unlock
+ * Lets a short PIN reopen the vault on this device after a full passphrase unlock
+ *
+ * SECURITY NOTES:
+ * - The vault data key is encrypted with an Argon2id key derived from the PIN, then
+ *   again with a non-extractable device key; both layers stay in this browser's
+ *   IndexedDB and nothing is written to Drive
+ * - A PIN has little entropy, so the attempt limit is what protects it: the counter
+ *   is decremented before every try and the wrapped key is wiped when it runs out
+ * - Quick unlock expires after a configurable number of hours and is removed on
+ *   sign-out, vault deletion and passphrase changes
+ */
+
+import {
+  deriveKey,
+  encryptData,
+  decryptData,
+  exportVaultKey,
+  importVaultKey,
+  generateSalt,
+  generateIV,
+} from './crypto';
+import { createLocalStore } from './localStore';
+import { Argon2idParams, VaultKeyring } from '../types';
+
+export const QUICK_UNLOCK_MAX_ATTEMPTS = 5;
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 12;
+
+// Lighter than the passphrase KDF so a phone unlocks quickly; the attempt limit carries the weight
+const PIN_KDF: Argon2idParams = {
+  algorithm: 'argon2id',
+  memoryKiB: 19 * 1024,
+  iterations: 2,
+  parallelism: 1,
+};
+
+const RECORD_KEY = 'current';
+
+interface QuickUnlockRecord {
+  accountId: string;
+  keyId: string;
+  deviceKey: CryptoKey; // Non-extractable AES-GCM key
+  deviceIv: Uint8Array;
+  salt: Uint8Array;
+  pinIv: Uint8Array;
+  sealedKey: ArrayBuffer; // Data key encrypted with the PIN key, then the device key
+  attemptsLeft: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface QuickUnlockStatus {
+  attemptsLeft: number;
+  expiresAt: number;
+}
+
+/**
+ * Thrown when a PIN is wrong; attemptsLeft is 0 once the wrapped key was wiped
+ */
+export class PinAttemptError extends Error {
+  constructor(public attemptsLeft: number) {
+    super(attemptsLeft > 0
+      ? `Wrong PIN. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`
+      : 'Too many wrong PINs. Quick unlock was turned off; enter your passphrase.');
+    this.name = 'PinAttemptError';
+  }
+}
+
+const quickUnlockStore = createLocalStore<QuickUnlockRecord>('securecardr_quick_unlock', 'quick_unlock');
+
+/**
+ * Check a PIN's format (digits only)
+ */
+export function isValidPin(pin: string): boolean {
+  return new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+}
+
+/**
+ * Associated data tying the PIN layer to the account and vault key
+ */
+function recordAssociatedData(accountId: string, keyId: string): Uint8Array {
+  return new TextEncoder().encode(`securecardr:quick-unlock:${accountId}:${keyId}`);
+}
+
+/**
+ * Whether a record belongs to the account, has not expired and has attempts left
+ */
+function isUsable(record: QuickUnlockRecord, accountId: string): boolean {
+  return record.accountId === accountId && Date.now() <= record.expiresAt && record.attemptsLeft > 0;
+}
+
+/**
+ * Turn on quick unlock for the unlocked vault
+ * @param keyring - Keyring from a full unlock (legacy keyrings are not supported)
+ * @param pin - New PIN
+ * @param accountId - Signed-in user's ID
+ * @param lifetimeHours - Hours until the PIN stops working
+ */
+export async function enableQuickUnlock(
+  keyring: VaultKeyring,
+  pin: string,
+  accountId: string,
+  lifetimeHours: number
+): Promise<void> {
+  if (!isValidPin(pin)) {
+    throw new Error(`PIN must be ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits`);
+  }
+  if (keyring.passphrase) {
+    throw new Error('Quick unlock is available once older vault data has been upgraded');
+  }
+
+  const rawKey = await exportVaultKey(keyring.dataKey);
+
+  try {
+    const salt = generateSalt();
+    const pinIv = generateIV();
+    const deviceIv = generateIV();
+
+    const pinKey = await deriveKey(pin, salt, PIN_KDF);
+    const pinSealed = await encryptData(
+      rawKey.buffer as ArrayBuffer,
+      pinKey,
+      pinIv,
+      recordAssociatedData(accountId, keyring.keyId)
+    );
+
+    const deviceKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    const sealedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: deviceIv }, deviceKey, pinSealed);
+
+    const createdAt = Date.now();
+    await quickUnlockStore.put(RECORD_KEY, {
+      accountId,
+      keyId: keyring.keyId,
+      deviceKey,
+      deviceIv,
+      salt,
+      pinIv,
+      sealedKey,
+      attemptsLeft: QUICK_UNLOCK_MAX_ATTEMPTS,
+      createdAt,
+      expiresAt: createdAt + lifetimeHours * 60 * 60 * 1000,
+    });
+  } catch (error) {
+    throw new Error(`Enabling quick unlock failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    rawKey.fill(0);
+  }
+}
+
+/**
+ * Quick unlock state for an account, or null if it cannot be used
+ * Expired records and records of other accounts are wiped.
+ */
+export async function getQuickUnlockStatus(accountId: string): Promise<QuickUnlockStatus | null> {
+  try {
+    const record = await quickUnlockStore.get(RECORD_KEY);
+    if (!record) return null;
+
+    if (!isUsable(record, accountId)) {
+      await disableQuickUnlock();
+      return null;
+    }
+
+    return { attemptsLeft: record.attemptsLeft, expiresAt: record.expiresAt };
+  } catch (error) {
+    console.error('Failed to read quick unlock state:', error);
+    return null;
+  }
+}
+
+/**
+ * Unlock the vault with the PIN
+ * @param pin - PIN entered by the user
+ * @param accountId - Signed-in user's ID
+ * @returns Promise<VaultKeyring> - Unlocked keyring
+ * @throws PinAttemptError if the PIN is wrong
+ */
+export async function unlockWithPin(pin: string, accountId: string): Promise<VaultKeyring> {
+  // Count the attempt before trying, in the same transaction that reads the counter, so
+  // closing the tab mid-check does not save it and two tabs cannot both spend one attempt
+  const record = await quickUnlockStore.update(RECORD_KEY, current =>
+    current && isUsable(current, accountId) ? { ...current, attemptsLeft: current.attemptsLeft - 1 } : null
+  );
+  if (!record) {
+    throw new Error('Quick unlock is not set up on this device');
+  }
+  const { attemptsLeft } = record;
+
+  let rawKey: Uint8Array;
+  try {
+    const pinSealed = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: record.deviceIv },
+      record.deviceKey,
+      record.sealedKey
+    );
+    const pinKey = await deriveKey(pin, record.salt, PIN_KDF);
+    rawKey = new Uint8Array(await decryptData(
+      pinSealed,
+      pinKey,
+      record.pinIv,
+      recordAssociatedData(record.accountId, record.keyId)
+    ));
+  } catch {
+    if (attemptsLeft <= 0) {
+      await disableQuickUnlock();
+    }
+    throw new PinAttemptError(attemptsLeft);
+  }
+
+  try {
+    // Only reset the counter of the record the PIN was checked against
+    await quickUnlockStore.update(RECORD_KEY, current =>
+      current && current.createdAt === record.createdAt
+        ? { ...current, attemptsLeft: QUICK_UNLOCK_MAX_ATTEMPTS }
+        : current
+    );
+    return { keyId: record.keyId, dataKey: await importVaultKey(rawKey) };
+  } finally {
+    rawKey.fill(0);
+  }
+}
+
+/**
+ * Change how long the current PIN stays valid, counted from when it was set
+ */
+export async function setQuickUnlockLifetime(lifetimeHours: number): Promise<void> {
+  try {
+    const record = await quickUnlockStore.get(RECORD_KEY);
+    if (record) {
+      await quickUnlockStore.put(RECORD_KEY, {
+        ...record,
+        expiresAt: record.createdAt + lifetimeHours * 60 * 60 * 1000,
+      });
+    }
+  } catch (error) {
+    console.error('Failed to update quick unlock lifetime:', error);
+  }
+}
+
+/**
+ * Remove quick unlock from this device
+ */
+export async function disableQuickUnlock(): Promise<void> {
+  try {
+    await quickUnlockStore.delete(RECORD_KEY);
+  } catch (error) {
+    console.error('Failed to remove quick unlock:', error);
+  }
+}
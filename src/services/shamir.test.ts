@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { SecretShare, combineShares, decodeShare, encodeShare, splitSecret, testShamirSharing } from './shamir';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Feed splitSecret fixed bytes instead of random ones
+ */
+function fixedRandom(...chunks: number[][]): (length: number) => Uint8Array {
+  return length => {
+    const chunk = chunks.shift();
+    if (!chunk || chunk.length !== length) {
+      throw new Error(`Unexpected request for ${length} random bytes`);
+    }
+    return new Uint8Array(chunk);
+  };
+}
+
+describe('splitSecret', () => {
+  // Secret "SCV2", set ID 00000000, coefficients (a1, a2) per byte
+  const secret = new Uint8Array([0x53, 0x43, 0x56, 0x32]);
+  const vectors = ['503c66cd', '5990f610', '5aefc6ef', '774a2047', '743510b8'];
+  const split = () => splitSecret(
+    secret,
+    5,
+    3,
+    fixedRandom([0, 0, 0, 0], [0x01, 0x02, 0xff, 0x80, 0x10, 0x20, 0xa5, 0x5a])
+  );
+
+  it('matches the 3-of-5 test vectors', () => {
+    const shares = split();
+    expect(shares.map(share => share.index)).toEqual([1, 2, 3, 4, 5]);
+    expect(shares.map(share => toHex(share.data))).toEqual(vectors);
+    expect(shares.every(share => share.setId === '00000000' && share.threshold === 3)).toBe(true);
+  });
+
+  it('reconstructs from every 3-share subset, in any order', () => {
+    const shares = split();
+    for (let a = 0; a < 5; a++) {
+      for (let b = a + 1; b < 5; b++) {
+        for (let c = b + 1; c < 5; c++) {
+          expect(combineShares([shares[c], shares[a], shares[b]])).toEqual(secret);
+        }
+      }
+    }
+  });
+
+  it('matches a 2-of-2 vector worked by hand', () => {
+    // f(x) = 0x2a + 0x07x: f(1) = 0x2d, f(2) = 0x2a ^ 0x0e = 0x24
+    const shares = splitSecret(new Uint8Array([0x2a]), 2, 2, fixedRandom([1, 2, 3, 4], [0x07]));
+    expect(shares.map(share => toHex(share.data))).toEqual(['2d', '24']);
+    expect(shares[0].setId).toBe('01020304');
+  });
+
+  it('leaves every secret byte possible given one share below the threshold', () => {
+    // For a 2-of-N split, the share at x = 1 is secret ^ a1. Trying every value of
+    // the free coefficient a1 must reach each observed share value once per secret.
+    const observed = splitSecret(new Uint8Array([0x99]), 3, 2, fixedRandom([0, 0, 0, 0], [0x5c]))[2].data[0];
+    for (let candidate = 0; candidate < 256; candidate++) {
+      let consistent = 0;
+      for (let a1 = 0; a1 < 256; a1++) {
+        const share = splitSecret(new Uint8Array([candidate]), 3, 2, fixedRandom([0, 0, 0, 0], [a1]))[2];
+        if (share.data[0] === observed) {
+          consistent++;
+        }
+      }
+      expect(consistent).toBe(1);
+    }
+  });
+
+  it('rejects invalid parameters', () => {
+    expect(() => splitSecret(secret, 5, 1)).toThrow('Threshold must be at least 2');
+    expect(() => splitSecret(secret, 2, 3)).toThrow('Share count must be between the threshold and 255');
+    expect(() => splitSecret(secret, 256, 3)).toThrow('Share count must be between the threshold and 255');
+    expect(() => splitSecret(new Uint8Array(0), 3, 2)).toThrow('Secret must not be empty');
+  });
+});
+
+describe('combineShares', () => {
+  const secret = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+
+  it('reconstructs a randomly split secret', () => {
+    const shares = splitSecret(secret, 5, 3);
+    expect(combineShares([shares[4], shares[1], shares[2]])).toEqual(secret);
+  });
+
+  it('needs threshold distinct shares', () => {
+    const [first, second] = splitSecret(secret, 5, 3);
+    expect(() => combineShares([first, second, first])).toThrow('3 different shares are required, got 2');
+    expect(() => combineShares([])).toThrow('No shares provided');
+  });
+
+  it('rejects shares from different splits', () => {
+    const one = splitSecret(secret, 3, 2);
+    const other = splitSecret(secret, 3, 2);
+    expect(() => combineShares([one[0], other[1]])).toThrow('Shares belong to different recovery sets');
+  });
+});
+
+describe('share encoding', () => {
+  const share: SecretShare = { setId: '00000000', threshold: 3, index: 1, data: new Uint8Array([0x50, 0x3c, 0x66, 0xcd]) };
+
+  it('round trips through text, ignoring case and whitespace', async () => {
+    const text = await encodeShare(share);
+    expect(text).toMatch(/^SCS1-00000000-3-1-503c66cd-[0-9a-f]{4}$/);
+    expect(await decodeShare(`  ${text.toUpperCase().replace('-', ' - ')}\n`)).toEqual(share);
+  });
+
+  it('rejects a mistyped share', async () => {
+    const text = await encodeShare(share);
+    await expect(decodeShare(text.replace('503c', '503d'))).rejects.toThrow('Share checksum does not match');
+    await expect(decodeShare('not a share')).rejects.toThrow('Not a recovery share');
+  });
+});
+
+describe('testShamirSharing', () => {
+  it('passes', async () => {
+    expect(await testShamirSharing()).toEqual({ passed: true });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Shamir's Secret Sharing over GF(256)
+ * Splits a secret into N shares so that any K of them reconstruct it
+ *
+ * SECURITY NOTES:
+ * - Each secret byte gets its own random polynomial of degree K-1 with the
+ *   byte as constant term; coefficients come from generateSecureRandom
+ * - Any K-1 shares are consistent with every possible secret, so they reveal nothing
+ * - Shares carry a set ID and checksum so mixed-up or mistyped shares are rejected
+ *   instead of silently reconstructing a wrong secret
+ */
+
+import { generateSecureRandom } from './crypto';
+
+export interface SecretShare {
+  setId: string; // Random ID shared by all shares of one split
+  threshold: number; // Shares needed to reconstruct (K)
+  index: number; // Share x-coordinate, 1-255
+  data: Uint8Array; // One y-value per secret byte
+}
+
+const SHARE_PREFIX = 'SCS1';
+const SET_ID_BYTES = 4;
+const CHECKSUM_HEX_LENGTH = 4;
+
+// GF(256) with the AES reduction polynomial x^8 + x^4 + x^3 + x + 1, generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    // Multiply by the generator (x + 1)
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) {
+    throw new Error('Division by zero in GF(256)');
+  }
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Evaluate a polynomial (constant term first) at x using Horner's rule
+ */
+function evaluate(coefficients: number[], x: number): number {
+  let y = 0;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    y = gfMul(y, x) ^ coefficients[i];
+  }
+  return y;
+}
+
+/**
+ * Split a secret into shares
+ * @param secret - Secret bytes
+ * @param shareCount - Number of shares to create (N)
+ * @param threshold - Shares required to reconstruct (K)
+ * @param random - Source of random coefficient bytes (test vectors only)
+ * @returns SecretShare[] - N shares with indexes 1..N
+ */
+export function splitSecret(
+  secret: Uint8Array,
+  shareCount: number,
+  threshold: number,
+  random: (length: number) => Uint8Array = generateSecureRandom
+): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('Threshold must be at least 2');
+  }
+  if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > 255) {
+    throw new Error('Share count must be between the threshold and 255');
+  }
+  if (secret.length === 0) {
+    throw new Error('Secret must not be empty');
+  }
+
+  const setId = toHex(random(SET_ID_BYTES));
+  const coefficients = random(secret.length * (threshold - 1));
+  const shares: SecretShare[] = [];
+
+  for (let index = 1; index <= shareCount; index++) {
+    shares.push({ setId, threshold, index, data: new Uint8Array(secret.length) });
+  }
+
+  for (let i = 0; i < secret.length; i++) {
+    const polynomial = [
+      secret[i],
+      ...coefficients.subarray(i * (threshold - 1), (i + 1) * (threshold - 1)),
+    ];
+    for (const share of shares) {
+      share.data[i] = evaluate(polynomial, share.index);
+    }
+  }
+
+  coefficients.fill(0);
+  return shares;
+}
+
+/**
+ * Reconstruct a secret from at least K shares of the same split
+ * @param shares - Shares to combine
+ * @returns Uint8Array - Reconstructed secret
+ * @throws Error if shares are missing, duplicated or from different splits
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error('No shares provided');
+  }
+
+  const { setId, threshold } = shares[0];
+  const length = shares[0].data.length;
+
+  for (const share of shares) {
+    if (share.setId !== setId || share.threshold !== threshold || share.data.length !== length) {
+      throw new Error('Shares belong to different recovery sets');
+    }
+  }
+
+  // Only the first K distinct shares are needed
+  const used = shares
+    .filter((share, i) => shares.findIndex(s => s.index === share.index) === i)
+    .slice(0, threshold);
+  if (used.length < threshold) {
+    throw new Error(`${threshold} different shares are required, got ${used.length}`);
+  }
+
+  // Lagrange basis values at x = 0 (subtraction is XOR in GF(256))
+  const basis = used.map((share, i) => used.reduce(
+    (product, other, j) => (i === j ? product : gfMul(product, gfDiv(other.index, other.index ^ share.index))),
+    1
+  ));
+
+  const secret = new Uint8Array(length);
+  for (let b = 0; b < length; b++) {
+    secret[b] = used.reduce((sum, share, i) => sum ^ gfMul(share.data[b], basis[i]), 0);
+  }
+  return secret;
+}
+
+/**
+ * Encode a share as text (also used as QR payload)
+ * Format: SCS1-<set id>-<threshold>-<index>-<data hex>-<checksum>
+ */
+export async function encodeShare(share: SecretShare): Promise<string> {
+  const body = `${SHARE_PREFIX}-${share.setId}-${share.threshold}-${share.index}-${toHex(share.data)}`;
+  return `${body}-${await checksum(body)}`;
+}
+
+/**
+ * Parse a share from text
+ * @throws Error if the text is not a share or its checksum does not match
+ */
+export async function decodeShare(text: string): Promise<SecretShare> {
+  const parts = text.trim().toLowerCase().replace(/\s+/g, '').split('-');
+
+  if (parts.length !== 6 || parts[0] !== SHARE_PREFIX.toLowerCase()) {
+    throw new Error('Not a recovery share');
+  }
+
+  const [, setId, threshold, index, data, check] = parts;
+  const body = `${SHARE_PREFIX}-${setId}-${threshold}-${index}-${data}`;
+
+  if (check !== await checksum(body)) {
+    throw new Error('Share checksum does not match; check for typos');
+  }
+
+  const share: SecretShare = {
+    setId,
+    threshold: Number(threshold),
+    index: Number(index),
+    data: fromHex(data),
+  };
+
+  if (!Number.isInteger(share.threshold) || share.threshold < 2 ||
+      !Number.isInteger(share.index) || share.index < 1 || share.index > 255) {
+    throw new Error('Malformed recovery share');
+  }
+
+  return share;
+}
+
+/**
+ * Self-test with fixed test vectors
+ * Proves that every K-subset reconstructs the secret and that K-1 shares
+ * are consistent with every possible secret value.
+ */
+export async function testShamirSharing(): Promise<{ passed: boolean; error?: string }> {
+  try {
+    // Fixed "randomness": set ID 00000000, then coefficients (a1, a2) per byte
+    const fixed = [
+      new Uint8Array(SET_ID_BYTES),
+      new Uint8Array([0x01, 0x02, 0xff, 0x80, 0x10, 0x20, 0xa5, 0x5a]),
+    ];
+    const secret = new Uint8Array([0x53, 0x43, 0x56, 0x32]);
+    const shares = splitSecret(secret, 5, 3, () => fixed.shift()!);
+
+    const expected = ['503c66cd', '5990f610', '5aefc6ef', '774a2047', '743510b8'];
+    shares.forEach((share, i) => {
+      if (toHex(share.data) !== expected[i]) {
+        throw new Error(`Share ${share.index} does not match its test vector`);
+      }
+    });
+
+    // Every 3-of-5 subset reconstructs the secret
+    for (let a = 0; a < 5; a++) {
+      for (let b = a + 1; b < 5; b++) {
+        for (let c = b + 1; c < 5; c++) {
+          if (toHex(combineShares([shares[a], shares[b], shares[c]])) !== toHex(secret)) {
+            throw new Error('Reconstruction from a threshold subset failed');
+          }
+        }
+      }
+    }
+
+    // Two shares leave every secret byte possible. For each candidate byte, try all
+    // 256 values of the free coefficient a2; a1 then follows from the first share,
+    // and exactly one of the resulting polynomials must pass through the second
+    const [s1, s2] = shares;
+    for (let b = 0; b < secret.length; b++) {
+      for (let candidate = 0; candidate < 256; candidate++) {
+        let consistent = 0;
+        for (let a2 = 0; a2 < 256; a2++) {
+          const a1 = gfDiv(s1.data[b] ^ candidate ^ gfMul(a2, gfMul(s1.index, s1.index)), s1.index);
+          if (evaluate([candidate, a1, a2], s2.index) === s2.data[b]) {
+            consistent++;
+          }
+        }
+        if (consistent !== 1) {
+          throw new Error('Fewer than threshold shares constrain the secret');
+        }
+      }
+    }
+
+    // Round trip through the text encoding
+    const decoded = await decodeShare(await encodeShare(shares[0]));
+    if (decoded.index !== 1 || toHex(decoded.data) !== expected[0]) {
+      throw new Error('Share text encoding round trip failed');
+    }
+
+    return { passed: true };
+  } catch (error) {
+    return {
+      passed: false,
+      error: `Secret sharing self-test failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+async function checksum(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text.toLowerCase()));
+  return toHex(new Uint8Array(digest)).slice(0, CHECKSUM_HEX_LENGTH);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  if (!/^([0-9a-f]{2})+$/.test(hex)) {
+    throw new Error('Malformed recovery share');
+  }
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+}
@@ -0,0 +1,79 @@
+/**
+ * Step-Up Verification
+ * Asks for the passphrase (or quick unlock PIN) again before sensitive card fields
+ * are revealed or copied, unless it was entered recently
+ *
+ * SECURITY NOTES:
+ * - Unlocking counts as a verification; the time is kept in memory only and
+ *   cleared when the vault locks
+ * - A passphrase or PIN only counts if it opens the unlocked vault's data key
+ * - PIN checks go through quick unlock, so wrong PINs use up its attempt limit
+ */
+
+import { RevealPolicy, SensitiveField, VaultKeyring } from '../types';
+import { unlockVault } from './vaultKeys';
+import { unlockWithPin } from './quickUnlock';
+
+let lastVerifiedAt: number | null = null;
+
+/**
+ * Record a successful verification
+ * @param at - When it happened (default: now)
+ */
+export function recordVerification(at: number = Date.now()): void {
+  lastVerifiedAt = Math.max(lastVerifiedAt ?? 0, at);
+}
+
+/**
+ * Forget the last verification (on lock)
+ */
+export function clearVerification(): void {
+  lastVerifiedAt = null;
+}
+
+/**
+ * Check whether showing or copying a field needs a fresh verification
+ * @param policy - Reveal policy of the card's category
+ * @param field - Field about to be revealed or copied
+ * @returns boolean - True if the passphrase or PIN must be entered first
+ */
+export function requiresStepUp(policy: RevealPolicy, field: SensitiveField): boolean {
+  if (!policy.protectedFields.includes(field)) {
+    return false;
+  }
+  return lastVerifiedAt === null || Date.now() - lastVerifiedAt > policy.verificationWindow * 1000;
+}
+
+/**
+ * Verify the passphrase (and key file, if the vault requires one)
+ * @param keyring - Unlocked keyring
+ * @param passphrase - Passphrase entered by the user
+ * @param keyFileHash - SHA-256 of the key file, for vaults that require one
+ * @throws KeyFileError or Error if the passphrase does not open this vault
+ */
+export async function verifyWithPassphrase(
+  keyring: VaultKeyring,
+  passphrase: string,
+  keyFileHash?: Uint8Array
+): Promise<void> {
+  const verified = await unlockVault(passphrase, 'passphrase', keyFileHash);
+  if (verified.keyId !== keyring.keyId) {
+    throw new Error('Invalid passphrase');
+  }
+  recordVerification();
+}
+
+/**
+ * Verify the quick unlock PIN
+ * @param keyring - Unlocked keyring
+ * @param pin - PIN entered by the user
+ * @param accountId - Signed-in user's ID
+ * @throws PinAttemptError if the PIN is wrong
+ */
+export async function verifyWithPin(keyring: VaultKeyring, pin: string, accountId: string): Promise<void> {
+  const verified = await unlockWithPin(pin, accountId);
+  if (verified.keyId !== keyring.keyId) {
+    throw new Error('This PIN belongs to an older passphrase. Enter your passphrase.');
+  }
+  recordVerification();
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StorageConflictError, StorageProvider, findObject } from './storageProvider';
+import { createMemoryStorageProvider } from './memoryStorageProvider';
+import { DriveNotFoundError } from './driveRequest';
+
+// Providers report missing objects with the Drive error types; signing in is never needed here
+vi.mock('./auth', () => ({ getAccessToken: vi.fn(), refreshAccessToken: vi.fn() }));
+
+const streamOf = (...chunks: string[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+    controller.close();
+  },
+});
+
+/**
+ * The behaviour every storage provider must share, run against one provider
+ */
+function describeStorageProvider(name: string, create: () => Promise<StorageProvider>) {
+  describe(`${name}: put and get`, () => {
+    it('stores a Blob, a string and a stream', async () => {
+      const provider = await create();
+      const blob = await provider.put('cards', 'card_a.json', new Blob(['blob']));
+      const text = await provider.put('metadata', 'index.json', 'text');
+      const stream = await provider.put('cards', 'card_a_image.enc', streamOf('str', 'eam'));
+
+      expect(await (await provider.get(blob.id)).text()).toBe('blob');
+      expect(await (await provider.get(text.id)).text()).toBe('text');
+      expect(await new Response(await provider.getStream(stream.id)).text()).toBe('stream');
+    });
+
+    it('describes the stored object', async () => {
+      const provider = await create();
+      const stored = await provider.put('config', 'preferences.json', 'prefs', { mimeType: 'application/octet-stream' });
+
+      expect(stored).toMatchObject({ name: 'preferences.json', folder: 'config', mimeType: 'application/octet-stream', size: 5 });
+      expect(await provider.stat(stored.id)).toEqual(stored);
+    });
+
+    it('replaces contents in place when given an ID', async () => {
+      const provider = await create();
+      const first = await provider.put('cards', 'card_a.json', 'one');
+      const second = await provider.put('cards', 'card_a.json', 'two', { id: first.id });
+
+      expect(second.id).toBe(first.id);
+      expect(second.modifiedTime > first.modifiedTime).toBe(true);
+      expect(await (await provider.get(first.id)).text()).toBe('two');
+      expect(await provider.list('cards')).toHaveLength(1);
+    });
+
+    it('keeps the previous contents when a stream fails', async () => {
+      const provider = await create();
+      const stored = await provider.put('cards', 'card_a_image.enc', 'kept');
+      const failing = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('partial'));
+          controller.error(new Error('connection lost'));
+        },
+      });
+
+      await expect(provider.put('cards', 'card_a_image.enc', failing, { id: stored.id })).rejects.toThrow();
+      expect(await (await provider.get(stored.id)).text()).toBe('kept');
+    });
+
+    it('throws DriveNotFoundError for an unknown ID', async () => {
+      const provider = await create();
+      await expect(provider.get('missing')).rejects.toBeInstanceOf(DriveNotFoundError);
+      await expect(provider.stat('missing')).rejects.toBeInstanceOf(DriveNotFoundError);
+    });
+  });
+
+  describe(`${name}: list`, () => {
+    it('lists one folder, newest first', async () => {
+      const provider = await create();
+      const a = await provider.put('cards', 'card_a.json', 'a');
+      const b = await provider.put('cards', 'card_b.json', 'b');
+      await provider.put('metadata', 'index.json', 'index');
+
+      expect((await provider.list('cards')).map(object => object.id)).toEqual([b.id, a.id]);
+    });
+
+    it('filters by name prefix', async () => {
+      const provider = await create();
+      await provider.put('cards', 'card_a.json', 'a');
+      await provider.put('cards', 'card_a_image.enc', 'image');
+      await provider.put('cards', 'card_b.json', 'b');
+
+      expect((await provider.list('cards', 'card_a')).map(object => object.name).sort())
+        .toEqual(['card_a.json', 'card_a_image.enc']);
+    });
+
+    it('finds an object by its exact name only', async () => {
+      const provider = await create();
+      await provider.put('cards', 'card_a_image.enc', 'image');
+      const card = await provider.put('cards', 'card_a.json', 'a');
+
+      expect((await findObject(provider, 'cards', 'card_a.json'))?.id).toBe(card.id);
+      expect(await findObject(provider, 'cards', 'card_a')).toBeNull();
+    });
+  });
+
+  describe(`${name}: delete`, () => {
+    it('removes the object', async () => {
+      const provider = await create();
+      const stored = await provider.put('cards', 'card_a.json', 'a');
+      await provider.delete(stored.id);
+
+      expect(await provider.list('cards')).toEqual([]);
+      await expect(provider.get(stored.id)).rejects.toBeInstanceOf(DriveNotFoundError);
+    });
+
+    it('throws DriveNotFoundError when the object is already gone', async () => {
+      const provider = await create();
+      const stored = await provider.put('cards', 'card_a.json', 'a');
+      await provider.delete(stored.id);
+
+      await expect(provider.delete(stored.id)).rejects.toBeInstanceOf(DriveNotFoundError);
+    });
+  });
+
+  describe(`${name}: conditional writes`, () => {
+    it('replaces contents while the modified time still matches', async () => {
+      const provider = await create();
+      const stored = await provider.put('cards', 'card_a.json', 'one');
+      const updated = await provider.put('cards', 'card_a.json', 'two', { id: stored.id, ifModifiedTime: stored.modifiedTime });
+
+      expect(await (await provider.get(updated.id)).text()).toBe('two');
+    });
+
+    it('rejects a write based on an older version', async () => {
+      const provider = await create();
+      const stored = await provider.put('cards', 'card_a.json', 'one');
+      const theirs = await provider.put('cards', 'card_a.json', 'theirs', { id: stored.id });
+
+      const error = await provider
+        .put('cards', 'card_a.json', 'mine', { id: stored.id, ifModifiedTime: stored.modifiedTime })
+        .catch(error => error);
+      expect(error).toBeInstanceOf(StorageConflictError);
+      expect(error.current).toEqual(theirs);
+      expect(await (await provider.get(stored.id)).text()).toBe('theirs');
+    });
+
+    it('keeps every revision, oldest first', async () => {
+      const provider = await create();
+      const stored = await provider.put('cards', 'card_a.json', 'one');
+      await provider.put('cards', 'card_a.json', 'two', { id: stored.id, ifModifiedTime: stored.modifiedTime });
+
+      const revisions = await provider.listRevisions(stored.id);
+      expect(revisions).toHaveLength(2);
+      expect(await (await provider.getRevision(stored.id, revisions[0].id)).text()).toBe('one');
+      expect(await (await provider.getRevision(stored.id, revisions[1].id)).text()).toBe('two');
+    });
+  });
+}
+
+describeStorageProvider('memory provider', async () => createMemoryStorageProvider());
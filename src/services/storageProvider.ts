@@ -0,0 +1,155 @@
+/**
+ * Storage Provider
+ * The backend interface vault objects are stored through
+ *
+ * A vault is a handful of named objects in three folders: cards (card records,
+ * images and thumbnails), metadata (the card index and manifest) and config
+ * (preferences, KDF config, key slots and the rekey journal). Everything in it is
+ * encrypted or safe to store in the clear before it reaches a provider, so
+ * providers only move bytes.
+ *
+ * driveStorage.ts builds the vault on top of the active provider; Google Drive is
+ * the default and an in-memory provider serves demos and tests.
+ */
+
+import { createDriveStorageProvider } from './driveStorageProvider';
+
+export type StorageFolder = 'cards' | 'metadata' | 'config';
+
+export interface StoredObject {
+  id: string; // Provider-assigned, stable for the object's lifetime
+  name: string;
+  folder: StorageFolder;
+  mimeType: string;
+  size?: number;
+  modifiedTime: string; // ISO 8601
+}
+
+export interface StoredRevision {
+  id: string;
+  modifiedTime: string;
+  size?: number;
+}
+
+export interface StorageQuota {
+  usage: number; // Bytes used by the account (not only the vault)
+  limit: number; // Bytes available in total; 0 if unlimited
+}
+
+export interface StoredChange {
+  id: string;
+  removed: boolean; // Deleted or moved out of the vault
+  object?: StoredObject; // As it is now, unless removed
+}
+
+export interface StorageChanges {
+  changes: StoredChange[];
+  cursor: string; // Lists the changes made after these
+}
+
+export interface PutOptions {
+  id?: string; // Replace this object's contents instead of creating a new one
+  ifModifiedTime?: string; // Only replace them if the object still has this modified time
+  mimeType?: string;
+  description?: string;
+  size?: number; // Total size of a stream, if known (enables progress reporting)
+  onProgress?: (progress: number) => void; // 0-100
+}
+
+export interface StorageProvider {
+  readonly name: string;
+
+  /**
+   * Prepare the backend (create folders, check access); safe to call again
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Stable ID of the vault's location, for state remembered per vault on this device
+   */
+  getVaultId(): Promise<string>;
+
+  /**
+   * Create an object, or replace one's contents when options.id is set
+   * Streams are consumed chunk by chunk; a failed upload leaves the previous contents in place.
+   * @throws StorageConflictError if options.ifModifiedTime no longer matches
+   */
+  put(
+    folder: StorageFolder,
+    name: string,
+    content: Blob | string | ReadableStream<Uint8Array>,
+    options?: PutOptions
+  ): Promise<StoredObject>;
+
+  get(id: string): Promise<Blob>;
+  getStream(id: string): Promise<ReadableStream<Uint8Array>>;
+  stat(id: string): Promise<StoredObject>;
+
+  /**
+   * List a folder, optionally only names starting with a prefix
+   */
+  list(folder: StorageFolder, prefix?: string): Promise<StoredObject[]>;
+
+  delete(id: string): Promise<void>;
+
+  /**
+   * Earlier contents of an object, oldest first (the current contents included)
+   */
+  listRevisions(id: string): Promise<StoredRevision[]>;
+  getRevision(id: string, revisionId: string): Promise<Blob>;
+
+  /**
+   * Objects added, modified or removed since a cursor from an earlier call, once each
+   * Without a cursor, returns no changes and a cursor for the vault as it is now.
+   * Removals may name objects the caller never saw (or outside the vault).
+   */
+  listChanges(cursor?: string): Promise<StorageChanges>;
+
+  getQuota(): Promise<StorageQuota>;
+}
+
+/**
+ * Thrown when a write expected an object to be unchanged but another device
+ * modified it since it was read
+ */
+export class StorageConflictError extends Error {
+  readonly current: StoredObject;
+
+  constructor(current: StoredObject) {
+    super(`Conflict: ${current.name} was changed elsewhere since it was read`);
+    this.name = 'StorageConflictError';
+    this.current = current;
+  }
+}
+
+let activeProvider: StorageProvider | null = null;
+
+/**
+ * The provider vault objects are currently stored through (Google Drive by default)
+ */
+export function getStorageProvider(): StorageProvider {
+  if (!activeProvider) {
+    activeProvider = createDriveStorageProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Switch the storage backend (for example to the in-memory provider)
+ * Callers should lock the vault first; nothing is copied between providers.
+ */
+export function setStorageProvider(provider: StorageProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Find an object by exact name
+ */
+export async function findObject(
+  provider: StorageProvider,
+  folder: StorageFolder,
+  name: string
+): Promise<StoredObject | null> {
+  const objects = await provider.list(folder, name);
+  return objects.find(object => object.name === name) ?? null;
+}
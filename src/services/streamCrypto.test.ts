@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectBinding, VaultKeyring } from '../types';
+import { decryptStream, encryptStream, getEncryptedStreamSize, parseStreamHeader } from './streamCrypto';
+import { TamperError } from './crypto';
+
+// Small chunks keep multi-segment streams short; a segment is the chunk plus its 16-byte tag
+const CHUNK_SIZE = 16;
+const SEGMENT_SIZE = CHUNK_SIZE + 16;
+const binding: ObjectBinding = { type: 'image', id: 'card-1' };
+
+async function createKeyring(): Promise<VaultKeyring> {
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  return { keyId: 'key-1', dataKey };
+}
+
+const bytesOf = (length: number) => Uint8Array.from({ length }, (_, i) => i & 0xff);
+
+/**
+ * A stream yielding the given pieces, to vary where chunk boundaries fall
+ */
+function streamOf(...pieces: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(piece));
+      controller.close();
+    },
+  });
+}
+
+function join(...parts: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value);
+  }
+  return join(...chunks);
+}
+
+async function encryptBytes(plaintext: Uint8Array, keyring: VaultKeyring): Promise<Uint8Array> {
+  return collect(encryptStream(streamOf(plaintext), keyring, binding, CHUNK_SIZE));
+}
+
+/**
+ * Split an encrypted stream into its header and segments
+ */
+function splitSegments(encrypted: Uint8Array): { header: Uint8Array; segments: Uint8Array[] } {
+  const header = parseStreamHeader(encrypted)!.bytes;
+  const segments: Uint8Array[] = [];
+  for (let offset = header.length; offset < encrypted.length; offset += SEGMENT_SIZE) {
+    segments.push(encrypted.slice(offset, offset + SEGMENT_SIZE));
+  }
+  return { header, segments };
+}
+
+describe('encryptStream / decryptStream round trips', () => {
+  const cases: Array<[string, number]> = [
+    ['an empty plaintext', 0],
+    ['exactly one chunk', CHUNK_SIZE],
+    ['one byte over a chunk', CHUNK_SIZE + 1],
+    ['exactly three chunks', CHUNK_SIZE * 3],
+    ['a partial last chunk', CHUNK_SIZE * 3 + 5],
+  ];
+
+  for (const [name, length] of cases) {
+    it(`round-trips ${name}`, async () => {
+      const keyring = await createKeyring();
+      const plaintext = bytesOf(length);
+      const encrypted = await encryptBytes(plaintext, keyring);
+
+      expect(encrypted.length).toBe(getEncryptedStreamSize(length, keyring.keyId, CHUNK_SIZE));
+      expect(await collect(decryptStream(streamOf(encrypted), keyring, binding))).toEqual(plaintext);
+    });
+  }
+
+  it('writes one segment for an empty plaintext and for exactly one chunk', async () => {
+    const keyring = await createKeyring();
+
+    expect(splitSegments(await encryptBytes(bytesOf(0), keyring)).segments).toHaveLength(1);
+    expect(splitSegments(await encryptBytes(bytesOf(CHUNK_SIZE), keyring)).segments).toHaveLength(1);
+    expect(splitSegments(await encryptBytes(bytesOf(CHUNK_SIZE + 1), keyring)).segments).toHaveLength(2);
+  });
+
+  it('does not depend on how the input and ciphertext are split', async () => {
+    const keyring = await createKeyring();
+    const plaintext = bytesOf(CHUNK_SIZE * 2 + 3);
+    const encrypted = await collect(encryptStream(
+      streamOf(plaintext.slice(0, 1), plaintext.slice(1, 20), plaintext.slice(20)),
+      keyring,
+      binding,
+      CHUNK_SIZE
+    ));
+
+    const pieces = Array.from({ length: Math.ceil(encrypted.length / 7) }, (_, i) => encrypted.slice(i * 7, i * 7 + 7));
+    expect(await collect(decryptStream(streamOf(...pieces), keyring, binding))).toEqual(plaintext);
+  });
+});
+
+describe('decryptStream: altered streams', () => {
+  const threeSegments = async () => {
+    const keyring = await createKeyring();
+    return { keyring, ...splitSegments(await encryptBytes(bytesOf(CHUNK_SIZE * 2 + 4), keyring)) };
+  };
+
+  const decrypt = async (keyring: VaultKeyring, encrypted: Uint8Array, as: ObjectBinding = binding) =>
+    collect(decryptStream(streamOf(encrypted), keyring, as));
+
+  it('rejects reordered segments', async () => {
+    const { keyring, header, segments: [first, second, last] } = await threeSegments();
+    await expect(decrypt(keyring, join(header, second, first, last))).rejects.toBeInstanceOf(TamperError);
+  });
+
+  it('rejects a stream missing its final segment', async () => {
+    const { keyring, header, segments: [first, second] } = await threeSegments();
+    await expect(decrypt(keyring, join(header, first, second))).rejects.toBeInstanceOf(TamperError);
+  });
+
+  it('rejects a stream cut inside the header or a segment', async () => {
+    const { keyring, header, segments: [first] } = await threeSegments();
+
+    await expect(decrypt(keyring, header.slice(0, header.length - 1))).rejects.toThrow('Encrypted stream is truncated');
+    await expect(decrypt(keyring, header)).rejects.toThrow('Encrypted stream is truncated');
+    await expect(decrypt(keyring, join(header, first.slice(0, 20)))).rejects.toBeInstanceOf(TamperError);
+  });
+
+  it('rejects a duplicated segment', async () => {
+    const { keyring, header, segments: [first, second, last] } = await threeSegments();
+    await expect(decrypt(keyring, join(header, first, first, second, last))).rejects.toBeInstanceOf(TamperError);
+  });
+
+  it('rejects segments appended after the final one', async () => {
+    const { keyring, header, segments: [first, second, last] } = await threeSegments();
+    await expect(decrypt(keyring, join(header, first, second, last, last))).rejects.toBeInstanceOf(TamperError);
+  });
+
+  it('rejects a segment from another stream under the same key', async () => {
+    const { keyring, header, segments: [first, second, last] } = await threeSegments();
+    const other = splitSegments(await encryptBytes(bytesOf(CHUNK_SIZE * 2 + 4), keyring));
+
+    await expect(decrypt(keyring, join(header, first, other.segments[1], last))).rejects.toBeInstanceOf(TamperError);
+    expect(await decrypt(keyring, join(header, first, second, last))).toEqual(bytesOf(CHUNK_SIZE * 2 + 4));
+  });
+
+  it('rejects the stream as another object', async () => {
+    const { keyring, header, segments } = await threeSegments();
+    const encrypted = join(header, ...segments);
+
+    await expect(decrypt(keyring, encrypted, { type: 'image', id: 'card-2' })).rejects.toBeInstanceOf(TamperError);
+    await expect(decrypt(keyring, encrypted, { type: 'thumbnail', id: 'card-1' })).rejects.toBeInstanceOf(TamperError);
+  });
+
+  it('rejects a modified header', async () => {
+    const { keyring, header, segments } = await threeSegments();
+    const altered = header.slice();
+    altered[altered.length - 1] ^= 0x01; // Last nonce prefix byte
+
+    await expect(decrypt(keyring, join(altered, ...segments))).rejects.toBeInstanceOf(TamperError);
+  });
+
+  it('rejects a stream under another vault key', async () => {
+    const { header, segments } = await threeSegments();
+    const other = { ...(await createKeyring()), keyId: 'key-2' };
+
+    await expect(decrypt(other, join(header, ...segments))).rejects.toThrow('Data was encrypted with a different vault key');
+  });
+});
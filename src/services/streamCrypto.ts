@@ -0,0 +1,360 @@
+/**
+ * Chunked streaming encryption for large binary objects (images, attachments)
+ * Encrypts and decrypts as a stream so whole files never have to be held in memory
+ *
+ * Format (all integers big-endian):
+ *
+ *   offset  size  field
+ *   0       4     magic "SCST"
+ *   4       1     stream format version (2; version 1 streams are not identity-bound)
+ *   5       1     cipher id (1 = AES-256-GCM)
+ *   6       4     plaintext chunk size
+ *   10      1+n   key ID length, key ID (ASCII)
+ *           7     nonce prefix (random per object)
+ *           ...   segments: each chunk's ciphertext with appended 16-byte GCM tag
+ *
+ * SECURITY NOTES:
+ * - Each segment's nonce is prefix || u32 segment counter || final flag, so
+ *   segments cannot be reordered, dropped, or appended after the final one
+ * - A stream that ends without a segment flagged final fails to decrypt (truncation)
+ * - The header and the object's identity (type, card ID, format version) are
+ *   authenticated as additional data on every segment, so streams cannot be swapped
+ * - Only vault data keys are supported; passphrase-derived keys use the single-shot envelope
+ */
+
+import { ObjectBinding, VaultKeyring, VaultSecret } from '../types';
+import { generateSecureRandom, bindingToAssociatedData, assertBindingAllowed, TamperError, ENCRYPTION_CONSTANTS } from './crypto';
+
+const STREAM_MAGIC = [0x53, 0x43, 0x53, 0x54]; // "SCST"
+
+export const STREAM_FORMAT_VERSION = 2;
+
+// Streams written before identity binding
+const UNBOUND_STREAM_VERSION = 1;
+
+export const DEFAULT_STREAM_CHUNK_SIZE = 64 * 1024;
+
+const CIPHER_AES_256_GCM = 1;
+const NONCE_PREFIX_LENGTH = 7;
+const TAG_LENGTH = ENCRYPTION_CONSTANTS.TAG_LENGTH;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+const MAX_SEGMENTS = 0xffffffff;
+
+// Fixed header fields before the key ID bytes
+const FIXED_HEADER_LENGTH = STREAM_MAGIC.length + 1 + 1 + 4 + 1;
+
+/**
+ * Longest possible stream header, i.e. enough bytes to always parse one
+ */
+export const STREAM_HEADER_MAX_LENGTH = FIXED_HEADER_LENGTH + 255 + NONCE_PREFIX_LENGTH;
+
+export interface StreamHeader {
+  version: number;
+  keyId: string;
+  chunkSize: number;
+  noncePrefix: Uint8Array;
+  bytes: Uint8Array; // Raw header, authenticated with every segment
+}
+
+/**
+ * Check whether stored bytes start with the encrypted stream magic
+ */
+export function isEncryptedStream(bytes: Uint8Array): boolean {
+  return bytes.length >= STREAM_MAGIC.length && STREAM_MAGIC.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Parse the header at the start of an encrypted stream
+ * @param bytes - Leading bytes of the stream
+ * @returns StreamHeader | null - Parsed header, or null if more bytes are needed
+ * @throws Error if the header is malformed or uses an unknown version or cipher
+ */
+export function parseStreamHeader(bytes: Uint8Array): StreamHeader | null {
+  if (bytes.length < FIXED_HEADER_LENGTH) {
+    return null;
+  }
+  if (!isEncryptedStream(bytes)) {
+    throw new Error('Not an encrypted stream');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = STREAM_MAGIC.length;
+
+  const version = bytes[offset++];
+  if (version !== STREAM_FORMAT_VERSION && version !== UNBOUND_STREAM_VERSION) {
+    throw new Error(`Unsupported stream format version: ${version}`);
+  }
+
+  const cipherId = bytes[offset++];
+  if (cipherId !== CIPHER_AES_256_GCM) {
+    throw new Error(`Unsupported cipher id: ${cipherId}`);
+  }
+
+  const chunkSize = view.getUint32(offset);
+  offset += 4;
+  if (chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Invalid stream chunk size: ${chunkSize}`);
+  }
+
+  const keyIdLength = bytes[offset++];
+  const headerLength = offset + keyIdLength + NONCE_PREFIX_LENGTH;
+  if (bytes.length < headerLength) {
+    return null;
+  }
+
+  const keyId = new TextDecoder().decode(bytes.subarray(offset, offset + keyIdLength));
+  offset += keyIdLength;
+
+  return {
+    version,
+    keyId,
+    chunkSize,
+    noncePrefix: bytes.slice(offset, headerLength),
+    bytes: bytes.slice(0, headerLength),
+  };
+}
+
+/**
+ * Size of the encrypted stream for a plaintext of known size
+ * @param plaintextSize - Plaintext length in bytes
+ * @param keyId - Vault data key ID written to the header
+ * @param chunkSize - Plaintext chunk size
+ * @returns number - Encrypted length in bytes
+ */
+export function getEncryptedStreamSize(
+  plaintextSize: number,
+  keyId: string,
+  chunkSize: number = DEFAULT_STREAM_CHUNK_SIZE
+): number {
+  const segments = Math.max(1, Math.ceil(plaintextSize / chunkSize));
+  const headerLength = FIXED_HEADER_LENGTH + new TextEncoder().encode(keyId).length + NONCE_PREFIX_LENGTH;
+  return headerLength + plaintextSize + segments * TAG_LENGTH;
+}
+
+/**
+ * Encrypt a byte stream with the vault data key
+ * @param source - Plaintext stream
+ * @param keyring - Unlocked vault keyring
+ * @param binding - Identity the object is stored as
+ * @param chunkSize - Plaintext chunk size (default: 64 KiB)
+ * @returns ReadableStream<Uint8Array> - Encrypted stream (header followed by segments)
+ */
+export function encryptStream(
+  source: ReadableStream<Uint8Array>,
+  keyring: VaultKeyring,
+  binding: ObjectBinding,
+  chunkSize: number = DEFAULT_STREAM_CHUNK_SIZE
+): ReadableStream<Uint8Array> {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Invalid stream chunk size: ${chunkSize}`);
+  }
+
+  const header = encodeStreamHeader(keyring.keyId, chunkSize, generateSecureRandom(NONCE_PREFIX_LENGTH));
+  const additionalData = segmentAssociatedData(header, binding);
+  let pending = new Uint8Array(0);
+  let counter = 0;
+
+  const seal = async (chunk: Uint8Array, final: boolean) => {
+    const sealed = await sealSegment(keyring.dataKey, header, additionalData, counter, final, chunk);
+    counter++;
+    return sealed;
+  };
+
+  return source.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      controller.enqueue(header.bytes);
+    },
+    async transform(chunk, controller) {
+      pending = concatBytes(pending, chunk);
+
+      // Hold back the last chunk: only flush() knows which chunk is final
+      while (pending.length > chunkSize) {
+        controller.enqueue(await seal(pending.subarray(0, chunkSize), false));
+        pending = pending.subarray(chunkSize);
+      }
+    },
+    async flush(controller) {
+      controller.enqueue(await seal(pending, true));
+      pending = new Uint8Array(0);
+    },
+  }));
+}
+
+/**
+ * Decrypt an encrypted byte stream
+ * @param source - Encrypted stream
+ * @param secret - Vault keyring holding the key named in the stream header
+ * @param binding - Identity the object is expected to have (required for bound streams)
+ * @returns ReadableStream<Uint8Array> - Plaintext stream; errors with TamperError if any
+ *   segment of a bound stream fails authentication, or the stream is unbound in a vault
+ *   whose objects are all bound
+ */
+export function decryptStream(
+  source: ReadableStream<Uint8Array>,
+  secret: VaultSecret,
+  binding?: ObjectBinding
+): ReadableStream<Uint8Array> {
+  let header: StreamHeader | null = null;
+  let key: CryptoKey | null = null;
+  let additionalData: Uint8Array | null = null;
+  let pending = new Uint8Array(0);
+  let counter = 0;
+
+  const open = async (segment: Uint8Array, final: boolean) => {
+    const plaintext = await openSegment(key!, header!, additionalData!, counter, final, segment, binding);
+    counter++;
+    return plaintext;
+  };
+
+  return source.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      pending = concatBytes(pending, chunk);
+
+      if (!header) {
+        header = parseStreamHeader(pending);
+        if (!header) {
+          return;
+        }
+        key = resolveStreamKey(header.keyId, secret);
+        assertBindingAllowed(header.version !== UNBOUND_STREAM_VERSION, secret, binding);
+        if (header.version === UNBOUND_STREAM_VERSION) {
+          additionalData = header.bytes;
+        } else if (binding) {
+          additionalData = segmentAssociatedData(header, binding);
+        } else {
+          throw new Error('Encrypted stream is bound to an identity that was not supplied');
+        }
+        pending = pending.slice(header.bytes.length);
+      }
+
+      // Hold back the last segment: only flush() knows which segment is final
+      const segmentSize = header.chunkSize + TAG_LENGTH;
+      while (pending.length > segmentSize) {
+        controller.enqueue(await open(pending.subarray(0, segmentSize), false));
+        pending = pending.subarray(segmentSize);
+      }
+    },
+    async flush(controller) {
+      if (!header || pending.length < TAG_LENGTH) {
+        throw new Error('Encrypted stream is truncated');
+      }
+      controller.enqueue(await open(pending, true));
+      pending = new Uint8Array(0);
+    },
+  }));
+}
+
+/**
+ * Build a stream header
+ */
+function encodeStreamHeader(keyId: string, chunkSize: number, noncePrefix: Uint8Array): StreamHeader {
+  const keyIdBytes = new TextEncoder().encode(keyId);
+  if (keyIdBytes.length > 255) {
+    throw new Error('Stream key ID is too long');
+  }
+
+  const bytes = new Uint8Array(FIXED_HEADER_LENGTH + keyIdBytes.length + NONCE_PREFIX_LENGTH);
+  const view = new DataView(bytes.buffer);
+  bytes.set(STREAM_MAGIC, 0);
+  bytes[4] = STREAM_FORMAT_VERSION;
+  bytes[5] = CIPHER_AES_256_GCM;
+  view.setUint32(6, chunkSize);
+  bytes[10] = keyIdBytes.length;
+  bytes.set(keyIdBytes, FIXED_HEADER_LENGTH);
+  bytes.set(noncePrefix, FIXED_HEADER_LENGTH + keyIdBytes.length);
+
+  return { version: STREAM_FORMAT_VERSION, keyId, chunkSize, noncePrefix, bytes };
+}
+
+/**
+ * Associated data for every segment: the header followed by the object's identity
+ */
+function segmentAssociatedData(header: StreamHeader, binding: ObjectBinding): Uint8Array {
+  return concatBytes(header.bytes, bindingToAssociatedData(binding, header.version));
+}
+
+/**
+ * Nonce for one segment: prefix || u32 counter || final flag
+ */
+function segmentNonce(header: StreamHeader, counter: number, final: boolean): Uint8Array {
+  if (counter > MAX_SEGMENTS) {
+    throw new Error('Encrypted stream is too long');
+  }
+
+  const nonce = new Uint8Array(ENCRYPTION_CONSTANTS.IV_LENGTH);
+  nonce.set(header.noncePrefix, 0);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, counter);
+  nonce[NONCE_PREFIX_LENGTH + 4] = final ? 1 : 0;
+  return nonce;
+}
+
+async function sealSegment(
+  key: CryptoKey,
+  header: StreamHeader,
+  additionalData: Uint8Array,
+  counter: number,
+  final: boolean,
+  plaintext: Uint8Array
+): Promise<Uint8Array> {
+  const sealed = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: segmentNonce(header, counter, final),
+      additionalData,
+      tagLength: TAG_LENGTH * 8,
+    },
+    key,
+    plaintext
+  );
+  return new Uint8Array(sealed);
+}
+
+async function openSegment(
+  key: CryptoKey,
+  header: StreamHeader,
+  additionalData: Uint8Array,
+  counter: number,
+  final: boolean,
+  segment: Uint8Array,
+  binding?: ObjectBinding
+): Promise<Uint8Array> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: segmentNonce(header, counter, final),
+        additionalData,
+        tagLength: TAG_LENGTH * 8,
+      },
+      key,
+      segment
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    // The key ID already matched, so a failed segment means the stream was altered or swapped
+    if (binding && header.version !== UNBOUND_STREAM_VERSION) {
+      throw new TamperError(binding);
+    }
+    throw new Error(`Encrypted stream segment ${counter} failed authentication`);
+  }
+}
+
+/**
+ * Pick the vault data key named in a stream header
+ */
+function resolveStreamKey(keyId: string, secret: VaultSecret): CryptoKey {
+  if (typeof secret === 'string' || secret.keyId !== keyId) {
+    throw new Error('Data was encrypted with a different vault key');
+  }
+  return secret.dataKey;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) {
+    return b;
+  }
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a, 0);
+  joined.set(b, a.length);
+  return joined;
+}
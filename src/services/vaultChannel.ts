@@ -0,0 +1,64 @@
+/**
+ * Vault Channel
+ * Coordinates vault state between SecureCardr tabs of the same browser
+ *
+ * SECURITY NOTES:
+ * - Messages never carry keys or card data; a tab that needs the key reads the
+ *   wrapped session from IndexedDB (see vaultSession)
+ * - A lock, sign-out or vault deletion in any tab locks every other tab, as does
+ *   starting a passphrase change
+ */
+
+export type VaultMessage =
+  | { type: 'lock'; reason: string }
+  | { type: 'unlock'; keyId: string } // A session was stored, possibly under a new key
+  | { type: 'signed-out' }
+  | { type: 'vault-deleted' }
+  | { type: 'cards-changed' }
+  | { type: 'rekey' } // A passphrase change started; objects must not be written under the old key
+  | { type: 'activity' } // User input in another tab
+  | { type: 'visible' }; // Another unlocked tab is in the foreground
+
+type VaultMessageListener = (message: VaultMessage) => void;
+
+const CHANNEL_NAME = 'securecardr_vault';
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<VaultMessageListener>();
+
+/**
+ * Open the channel on first use; null where BroadcastChannel is unsupported
+ */
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<VaultMessage>) => {
+      listeners.forEach(listener => listener(event.data));
+    };
+  }
+  return channel;
+}
+
+/**
+ * Send a message to every other tab (not this one)
+ */
+export function broadcastVaultMessage(message: VaultMessage): void {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    console.error('Failed to broadcast vault message:', error);
+  }
+}
+
+/**
+ * Listen for messages from other tabs
+ * Listeners run in subscription order.
+ * @returns () => void - Unsubscribes the listener
+ */
+export function subscribeVaultMessages(listener: VaultMessageListener): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,460 @@
+/**
+ * Vault Key Management Service
+ * Implements envelope encryption: a random data key encrypts every vault object,
+ * and is only stored wrapped inside key slots (one per unlock secret)
+ *
+ * SECURITY NOTES:
+ * - The data key never leaves the browser unwrapped
+ * - Each slot wraps the data key with a key derived from its own secret and salt
+ * - Changing the passphrase or adding a recovery secret only rewrites keys.json
+ * - Passphrase slots may also require a key file; recovery slots never do
+ * - Once every object is bound to its identity, unbound objects are rejected as
+ *   tampered (an older file put back in place). keys.json is not authenticated, so
+ *   its flag can only turn the checks on; the encrypted manifest and this device
+ *   remember a bound vault, and clearing the flag never turns them off again
+ */
+
+import { KdfParams, KeySlot, VaultKeyFile, VaultKeyring } from '../types';
+import {
+  deriveKey,
+  encryptData,
+  decryptData,
+  generateSalt,
+  generateIV,
+  generateSecureRandom,
+  generateVaultKey,
+  exportVaultKey,
+  importVaultKey,
+  getActiveKdf,
+  requireBoundObjects,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+} from './crypto';
+import {
+  loadKeyFileFromDrive,
+  saveKeyFileToDrive,
+  loadPreferencesFromDrive,
+  listCardsFromDrive,
+  loadCardFromDrive,
+  listEncryptedObjects,
+  reencryptObjectInDrive,
+  loadBindingStateFromDrive,
+  recordVaultBoundInDrive,
+} from './driveStorage';
+import { keyFileCheck } from './keyFileFactor';
+
+const KEY_FILE_VERSION = 1;
+
+// Recovery keys: 160 random bits as RFC 4648 base32, shown in groups of four
+const RECOVERY_KEY_BYTES = 20;
+const RECOVERY_KEY_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const RECOVERY_KEY_GROUP = 4;
+
+/**
+ * Thrown when a slot needs a key file and none, or the wrong one, was given
+ * Kept distinct from a wrong passphrase so the unlock screen can say which factor failed
+ */
+export class KeyFileError extends Error {
+  constructor(public reason: 'missing' | 'wrong') {
+    super(reason === 'missing'
+      ? 'This vault also requires its key file'
+      : 'This is not the key file for this vault');
+    this.name = 'KeyFileError';
+  }
+}
+
+/**
+ * Generate a random identifier for keys and slots
+ */
+export function generateKeyId(): string {
+  return Array.from(generateSecureRandom(16), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate a high-entropy recovery key
+ * @returns string - Recovery key formatted as dash-separated groups (e.g. ABCD-EFGH-...)
+ */
+export function generateRecoveryKey(): string {
+  const bytes = generateSecureRandom(RECOVERY_KEY_BYTES);
+  let bits = 0;
+  let value = 0;
+  let encoded = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      encoded += RECOVERY_KEY_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  bytes.fill(0);
+
+  return encoded.match(new RegExp(`.{1,${RECOVERY_KEY_GROUP}}`, 'g'))!.join('-');
+}
+
+/**
+ * Normalize a typed or scanned recovery key to its canonical form
+ * @param input - Recovery key as entered (any case, spaces or dashes)
+ * @returns string | null - Canonical recovery key, or null if malformed
+ */
+export function normalizeRecoveryKey(input: string): string | null {
+  const compact = input.toUpperCase().replace(/[\s-]/g, '');
+  const expectedLength = Math.ceil((RECOVERY_KEY_BYTES * 8) / 5);
+
+  if (compact.length !== expectedLength || [...compact].some(c => !RECOVERY_KEY_ALPHABET.includes(c))) {
+    return null;
+  }
+
+  return compact.match(new RegExp(`.{1,${RECOVERY_KEY_GROUP}}`, 'g'))!.join('-');
+}
+
+/**
+ * Wrap the vault data key with a key derived from a secret
+ * @param dataKey - Vault data key (must be extractable)
+ * @param secret - Passphrase or recovery secret
+ * @param type - Slot type
+ * @param kdf - KDF parameters (default: the vault's active KDF)
+ * @param keyFileHash - SHA-256 of a key file the slot should also require
+ * @returns Promise<KeySlot> - New key slot
+ */
+export async function createKeySlot(
+  dataKey: CryptoKey,
+  secret: string,
+  type: KeySlot['type'],
+  kdf: KdfParams = getActiveKdf(),
+  keyFileHash?: Uint8Array
+): Promise<KeySlot> {
+  const salt = generateSalt();
+  const iv = generateIV();
+  const rawKey = await exportVaultKey(dataKey);
+
+  try {
+    const wrappingKey = await deriveKey(secret, salt, kdf, keyFileHash);
+    const wrapped = await encryptData(rawKey.buffer as ArrayBuffer, wrappingKey, iv);
+    const encodedSalt = arrayBufferToBase64(salt);
+
+    return {
+      id: generateKeyId(),
+      type,
+      kdf,
+      salt: encodedSalt,
+      iv: arrayBufferToBase64(iv),
+      wrappedKey: arrayBufferToBase64(wrapped),
+      keyFileCheck: keyFileHash ? await keyFileCheck(keyFileHash, encodedSalt) : undefined,
+      createdAt: new Date().toISOString(),
+    };
+  } finally {
+    rawKey.fill(0);
+  }
+}
+
+/**
+ * Unwrap the vault data key from a key slot
+ * A key file hash is ignored for slots that do not require one
+ * @throws KeyFileError if the slot's key file is missing or wrong
+ * @throws Error if the secret does not open this slot
+ */
+export async function openKeySlot(slot: KeySlot, secret: string, keyFileHash?: Uint8Array): Promise<CryptoKey> {
+  if (slot.keyFileCheck) {
+    if (!keyFileHash) {
+      throw new KeyFileError('missing');
+    }
+    if (await keyFileCheck(keyFileHash, slot.salt) !== slot.keyFileCheck) {
+      throw new KeyFileError('wrong');
+    }
+  }
+
+  const wrappingKey = await deriveKey(
+    secret,
+    new Uint8Array(base64ToArrayBuffer(slot.salt)),
+    slot.kdf,
+    slot.keyFileCheck ? keyFileHash : undefined
+  );
+  const rawKey = new Uint8Array(await decryptData(
+    base64ToArrayBuffer(slot.wrappedKey),
+    wrappingKey,
+    new Uint8Array(base64ToArrayBuffer(slot.iv))
+  ));
+
+  try {
+    // Extractable: an unlocked keyring can add key slots (recovery kit, quick unlock)
+    return await importVaultKey(rawKey, true);
+  } finally {
+    rawKey.fill(0);
+  }
+}
+
+/**
+ * Create a new vault data key protected by a passphrase slot
+ * @param passphrase - User's passphrase
+ * @param kdf - KDF parameters for the passphrase slot
+ * @param keyFileHash - SHA-256 of a key file to require alongside the passphrase
+ * @returns Promise<VaultKeyring> - Unlocked keyring
+ */
+export async function createVault(
+  passphrase: string,
+  kdf: KdfParams,
+  keyFileHash?: Uint8Array
+): Promise<VaultKeyring> {
+  const dataKey = await generateVaultKey(true);
+  const keyFile: VaultKeyFile = {
+    version: KEY_FILE_VERSION,
+    keyId: generateKeyId(),
+    keySlots: [await createKeySlot(dataKey, passphrase, 'passphrase', kdf, keyFileHash)],
+    boundObjects: true,
+  };
+
+  await saveKeyFileToDrive(keyFile);
+  const keyring = { keyId: keyFile.keyId, dataKey };
+  await enforceBinding(keyring);
+
+  return keyring;
+}
+
+/**
+ * Unlock the vault with a secret by trying each matching key slot
+ * Vaults that predate envelope encryption are given a data key on first unlock
+ * @param secret - Passphrase or recovery secret
+ * @param slotType - Which slots to try (default: passphrase)
+ * @param keyFileHash - SHA-256 of the key file, for vaults that require one
+ * @returns Promise<VaultKeyring> - Unlocked keyring
+ * @throws KeyFileError if every slot was rejected for its key file
+ * @throws Error if no slot opens with the secret
+ */
+export async function unlockVault(
+  secret: string,
+  slotType: KeySlot['type'] = 'passphrase',
+  keyFileHash?: Uint8Array
+): Promise<VaultKeyring> {
+  const keyFile = await loadKeyFileFromDrive();
+
+  if (!keyFile) {
+    if (slotType !== 'passphrase') {
+      throw new Error('This vault has no recovery key');
+    }
+    return upgradeLegacyVault(secret);
+  }
+
+  let keyFileError: KeyFileError | null = null;
+  let secretRejected = false;
+
+  for (const slot of keyFile.keySlots.filter(s => s.type === slotType)) {
+    try {
+      const dataKey = await openKeySlot(slot, secret, keyFileHash);
+      if (keyFile.boundObjects) {
+        requireBoundObjects(keyFile.keyId);
+      }
+      return {
+        keyId: keyFile.keyId,
+        dataKey,
+        // Legacy objects can still only be read with the passphrase itself
+        passphrase: keyFile.legacyData && slotType === 'passphrase' ? secret : undefined,
+      };
+    } catch (error) {
+      // Wrong secret or key file for this slot, try the next one
+      if (error instanceof KeyFileError) {
+        keyFileError = error;
+      } else {
+        secretRejected = true;
+      }
+    }
+  }
+
+  if (keyFileError && !secretRejected) {
+    throw keyFileError;
+  }
+  throw new Error(slotType === 'passphrase' ? 'Invalid passphrase' : 'Invalid recovery key');
+}
+
+/**
+ * Give a pre-envelope vault a data key once the passphrase is verified
+ * Existing objects stay passphrase-encrypted; new writes use the data key
+ */
+async function upgradeLegacyVault(passphrase: string): Promise<VaultKeyring> {
+  // Verify the passphrase against existing data before writing any key slot
+  const preferences = await loadPreferencesFromDrive(passphrase);
+  if (preferences === null) {
+    const cards = await listCardsFromDrive();
+    if (cards.length > 0) {
+      await loadCardFromDrive(cards[0].fileId, passphrase, cards[0].id);
+    }
+  }
+
+  const dataKey = await generateVaultKey(true);
+  const keyFile: VaultKeyFile = {
+    version: KEY_FILE_VERSION,
+    keyId: generateKeyId(),
+    keySlots: [await createKeySlot(dataKey, passphrase, 'passphrase')],
+    legacyData: true,
+  };
+
+  await saveKeyFileToDrive(keyFile);
+
+  return { keyId: keyFile.keyId, dataKey, passphrase };
+}
+
+/**
+ * Apply the vault's binding policy to an unlocked keyring
+ * Needed however the keyring was obtained (passphrase, session, quick unlock).
+ * @param keyring - Unlocked keyring
+ * @returns Promise<boolean> - True if legacy or unbound objects remain, so
+ * migrateLegacyData should run
+ */
+export async function applyBindingPolicy(keyring: VaultKeyring): Promise<boolean> {
+  const keyFile = await requireKeyFile(keyring);
+
+  // A bound vault never goes back: without the flag, ask the manifest and this device
+  if (!keyFile.boundObjects && !(await loadBindingStateFromDrive(keyring))) {
+    return true;
+  }
+
+  await enforceBinding(keyring);
+  if (!keyFile.boundObjects) {
+    // Someone cleared the flag; put it back for devices that have not seen the vault
+    await saveKeyFileToDrive({ ...keyFile, legacyData: false, boundObjects: true });
+  }
+  return false;
+}
+
+/**
+ * Re-encrypt legacy passphrase-encrypted and unbound objects under the vault data
+ * key, bound to their identity
+ * Afterwards an unlock derives one key (for the passphrase slot) instead of one per
+ * object, and unbound objects are rejected from then on. Does nothing for a vault
+ * that was already bound, so unbound files put back into it are never adopted.
+ * @param keyring - Keyring (holding the passphrase if legacy objects remain)
+ * @returns Promise<VaultKeyring> - Keyring without the passphrase
+ */
+export async function migrateLegacyData(keyring: VaultKeyring): Promise<VaultKeyring> {
+  const target: VaultKeyring = { keyId: keyring.keyId, dataKey: keyring.dataKey };
+
+  const current = await requireKeyFile(keyring);
+  if (current.boundObjects || await loadBindingStateFromDrive(target)) {
+    return target;
+  }
+
+  // Objects already bound under the data key are skipped
+  for (const object of await listEncryptedObjects()) {
+    await reencryptObjectInDrive(object.fileId, object.name, keyring, target);
+  }
+
+  const keyFile = await requireKeyFile(keyring);
+  await saveKeyFileToDrive({ ...keyFile, legacyData: false, boundObjects: true });
+  await enforceBinding(target);
+
+  return target;
+}
+
+/**
+ * Refuse unbound objects for a keyring from now on, and record that the vault is bound
+ * where keys.json cannot undo it
+ */
+export async function enforceBinding(keyring: VaultKeyring): Promise<void> {
+  requireBoundObjects(keyring.keyId);
+  try {
+    await recordVaultBoundInDrive(keyring);
+  } catch (error) {
+    // keys.json and this device still hold it; the manifest is marked on its next write
+    console.error('Failed to record vault binding in the manifest:', error);
+  }
+}
+
+/**
+ * Add a key slot for another secret (e.g. a recovery key)
+ * @param keyring - Unlocked keyring
+ * @param secret - Secret for the new slot
+ * @param type - Slot type
+ * @returns Promise<KeySlot> - The slot that was added
+ */
+export async function addKeySlot(
+  keyring: VaultKeyring,
+  secret: string,
+  type: KeySlot['type']
+): Promise<KeySlot> {
+  const keyFile = await requireKeyFile(keyring);
+  const slot = await createKeySlot(keyring.dataKey, secret, type);
+
+  await saveKeyFileToDrive({ ...keyFile, keySlots: [...keyFile.keySlots, slot] });
+
+  return slot;
+}
+
+/**
+ * Generate a new recovery key and replace any existing recovery slots with it
+ * @param keyring - Unlocked keyring
+ * @returns Promise<string> - The new recovery key (shown to the user once)
+ */
+export async function createRecoveryKey(keyring: VaultKeyring): Promise<string> {
+  const keyFile = await requireKeyFile(keyring);
+  const recoveryKey = generateRecoveryKey();
+  const slot = await createKeySlot(keyring.dataKey, recoveryKey, 'recovery');
+
+  await saveKeyFileToDrive({
+    ...keyFile,
+    keySlots: [...keyFile.keySlots.filter(s => s.type !== 'recovery'), slot],
+  });
+
+  return recoveryKey;
+}
+
+/**
+ * Remove a key slot
+ * The last passphrase slot can never be removed
+ */
+export async function removeKeySlot(keyring: VaultKeyring, slotId: string): Promise<void> {
+  const keyFile = await requireKeyFile(keyring);
+  const remaining = keyFile.keySlots.filter(s => s.id !== slotId);
+
+  if (!remaining.some(s => s.type === 'passphrase')) {
+    throw new Error('Cannot remove the last passphrase slot');
+  }
+
+  await saveKeyFileToDrive({ ...keyFile, keySlots: remaining });
+}
+
+/**
+ * Replace the passphrase slot(s) with one for a new passphrase
+ * Only keys.json is rewritten; vault objects are untouched. Without a key file hash
+ * the new slot no longer requires a key file (e.g. after recovering from a lost one).
+ * @param keyring - Unlocked keyring
+ * @param newPassphrase - New passphrase
+ * @param keyFileHash - SHA-256 of a key file the new slot should require
+ */
+export async function rewrapPassphrase(
+  keyring: VaultKeyring,
+  newPassphrase: string,
+  keyFileHash?: Uint8Array
+): Promise<void> {
+  const keyFile = await requireKeyFile(keyring);
+
+  if (keyFile.legacyData) {
+    throw new Error('Legacy passphrase-encrypted data must be re-encrypted before changing the passphrase');
+  }
+
+  const slot = await createKeySlot(keyring.dataKey, newPassphrase, 'passphrase', getActiveKdf(), keyFileHash);
+  await saveKeyFileToDrive({
+    ...keyFile,
+    keySlots: [...keyFile.keySlots.filter(s => s.type !== 'passphrase'), slot],
+  });
+}
+
+/**
+ * Check whether unlocking with the passphrase also needs a key file
+ * @returns Promise<boolean> - True if any passphrase slot requires one
+ */
+export async function vaultRequiresKeyFile(): Promise<boolean> {
+  const keyFile = await loadKeyFileFromDrive();
+  return !!keyFile?.keySlots.some(s => s.type === 'passphrase' && s.keyFileCheck);
+}
+
+/**
+ * Load the key file and check it belongs to the unlocked keyring
+ */
+async function requireKeyFile(keyring: VaultKeyring): Promise<VaultKeyFile> {
+  const keyFile = await loadKeyFileFromDrive();
+  if (!keyFile || keyFile.keyId !== keyring.keyId) {
+    throw new Error('Vault key file is missing or belongs to a different key');
+  }
+  return keyFile;
+}
@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ManifestEntry, VaultKeyring, VaultManifest } from '../types';
+import {
+  compareManifest,
+  createManifest,
+  getSeenManifestSequence,
+  mergeManifests,
+  recordManifestEntry,
+  rememberManifestSequence,
+} from './vaultManifest';
+import { StorageProvider, setStorageProvider } from './storageProvider';
+import { createMemoryStorageProvider } from './memoryStorageProvider';
+import { acceptVaultStateInDrive, verifyVaultManifestInDrive } from './driveStorage';
+
+// Drive storage is only used through the memory provider here
+vi.mock('./auth', () => ({ getAccessToken: vi.fn(), refreshAccessToken: vi.fn() }));
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+const entry = (id: string, version: number, hash: string, updatedAt = '2024-01-01T00:00:00.000Z'): ManifestEntry =>
+  ({ id, version, hash, updatedAt });
+
+function manifestOf(sequence: number, ...entries: ManifestEntry[]): VaultManifest {
+  return { ...createManifest(), sequence, entries: Object.fromEntries(entries.map(e => [e.id, e])) };
+}
+
+describe('recordManifestEntry', () => {
+  it('bumps the version on every write', () => {
+    const manifest = createManifest();
+    recordManifestEntry(manifest, 'a', 'h1', 'img1');
+    recordManifestEntry(manifest, 'a', 'h2');
+
+    expect(manifest.entries.a).toMatchObject({ version: 2, hash: 'h2', imageHash: 'img1' });
+  });
+
+  it('clears the image hash when given null', () => {
+    const manifest = createManifest();
+    recordManifestEntry(manifest, 'a', 'h1', 'img1');
+    recordManifestEntry(manifest, 'a', 'h1', null);
+
+    expect(manifest.entries.a.imageHash).toBeUndefined();
+  });
+});
+
+describe('compareManifest', () => {
+  const manifest = manifestOf(5, entry('a', 1, 'ha'), { ...entry('b', 2, 'hb'), imageHash: 'ib' }, entry('c', 1, 'hc'));
+
+  it('matches the cards it lists', () => {
+    const loaded = [{ id: 'a', hash: 'ha' }, { id: 'b', hash: 'hb', imageHash: 'ib' }, { id: 'c', hash: 'hc' }];
+    expect(compareManifest(manifest, ['a', 'b', 'c'], loaded)).toEqual({ missing: [], extra: [], rolledBack: [] });
+  });
+
+  it('reports missing and extra cards', () => {
+    const loaded = [{ id: 'a', hash: 'ha' }, { id: 'b', hash: 'hb' }, { id: 'd', hash: 'hd' }];
+    expect(compareManifest(manifest, ['a', 'b', 'd'], loaded)).toEqual({ missing: ['c'], extra: ['d'], rolledBack: [] });
+  });
+
+  it('reports cards whose content or image differs as rolled back', () => {
+    const loaded = [{ id: 'a', hash: 'old' }, { id: 'b', hash: 'hb', imageHash: 'old' }, { id: 'c', hash: 'hc' }];
+    expect(compareManifest(manifest, ['a', 'b', 'c'], loaded).rolledBack).toEqual(['a', 'b']);
+  });
+
+  it('does not compare an image that failed to load', () => {
+    expect(compareManifest(manifest, ['b'], [{ id: 'b', hash: 'hb' }]).rolledBack).toEqual([]);
+  });
+});
+
+describe('mergeManifests', () => {
+  it('keeps the higher version of each card, sequenced past both', () => {
+    const mine = manifestOf(7, entry('a', 3, 'mine-a'), entry('b', 1, 'mine-b'));
+    const theirs = manifestOf(9, entry('a', 2, 'theirs-a'), entry('b', 2, 'theirs-b'));
+    const merged = mergeManifests(mine, theirs, ['a', 'b']);
+
+    expect(merged.sequence).toBe(10);
+    expect(merged.entries.a.hash).toBe('mine-a');
+    expect(merged.entries.b.hash).toBe('theirs-b');
+  });
+
+  it('breaks a version tie by the later write', () => {
+    const mine = manifestOf(1, entry('a', 2, 'mine', '2024-01-01T00:00:00.000Z'));
+    const theirs = manifestOf(1, entry('a', 2, 'theirs', '2024-01-02T00:00:00.000Z'));
+
+    expect(mergeManifests(mine, theirs, ['a']).entries.a.hash).toBe('theirs');
+    expect(mergeManifests(theirs, mine, ['a']).entries.a.hash).toBe('theirs');
+  });
+
+  it('keeps cards added on either side and drops deleted ones', () => {
+    const mine = manifestOf(4, entry('a', 1, 'ha'), entry('deleted', 1, 'hd'));
+    const theirs = manifestOf(4, entry('added', 1, 'hn'));
+
+    expect(Object.keys(mergeManifests(mine, theirs, ['a', 'added']).entries).sort()).toEqual(['a', 'added']);
+  });
+
+  it('keeps the vault bound if either side was', () => {
+    const mine = manifestOf(1);
+    const theirs = { ...manifestOf(1), boundObjects: true };
+
+    expect(mergeManifests(mine, theirs, []).boundObjects).toBe(true);
+    expect(mergeManifests(mine, mine, []).boundObjects).toBeUndefined();
+  });
+});
+
+describe('remembered manifest sequence', () => {
+  it('starts with no local state', () => {
+    expect(getSeenManifestSequence('vault')).toBeNull();
+  });
+
+  it('only ever moves forward', () => {
+    rememberManifestSequence('vault', 5);
+    rememberManifestSequence('vault', 3);
+
+    expect(getSeenManifestSequence('vault')).toBe(5);
+  });
+
+  it('ignores a stored value that is not a sequence', () => {
+    localStorage.setItem('securecardr_manifest_sequence_vault', 'garbage');
+    expect(getSeenManifestSequence('vault')).toBeNull();
+  });
+});
+
+describe('verifyVaultManifestInDrive', () => {
+  let provider: StorageProvider;
+  let keyring: VaultKeyring;
+  const cards = [{ id: 'a', hash: 'ha' }];
+  const seenSequence = async () => getSeenManifestSequence(await provider.getVaultId());
+
+  beforeEach(async () => {
+    provider = createMemoryStorageProvider();
+    setStorageProvider(provider);
+    keyring = {
+      keyId: 'key-1',
+      dataKey: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+    };
+  });
+
+  /**
+   * Put the manifest back to its first stored version, as restoring an old backup would
+   */
+  async function restoreFirstManifest(): Promise<void> {
+    const [manifest] = await provider.list('metadata', 'manifest.json');
+    const [first] = await provider.listRevisions(manifest.id);
+    await provider.put('metadata', 'manifest.json', await provider.getRevision(manifest.id, first.id), { id: manifest.id });
+  }
+
+  it('builds a manifest for a vault without one', async () => {
+    const report = await verifyVaultManifestInDrive(keyring, ['a'], cards);
+
+    expect(report.status).toBe('created');
+    expect((await verifyVaultManifestInDrive(keyring, ['a'], cards)).status).toBe('verified');
+  });
+
+  it('verifies a manifest this device has no record of', async () => {
+    await acceptVaultStateInDrive(keyring, cards);
+    localStorage.removeItem('securecardr_manifest_sequence_' + await provider.getVaultId());
+
+    const report = await verifyVaultManifestInDrive(keyring, ['a'], cards);
+    expect(report).toEqual({ status: 'verified', missing: [], extra: [], rolledBack: [] });
+    expect(await seenSequence()).toBe(1);
+  });
+
+  it('reports a manifest with a lower sequence than seen as rolled back', async () => {
+    await acceptVaultStateInDrive(keyring, cards);
+    await acceptVaultStateInDrive(keyring, [{ id: 'a', hash: 'ha2' }]);
+    await restoreFirstManifest();
+
+    const report = await verifyVaultManifestInDrive(keyring, ['a'], [{ id: 'a', hash: 'ha2' }]);
+    expect(report.status).toBe('rolled-back');
+    expect(await seenSequence()).toBe(2);
+  });
+
+  it('reports cards that differ from a manifest at the seen sequence', async () => {
+    await acceptVaultStateInDrive(keyring, cards);
+
+    const report = await verifyVaultManifestInDrive(keyring, ['a'], [{ id: 'a', hash: 'older' }]);
+    expect(report).toEqual({ status: 'verified', missing: [], extra: [], rolledBack: ['a'] });
+  });
+
+  it('reports a manifest deleted after it was seen as missing', async () => {
+    await acceptVaultStateInDrive(keyring, cards);
+    const [manifest] = await provider.list('metadata', 'manifest.json');
+    await provider.delete(manifest.id);
+
+    expect((await verifyVaultManifestInDrive(keyring, ['a'], cards)).status).toBe('missing');
+  });
+});
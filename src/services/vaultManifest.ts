@@ -0,0 +1,208 @@
+/**
+ * Vault Manifest
+ * An encrypted list of every card with a content hash and version, used to detect
+ * cards that were deleted, added or rolled back outside the app
+ *
+ * SECURITY NOTES:
+ * - The manifest is stored AES-GCM encrypted and bound to its identity, so it
+ *   cannot be forged or swapped without the vault key
+ * - Hashes cover plaintext content, so re-keying the vault leaves them valid
+ * - The highest manifest sequence seen is remembered on this device, so restoring
+ *   an older manifest together with older cards is still reported
+ * - The manifest also records that the vault's objects are all bound to their
+ *   identity (keys.json is not authenticated); this device remembers it too
+ */
+
+import { createSHA256 } from 'hash-wasm';
+import { Card, ManifestEntry, VaultManifest } from '../types';
+import { serializeCard } from './cardCrypto';
+
+export const MANIFEST_VERSION = 1;
+
+const SEQUENCE_KEY_PREFIX = 'securecardr_manifest_sequence_';
+const BOUND_KEY_PREFIX = 'securecardr_vault_bound_';
+
+export interface ManifestReport {
+  // verified: manifest matched; created: first unlock with a manifest;
+  // missing: the manifest was deleted; rolled-back: an older manifest was restored;
+  // unreadable: the manifest failed to decrypt
+  status: 'verified' | 'created' | 'missing' | 'rolled-back' | 'unreadable';
+  missing: string[]; // Card IDs in the manifest but not on Drive
+  extra: string[]; // Card IDs on Drive but not in the manifest
+  rolledBack: string[]; // Card IDs whose content differs from the manifest
+}
+
+/**
+ * Create an empty manifest
+ */
+export function createManifest(): VaultManifest {
+  return {
+    version: MANIFEST_VERSION,
+    sequence: 0,
+    updatedAt: new Date().toISOString(),
+    entries: {},
+  };
+}
+
+/**
+ * Record a write of one card, bumping its version
+ * @param manifest - Manifest to update in place
+ * @param id - Card ID
+ * @param hash - Hash of the card content (see hashCardContent)
+ * @param imageHash - Hash of the card image; undefined keeps the recorded one, null clears it
+ */
+export function recordManifestEntry(
+  manifest: VaultManifest,
+  id: string,
+  hash: string,
+  imageHash?: string | null
+): void {
+  const previous: ManifestEntry | undefined = manifest.entries[id];
+
+  manifest.entries[id] = {
+    id,
+    version: (previous?.version ?? 0) + 1,
+    hash,
+    imageHash: imageHash === undefined ? previous?.imageHash : imageHash ?? undefined,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Remove a deleted card from the manifest
+ */
+export function removeManifestEntry(manifest: VaultManifest, id: string): void {
+  delete manifest.entries[id];
+}
+
+/**
+ * Merge two manifests written from the same one by different devices
+ * The higher version of each entry wins. A card only one side has was either added
+ * there or deleted on the other, so entries are kept only for cards still stored.
+ * @param mine - This device's manifest
+ * @param theirs - The other device's manifest
+ * @param storedIds - IDs of every card file currently stored
+ * @returns VaultManifest - Merged manifest, sequenced past both
+ */
+export function mergeManifests(mine: VaultManifest, theirs: VaultManifest, storedIds: string[]): VaultManifest {
+  const merged = createManifest();
+  merged.sequence = Math.max(mine.sequence, theirs.sequence) + 1;
+  if (mine.boundObjects || theirs.boundObjects) {
+    merged.boundObjects = true;
+  }
+
+  for (const id of storedIds) {
+    const own = mine.entries[id];
+    const other = theirs.entries[id];
+    const newer = !own || (other && (other.version > own.version ||
+      (other.version === own.version && other.updatedAt > own.updatedAt))) ? other : own;
+    if (newer) {
+      merged.entries[id] = newer;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Compare the manifest with what is actually on Drive
+ * @param manifest - Verified manifest
+ * @param listedIds - IDs of every card file found on Drive
+ * @param loaded - Cards that decrypted, with their content hashes
+ * @returns Lists of missing, extra and rolled-back card IDs
+ */
+export function compareManifest(
+  manifest: VaultManifest,
+  listedIds: string[],
+  loaded: Array<{ id: string; hash: string; imageHash?: string }>
+): Pick<ManifestReport, 'missing' | 'extra' | 'rolledBack'> {
+  const listed = new Set(listedIds);
+
+  const missing = Object.keys(manifest.entries).filter(id => !listed.has(id));
+  const extra = listedIds.filter(id => !manifest.entries[id]);
+  const rolledBack = loaded
+    .filter(({ id, hash, imageHash }) => {
+      const entry = manifest.entries[id];
+      if (!entry) {
+        return false;
+      }
+      return entry.hash !== hash ||
+        (entry.imageHash !== undefined && imageHash !== undefined && entry.imageHash !== imageHash);
+    })
+    .map(({ id }) => id);
+
+  return { missing, extra, rolledBack };
+}
+
+/**
+ * Hash a card's content as stored
+ * @param card - Card as written to (or read from) Drive
+ * @returns Promise<string> - SHA-256 (hex)
+ */
+export async function hashCardContent(card: Card): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(serializeCard(card)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash a blob without reading it into memory at once
+ * @param blob - Blob to hash (e.g. an image)
+ * @returns Promise<string> - SHA-256 (hex)
+ */
+export async function hashBlob(blob: Blob): Promise<string> {
+  const hasher = await createSHA256();
+  hasher.init();
+
+  const reader = blob.stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    hasher.update(value);
+  }
+
+  return hasher.digest('hex');
+}
+
+/**
+ * Highest manifest sequence seen on this device, or null if never seen
+ * @param vaultId - Stable identifier of the vault (its metadata folder ID)
+ */
+export function getSeenManifestSequence(vaultId: string): number | null {
+  const stored = localStorage.getItem(SEQUENCE_KEY_PREFIX + vaultId);
+  const sequence = stored === null ? NaN : Number(stored);
+  return Number.isInteger(sequence) ? sequence : null;
+}
+
+/**
+ * Remember a manifest sequence, keeping the highest one seen
+ */
+export function rememberManifestSequence(vaultId: string, sequence: number): void {
+  const seen = getSeenManifestSequence(vaultId);
+  if (seen === null || sequence > seen) {
+    localStorage.setItem(SEQUENCE_KEY_PREFIX + vaultId, String(sequence));
+  }
+}
+
+/**
+ * Whether this device has seen the vault with every object bound
+ */
+export function isVaultRememberedBound(vaultId: string): boolean {
+  return localStorage.getItem(BOUND_KEY_PREFIX + vaultId) !== null;
+}
+
+/**
+ * Remember that the vault's objects are all bound; there is no way back
+ */
+export function rememberVaultBound(vaultId: string): void {
+  localStorage.setItem(BOUND_KEY_PREFIX + vaultId, '1');
+}
+
+/**
+ * Forget the remembered sequence and binding state (the vault was deleted)
+ */
+export function forgetManifestSequence(vaultId: string): void {
+  localStorage.removeItem(SEQUENCE_KEY_PREFIX + vaultId);
+  localStorage.removeItem(BOUND_KEY_PREFIX + vaultId);
+}
@@ -0,0 +1,339 @@
+/**
+ * Vault Re-key Service
+ * Changes the vault passphrase by re-encrypting every object under a fresh data key
+ *
+ * SECURITY NOTES:
+ * - A journal in the config folder records each run, so an interrupted run can be
+ *   resumed or rolled back instead of leaving objects under two different keys
+ * - The new data key is only stored in the journal encrypted with the old data key
+ * - keys.json switches to the new key only after every object has been re-encrypted,
+ *   including objects written or changed since the run listed the vault
+ * - While a journal exists, vault writes are refused and other tabs are locked, so
+ *   nothing new is written under the old key
+ * - Every encrypted object records its key ID, so each step is safe to repeat
+ */
+
+import { RekeyJournal, VaultKeyring } from '../types';
+import {
+  encrypt,
+  decrypt,
+  generateVaultKey,
+  exportVaultKey,
+  importVaultKey,
+  getActiveKdf,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+} from './crypto';
+import { encodeEnvelope, decodeEnvelope } from './envelope';
+import {
+  saveKeyFileToDrive,
+  saveRekeyJournalToDrive,
+  loadRekeyJournalFromDrive,
+  deleteRekeyJournalFromDrive,
+  listEncryptedObjects,
+  reencryptObjectInDrive,
+} from './driveStorage';
+import { createKeySlot, enforceBinding, generateKeyId, unlockVault } from './vaultKeys';
+import { broadcastVaultMessage } from './vaultChannel';
+import { DriveNotFoundError } from './driveRequest';
+
+const JOURNAL_VERSION = 1;
+const KEY_FILE_VERSION = 1;
+
+// How many objects to re-encrypt between journal saves
+const JOURNAL_SAVE_INTERVAL = 10;
+
+// How many times the vault is listed again for objects the run has not covered
+// before giving up (the run stays resumable)
+const MAX_CATCH_UP_PASSES = 5;
+
+export interface RekeyProgress {
+  phase: 'reencrypting' | 'rolling-back' | 'committing';
+  completed: number;
+  total: number;
+}
+
+/**
+ * Change the vault passphrase
+ * Every object is re-encrypted under a new data key protected by the new passphrase.
+ * Recovery key slots wrap the old data key and are dropped.
+ * @param currentPassphrase - Current passphrase
+ * @param newPassphrase - New passphrase
+ * @param onProgress - Optional progress callback
+ * @param keyFileHash - SHA-256 of the vault's key file; the new passphrase keeps requiring it
+ * @returns Promise<VaultKeyring> - Keyring for the new data key
+ */
+export async function changePassphrase(
+  currentPassphrase: string,
+  newPassphrase: string,
+  onProgress?: (progress: RekeyProgress) => void,
+  keyFileHash?: Uint8Array
+): Promise<VaultKeyring> {
+  try {
+    if (await loadRekeyJournalFromDrive()) {
+      throw new Error('A previous passphrase change has not finished');
+    }
+
+    const oldKeyring = await unlockVault(currentPassphrase, 'passphrase', keyFileHash);
+    const newKeyring: VaultKeyring = {
+      keyId: generateKeyId(),
+      dataKey: await generateVaultKey(true),
+    };
+
+    const rawNewKey = await exportVaultKey(newKeyring.dataKey);
+    let newKey: string;
+    try {
+      const encryptedKey = await encrypt(rawNewKey.buffer as ArrayBuffer, oldKeyring);
+      newKey = arrayBufferToBase64(encodeEnvelope(encryptedKey).buffer as ArrayBuffer);
+    } finally {
+      rawNewKey.fill(0);
+    }
+
+    // Other tabs stop writing before the vault is listed
+    broadcastVaultMessage({ type: 'rekey' });
+
+    const now = new Date().toISOString();
+    const journal: RekeyJournal = {
+      version: JOURNAL_VERSION,
+      state: 'in-progress',
+      oldKeyId: oldKeyring.keyId,
+      newKeyId: newKeyring.keyId,
+      newKey,
+      newSlot: await createKeySlot(newKeyring.dataKey, newPassphrase, 'passphrase', getActiveKdf(), keyFileHash),
+      objects: (await listEncryptedObjects()).map(object => ({ ...object, done: false })),
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    await saveRekeyJournalToDrive(journal);
+
+    return await completeRekey(journal, oldKeyring, newKeyring, onProgress);
+  } catch (error) {
+    throw new Error(`Passphrase change failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Find an unfinished passphrase change for the unlocked vault
+ * A journal left behind after keys.json was switched is cleaned up here.
+ * @param keyring - Keyring the vault was unlocked with
+ * @returns Promise<RekeyJournal | null> - Pending journal, or null if none
+ */
+export async function getPendingRekey(keyring: VaultKeyring): Promise<RekeyJournal | null> {
+  const journal = await loadRekeyJournalFromDrive();
+
+  if (!journal) {
+    return null;
+  }
+
+  // keys.json was already switched; only the journal cleanup was missed
+  if (journal.newKeyId === keyring.keyId) {
+    await deleteRekeyJournalFromDrive();
+    return null;
+  }
+
+  if (journal.oldKeyId !== keyring.keyId) {
+    throw new Error('Re-encryption journal belongs to a different vault key');
+  }
+
+  return journal;
+}
+
+/**
+ * Finish an interrupted passphrase change
+ * @param oldKeyring - Keyring unlocked with the current (old) passphrase
+ * @param onProgress - Optional progress callback
+ * @returns Promise<VaultKeyring> - Keyring for the new data key
+ */
+export async function resumeRekey(
+  oldKeyring: VaultKeyring,
+  onProgress?: (progress: RekeyProgress) => void
+): Promise<VaultKeyring> {
+  try {
+    const journal = await requireJournal(oldKeyring);
+
+    if (journal.state === 'rolling-back') {
+      throw new Error('This passphrase change is being rolled back');
+    }
+
+    const newKeyring = await openJournalKey(journal, oldKeyring);
+    broadcastVaultMessage({ type: 'rekey' });
+    return await completeRekey(journal, oldKeyring, newKeyring, onProgress);
+  } catch (error) {
+    throw new Error(`Resuming passphrase change failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Undo an interrupted passphrase change, moving every object back to the old key
+ * @param oldKeyring - Keyring unlocked with the current (old) passphrase
+ * @param onProgress - Optional progress callback
+ * @returns Promise<VaultKeyring> - The old keyring, still valid
+ */
+export async function rollbackRekey(
+  oldKeyring: VaultKeyring,
+  onProgress?: (progress: RekeyProgress) => void
+): Promise<VaultKeyring> {
+  try {
+    const journal = await requireJournal(oldKeyring);
+    const newKeyring = await openJournalKey(journal, oldKeyring);
+    broadcastVaultMessage({ type: 'rekey' });
+
+    if (journal.state !== 'rolling-back') {
+      journal.state = 'rolling-back';
+      journal.objects = journal.objects.map(object => ({ ...object, done: false }));
+      await saveJournal(journal);
+    }
+
+    // Objects never touched by the run may still be legacy passphrase-encrypted
+    const from: VaultKeyring = { ...newKeyring, passphrase: oldKeyring.passphrase };
+    const to: VaultKeyring = { keyId: oldKeyring.keyId, dataKey: oldKeyring.dataKey };
+
+    await processJournal(journal, from, to, 'rolling-back', onProgress);
+    await deleteRekeyJournalFromDrive();
+
+    return oldKeyring;
+  } catch (error) {
+    throw new Error(`Rolling back passphrase change failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Re-encrypt the remaining objects, then switch keys.json to the new key
+ */
+async function completeRekey(
+  journal: RekeyJournal,
+  oldKeyring: VaultKeyring,
+  newKeyring: VaultKeyring,
+  onProgress?: (progress: RekeyProgress) => void
+): Promise<VaultKeyring> {
+  // Objects written since the vault was listed (offline queues replaying, another
+  // device) would be left under the old key: list again until none are found
+  for (let pass = 0; ; pass++) {
+    await processJournal(journal, oldKeyring, newKeyring, 'reencrypting', onProgress);
+
+    if (!(await addUncoveredObjects(journal))) {
+      break;
+    }
+    if (pass + 1 >= MAX_CATCH_UP_PASSES) {
+      throw new Error('Vault files kept changing during the passphrase change. Resume it to try again.');
+    }
+  }
+
+  onProgress?.({ phase: 'committing', completed: journal.objects.length, total: journal.objects.length });
+
+  // Every object is now under the new key and bound, so no legacy data remains
+  await saveKeyFileToDrive({
+    version: KEY_FILE_VERSION,
+    keyId: newKeyring.keyId,
+    keySlots: [journal.newSlot],
+    boundObjects: true,
+  });
+  await enforceBinding(newKeyring);
+  await deleteRekeyJournalFromDrive();
+
+  return newKeyring;
+}
+
+/**
+ * Re-encrypt every journal object not yet marked done, saving the journal periodically
+ */
+async function processJournal(
+  journal: RekeyJournal,
+  from: VaultKeyring,
+  to: VaultKeyring,
+  phase: RekeyProgress['phase'],
+  onProgress?: (progress: RekeyProgress) => void
+): Promise<void> {
+  const total = journal.objects.length;
+  let completed = journal.objects.filter(object => object.done).length;
+  let unsaved = 0;
+
+  onProgress?.({ phase, completed, total });
+
+  for (const object of journal.objects) {
+    if (object.done) {
+      continue;
+    }
+
+    try {
+      object.modifiedTime = await reencryptObjectInDrive(object.fileId, object.name, from, to) ?? object.modifiedTime;
+    } catch (error) {
+      // Deleted since it was listed: nothing left to re-encrypt
+      if (!(error instanceof DriveNotFoundError)) {
+        throw error;
+      }
+    }
+    object.done = true;
+    completed++;
+    unsaved++;
+
+    if (unsaved >= JOURNAL_SAVE_INTERVAL) {
+      await saveJournal(journal);
+      unsaved = 0;
+    }
+
+    onProgress?.({ phase, completed, total });
+  }
+
+  if (unsaved > 0) {
+    await saveJournal(journal);
+  }
+}
+
+/**
+ * List the vault again and queue objects that are new or changed since the run
+ * re-encrypted them
+ * @returns Promise<boolean> - True if any object was queued
+ */
+async function addUncoveredObjects(journal: RekeyJournal): Promise<boolean> {
+  const byFileId = new Map(journal.objects.map(object => [object.fileId, object]));
+  let added = false;
+
+  for (const listed of await listEncryptedObjects()) {
+    const object = byFileId.get(listed.fileId);
+    if (!object) {
+      journal.objects.push({ ...listed, done: false });
+      added = true;
+    } else if (object.modifiedTime !== listed.modifiedTime) {
+      // Re-encrypting checks the key ID, so an object already under the new key is only read
+      object.done = false;
+      object.modifiedTime = listed.modifiedTime;
+      added = true;
+    }
+  }
+
+  if (added) {
+    await saveJournal(journal);
+  }
+  return added;
+}
+
+/**
+ * Load the journal and check it was started from the unlocked key
+ */
+async function requireJournal(oldKeyring: VaultKeyring): Promise<RekeyJournal> {
+  const journal = await loadRekeyJournalFromDrive();
+  if (!journal || journal.oldKeyId !== oldKeyring.keyId) {
+    throw new Error('No unfinished passphrase change for this vault key');
+  }
+  return journal;
+}
+
+/**
+ * Recover the new data key stored in the journal
+ */
+async function openJournalKey(journal: RekeyJournal, oldKeyring: VaultKeyring): Promise<VaultKeyring> {
+  const encryptedKey = decodeEnvelope(new Uint8Array(base64ToArrayBuffer(journal.newKey)));
+  const rawKey = new Uint8Array(await decrypt(encryptedKey, oldKeyring));
+  try {
+    return { keyId: journal.newKeyId, dataKey: await importVaultKey(rawKey, true) };
+  } finally {
+    rawKey.fill(0);
+  }
+}
+
+async function saveJournal(journal: RekeyJournal): Promise<void> {
+  journal.updatedAt = new Date().toISOString();
+  await saveRekeyJournalToDrive(journal);
+}
@@ -1,191 +1,302 @@
 /**
  * Vault Session Management Service
- * Implements secure temporary passphrase storage with automatic expiry
- * 
+ * Keeps the unlocked vault key available for a short time so a page reload
+ * does not ask for the passphrase again
+ *
  * SECURITY NOTES:
- * - Uses sessionStorage which is cleared when the browser tab is closed
- * - Implements automatic expiry after 5 minutes of inactivity
- * - Passphrase is encrypted in memory with a session key
+ * - The passphrase is never stored; only the vault data key is cached
+ * - The data key is kept in IndexedDB as a non-extractable, structured-clone
+ *   CryptoKey; nothing in the record lets a script read or export its raw bytes
+ *   (a wrapping key stored next to it could unwrap the key as extractable)
+ * - A restored key cannot be exported, so adding key slots (a new recovery kit,
+ *   quick unlock) after a reload needs the passphrase or recovery key again
+ * - Expires after the configured idle timeout (5 minutes by default) and never
+ *   outlives the maximum session length; both are recorded with the session so a
+ *   reload cannot extend it
+ * - If IndexedDB is unavailable the session lives in memory only
+ * - Tabs share the stored session; locks, unlocks and activity are synchronized
+ *   through the vault channel so every tab follows the same expiry
  */
 
-import { generateSalt, generateSecureRandom, arrayBufferToBase64, base64ToArrayBuffer } from './crypto';
+import { exportVaultKey, importVaultKey } from './crypto';
+import { VaultKeyring } from '../types';
+import { VaultMessage, broadcastVaultMessage, subscribeVaultMessages } from './vaultChannel';
+import { createLocalStore } from './localStore';
 
-const SESSION_KEY = 'securecardr_vault_session';
-const SESSION_TIMEOUT = 5 * 60 * 1000; // 5 minutes in milliseconds
+const SESSION_DB_NAME = 'securecardr_vault_session';
+const SESSION_STORE = 'session';
+const SESSION_RECORD = 'current';
+const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+// Earlier versions kept the encrypted passphrase and its key here
+const LEGACY_SESSION_KEY = 'securecardr_vault_session';
+
+export interface SessionPolicy {
+  idleTimeout: number | null; // ms without activity; null keeps the session while the page is open
+  maxSessionLength: number | null; // ms since unlock; null for no limit
+}
 
 interface VaultSession {
-  encryptedPassphrase: string;
-  salt: string;
+  dataKey: CryptoKey; // Non-extractable copy of the vault data key
+  keyId: string;
+  unlockedAt: number;
+  policy: SessionPolicy;
   expiresAt: number;
-  sessionKey: string;
 }
 
+const sessionStore = createLocalStore<VaultSession>(SESSION_DB_NAME, SESSION_STORE);
+
 class VaultSessionManager {
-  private sessionKey: CryptoKey | null = null;
+  private keyring: VaultKeyring | null = null;
+  private unlockedAt = 0;
+  private policy: SessionPolicy = { idleTimeout: DEFAULT_IDLE_TIMEOUT, maxSessionLength: null };
+  private expiresAt = 0;
   private timeoutId: NodeJS.Timeout | null = null;
 
+  constructor() {
+    if (typeof sessionStorage !== 'undefined') {
+      sessionStorage.removeItem(LEGACY_SESSION_KEY);
+    }
+    subscribeVaultMessages(message => this.handleMessage(message));
+  }
+
   /**
-   * Initialize the session manager and generate a session key
+   * Set the idle timeout and maximum session length
+   * Applies to the current session immediately.
    */
-  async initialize(): Promise<void> {
-    // Generate a random session key for this browser session
-    this.sessionKey = await crypto.subtle.generateKey(
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt', 'decrypt']
-    );
+  async configure(policy: SessionPolicy): Promise<void> {
+    this.policy = policy;
+    if (!this.keyring) return;
+
+    this.expiresAt = this.computeExpiry();
+    this.resetTimeout();
+
+    try {
+      const session = await readSession();
+      if (session) {
+        await writeSession({ ...session, policy, expiresAt: this.computeExpiry(true) });
+      }
+    } catch (error) {
+      console.error('Failed to update vault session policy:', error);
+    }
   }
 
   /**
-   * Store the passphrase securely in session storage
+   * Cache an unlocked keyring for the session
+   * Legacy keyrings that still need the passphrase are not cached.
+   * @param keyring - Unlocked keyring
+   * @param unlockedAt - When the vault was unlocked (kept when the key changes mid-session)
    */
-  async storePassphrase(passphrase: string): Promise<void> {
-    if (!this.sessionKey) {
-      await this.initialize();
+  async storeKeyring(keyring: VaultKeyring, unlockedAt: number = Date.now()): Promise<void> {
+    if (keyring.passphrase) {
+      await this.clearSession();
+      return;
     }
 
+    this.keyring = keyring;
+    this.unlockedAt = unlockedAt;
+    this.expiresAt = this.computeExpiry();
+    this.resetTimeout();
+
     try {
-      // Generate random salt and IV for session encryption
-      const salt = generateSalt();
-      const iv = generateSecureRandom(12);
-      
-      // Encrypt the passphrase with the session key
-      const encoder = new TextEncoder();
-      const passphraseData = encoder.encode(passphrase);
-      
-      const encryptedData = await crypto.subtle.encrypt(
-        { name: 'AES-GCM', iv },
-        this.sessionKey!,
-        passphraseData
-      );
-
-      // Export session key for storage
-      const exportedKey = await crypto.subtle.exportKey('raw', this.sessionKey!);
-      
-      // Create session object
-      const session: VaultSession = {
-        encryptedPassphrase: arrayBufferToBase64(new Uint8Array([...iv, ...new Uint8Array(encryptedData)])),
-        salt: arrayBufferToBase64(salt),
-        expiresAt: Date.now() + SESSION_TIMEOUT,
-        sessionKey: arrayBufferToBase64(exportedKey)
-      };
-
-      // Store in sessionStorage
-      sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
-      
-      // Set timeout to clear session
-      this.resetTimeout();
+      await writeSession({
+        dataKey: await nonExtractableCopy(keyring.dataKey),
+        keyId: keyring.keyId,
+        unlockedAt,
+        policy: this.policy,
+        expiresAt: this.computeExpiry(true),
+      });
+      broadcastVaultMessage({ type: 'unlock', keyId: keyring.keyId });
     } catch (error) {
+      // The in-memory session still works until the page is reloaded
       console.error('Failed to store vault session:', error);
-      throw error;
     }
   }
 
   /**
-   * Retrieve the passphrase from session storage if valid
+   * Restore the cached keyring if the session has not expired
    */
-  async retrievePassphrase(): Promise<string | null> {
+  async restoreKeyring(): Promise<VaultKeyring | null> {
+    if (this.keyring && Date.now() < this.expiresAt) {
+      await this.extendSession();
+      return this.keyring;
+    }
+
     try {
-      const sessionData = sessionStorage.getItem(SESSION_KEY);
-      if (!sessionData) return null;
-
-      const session: VaultSession = JSON.parse(sessionData);
-      
-      // Check if session has expired
-      if (Date.now() > session.expiresAt) {
-        this.clearSession();
+      const session = await readSession();
+      if (!session) return null;
+
+      // Check if session has expired (sessions stored by earlier versions held a wrapped key)
+      if (Date.now() > session.expiresAt || !session.dataKey || session.dataKey.extractable) {
+        await this.clearSession();
         return null;
       }
 
-      // Import the session key
-      const keyData = base64ToArrayBuffer(session.sessionKey);
-      this.sessionKey = await crypto.subtle.importKey(
-        'raw',
-        keyData,
-        { name: 'AES-GCM', length: 256 },
-        true,
-        ['decrypt']
-      );
-
-      // Decrypt the passphrase
-      const encryptedData = base64ToArrayBuffer(session.encryptedPassphrase);
-      const iv = encryptedData.slice(0, 12);
-      const ciphertext = encryptedData.slice(12);
-
-      const decryptedData = await crypto.subtle.decrypt(
-        { name: 'AES-GCM', iv },
-        this.sessionKey,
-        ciphertext
-      );
-
-      const decoder = new TextDecoder();
-      const passphrase = decoder.decode(decryptedData);
+      this.keyring = { keyId: session.keyId, dataKey: session.dataKey };
+      this.unlockedAt = session.unlockedAt;
+      this.policy = session.policy;
 
       // Extend session timeout on successful retrieval
-      this.extendSession();
-      
-      return passphrase;
+      await this.extendSession();
+
+      return this.keyring;
     } catch (error) {
-      console.error('Failed to retrieve vault session:', error);
-      this.clearSession();
+      console.error('Failed to restore vault session:', error);
+      await this.clearSession();
       return null;
     }
   }
 
   /**
-   * Extend the session timeout
+   * Extend the session timeout after user activity
    */
-  extendSession(): void {
-    const sessionData = sessionStorage.getItem(SESSION_KEY);
-    if (!sessionData) return;
-
-    const session: VaultSession = JSON.parse(sessionData);
-    session.expiresAt = Date.now() + SESSION_TIMEOUT;
-    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
-    
+  async extendSession(): Promise<void> {
+    if (!this.keyring) return;
+
+    this.expiresAt = this.computeExpiry();
     this.resetTimeout();
+
+    try {
+      const session = await readSession();
+      if (session) {
+        await writeSession({ ...session, expiresAt: this.computeExpiry(true) });
+      }
+    } catch (error) {
+      console.error('Failed to extend vault session:', error);
+    }
   }
 
   /**
    * Clear the vault session
    */
-  clearSession(): void {
-    sessionStorage.removeItem(SESSION_KEY);
-    this.sessionKey = null;
+  async clearSession(): Promise<void> {
+    this.forget();
+
+    try {
+      await deleteSession();
+    } catch (error) {
+      console.error('Failed to clear vault session:', error);
+    }
+  }
+
+  /**
+   * Drop the in-memory session, leaving the stored copy alone
+   */
+  private forget(): void {
+    this.keyring = null;
+    this.unlockedAt = 0;
+    this.expiresAt = 0;
     if (this.timeoutId) {
       clearTimeout(this.timeoutId);
       this.timeoutId = null;
     }
   }
 
+  /**
+   * Follow session changes made by other tabs
+   */
+  private handleMessage(message: VaultMessage): void {
+    switch (message.type) {
+      case 'lock':
+      case 'signed-out':
+      case 'vault-deleted':
+        // The sending tab already removed the stored session
+        this.forget();
+        break;
+      case 'unlock':
+        // A new key was stored; read it from IndexedDB on the next restore
+        if (this.keyring?.keyId !== message.keyId) {
+          this.forget();
+        }
+        break;
+      case 'activity':
+        if (this.keyring) {
+          this.expiresAt = this.computeExpiry();
+          this.resetTimeout();
+        }
+        break;
+    }
+  }
+
+  /**
+   * When the vault was unlocked, or null without a session
+   */
+  getUnlockedAt(): number | null {
+    return this.keyring ? this.unlockedAt : null;
+  }
+
+  /**
+   * Expiry from now under the current policy
+   * @param persisted - Expiry of the stored copy, which always has an idle timeout
+   */
+  private computeExpiry(persisted = false): number {
+    const { maxSessionLength } = this.policy;
+    const idleTimeout = this.policy.idleTimeout ?? (persisted ? DEFAULT_IDLE_TIMEOUT : null);
+    const idleExpiry = idleTimeout === null ? Infinity : Date.now() + idleTimeout;
+    const maxExpiry = maxSessionLength === null ? Infinity : this.unlockedAt + maxSessionLength;
+    return Math.min(idleExpiry, maxExpiry);
+  }
+
   /**
    * Reset the automatic timeout
    */
   private resetTimeout(): void {
     if (this.timeoutId) {
       clearTimeout(this.timeoutId);
+      this.timeoutId = null;
     }
 
+    if (this.expiresAt === Infinity) return;
+
     this.timeoutId = setTimeout(() => {
       this.clearSession();
-    }, SESSION_TIMEOUT);
+    }, Math.max(0, this.expiresAt - Date.now()));
   }
 
   /**
    * Check if a valid session exists
    */
-  hasValidSession(): boolean {
-    const sessionData = sessionStorage.getItem(SESSION_KEY);
-    if (!sessionData) return false;
+  async hasValidSession(): Promise<boolean> {
+    if (this.keyring && Date.now() < this.expiresAt) {
+      return true;
+    }
 
     try {
-      const session: VaultSession = JSON.parse(sessionData);
-      return Date.now() < session.expiresAt;
+      const session = await readSession();
+      return !!session && Date.now() < session.expiresAt;
     } catch {
       return false;
     }
   }
 }
 
+/**
+ * Copy a data key so the copy cannot be exported
+ */
+async function nonExtractableCopy(key: CryptoKey): Promise<CryptoKey> {
+  if (!key.extractable) {
+    return key;
+  }
+
+  const rawKey = await exportVaultKey(key);
+  try {
+    return await importVaultKey(rawKey);
+  } finally {
+    rawKey.fill(0);
+  }
+}
+
+async function readSession(): Promise<VaultSession | null> {
+  return sessionStore.get(SESSION_RECORD);
+}
+
+async function writeSession(session: VaultSession): Promise<void> {
+  await sessionStore.put(SESSION_RECORD, session);
+}
+
+async function deleteSession(): Promise<void> {
+  await sessionStore.delete(SESSION_RECORD);
+}
+
 // Export singleton instance
-export const vaultSession = new VaultSessionManager();
\ No newline at end of file
+export const vaultSession = new VaultSessionManager();
@@ -5,7 +5,8 @@
 
 export interface CardImage {
   id: string;
-  url: string; // Data URL or Drive URL
+  url?: string; // Where the image is stored: drive://<file ID>, or an inline data URL in the card file
+  blob?: Blob; // Decrypted image, held in memory only and never stored
   name: string;
   size: number;
   type: string;
@@ -21,23 +22,137 @@ export interface Card {
   expiryDate?: string;
   issueDate?: string;
   cvv?: string;
+  pin?: string;
   cardholderName?: string;
   notes?: string;
   images: CardImage[]; // Multiple images support
-  imageUrl?: string; // Deprecated - kept for backward compatibility
+  imageUrl?: string; // drive://<file ID> of the first image's encrypted object
   last4?: string;
   addedAt: Date;
   updatedAt: Date;
   driveFileId?: string; // Google Drive file ID for persistence
 }
 
-export interface EncryptedData {
+// Key derivation function parameters recorded alongside encrypted data
+export interface Pbkdf2Params {
+  algorithm: 'pbkdf2-sha256';
+  iterations: number;
+}
+
+export interface Argon2idParams {
+  algorithm: 'argon2id';
+  memoryKiB: number; // Memory cost in KiB
+  iterations: number; // Time cost (passes over memory)
+  parallelism: number; // Lanes
+}
+
+export type KdfParams = Pbkdf2Params | Argon2idParams;
+
+// Legacy envelope stored as JSON; still read, no longer written
+export interface EncryptedDataV1 {
+  version?: 1;
   iv: string; // Base64 encoded initialization vector
   salt: string; // Base64 encoded salt
   ciphertext: string; // Base64 encoded encrypted data
   authTag: string; // Base64 encoded authentication tag
+  kdf?: KdfParams; // Absent on legacy data (PBKDF2-SHA256, 100k iterations)
+  keyId?: string; // Set when encrypted with the vault data key instead of the passphrase
+}
+
+// Self-describing envelope stored in a compact binary form (see services/envelope.ts)
+export interface EncryptedDataV2 {
+  version: 2;
+  cipher: 'aes-256-gcm';
+  kdf: KdfParams | null; // Null when encrypted with the vault data key
+  keyId?: string; // Vault data key ID, when kdf is null
+  compression?: 'gzip'; // Plaintext was compressed before encryption
+  bound?: boolean; // Authenticated with its ObjectBinding as associated data
+  salt: Uint8Array; // Empty when kdf is null
+  iv: Uint8Array;
+  ciphertext: Uint8Array; // Includes the GCM authentication tag
+}
+
+export type EncryptedData = EncryptedDataV1 | EncryptedDataV2;
+
+// Identity an encrypted object is bound to, so it cannot be swapped with another object
+export interface ObjectBinding {
+  type: 'card' | 'image' | 'thumbnail' | 'index' | 'prefs' | 'manifest';
+  id?: string; // Card ID for card, image and thumbnail objects
+}
+
+// One card tracked by the vault manifest
+export interface ManifestEntry {
+  id: string; // Card ID
+  version: number; // Incremented on every write of the card
+  hash: string; // SHA-256 of the card's plaintext (hex)
+  imageHash?: string; // SHA-256 of the card image's plaintext (hex)
+  updatedAt: string;
+}
+
+// Encrypted list of every card, stored in the Drive metadata folder
+export interface VaultManifest {
+  version: number; // Manifest format version
+  sequence: number; // Incremented on every manifest write
+  updatedAt: string;
+  entries: Record<string, ManifestEntry>;
+  boundObjects?: boolean; // Every object is bound to its identity; never cleared once set
+}
+
+// Per-vault settings stored unencrypted in the Drive config folder
+export interface VaultConfig {
+  version: number;
+  kdf: KdfParams; // KDF used for newly written data
+  createdAt: string;
 }
 
+// A copy of the vault data key wrapped by a key derived from one secret
+export interface KeySlot {
+  id: string;
+  type: 'passphrase' | 'recovery';
+  kdf: KdfParams;
+  salt: string; // Base64 encoded salt
+  iv: string; // Base64 encoded IV
+  wrappedKey: string; // Base64 encoded AES-GCM encrypted raw data key
+  keyFileCheck?: string; // Set when the slot also needs a key file; recognises the right file
+  createdAt: string;
+}
+
+// Key file stored in the Drive config folder
+export interface VaultKeyFile {
+  version: number;
+  keyId: string; // Identifies the data key wrapped by every slot
+  keySlots: KeySlot[];
+  legacyData?: boolean; // True while objects encrypted directly from the passphrase remain
+  boundObjects?: boolean; // True once every object is bound to its identity; unbound ones are then rejected
+}
+
+// Progress journal for whole-vault re-encryption under a new data key
+export interface RekeyJournal {
+  version: number;
+  state: 'in-progress' | 'rolling-back';
+  oldKeyId: string;
+  newKeyId: string;
+  newKey: string; // Base64 envelope of the raw new data key, encrypted with the old data key
+  newSlot: KeySlot; // Passphrase slot for the new data key
+  objects: Array<{ fileId: string; name: string; done: boolean; modifiedTime?: string }>; // Modified time once under the target key
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Unlocked vault keys held in memory for the session.
+ * The passphrase is only kept while legacy passphrase-encrypted objects remain.
+ */
+export interface VaultKeyring {
+  keyId: string;
+  dataKey: CryptoKey;
+  passphrase?: string;
+  derivedKeys?: Map<string, Promise<CryptoKey>>; // Passphrase-derived keys for legacy objects, by salt and KDF
+}
+
+// Anything that can decrypt vault objects: a keyring, or a bare passphrase for legacy data
+export type VaultSecret = string | VaultKeyring;
+
 export interface UserProfile {
   uid: string;
   email: string;
@@ -47,10 +162,28 @@ export interface UserProfile {
   folderCreated: boolean;
 }
 
+// Card fields that can require a fresh passphrase or PIN before they are shown or copied
+export type SensitiveField = 'number' | 'cvv' | 'pin';
+
+export interface RevealPolicy {
+  protectedFields: SensitiveField[];
+  verificationWindow: number; // seconds a passphrase or PIN check covers further reveals
+  autoMaskTime: number; // seconds before a revealed value is masked again
+}
+
 export interface AppSettings {
   theme: 'light' | 'dark' | 'system';
   autoLock: boolean;
-  autoLockTime: number; // minutes
+  autoLockTime: number; // minutes without input before locking
+  lockWhenHidden: boolean;
+  lockWhenHiddenTime: number; // seconds the tab may stay hidden
+  lockOnSleep: boolean; // lock when the device sleeps or resumes
+  maxSessionLength: boolean;
+  maxSessionTime: number; // minutes from unlock, regardless of activity
+  quickUnlockTime: number; // hours a quick unlock PIN stays valid
+  revealPolicies: Record<Card['category'], RevealPolicy>;
+  clipboardClearTime: number; // seconds before copied card data is cleared from the clipboard
+  allowCvvCopy: boolean;
   encryptMetadata: boolean;
   showTutorial: boolean;
 }
@@ -72,6 +205,7 @@ export interface CardFormData {
   expiryDate: string;
   issueDate: string;
   cvv: string;
+  pin: string;
   cardholderName: string;
   notes: string;
   images?: File[]; // Multiple images support
@@ -59,16 +59,10 @@ export function cardNeedsMigration(card: Card): boolean {
 }
 
 /**
- * Gets the primary image for a card (for backward compatibility)
+ * Gets the primary image for a card (the one stored in its own encrypted object)
  */
-export function getCardPrimaryImage(card: Card): string | undefined {
-  // If card has images array, return the first one
-  if (card.images && card.images.length > 0) {
-    return card.images[0].url;
-  }
-
-  // Fall back to legacy imageUrl
-  return card.imageUrl;
+export function getCardPrimaryImage(card: Card): CardImage | undefined {
+  return getCardImages(card)[0];
 }
 
 /**
@@ -104,7 +98,7 @@ export function getCardImages(card: Card): CardImage[] {
 export function filesToCardImages(files: File[]): CardImage[] {
   return files.map(file => ({
     id: `temp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    url: URL.createObjectURL(file),
+    blob: file,
     name: file.name,
     size: file.size,
     type: file.type,
@@ -112,24 +106,13 @@ export function filesToCardImages(files: File[]): CardImage[] {
   }));
 }
 
-/**
- * Cleans up blob URLs from CardImage objects
- */
-export function cleanupCardImageUrls(images: CardImage[]): void {
-  images.forEach(image => {
-    if (image.url.startsWith('blob:')) {
-      URL.revokeObjectURL(image.url);
-    }
-  });
-}
-
 /**
  * Validates CardImage objects
  */
 export function validateCardImage(image: CardImage): boolean {
   return !!(
     image.id &&
-    image.url &&
+    (image.url || image.blob) &&
     image.name &&
     typeof image.size === 'number' &&
     image.type &&
@@ -320,6 +320,11 @@ export function validateCardData(data: CardFormData): ValidationResult {
     }
   }
   
+  // PIN validation
+  if (data.pin && !/^\d{4,12}$/.test(data.pin.trim())) {
+    errors.pin = 'PIN must be 4-12 digits';
+  }
+  
   // Notes validation
   if (data.notes && data.notes.length > 500) {
     errors.notes = 'Notes must be 500 characters or less';
@@ -342,6 +347,7 @@ export function sanitizeCardData(data: CardFormData): CardFormData {
     expiryDate: data.expiryDate ? data.expiryDate.trim() : '',
     issueDate: data.issueDate ? data.issueDate.trim() : '',
     cvv: data.cvv ? data.cvv.trim() : '',
+    pin: data.pin ? data.pin.trim() : '',
     cardholderName: data.cardholderName ? data.cardholderName.trim().slice(0, 100) : '',
     notes: data.notes ? data.notes.trim().slice(0, 500) : '',
     image: data.image,
@@ -509,6 +515,7 @@ export function createCardFromFormData(
     expiryDate: sanitized.expiryDate || undefined,
     issueDate: sanitized.issueDate || undefined,
     cvv: sanitized.cvv || undefined,
+    pin: sanitized.pin || undefined,
     cardholderName: sanitized.cardholderName || undefined,
     notes: sanitized.notes || undefined,
     last4: sanitized.number ? generateLast4(sanitized.number) : undefined,
@@ -534,6 +541,7 @@ export function updateCardFromFormData(
     expiryDate: sanitized.expiryDate || undefined,
     issueDate: sanitized.issueDate || undefined,
     cvv: sanitized.cvv || undefined,
+    pin: sanitized.pin || undefined,
     cardholderName: sanitized.cardholderName || undefined,
     notes: sanitized.notes || undefined,
     last4: sanitized.number ? generateLast4(sanitized.number) : undefined,
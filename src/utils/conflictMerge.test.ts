@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Card } from '../types';
+import { applyMergeChoices, cardMergeFields, preferenceMergeFields } from './conflictMerge';
+
+const base: Card = {
+  id: 'card-1',
+  category: 'credit',
+  nickname: 'Travel',
+  number: '4111111111111111',
+  last4: '1111',
+  expiryDate: '12/30',
+  cvv: '123',
+  notes: 'Main card',
+  images: [],
+  addedAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+};
+
+const edit = (changes: Partial<Card>): Card => ({ ...base, ...changes });
+
+describe('cardMergeFields', () => {
+  it('lists nothing for identical edits', () => {
+    expect(cardMergeFields(edit({ nickname: 'Holidays' }), edit({ nickname: 'Holidays' }))).toEqual([]);
+  });
+
+  it('lists each side of edits to different fields', () => {
+    const fields = cardMergeFields(edit({ nickname: 'Holidays' }), edit({ notes: 'Backup card' }));
+
+    expect(fields.map(field => field.key)).toEqual(['nickname', 'notes']);
+    expect(fields[0]).toMatchObject({ mine: 'Holidays', theirs: 'Travel' });
+    expect(fields[1]).toMatchObject({ mine: 'Main card', theirs: 'Backup card' });
+  });
+
+  it('lists a field both sides changed once, with both values', () => {
+    const fields = cardMergeFields(edit({ nickname: 'Mine' }), edit({ nickname: 'Theirs' }));
+    expect(fields).toEqual([{ key: 'nickname', label: 'Nickname', keys: ['nickname'], mine: 'Mine', theirs: 'Theirs' }]);
+  });
+
+  it('masks secrets and marks differing ones that look alike', () => {
+    const [cvv] = cardMergeFields(edit({ cvv: '123' }), edit({ cvv: '456' }));
+    const [number] = cardMergeFields(edit({}), edit({ number: '5500000000001111', last4: '1111' }));
+
+    expect(cvv).toMatchObject({ mine: '•••', theirs: '••• (different)' });
+    expect(number).toMatchObject({ keys: ['number', 'last4'], mine: '••• 1111', theirs: '••• 1111 (different)' });
+  });
+
+  it('lists a field removed on one side', () => {
+    const [cvv] = cardMergeFields(edit({ cvv: undefined }), edit({}));
+    expect(cvv).toMatchObject({ key: 'cvv', mine: '', theirs: '•••' });
+  });
+});
+
+describe('preferenceMergeFields', () => {
+  it('lists nothing for identical settings', () => {
+    expect(preferenceMergeFields({ theme: 'dark', autoLock: 5 }, { autoLock: 5, theme: 'dark' })).toEqual([]);
+  });
+
+  it('lists each changed setting under a readable label', () => {
+    const fields = preferenceMergeFields({ theme: 'dark', autoLockMinutes: 5 }, { theme: 'light', autoLockMinutes: 5 });
+    expect(fields).toEqual([{ key: 'theme', label: 'Theme', keys: ['theme'], mine: '"dark"', theirs: '"light"' }]);
+  });
+
+  it('lists settings only one side has', () => {
+    const fields = preferenceMergeFields({ theme: 'dark' }, { theme: 'dark', compactView: true });
+    expect(fields).toEqual([{ key: 'compactView', label: 'Compact View', keys: ['compactView'], mine: '', theirs: 'true' }]);
+  });
+});
+
+describe('applyMergeChoices', () => {
+  it('combines non-overlapping edits field by field', () => {
+    const mine = edit({ nickname: 'Holidays' });
+    const theirs = edit({ notes: 'Backup card' });
+    const fields = cardMergeFields(mine, theirs);
+
+    const merged = applyMergeChoices(mine, theirs, fields, { nickname: 'mine', notes: 'theirs' });
+    expect(merged).toEqual(edit({ nickname: 'Holidays', notes: 'Backup card' }));
+  });
+
+  it('keeps this device’s value unless theirs is chosen', () => {
+    const mine = edit({ nickname: 'Mine' });
+    const theirs = edit({ nickname: 'Theirs' });
+    const fields = cardMergeFields(mine, theirs);
+
+    expect(applyMergeChoices(mine, theirs, fields, {}).nickname).toBe('Mine');
+    expect(applyMergeChoices(mine, theirs, fields, { nickname: 'theirs' }).nickname).toBe('Theirs');
+  });
+
+  it('takes grouped properties together', () => {
+    const mine = edit({});
+    const theirs = edit({ number: '5500000000004444', last4: '4444' });
+
+    const merged = applyMergeChoices(mine, theirs, cardMergeFields(mine, theirs), { number: 'theirs' });
+    expect(merged).toMatchObject({ number: '5500000000004444', last4: '4444' });
+  });
+
+  it('removes a field deleted on the side that was chosen', () => {
+    const mine = edit({ notes: 'Edited here' });
+    const { notes: _notes, ...withoutNotes } = base;
+    const theirs: Card = withoutNotes;
+    const fields = cardMergeFields(mine, theirs);
+
+    expect('notes' in applyMergeChoices(mine, theirs, fields, { notes: 'theirs' })).toBe(false);
+    expect(applyMergeChoices(mine, theirs, fields, { notes: 'mine' }).notes).toBe('Edited here');
+  });
+
+  it('leaves both inputs unchanged', () => {
+    const mine = { theme: 'dark' };
+    const theirs = { theme: 'light' };
+    applyMergeChoices(mine, theirs, preferenceMergeFields(mine, theirs), { theme: 'theirs' });
+
+    expect(mine).toEqual({ theme: 'dark' });
+    expect(theirs).toEqual({ theme: 'light' });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Field-level merging of a card or the preferences when two devices changed them
+ */
+
+import { Card } from '../types';
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export interface MergeField {
+  key: string;
+  label: string;
+  keys: string[]; // Properties taken together from the chosen side
+  mine: string; // Display values; sensitive fields are masked
+  theirs: string;
+}
+
+type FieldValues = Record<string, unknown>;
+
+const MASK = '•••';
+
+interface CardFieldGroup {
+  key: string;
+  label: string;
+  keys: Array<keyof Card>;
+  display: (card: Card) => string;
+}
+
+const CARD_FIELDS: CardFieldGroup[] = [
+  { key: 'nickname', label: 'Nickname', keys: ['nickname'], display: card => card.nickname },
+  { key: 'category', label: 'Category', keys: ['category'], display: card => card.category },
+  { key: 'cardholderName', label: 'Cardholder name', keys: ['cardholderName'], display: card => card.cardholderName ?? '' },
+  // The number is never shown in full here; last4 follows it
+  {
+    key: 'number',
+    label: 'Card number',
+    keys: ['number', 'last4'],
+    display: card => (card.number ? `${MASK} ${card.number.slice(-4)}` : ''),
+  },
+  { key: 'expiryDate', label: 'Expiry date', keys: ['expiryDate'], display: card => card.expiryDate ?? '' },
+  { key: 'issueDate', label: 'Issue date', keys: ['issueDate'], display: card => card.issueDate ?? '' },
+  { key: 'cvv', label: 'CVV', keys: ['cvv'], display: card => (card.cvv ? MASK : '') },
+  { key: 'pin', label: 'PIN', keys: ['pin'], display: card => (card.pin ? MASK : '') },
+  { key: 'notes', label: 'Notes', keys: ['notes'], display: card => card.notes ?? '' },
+  {
+    key: 'images',
+    label: 'Images',
+    keys: ['images', 'imageUrl'],
+    display: card => {
+      const count = card.images?.length ?? (card.imageUrl ? 1 : 0);
+      return count > 0 ? `${count} image${count === 1 ? '' : 's'}` : '';
+    },
+  },
+];
+
+function sameValues(mine: FieldValues, theirs: FieldValues, keys: string[]): boolean {
+  return keys.every(key => JSON.stringify(mine[key]) === JSON.stringify(theirs[key]));
+}
+
+/**
+ * Card fields that differ between two versions
+ */
+export function cardMergeFields(mine: Card, theirs: Card): MergeField[] {
+  return CARD_FIELDS
+    .filter(field => !sameValues(mine as unknown as FieldValues, theirs as unknown as FieldValues, field.keys))
+    .map(field => {
+      const mineValue = field.display(mine);
+      const theirsValue = field.display(theirs);
+      return {
+        key: field.key,
+        label: field.label,
+        keys: field.keys,
+        mine: mineValue,
+        // Differing secrets can look alike once masked
+        theirs: theirsValue && theirsValue === mineValue ? `${theirsValue} (different)` : theirsValue,
+      };
+    });
+}
+
+/**
+ * Preferences that differ between two versions, one field per setting
+ */
+export function preferenceMergeFields(mine: FieldValues, theirs: FieldValues): MergeField[] {
+  const keys = [...new Set([...Object.keys(mine), ...Object.keys(theirs)])];
+  const display = (value: unknown): string => {
+    if (value === undefined) return '';
+    const text = JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  };
+
+  return keys
+    .filter(key => !sameValues(mine, theirs, [key]))
+    .map(key => ({
+      key,
+      // camelCase setting names read as words
+      label: key.replace(/([A-Z])/g, ' $1').replace(/^./, first => first.toUpperCase()),
+      keys: [key],
+      mine: display(mine[key]),
+      theirs: display(theirs[key]),
+    }));
+}
+
+/**
+ * Build the merged version: this device's, with the fields chosen from theirs
+ */
+export function applyMergeChoices<T extends object>(
+  mine: T,
+  theirs: T,
+  fields: MergeField[],
+  choices: Record<string, MergeChoice>
+): T {
+  const merged: FieldValues = { ...mine as FieldValues };
+  const other = theirs as FieldValues;
+
+  for (const field of fields) {
+    if (choices[field.key] !== 'theirs') continue;
+    for (const key of field.keys) {
+      if (key in other) {
+        merged[key] = other[key];
+      } else {
+        delete merged[key];
+      }
+    }
+  }
+
+  return merged as T;
+}
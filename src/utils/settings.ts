@@ -0,0 +1,97 @@
+/**
+ * App settings defaults and normalization
+ * Settings are stored inside the encrypted preferences file on Drive
+ */
+
+import { AppSettings, RevealPolicy, SensitiveField } from '../types';
+import { CARD_CATEGORIES, CardCategory } from './cardCategories';
+
+export const SENSITIVE_FIELDS: SensitiveField[] = ['number', 'cvv', 'pin'];
+
+// Payment cards ask again for anything that could be used to pay; ID numbers are protected too
+export const DEFAULT_REVEAL_POLICIES: Record<CardCategory, RevealPolicy> = {
+  credit: { protectedFields: ['number', 'cvv', 'pin'], verificationWindow: 120, autoMaskTime: 30 },
+  debit: { protectedFields: ['number', 'cvv', 'pin'], verificationWindow: 120, autoMaskTime: 30 },
+  loyalty: { protectedFields: [], verificationWindow: 120, autoMaskTime: 60 },
+  id: { protectedFields: ['number'], verificationWindow: 120, autoMaskTime: 60 },
+  other: { protectedFields: ['pin'], verificationWindow: 120, autoMaskTime: 60 },
+};
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  theme: 'dark',
+  autoLock: true,
+  autoLockTime: 5,
+  lockWhenHidden: false,
+  lockWhenHiddenTime: 60,
+  lockOnSleep: true,
+  maxSessionLength: false,
+  maxSessionTime: 8 * 60,
+  quickUnlockTime: 12,
+  revealPolicies: DEFAULT_REVEAL_POLICIES,
+  clipboardClearTime: 30,
+  allowCvvCopy: true,
+  encryptMetadata: true,
+  showTutorial: true,
+};
+
+/**
+ * Read settings from a decrypted preferences object
+ * Missing or invalid values fall back to the defaults.
+ */
+export function settingsFromPreferences(preferences: unknown): AppSettings {
+  const stored = (preferences && typeof preferences === 'object' ? preferences : {}) as Partial<AppSettings>;
+  const settings: AppSettings = { ...DEFAULT_APP_SETTINGS };
+  const assign = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    settings[key] = value;
+  };
+
+  for (const key of Object.keys(DEFAULT_APP_SETTINGS) as Array<keyof AppSettings>) {
+    const value = stored[key];
+    if (value !== undefined && typeof value === typeof DEFAULT_APP_SETTINGS[key]) {
+      assign(key, value);
+    }
+  }
+
+  // Durations must be positive (a hidden tab may lock immediately)
+  for (const key of ['autoLockTime', 'maxSessionTime', 'quickUnlockTime', 'clipboardClearTime'] as const) {
+    if (!(settings[key] > 0)) {
+      settings[key] = DEFAULT_APP_SETTINGS[key];
+    }
+  }
+  if (!(settings.lockWhenHiddenTime >= 0)) {
+    settings.lockWhenHiddenTime = DEFAULT_APP_SETTINGS.lockWhenHiddenTime;
+  }
+
+  settings.revealPolicies = revealPoliciesFromPreferences(stored.revealPolicies);
+
+  return settings;
+}
+
+/**
+ * Read reveal policies, falling back to the default for each invalid category
+ */
+function revealPoliciesFromPreferences(stored: unknown): Record<CardCategory, RevealPolicy> {
+  const policies = { ...DEFAULT_REVEAL_POLICIES };
+  if (!stored || typeof stored !== 'object') {
+    return policies;
+  }
+
+  for (const category of Object.keys(CARD_CATEGORIES) as CardCategory[]) {
+    const policy = (stored as Record<string, Partial<RevealPolicy>>)[category];
+    if (
+      policy &&
+      Array.isArray(policy.protectedFields) &&
+      policy.protectedFields.every(field => SENSITIVE_FIELDS.includes(field)) &&
+      typeof policy.verificationWindow === 'number' && policy.verificationWindow >= 0 &&
+      typeof policy.autoMaskTime === 'number' && policy.autoMaskTime > 0
+    ) {
+      policies[category] = {
+        protectedFields: policy.protectedFields,
+        verificationWindow: policy.verificationWindow,
+        autoMaskTime: policy.autoMaskTime,
+      };
+    }
+  }
+
+  return policies;
+}
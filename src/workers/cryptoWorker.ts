@@ -0,0 +1,57 @@
+/**
+ * Crypto Worker
+ * Executes tasks from the crypto worker pool (see services/cryptoPool.ts)
+ *
+ * Inside a worker the crypto.ts functions run locally, so this only unpacks
+ * requests, calls them and posts the results (or errors) back.
+ */
+
+import { deriveKey, encrypt, decrypt, TamperError } from '../services/crypto';
+import type {
+  CryptoTask,
+  CryptoTaskResults,
+  CryptoWorkerRequest,
+  CryptoWorkerResponse,
+  SerializedError,
+} from '../services/cryptoPool';
+
+/**
+ * Run one task and list the buffers that can be moved back instead of copied
+ */
+async function runTask(task: CryptoTask): Promise<{ result: CryptoTaskResults[CryptoTask['type']]; transfer: Transferable[] }> {
+  switch (task.type) {
+    case 'derive-key':
+      return { result: await deriveKey(task.passphrase, task.salt, task.kdf, task.keyFileHash), transfer: [] };
+    case 'encrypt': {
+      const encrypted = await encrypt(task.data, task.secret, task.options);
+      return { result: encrypted, transfer: [encrypted.ciphertext.buffer] };
+    }
+    case 'decrypt': {
+      const decrypted = await decrypt(task.encryptedData, task.secret, task.binding);
+      return { result: decrypted, transfer: [decrypted] };
+    }
+  }
+}
+
+function serializeError(error: unknown): SerializedError {
+  if (error instanceof TamperError) {
+    return { name: error.name, message: error.message, binding: error.binding };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: 'Unknown error' };
+}
+
+self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
+  const { id, task } = event.data;
+
+  try {
+    const { result, transfer } = await runTask(task);
+    const response: CryptoWorkerResponse = { id, result };
+    self.postMessage(response, { transfer });
+  } catch (error) {
+    const response: CryptoWorkerResponse = { id, error: serializeError(error) };
+    self.postMessage(response);
+  }
+};
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    // Matches the module type the crypto pool starts its workers with
+    format: 'es'
+  },
   server: {
     port: 3000,
     host: true,